@@ -4,11 +4,18 @@
  * Multi-agent memory management and transcript recording
  */
 
-import { readFileSync, existsSync, mkdirSync } from 'fs';
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
 import { homedir } from 'os';
 import { join, dirname } from 'path';
 import { MemoryManager } from './memory/MemoryManager.js';
 import type { Transcript, TranscriptMessage } from './memory/types.js';
+import {
+  GRAPH_EXPORT_FORMATS,
+  exportGraph,
+  graphExportFilterFromParams,
+  isGraphExportFormat,
+  type GraphExportFormat,
+} from './memory/GraphExporter.js';
 import {
   loadApiKeysFromFile,
   saveApiKeysToFile,
@@ -241,6 +248,44 @@ async function saveViaSqlite(sessionId: string, transcript: Transcript): Promise
   }
 }
 
+/**
+ * Print packed memory context for a query (used by session start hooks).
+ * Only the context is written to stdout so the output can be injected as-is.
+ */
+async function printContext(query: string, maxTokens?: number): Promise<void> {
+  const memoryManager = new MemoryManager({ dataPath: DATA_PATH });
+
+  try {
+    await memoryManager.ready();
+    const packed = memoryManager.packContext(query, { tokenBudget: maxTokens });
+    if (packed.text) {
+      process.stdout.write(packed.text + '\n');
+    }
+  } finally {
+    memoryManager.close();
+  }
+}
+
+/**
+ * Export the knowledge graph, to stdout or a file
+ */
+async function graphExport(format: GraphExportFormat, filterParams: URLSearchParams, output?: string): Promise<void> {
+  const memoryManager = new MemoryManager({ dataPath: DATA_PATH });
+
+  try {
+    await memoryManager.ready();
+    const text = exportGraph(memoryManager.semantic.getGraph(), format, graphExportFilterFromParams(filterParams));
+    if (output) {
+      writeFileSync(output, text);
+      console.log(`Knowledge graph written to ${output}`);
+    } else {
+      process.stdout.write(text);
+    }
+  } finally {
+    memoryManager.close();
+  }
+}
+
 /**
  * Main save-transcript command
  */
@@ -276,6 +321,12 @@ interface ParsedArgs {
   level?: PermissionLevel;
   managerId?: string;
   description?: string;
+  query?: string;
+  maxTokens?: number;
+  format?: string;
+  output?: string;
+  /** Graph export filters (type, tag, min_strength) */
+  graphFilter: URLSearchParams;
 }
 
 /**
@@ -285,10 +336,11 @@ function parseArgs(): ParsedArgs {
   const args = process.argv.slice(2);
   const result: ParsedArgs = {
     command: args[0] || 'help',
+    graphFilter: new URLSearchParams(),
   };
 
   // Check for subcommand (e.g., "team create")
-  if (['team', 'agent', 'apikey'].includes(result.command) && args[1] && !args[1].startsWith('--')) {
+  if (['team', 'agent', 'apikey', 'graph'].includes(result.command) && args[1] && !args[1].startsWith('--')) {
     result.subcommand = args[1];
   }
 
@@ -318,6 +370,27 @@ function parseArgs(): ParsedArgs {
       case '--description':
         if (nextArg) result.description = args[++i];
         break;
+      case '--query':
+        if (nextArg) result.query = args[++i];
+        break;
+      case '--max-tokens':
+        if (nextArg) result.maxTokens = Number(args[++i]);
+        break;
+      case '--format':
+        if (nextArg) result.format = args[++i];
+        break;
+      case '--output':
+        if (nextArg) result.output = args[++i];
+        break;
+      case '--type':
+        if (nextArg) result.graphFilter.append('type', args[++i]);
+        break;
+      case '--tag':
+        if (nextArg) result.graphFilter.append('tag', args[++i]);
+        break;
+      case '--min-strength':
+        if (nextArg) result.graphFilter.set('min_strength', args[++i]);
+        break;
     }
   }
 
@@ -641,6 +714,7 @@ Usage:
 
 Commands:
   save-transcript      Save a Claude Code transcript to cc-memory
+  context              Print memories relevant to a query, packed into a token budget
   team create          Create a new team
   team list            List all teams
   team show            Show team details
@@ -648,11 +722,16 @@ Commands:
   agent remove         Remove an agent
   agent list           List all agents
   apikey regenerate    Regenerate API key for an agent
+  graph export         Export the knowledge graph as GraphML, DOT or Mermaid
 
 Transcript Options:
   --session-id         Claude Code session ID
   --transcript-path    Path to the transcript JSONL file
 
+Context Options:
+  --query              Query to recall memories for (required)
+  --max-tokens         Token budget for the output (default: 2000)
+
 Team Create Options:
   --team-id            Team ID (required)
   --description        Team description
@@ -672,12 +751,22 @@ Agent List Options:
 API Key Regenerate Options:
   --client-id          Agent client ID (required)
 
+Graph Export Options:
+  --format             Output format: graphml, dot, mermaid (required)
+  --type               Only entities of these types (comma-separated)
+  --tag                Only entities with any of these tags (comma-separated)
+  --min-strength       Only relations at least this strong (0-1)
+  --output             Write to a file instead of stdout
+
 Environment Variables:
   CC_MEMORY_DATA_PATH  Path to cc-memory data directory (default: ~/.claude-memory)
   CC_MEMORY_HTTP_URL   HTTP MCP server URL (default: http://127.0.0.1:3000/mcp)
   CC_MEMORY_API_KEY    API key for HTTP authentication
 
 Examples:
+  # Print recalled context for a session start hook
+  cc-memory-cli context --query "my-project recent work" --max-tokens 1500
+
   # Create a new team
   cc-memory-cli team create --team-id project-alpha --description "Alpha project team"
 
@@ -689,6 +778,9 @@ Examples:
 
   # Regenerate API key
   cc-memory-cli apikey regenerate --client-id worker-001
+
+  # Render the dependency graph of config entities with Graphviz
+  cc-memory-cli graph export --format dot --type config --min-strength 0.5 | dot -Tsvg > graph.svg
 `);
 }
 
@@ -708,6 +800,18 @@ async function main(): Promise<void> {
       await saveTranscript(parsed.sessionId, parsed.transcriptPath);
       break;
 
+    case 'context':
+      if (!parsed.query) {
+        console.error('Error: --query is required');
+        process.exit(1);
+      }
+      if (parsed.maxTokens !== undefined && !(parsed.maxTokens > 0)) {
+        console.error('Error: --max-tokens must be a positive number');
+        process.exit(1);
+      }
+      await printContext(parsed.query, parsed.maxTokens);
+      break;
+
     case 'team':
       switch (subcommand) {
         case 'create':
@@ -776,6 +880,22 @@ async function main(): Promise<void> {
       }
       break;
 
+    case 'graph':
+      switch (subcommand) {
+        case 'export':
+          if (!parsed.format || !isGraphExportFormat(parsed.format)) {
+            console.error(`Error: --format must be one of ${GRAPH_EXPORT_FORMATS.join(', ')}`);
+            process.exit(1);
+          }
+          await graphExport(parsed.format, parsed.graphFilter, parsed.output);
+          break;
+        default:
+          console.error(`Unknown graph subcommand: ${subcommand}`);
+          showHelp();
+          process.exit(1);
+      }
+      break;
+
     case 'help':
     case '--help':
     case '-h':
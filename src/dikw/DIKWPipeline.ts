@@ -5,12 +5,13 @@
  * Data (Episodes) → Information (grouped by similarity) → Knowledge (Patterns) → Wisdom
  *
  * Key features:
- * - Auto-detect patterns from episodic clusters with similar tags
+ * - Auto-detect patterns from clusters of episodes with similar content and tags
  * - Promote patterns with frequency >= 3 to insight candidates
  * - Promote successfully applied insights (3+ successes) to wisdom candidates
  */
 
 import type { SqliteStorage } from '../storage/SqliteStorage.js';
+import { EpisodeClusterer, type EpisodeCluster } from '../memory/EpisodeClusterer.js';
 import type {
   EpisodicMemory,
   Pattern,
@@ -25,8 +26,10 @@ import type {
 export interface DIKWPipelineConfig {
   /** Minimum episodes with same tags to suggest a pattern (default: 3) */
   minEpisodesForPattern: number;
-  /** Minimum tag overlap ratio to consider episodes similar (default: 0.5) */
+  /** Minimum tag overlap ratio to match episodes to existing patterns (default: 0.5) */
   tagOverlapThreshold: number;
+  /** Minimum content similarity (0-1) to cluster episodes (default: 0.3) */
+  similarityThreshold: number;
   /** Minimum pattern frequency to suggest an insight (default: 3) */
   minFrequencyForInsight: number;
   /** Minimum successful applications to suggest wisdom (default: 3) */
@@ -38,6 +41,7 @@ export interface DIKWPipelineConfig {
 export const DEFAULT_DIKW_CONFIG: DIKWPipelineConfig = {
   minEpisodesForPattern: 3,
   tagOverlapThreshold: 0.5,
+  similarityThreshold: 0.3,
   minFrequencyForInsight: 3,
   minSuccessesForWisdom: 3,
   maxEpisodeAgeDays: 30,
@@ -49,6 +53,8 @@ export interface PatternCandidate {
   commonTags: string[];
   confidence: number;
   episodeCount: number;
+  /** Silhouette score of the supporting cluster (-1 to 1) */
+  clusterQuality: number;
 }
 
 export interface InsightCandidate {
@@ -120,12 +126,15 @@ export class DIKWPipeline {
   /**
    * Detect pattern candidates from episodic clusters
    *
-   * Groups episodes by tag similarity and suggests patterns
+   * Groups episodes by content similarity and suggests patterns
    * for clusters that meet the minimum episode threshold.
    */
   detectPatternCandidates(): PatternCandidate[] {
     const episodes = this.getRecentEpisodes();
-    const clusters = this.clusterEpisodesByTags(episodes);
+    const clusters = new EpisodeClusterer({
+      minSimilarity: this.config.similarityThreshold,
+      minClusterSize: this.config.minEpisodesForPattern,
+    }).cluster(episodes).clusters;
     const candidates: PatternCandidate[] = [];
 
     for (const cluster of clusters) {
@@ -135,9 +144,12 @@ export class DIKWPipeline {
           limit: 100,
         });
 
+        const clusterIds = new Set(cluster.episodes.map(e => e.id));
         const hasExistingPattern = existingPatterns.some((p: Pattern) => {
           const tagOverlap = this.calculateTagOverlap(p.relatedTags, cluster.commonTags);
-          return tagOverlap >= this.config.tagOverlapThreshold;
+          // Untagged clusters match the pattern built from (mostly) the same episodes
+          const supportOverlap = p.supportingEpisodes.filter(id => clusterIds.has(id)).length / clusterIds.size;
+          return tagOverlap >= this.config.tagOverlapThreshold || supportOverlap >= 0.5;
         });
 
         if (!hasExistingPattern) {
@@ -150,6 +162,7 @@ export class DIKWPipeline {
             commonTags: cluster.commonTags,
             confidence,
             episodeCount: cluster.episodes.length,
+            clusterQuality: cluster.quality,
           });
         }
       }
@@ -340,44 +353,6 @@ export class DIKWPipeline {
     });
   }
 
-  private clusterEpisodesByTags(episodes: EpisodicMemory[]): Array<{
-    commonTags: string[];
-    episodes: EpisodicMemory[];
-  }> {
-    const clusters: Map<string, { commonTags: string[]; episodes: EpisodicMemory[] }> = new Map();
-
-    for (const episode of episodes) {
-      if (episode.tags.length === 0) continue;
-
-      // Create a cluster key from sorted tags
-      const sortedTags = [...episode.tags].sort();
-      let matched = false;
-
-      // Try to find an existing cluster with sufficient overlap
-      for (const [, cluster] of clusters) {
-        const overlap = this.calculateTagOverlap(cluster.commonTags, episode.tags);
-        if (overlap >= this.config.tagOverlapThreshold) {
-          // Update common tags to intersection
-          cluster.commonTags = cluster.commonTags.filter(t => episode.tags.includes(t));
-          cluster.episodes.push(episode);
-          matched = true;
-          break;
-        }
-      }
-
-      if (!matched) {
-        // Create new cluster
-        const key = sortedTags.join('|');
-        clusters.set(key, {
-          commonTags: [...episode.tags],
-          episodes: [episode],
-        });
-      }
-    }
-
-    return Array.from(clusters.values());
-  }
-
   private calculateTagOverlap(tags1: string[], tags2: string[]): number {
     if (tags1.length === 0 || tags2.length === 0) return 0;
 
@@ -389,11 +364,9 @@ export class DIKWPipeline {
     return intersection.length / Math.min(set1.size, set2.size);
   }
 
-  private generatePatternDescription(cluster: {
-    commonTags: string[];
-    episodes: EpisodicMemory[];
-  }): string {
-    const tagList = cluster.commonTags.join(', ');
+  private generatePatternDescription(cluster: EpisodeCluster): string {
+    // Untagged clusters are described by their most characteristic terms
+    const tagList = (cluster.commonTags.length > 0 ? cluster.commonTags : cluster.topTerms).join(', ');
     const types = [...new Set(cluster.episodes.map(e => e.type))];
     const typeList = types.join('/');
 
@@ -35,6 +35,8 @@ import {
 } from './server/http/middleware/security.js';
 import { createRateLimiter, createStrictRateLimiter } from './server/http/middleware/rateLimit.js';
 import { WebSocketSyncServer } from './server/websocket/SyncServer.js';
+import { createSyncRouter } from './server/http/routes/sync.js';
+import { SyncDeltaStore } from './server/http/sync/deltaStore.js';
 
 // Configuration from environment
 const PORT = parseInt(process.env.CC_MEMORY_PORT || '3000', 10);
@@ -638,6 +640,13 @@ app.delete('/api/invites/:code', authMiddleware, (req: AuthenticatedRequest, res
   }
 });
 
+// ============================================================================
+// Sync API (HttpSyncAdapter)
+// ============================================================================
+
+const syncDeltaStore = new SyncDeltaStore({ dataDir: join(DATA_PATH, 'sync-deltas') });
+app.use('/api/sync', authMiddleware, createSyncRouter({ store: syncDeltaStore }));
+
 // Health check endpoint
 app.get('/health', (_req, res) => {
   const healthData: Record<string, unknown> = {
@@ -729,6 +738,7 @@ server.listen(PORT, HOST, () => {
   if (WS_ENABLED) {
     console.log(`  WebSocket: ws://${HOST}:${PORT}/sync`);
   }
+  console.log(`  Sync API: http://${HOST}:${PORT}/api/sync`);
   if (REQUIRE_HTTPS) {
     console.log(`  HTTPS: required`);
   }
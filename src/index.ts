@@ -4,14 +4,14 @@
  * Hierarchical memory system for Claude Code
  */
 
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { z } from 'zod';
 import { homedir } from 'os';
 import { join } from 'path';
 
 import { MemoryManager } from './memory/MemoryManager.js';
-import { SyncManager, FileSyncAdapter, CloudSyncAdapter } from './sync/index.js';
+import { SyncManager, FileSyncAdapter, CloudSyncAdapter, HttpSyncAdapter, WebSocketSyncAdapter } from './sync/index.js';
 import {
   createToolHandlers,
   WorkingSetSchema,
@@ -30,7 +30,16 @@ import {
   SemanticSearchSchema,
   SemanticAddObservationSchema,
   SemanticRelateSchema,
+  SemanticTraverseSchema,
+  RelationTypeDefineSchema,
   SemanticUpdateSchema,
+  SemanticHistorySchema,
+  MemoryConflictsSchema,
+  SemanticMergeCandidatesSchema,
+  SemanticMergeSchema,
+  MemoryExplainSchema,
+  SemanticDiffSchema,
+  SemanticRevertSchema,
   MemoryConsolidateSchema,
   MemoryRecallSchema,
   MemoryImportSchema,
@@ -48,6 +57,8 @@ import {
   GoalAddNoteSchema,
   MemoryDecaySchema,
   MemoryBoostSchema,
+  MaintenanceRunSchema,
+  MaintenanceStatusSchema,
   // Tachikoma & Agent & Wisdom schemas
   TachikomaInitSchema,
   TachikomaStatusSchema,
@@ -79,6 +90,14 @@ import {
   UnifiedMemoryForgetSchema,
 } from './server/tools.js';
 import { SqliteStorage } from './storage/SqliteStorage.js';
+import { getDefaultMaintenanceConfig } from './memory/MaintenanceScheduler.js';
+import {
+  GRAPH_EXPORT_FORMATS,
+  GRAPH_EXPORT_MIME_TYPES,
+  exportGraph,
+  graphExportFilterFromParams,
+  isGraphExportFormat,
+} from './memory/GraphExporter.js';
 import { shouldRegisterTool, getToolMode, getToolStats, type ToolMode } from './server/coreTools.js';
 
 // Configuration from environment
@@ -87,14 +106,19 @@ const DATA_PATH = process.env.MEMORY_DATA_PATH || join(homedir(), '.claude-memor
 const CLEANUP_INTERVAL = parseInt(process.env.MEMORY_CLEANUP_INTERVAL || '300000', 10); // 5 minutes
 const TACHIKOMA_NAME = process.env.CC_MEMORY_TACHIKOMA_NAME;
 const SYNC_DIR = process.env.CC_MEMORY_SYNC_DIR;
-const SYNC_TYPE = process.env.CC_MEMORY_SYNC_TYPE || 'file'; // 'file' or 'cloud'
+const SYNC_TYPE = process.env.CC_MEMORY_SYNC_TYPE || 'file'; // 'file', 'cloud', 'http' or 'websocket'
 const CLOUD_SYNC_DIR = process.env.CC_MEMORY_CLOUD_SYNC_DIR;
-const SYNC_INTERVAL = parseInt(process.env.CC_MEMORY_SYNC_INTERVAL || '0', 10); // Auto-sync interval in seconds (0 = disabled)
+const SYNC_URL = process.env.CC_MEMORY_SYNC_URL; // Server URL for 'http' (base URL) or 'websocket' (ws://.../sync) sync
+const SYNC_API_KEY = process.env.CC_MEMORY_SYNC_API_KEY || '';
+const SYNC_NAMESPACE = process.env.CC_MEMORY_SYNC_NAMESPACE;
+// Auto-sync interval in seconds (0 = disabled). WebSocket sync pushes every 30 seconds unless set
+const SYNC_INTERVAL = parseInt(process.env.CC_MEMORY_SYNC_INTERVAL || (SYNC_TYPE === 'websocket' ? '30' : '0'), 10);
 
 // Initialize memory manager
 const memoryManager = new MemoryManager({
   dataPath: DATA_PATH,
   cleanupInterval: CLEANUP_INTERVAL,
+  maintenance: getDefaultMaintenanceConfig(),
 });
 
 // Create tool handlers
@@ -117,8 +141,9 @@ let syncManager: SyncManager | undefined;
 async function autoSyncFromDirectory(): Promise<void> {
   // Determine sync directory (CLOUD_SYNC_DIR takes priority for cloud type)
   const syncDir = SYNC_TYPE === 'cloud' ? (CLOUD_SYNC_DIR || SYNC_DIR) : SYNC_DIR;
+  const syncTarget = SYNC_TYPE === 'http' || SYNC_TYPE === 'websocket' ? SYNC_URL : syncDir;
 
-  if (!syncDir) {
+  if (!syncTarget) {
     return;
   }
 
@@ -135,11 +160,41 @@ async function autoSyncFromDirectory(): Promise<void> {
   const currentProfile = storage.getTachikomaProfile();
 
   // Create adapter based on sync type
-  if (SYNC_TYPE === 'cloud') {
+  if (SYNC_TYPE === 'websocket') {
+    // WebSocketSyncAdapter against WebSocketSyncServer (real-time, team room)
+    const wsAdapter = new WebSocketSyncAdapter({
+      name: 'websocket',
+      serverUrl: syncTarget,
+      apiKey: SYNC_API_KEY,
+    });
+
+    if (currentProfile) {
+      wsAdapter.setTachikomaId(currentProfile.id);
+    }
+    wsAdapter.setDeltaProvider(sinceVectorClock => storage.exportDelta(undefined, sinceVectorClock));
+
+    await syncManager.addAdapter('websocket', wsAdapter);
+    console.error(`WebSocket sync initialized with: ${syncTarget}`);
+  } else if (SYNC_TYPE === 'http') {
+    // HttpSyncAdapter against the /api/sync routes of an HTTP server
+    const httpAdapter = new HttpSyncAdapter({
+      name: 'http',
+      baseUrl: syncTarget,
+      apiKey: SYNC_API_KEY,
+      namespace: SYNC_NAMESPACE,
+    });
+
+    if (currentProfile) {
+      httpAdapter.setTachikomaId(currentProfile.id);
+    }
+
+    await syncManager.addAdapter('http', httpAdapter);
+    console.error(`HTTP sync initialized with: ${syncTarget}`);
+  } else if (SYNC_TYPE === 'cloud') {
     // CloudSyncAdapter with file watching
     const cloudAdapter = new CloudSyncAdapter({
       name: 'cloud',
-      syncDir: syncDir,
+      syncDir: syncTarget,
       watchInterval: 5000, // 5 seconds
     });
 
@@ -148,12 +203,12 @@ async function autoSyncFromDirectory(): Promise<void> {
     }
 
     await syncManager.addAdapter('cloud', cloudAdapter);
-    console.error(`Cloud sync initialized with: ${syncDir}`);
+    console.error(`Cloud sync initialized with: ${syncTarget}`);
   } else {
     // FileSyncAdapter (default)
     const fileSyncAdapter = new FileSyncAdapter({
       name: 'file',
-      syncDir: syncDir,
+      syncDir: syncTarget,
     });
 
     if (currentProfile) {
@@ -167,7 +222,7 @@ async function autoSyncFromDirectory(): Promise<void> {
   const results = await syncManager.pullFromAll();
   for (const [name, result] of results) {
     if (result.success && result.syncedItems > 0) {
-      console.error(`[${name}] Synced ${result.syncedItems} items from: ${syncDir}`);
+      console.error(`[${name}] Synced ${result.syncedItems} items from: ${syncTarget}`);
     } else if (!result.success) {
       console.error(`[${name}] Sync error: ${result.error}`);
     }
@@ -211,7 +266,11 @@ cc-memory は Claude の持続的記憶システムです。以下のルール
 ## 注意事項
 
 - ユーザーに「覚えて」と言われなくても、重要な情報は自主的に記憶すること
-- 過去の記憶と矛盾する新情報があれば、semantic_update で更新すること
+- 事実が変わった場合（例: Node 18 → Node 22）は上書きせず、supersedes を指定して semantic_create / semantic_add_observation で記録すること（古い事実は履歴として残り、semantic_search の as_of で参照できる）
+- semantic_create / semantic_add_observation が contradictions を返したら、memory_conflicts で確認して解消すること
+- 記憶の根拠となったエピソードが分かる場合は sources を指定すること（memory_explain で会話まで遡れる）
+- semantic_create が possibleDuplicates を返したら、同じものなら semantic_merge で統合すること（統合された名前は別名として引き続き使える）
+- 依存関係などを複数ホップで辿るときは semantic_traverse を使うこと（relation_type_list で登録済みの関係と逆名を確認できる）
 `.trim();
 
 // Create MCP server
@@ -302,7 +361,7 @@ if (sr('episode_get')) server.tool(
 
 if (sr('episode_get_transcript')) server.tool(
   'episode_get_transcript',
-  'Get the full conversation transcript for an episode',
+  'Get the conversation transcript for an episode (optionally only the part around a message or query match)',
   EpisodeGetTranscriptSchema.shape,
   async (args) => {
     const result = handlers.episode_get_transcript(args as z.infer<typeof EpisodeGetTranscriptSchema>);
@@ -390,6 +449,36 @@ if (sr('semantic_relate')) server.tool(
   }
 );
 
+if (sr('semantic_traverse')) server.tool(
+  'semantic_traverse',
+  'Query the knowledge graph: multi-hop paths, shortest path between entities, or the subgraph around an entity',
+  SemanticTraverseSchema.shape,
+  async (args) => {
+    const result = handlers.semantic_traverse(args as z.infer<typeof SemanticTraverseSchema>);
+    return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+  }
+);
+
+if (sr('relation_type_define')) server.tool(
+  'relation_type_define',
+  'Register a relation type with its inverse name, cardinality and allowed entity types',
+  RelationTypeDefineSchema.shape,
+  async (args) => {
+    const result = handlers.relation_type_define(args as z.infer<typeof RelationTypeDefineSchema>);
+    return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+  }
+);
+
+if (sr('relation_type_list')) server.tool(
+  'relation_type_list',
+  'List registered relation types',
+  {},
+  async () => {
+    const result = handlers.relation_type_list();
+    return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+  }
+);
+
 if (sr('semantic_update')) server.tool(
   'semantic_update',
   'Update a semantic entity',
@@ -400,6 +489,76 @@ if (sr('semantic_update')) server.tool(
   }
 );
 
+if (sr('semantic_history')) server.tool(
+  'semantic_history',
+  'List previous versions of a semantic entity',
+  SemanticHistorySchema.shape,
+  async (args) => {
+    const result = handlers.semantic_history(args as z.infer<typeof SemanticHistorySchema>);
+    return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+  }
+);
+
+if (sr('semantic_diff')) server.tool(
+  'semantic_diff',
+  'Show what changed between two versions of a semantic entity',
+  SemanticDiffSchema.shape,
+  async (args) => {
+    const result = handlers.semantic_diff(args as z.infer<typeof SemanticDiffSchema>);
+    return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+  }
+);
+
+if (sr('semantic_revert')) server.tool(
+  'semantic_revert',
+  'Restore a semantic entity to a previous version',
+  SemanticRevertSchema.shape,
+  async (args) => {
+    const result = handlers.semantic_revert(args as z.infer<typeof SemanticRevertSchema>);
+    return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+  }
+);
+
+if (sr('memory_conflicts')) server.tool(
+  'memory_conflicts',
+  'List likely contradictions between semantic memories for review',
+  MemoryConflictsSchema.shape,
+  async (args) => {
+    const result = handlers.memory_conflicts(args as z.infer<typeof MemoryConflictsSchema>);
+    return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+  }
+);
+
+if (sr('semantic_merge_candidates')) server.tool(
+  'semantic_merge_candidates',
+  'Find semantic entities that likely describe the same thing (optionally merging them)',
+  SemanticMergeCandidatesSchema.shape,
+  async (args) => {
+    const result = handlers.semantic_merge_candidates(args as z.infer<typeof SemanticMergeCandidatesSchema>);
+    return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+  }
+);
+
+if (sr('semantic_merge')) server.tool(
+  'semantic_merge',
+  'Merge a duplicate semantic entity into another, keeping its name as an alias',
+  SemanticMergeSchema.shape,
+  async (args) => {
+    const result = handlers.semantic_merge(args as z.infer<typeof SemanticMergeSchema>);
+    return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+  }
+);
+
+if (sr('memory_explain')) server.tool(
+  'memory_explain',
+  'Explain where knowledge came from, from wisdom back to source episodes and transcript messages',
+  MemoryExplainSchema.shape,
+  async (args) => {
+    const result = handlers.memory_explain(args as z.infer<typeof MemoryExplainSchema>);
+    return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+  }
+);
+
 if (sr('memory_consolidate')) server.tool(
   'memory_consolidate',
   'Promote working memory to episodic or semantic memory',
@@ -482,7 +641,7 @@ if (sr('merge_episodes')) server.tool(
 
 if (sr('cluster_episodes')) server.tool(
   'cluster_episodes',
-  'Cluster similar episodes based on tags, type, and content',
+  'Cluster similar episodes by content and tags, with a quality score per cluster',
   ClusterEpisodesSchema.shape,
   async (args) => {
     const result = handlers.cluster_episodes(args as z.infer<typeof ClusterEpisodesSchema>);
@@ -495,7 +654,7 @@ if (sr('compress_memories')) server.tool(
   'Compress episodic memory by clustering and summarizing similar episodes',
   CompressMemoriesSchema.shape,
   async (args) => {
-    const result = handlers.compress_memories(args as z.infer<typeof CompressMemoriesSchema>);
+    const result = await handlers.compress_memories(args as z.infer<typeof CompressMemoriesSchema>);
     return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
   }
 );
@@ -581,6 +740,26 @@ if (sr('memory_boost')) server.tool(
   }
 );
 
+if (sr('maintenance_run')) server.tool(
+  'maintenance_run',
+  'Run memory maintenance jobs (decay, boost, compress, working_cleanup, dikw_promote) now',
+  MaintenanceRunSchema.shape,
+  async (args) => {
+    const result = await handlers.maintenance_run(args as z.infer<typeof MaintenanceRunSchema>);
+    return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+  }
+);
+
+if (sr('maintenance_status')) server.tool(
+  'maintenance_status',
+  'Show maintenance schedules, last runs and recent results',
+  MaintenanceStatusSchema.shape,
+  async (args) => {
+    const result = handlers.maintenance_status(args as z.infer<typeof MaintenanceStatusSchema>);
+    return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+  }
+);
+
 // Tachikoma Parallelization Tools
 if (sr('tachikoma_init')) server.tool(
   'tachikoma_init',
@@ -894,6 +1073,34 @@ server.resource(
   }
 );
 
+server.resource(
+  'memory://semantic/graph/{format}',
+  new ResourceTemplate('memory://semantic/graph/{format}', {
+    list: async () => ({
+      resources: GRAPH_EXPORT_FORMATS.map(format => ({
+        uri: `memory://semantic/graph/${format}`,
+        name: `Knowledge graph (${format})`,
+        mimeType: GRAPH_EXPORT_MIME_TYPES[format],
+      })),
+    }),
+  }),
+  async (uri) => {
+    // Filters are passed as query parameters: ?type=fact&tag=api&min_strength=0.5
+    const format = uri.pathname.split('/').pop() ?? '';
+    if (!isGraphExportFormat(format)) {
+      throw new Error(`Unknown graph format: ${format} (expected ${GRAPH_EXPORT_FORMATS.join(', ')})`);
+    }
+    const graph = memoryManager.semantic.getGraph();
+    return {
+      contents: [{
+        uri: uri.href,
+        mimeType: GRAPH_EXPORT_MIME_TYPES[format],
+        text: exportGraph(graph, format, graphExportFilterFromParams(uri.searchParams)),
+      }],
+    };
+  }
+);
+
 server.resource(
   'memory://stats',
   'memory://stats',
@@ -924,6 +1131,21 @@ server.resource(
   }
 );
 
+server.resource(
+  'memory://maintenance',
+  'memory://maintenance',
+  async () => {
+    const status = memoryManager.getMaintenanceStatus();
+    return {
+      contents: [{
+        uri: 'memory://maintenance',
+        mimeType: 'application/json',
+        text: JSON.stringify(status, null, 2),
+      }],
+    };
+  }
+);
+
 // Register prompts
 server.prompt(
   'recall_context',
@@ -932,9 +1154,13 @@ server.prompt(
     task_description: z.string().describe('Description of current task'),
     include_episodes: z.boolean().optional().default(true),
     include_semantic: z.boolean().optional().default(true),
+    max_tokens: z.number().optional().describe('Token budget for the returned context (default: 2000)'),
   },
   async (args) => {
-    const context = await memoryManager.getFormattedContext(args.task_description as string);
+    const packed = memoryManager.packContext(args.task_description as string, {
+      tokenBudget: args.max_tokens as number | undefined,
+    });
+    const context = packed.text || 'No relevant memories found.';
     return {
       messages: [{
         role: 'user',
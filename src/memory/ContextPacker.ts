@@ -0,0 +1,231 @@
+/**
+ * Context Packer - Fits memories from all layers into a token budget
+ *
+ * Candidates are deduplicated, ordered by maximal marginal relevance (MMR),
+ * and degraded from full details to summary to title only until the packed
+ * context fits. The output depends only on the candidates and options, so the
+ * same memories always produce the same text.
+ */
+
+import { HashedNgramEmbeddingProvider, cosineSimilarity, type EmbeddingProvider } from '../search/EmbeddingProvider.js';
+
+export type ContextLayer = 'working' | 'episodic' | 'semantic' | 'pattern' | 'insight' | 'wisdom';
+
+/** Detail level of a packed memory, from most to least verbose */
+export type ContextDetailLevel = 'full' | 'summary' | 'title';
+
+export interface ContextCandidate {
+  id: string;
+  layer: ContextLayer;
+  /** Relevance to the query (any non-negative scale; normalized per layer) */
+  relevance: number;
+  /** Rendered block with all details */
+  full: string;
+  /** Rendered block with the essentials */
+  summary: string;
+  /** Single-line title */
+  title: string;
+}
+
+export interface ContextPackerOptions {
+  /** Maximum estimated tokens of the packed context (default: 2000) */
+  tokenBudget?: number;
+  /** Trade-off between relevance (1) and diversity (0) in MMR (default: 0.7) */
+  lambda?: number;
+  /** Similarity at or above which a candidate is a near-duplicate (default: 0.9) */
+  duplicateThreshold?: number;
+  /** Provider used to compare candidates (default: offline hashed n-gram provider) */
+  embeddingProvider?: EmbeddingProvider;
+}
+
+export interface PackedContextItem {
+  id: string;
+  layer: ContextLayer;
+  level: ContextDetailLevel;
+  tokens: number;
+}
+
+export interface PackedContext {
+  /** Markdown context, grouped by layer */
+  text: string;
+  /** Estimated tokens of `text` */
+  tokens: number;
+  tokenBudget: number;
+  /** Included memories in priority order */
+  items: PackedContextItem[];
+  /** IDs dropped as near-duplicates of an included memory */
+  duplicates: string[];
+  /** IDs that did not fit in the budget */
+  omitted: string[];
+}
+
+const LAYER_HEADINGS: Record<ContextLayer, string> = {
+  working: '## Current Context (Working Memory)',
+  episodic: '## Relevant Past Events (Episodic Memory)',
+  semantic: '## Relevant Knowledge (Semantic Memory)',
+  pattern: '## Patterns',
+  insight: '## Insights',
+  wisdom: '## Wisdom',
+};
+
+const LAYER_ORDER: ContextLayer[] = ['working', 'episodic', 'semantic', 'pattern', 'insight', 'wisdom'];
+
+const LEVELS: ContextDetailLevel[] = ['full', 'summary', 'title'];
+
+const CJK_CHARS = /[\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FFF\u3400-\u4DBF\uAC00-\uD7AF]/g;
+
+/**
+ * Estimate the token count of text without a tokenizer:
+ * about one token per CJK character and per four other characters
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  const cjk = text.match(CJK_CHARS)?.length ?? 0;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+export class ContextPacker {
+  private tokenBudget: number;
+  private lambda: number;
+  private duplicateThreshold: number;
+  private embeddingProvider: EmbeddingProvider;
+
+  constructor(options?: ContextPackerOptions) {
+    this.tokenBudget = options?.tokenBudget ?? 2000;
+    this.lambda = options?.lambda ?? 0.7;
+    this.duplicateThreshold = options?.duplicateThreshold ?? 0.9;
+    this.embeddingProvider = options?.embeddingProvider ?? new HashedNgramEmbeddingProvider();
+  }
+
+  /**
+   * Pack candidates into the token budget
+   */
+  pack(candidates: ContextCandidate[]): PackedContext {
+    // Stable input order: relevance, then layer, then ID
+    const normalized = this.normalizeRelevance(candidates).sort((a, b) =>
+      b.score - a.score ||
+      LAYER_ORDER.indexOf(a.candidate.layer) - LAYER_ORDER.indexOf(b.candidate.layer) ||
+      (a.candidate.id < b.candidate.id ? -1 : a.candidate.id > b.candidate.id ? 1 : 0)
+    );
+
+    // Drop near-duplicates of higher-ranked candidates
+    const unique: Array<{ candidate: ContextCandidate; score: number; vector: number[] }> = [];
+    const duplicates: string[] = [];
+    for (const entry of normalized) {
+      const vector = this.embeddingProvider.embed(entry.candidate.summary);
+      if (unique.some(u => cosineSimilarity(u.vector, vector) >= this.duplicateThreshold)) {
+        duplicates.push(entry.candidate.id);
+      } else {
+        unique.push({ ...entry, vector });
+      }
+    }
+
+    const ranked = this.rankByMarginalRelevance(unique);
+
+    // Start with everything at full detail. Degrade from the tail one level at a
+    // time (full -> summary for all, then summary -> title), then drop from the tail
+    const levels = ranked.map(() => 0);
+    const costs = ranked.map(entry => LEVELS.map(level => estimateTokens(entry.candidate[level]) + 1));
+    let count = ranked.length;
+
+    const total = (): number => {
+      const layers = new Set(ranked.slice(0, count).map(entry => entry.candidate.layer));
+      let tokens = 0;
+      for (const layer of layers) tokens += estimateTokens(LAYER_HEADINGS[layer]) + 2;
+      for (let i = 0; i < count; i++) tokens += costs[i][levels[i]];
+      return tokens;
+    };
+
+    for (let stage = 0; stage < LEVELS.length - 1; stage++) {
+      for (let i = count - 1; i >= 0 && total() > this.tokenBudget; i--) {
+        if (levels[i] === stage) levels[i]++;
+      }
+    }
+    while (count > 0 && total() > this.tokenBudget) {
+      count--;
+    }
+
+    // Spend what dropping freed up on the highest-ranked memories
+    for (let i = 0; i < count; i++) {
+      while (levels[i] > 0) {
+        levels[i]--;
+        if (total() > this.tokenBudget) {
+          levels[i]++;
+          break;
+        }
+      }
+    }
+
+    const included = ranked.slice(0, count);
+    const items: PackedContextItem[] = included.map((entry, i) => ({
+      id: entry.candidate.id,
+      layer: entry.candidate.layer,
+      level: LEVELS[levels[i]],
+      tokens: costs[i][levels[i]],
+    }));
+
+    const sections: string[] = [];
+    for (const layer of LAYER_ORDER) {
+      const blocks = included
+        .map((entry, i) => ({ entry, level: LEVELS[levels[i]] }))
+        .filter(({ entry }) => entry.candidate.layer === layer)
+        .map(({ entry, level }) => entry.candidate[level]);
+      if (blocks.length > 0) {
+        sections.push(`${LAYER_HEADINGS[layer]}\n${blocks.join('\n')}`);
+      }
+    }
+    const text = sections.join('\n\n');
+
+    return {
+      text,
+      tokens: estimateTokens(text),
+      tokenBudget: this.tokenBudget,
+      items,
+      duplicates,
+      omitted: ranked.slice(count).map(entry => entry.candidate.id),
+    };
+  }
+
+  /**
+   * Scale relevance to 0-1 within each layer, since layers score on different scales
+   */
+  private normalizeRelevance(candidates: ContextCandidate[]): Array<{ candidate: ContextCandidate; score: number }> {
+    const maxByLayer = new Map<ContextLayer, number>();
+    for (const candidate of candidates) {
+      maxByLayer.set(candidate.layer, Math.max(maxByLayer.get(candidate.layer) ?? 0, candidate.relevance));
+    }
+    return candidates.map(candidate => {
+      const max = maxByLayer.get(candidate.layer) ?? 0;
+      return { candidate, score: max > 0 ? Math.max(0, candidate.relevance) / max : 0 };
+    });
+  }
+
+  /**
+   * Greedy MMR: repeatedly take the candidate that best balances relevance
+   * against similarity to what has already been taken
+   */
+  private rankByMarginalRelevance<T extends { score: number; vector: number[] }>(entries: T[]): T[] {
+    const remaining = [...entries];
+    const ranked: T[] = [];
+
+    while (remaining.length > 0) {
+      let bestIndex = 0;
+      let bestValue = -Infinity;
+      for (let i = 0; i < remaining.length; i++) {
+        const redundancy = ranked.reduce(
+          (max, taken) => Math.max(max, cosineSimilarity(taken.vector, remaining[i].vector)),
+          0
+        );
+        const value = this.lambda * remaining[i].score - (1 - this.lambda) * redundancy;
+        // Strict comparison keeps the earlier (stably sorted) candidate on ties
+        if (value > bestValue) {
+          bestValue = value;
+          bestIndex = i;
+        }
+      }
+      ranked.push(remaining.splice(bestIndex, 1)[0]);
+    }
+
+    return ranked;
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * Contradiction Detector - Flags semantic memories that likely disagree
+ *
+ * Two kinds of conflict are detected:
+ * - opposing values: the same key (in structured content or "key: value"
+ *   statements) holding different values for the same subject
+ * - negation: two statements about the same thing where one negates the
+ *   other ("Use tabs" / "Never use tabs", "Enable caching" / "Disable caching")
+ *
+ * Detection is heuristic, so conflicts are reported for review rather than
+ * resolved automatically.
+ */
+
+import type { SemanticEntity } from './types.js';
+import { MorphologicalAnalyzer, type Analyzer } from '../search/Analyzer.js';
+
+export type ContradictionKind = 'opposing_value' | 'negation';
+
+export interface Contradiction {
+  /** Entity holding the new statement */
+  entityId: string;
+  /** Entity holding the conflicting statement (entityId for conflicts within one entity) */
+  conflictingEntityId: string;
+  kind: ContradictionKind;
+  statement: string;
+  conflictingStatement: string;
+  /** How likely the conflict is real (0-1) */
+  confidence: number;
+}
+
+/** Relation type used to record contradictions */
+export const CONTRADICTS = 'contradicts';
+
+/**
+ * A recorded contradiction, for review
+ */
+export interface ContradictionReport {
+  relationId: string;
+  kind: ContradictionKind;
+  confidence: number;
+  entity: { id: string; name: string };
+  statement: string;
+  conflictingEntity: { id: string; name: string };
+  conflictingStatement: string;
+  detectedAt: number;
+  /** Whether either statement has since been changed or removed */
+  resolved: boolean;
+}
+
+export interface ContradictionDetectorOptions {
+  /** Minimum term overlap (0-1) for two statements to be about the same thing (default: 0.6) */
+  minOverlap?: number;
+  /** Minimum name overlap (0-1, shared terms over the shorter name) for two entities to share a subject (default: 0.5) */
+  minSubjectOverlap?: number;
+  /** Analyzer used to compare statements (default: morphological) */
+  analyzer?: Analyzer;
+}
+
+interface AnalyzedStatement {
+  text: string;
+  /** Terms with negations and negative antonyms neutralized */
+  terms: Set<string>;
+  negated: boolean;
+  assignment: { key: string; value: string } | null;
+}
+
+const NEGATORS = /\b(?:(?:do|does|did)\s+not|not|never|no|don't|doesn't|didn't|isn't|aren't|wasn't|weren't|shouldn't|mustn't|can't|cannot|won't|without)\b|ない|ません|禁止/giu;
+
+/** Negative words and the positive form they negate */
+const NEGATIVE_ANTONYMS: Record<string, string> = {
+  disable: 'enable',
+  disabled: 'enabled',
+  disallow: 'allow',
+  forbid: 'allow',
+  deny: 'allow',
+  avoid: 'use',
+  exclude: 'include',
+  reject: 'accept',
+  dislike: 'like',
+  dislikes: 'likes',
+  false: 'true',
+  off: 'on',
+};
+
+/** Values of "key: value" statements longer than this are prose, not settings */
+const MAX_VALUE_WORDS = 4;
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const term of a) if (b.has(term)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+/** Overlap coefficient: "indentation" and "indentation-style" fully overlap */
+function containment(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const term of a) if (b.has(term)) shared++;
+  return shared / Math.min(a.size, b.size);
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[-_\s]+/g, ' ').replace(/[.。!！]+$/u, '').trim();
+}
+
+/**
+ * The statements an entity makes: description, observations and its content
+ * (a string, or "key: value" for each scalar field of an object)
+ */
+export function entityStatements(entity: Pick<SemanticEntity, 'description' | 'observations' | 'content'>): string[] {
+  const statements = [entity.description, ...entity.observations];
+  if (typeof entity.content === 'string') {
+    statements.push(entity.content);
+  } else if (entity.content && typeof entity.content === 'object' && !Array.isArray(entity.content)) {
+    for (const [key, value] of Object.entries(entity.content)) {
+      if (['string', 'number', 'boolean'].includes(typeof value)) {
+        statements.push(`${key}: ${value}`);
+      }
+    }
+  }
+  return statements.filter(s => typeof s === 'string' && s.trim().length > 0);
+}
+
+export class ContradictionDetector {
+  private minOverlap: number;
+  private minSubjectOverlap: number;
+  private analyzer: Analyzer;
+
+  constructor(options?: ContradictionDetectorOptions) {
+    this.minOverlap = options?.minOverlap ?? 0.6;
+    this.minSubjectOverlap = options?.minSubjectOverlap ?? 0.5;
+    this.analyzer = options?.analyzer ?? new MorphologicalAnalyzer();
+  }
+
+  /**
+   * Find conflicts between the given statements of an entity (default: all of
+   * its statements) and the rest of the entity and the other entities
+   */
+  detect(entity: SemanticEntity, others: SemanticEntity[], statements: string[] = entityStatements(entity)): Contradiction[] {
+    const candidates = statements.map(text => this.analyzeStatement(text));
+    const own = entityStatements(entity)
+      .filter(text => !statements.includes(text))
+      .map(text => this.analyzeStatement(text));
+    const contradictions: Contradiction[] = [];
+
+    const compareWith = (other: SemanticEntity, existing: AnalyzedStatement[], subject: number) => {
+      for (const candidate of candidates) {
+        for (const statement of existing) {
+          const conflict = this.compare(candidate, statement, subject);
+          if (conflict) {
+            contradictions.push({
+              entityId: entity.id,
+              conflictingEntityId: other.id,
+              statement: candidate.text,
+              conflictingStatement: statement.text,
+              ...conflict,
+            });
+          }
+        }
+      }
+    };
+
+    // Within the entity, including the new statements among themselves
+    compareWith(entity, [...own, ...candidates], 1);
+
+    const name = new Set(this.analyzer.analyze(entity.name));
+    for (const other of others) {
+      if (other.id === entity.id) continue;
+      const subject = other.type === entity.type ? containment(name, new Set(this.analyzer.analyze(other.name))) : 0;
+      compareWith(other, entityStatements(other).map(text => this.analyzeStatement(text)), subject);
+    }
+
+    // Drop the mirrored duplicates found when new statements are compared among themselves
+    const seen = new Set<string>();
+    return contradictions.filter(c => {
+      const key = [c.conflictingEntityId, ...[c.statement, c.conflictingStatement].sort()].join('\u0000');
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  /**
+   * @param subject How likely the two statements share a subject (1 within one entity)
+   */
+  private compare(
+    a: AnalyzedStatement,
+    b: AnalyzedStatement,
+    subject: number
+  ): Pick<Contradiction, 'kind' | 'confidence'> | null {
+    if (a.text === b.text) return null;
+
+    if (a.assignment && b.assignment && a.assignment.key === b.assignment.key) {
+      if (a.assignment.value !== b.assignment.value && subject >= this.minSubjectOverlap) {
+        return { kind: 'opposing_value', confidence: 0.9 * subject };
+      }
+      return null;
+    }
+
+    if (a.negated !== b.negated && a.terms.size >= 2 && b.terms.size >= 2) {
+      const overlap = jaccard(a.terms, b.terms);
+      if (overlap >= this.minOverlap) {
+        return { kind: 'negation', confidence: overlap };
+      }
+    }
+    return null;
+  }
+
+  private analyzeStatement(text: string): AnalyzedStatement {
+    const lower = text.toLowerCase();
+    let negations = 0;
+    let neutral = lower.replace(NEGATORS, () => {
+      negations++;
+      return ' ';
+    });
+    neutral = neutral.replace(/[a-z]+/g, word => {
+      const positive = NEGATIVE_ANTONYMS[word];
+      if (!positive) return word;
+      negations++;
+      return positive;
+    });
+
+    const match = /^\s*([^:=]{1,60}?)\s*[:=]\s*(.+?)\s*$/u.exec(text);
+    const assignment = match && match[2].split(/\s+/).length <= MAX_VALUE_WORDS
+      ? { key: normalize(match[1]), value: normalize(match[2]) }
+      : null;
+
+    return {
+      text,
+      terms: new Set(this.analyzer.analyze(neutral)),
+      negated: negations % 2 === 1,
+      assignment,
+    };
+  }
+}
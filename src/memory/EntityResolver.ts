@@ -0,0 +1,164 @@
+/**
+ * Entity Resolver - Finds semantic entities that describe the same thing
+ *
+ * Names (and aliases) are normalized before comparison, so "PostgreSQL",
+ * "postgres" and "Postgres DB" are compared as "postgresql", "postgres" and
+ * "postgres db". Normalized names that are equal, contained in one another
+ * or close by Jaro-Winkler similarity make a merge candidate. Names that
+ * differ only in numbers ("node-18" / "node-22") are kept apart.
+ */
+
+import type { SemanticEntity } from './types.js';
+
+export type MergeReason = 'same_name' | 'contained_name' | 'similar_name';
+
+export interface MergeCandidate {
+  /** Entity to keep */
+  target: SemanticEntity;
+  /** Entity to merge into the target */
+  duplicate: SemanticEntity;
+  /** Name similarity (0-1) */
+  similarity: number;
+  reason: MergeReason;
+  /** Names (or aliases) that matched */
+  matchedNames: [string, string];
+}
+
+export interface EntityResolverOptions {
+  /** Minimum name similarity for a merge candidate (default: 0.85) */
+  minSimilarity?: number;
+  /** Only compare entities of the same type (default: true) */
+  sameTypeOnly?: boolean;
+}
+
+/** Shorter names only match when equal: "api" and "app" are different things */
+const MIN_FUZZY_LENGTH = 4;
+/** Similarity given to a name contained in another ("postgres" in "postgres db") */
+const CONTAINED_SIMILARITY = 0.9;
+
+/**
+ * Lowercase, width-fold and drop punctuation: "Postgres-DB" -> "postgres db"
+ */
+export function normalizeEntityName(name: string): string {
+  return name
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Similarity of two names (0-1) and why they match
+ */
+export function nameSimilarity(a: string, b: string): { similarity: number; reason: MergeReason } | null {
+  const normalizedA = normalizeEntityName(a);
+  const normalizedB = normalizeEntityName(b);
+  const compactA = normalizedA.replace(/ /g, '');
+  const compactB = normalizedB.replace(/ /g, '');
+  if (!compactA || !compactB) return null;
+  if (compactA === compactB) return { similarity: 1, reason: 'same_name' };
+
+  if (Math.min(compactA.length, compactB.length) < MIN_FUZZY_LENGTH) return null;
+  const numbersA = normalizedA.match(/\d+/g)?.join(' ') ?? '';
+  const numbersB = normalizedB.match(/\d+/g)?.join(' ') ?? '';
+  if (numbersA !== numbersB) return null;
+
+  const tokensA = normalizedA.split(' ');
+  const tokensB = normalizedB.split(' ');
+  const [shorter, longer] = tokensA.length <= tokensB.length ? [tokensA, tokensB] : [tokensB, tokensA];
+  const contained = shorter.length < longer.length && shorter.every(token => longer.includes(token));
+
+  const similarity = jaroWinkler(compactA, compactB);
+  if (contained && similarity < CONTAINED_SIMILARITY) {
+    return { similarity: CONTAINED_SIMILARITY, reason: 'contained_name' };
+  }
+  return { similarity, reason: 'similar_name' };
+}
+
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1;
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const matchedA = new Array<boolean>(a.length).fill(false);
+  const matchedB = new Array<boolean>(b.length).fill(false);
+
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - window); j < Math.min(b.length, i + window + 1); j++) {
+      if (matchedB[j] || a[i] !== b[j]) continue;
+      matchedA[i] = matchedB[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!matchedA[i]) continue;
+    while (!matchedB[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+export class EntityResolver {
+  private minSimilarity: number;
+  private sameTypeOnly: boolean;
+
+  constructor(options?: EntityResolverOptions) {
+    this.minSimilarity = options?.minSimilarity ?? 0.85;
+    this.sameTypeOnly = options?.sameTypeOnly ?? true;
+  }
+
+  /**
+   * Merge candidates among the given entities, most similar first
+   */
+  findCandidates(entities: SemanticEntity[]): MergeCandidate[] {
+    const candidates: MergeCandidate[] = [];
+
+    for (let i = 0; i < entities.length; i++) {
+      for (let j = i + 1; j < entities.length; j++) {
+        const candidate = this.compare(entities[i], entities[j]);
+        if (candidate) candidates.push(candidate);
+      }
+    }
+
+    return candidates.sort((a, b) => b.similarity - a.similarity);
+  }
+
+  /**
+   * Whether two entities are likely the same, and which one to keep
+   */
+  compare(a: SemanticEntity, b: SemanticEntity): MergeCandidate | null {
+    if (a.id === b.id || (this.sameTypeOnly && a.type !== b.type)) return null;
+
+    let best: { similarity: number; reason: MergeReason; names: [string, string] } | null = null;
+    for (const nameA of [a.name, ...(a.aliases ?? [])]) {
+      for (const nameB of [b.name, ...(b.aliases ?? [])]) {
+        const match = nameSimilarity(nameA, nameB);
+        if (match && (!best || match.similarity > best.similarity)) {
+          best = { ...match, names: [nameA, nameB] };
+        }
+      }
+    }
+    if (!best || best.similarity < this.minSimilarity) return null;
+
+    // Keep the entity with more knowledge, or the older one
+    const keepA = a.observations.length !== b.observations.length
+      ? a.observations.length > b.observations.length
+      : a.createdAt <= b.createdAt;
+    return {
+      target: keepA ? a : b,
+      duplicate: keepA ? b : a,
+      similarity: Math.round(best.similarity * 1000) / 1000,
+      reason: best.reason,
+      matchedNames: keepA ? best.names : [best.names[1], best.names[0]],
+    };
+  }
+}
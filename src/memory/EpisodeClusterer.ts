@@ -0,0 +1,313 @@
+/**
+ * Episode Clusterer - Groups episodes by what they are about
+ *
+ * Episodes are compared by TF-IDF cosine similarity over their summary,
+ * details and learnings, blended with tag overlap when both are tagged, and
+ * grouped DBSCAN-style: episodes with enough similar neighbours seed a
+ * cluster that grows through their neighbours. Episodes of different types
+ * or without tags can share a cluster. Each cluster reports its quality as a
+ * silhouette score, so callers can tell tight groups from loose chains.
+ *
+ * Shared by memory compression and DIKW pattern detection.
+ */
+
+import type { EpisodicMemory } from './types.js';
+import { MorphologicalAnalyzer, type Analyzer } from '../search/Analyzer.js';
+
+export interface EpisodeClustererOptions {
+  /** Minimum similarity (0-1) for two episodes to be neighbours (default: 0.3) */
+  minSimilarity?: number;
+  /** Minimum episodes per cluster (default: 3) */
+  minClusterSize?: number;
+  /** Weight of tag overlap vs text similarity when both episodes are tagged (default: 0.3) */
+  tagWeight?: number;
+  /** Analyzer used to extract terms (default: morphological) */
+  analyzer?: Analyzer;
+}
+
+export interface EpisodeCluster {
+  episodes: EpisodicMemory[];
+  /** Tags on at least half of the episodes, most frequent first */
+  centroidTags: string[];
+  /** Tags on every episode */
+  commonTags: string[];
+  /** Highest-weighted terms of the cluster centroid */
+  topTerms: string[];
+  /** Most frequent episode type */
+  commonType: EpisodicMemory['type'];
+  avgImportance: number;
+  /** Mean pairwise similarity of the episodes (0-1) */
+  cohesion: number;
+  /** Mean silhouette of the episodes (-1 to 1; higher is a tighter, better separated cluster) */
+  quality: number;
+}
+
+export interface ClusteringResult {
+  /** Clusters, largest first */
+  clusters: EpisodeCluster[];
+  /** Episodes that belong to no cluster */
+  noise: EpisodicMemory[];
+  /** Mean silhouette over all clustered episodes (0 when there are no clusters) */
+  quality: number;
+}
+
+type TermVector = Map<string, number>;
+
+const TOP_TERMS = 5;
+const NOISE = -1;
+const UNVISITED = -2;
+
+function dot(a: TermVector, b: TermVector): number {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let sum = 0;
+  for (const [term, weight] of small) {
+    const other = large.get(term);
+    if (other !== undefined) sum += weight * other;
+  }
+  return sum;
+}
+
+function tagJaccard(a: string[], b: string[]): number {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  let shared = 0;
+  for (const tag of setA) if (setB.has(tag)) shared++;
+  return shared / (setA.size + setB.size - shared);
+}
+
+export class EpisodeClusterer {
+  private minSimilarity: number;
+  private minClusterSize: number;
+  private tagWeight: number;
+  private analyzer: Analyzer;
+
+  constructor(options?: EpisodeClustererOptions) {
+    this.minSimilarity = options?.minSimilarity ?? 0.3;
+    this.minClusterSize = options?.minClusterSize ?? 3;
+    this.tagWeight = options?.tagWeight ?? 0.3;
+    this.analyzer = options?.analyzer ?? new MorphologicalAnalyzer();
+  }
+
+  cluster(input: EpisodicMemory[]): ClusteringResult {
+    // Chronological order makes the result independent of the input order
+    const episodes = [...input].sort((a, b) =>
+      a.timestamp - b.timestamp || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+    );
+    const n = episodes.length;
+    if (n < this.minClusterSize) {
+      return { clusters: [], noise: episodes, quality: 0 };
+    }
+
+    const vectors = this.vectorize(episodes);
+    const similarity = new Float32Array(n * n);
+    for (let i = 0; i < n; i++) {
+      similarity[i * n + i] = 1;
+      for (let j = i + 1; j < n; j++) {
+        const value = this.similarity(episodes[i], episodes[j], vectors[i], vectors[j]);
+        similarity[i * n + j] = value;
+        similarity[j * n + i] = value;
+      }
+    }
+
+    const labels = this.dbscan(n, similarity);
+    const members = new Map<number, number[]>();
+    labels.forEach((label, i) => {
+      if (label < 0) return;
+      const indexes = members.get(label) ?? [];
+      indexes.push(i);
+      members.set(label, indexes);
+    });
+
+    const silhouettes = this.silhouettes(n, similarity, labels);
+    const clusters = [...members.values()]
+      .filter(indexes => indexes.length >= this.minClusterSize)
+      .map(indexes => this.describe(indexes, episodes, vectors, similarity, silhouettes, n))
+      .sort((a, b) => b.episodes.length - a.episodes.length);
+
+    const clustered = new Set(clusters.flatMap(c => c.episodes.map(e => e.id)));
+    const clusteredCount = clustered.size;
+    const quality = clusteredCount > 0
+      ? clusters.reduce((sum, c) => sum + c.quality * c.episodes.length, 0) / clusteredCount
+      : 0;
+
+    return {
+      clusters,
+      noise: episodes.filter(e => !clustered.has(e.id)),
+      quality,
+    };
+  }
+
+  /**
+   * L2-normalized TF-IDF vectors (sublinear tf, smoothed idf)
+   */
+  private vectorize(episodes: EpisodicMemory[]): TermVector[] {
+    const counts = episodes.map(episode => {
+      const text = [
+        episode.summary,
+        episode.summary, // The summary says what the episode is about: count it twice
+        episode.details,
+        ...(episode.outcome?.learnings ?? []),
+      ].join('\n');
+      const tf = new Map<string, number>();
+      for (const term of this.analyzer.analyze(text)) {
+        tf.set(term, (tf.get(term) ?? 0) + 1);
+      }
+      return tf;
+    });
+
+    const documentFrequency = new Map<string, number>();
+    for (const tf of counts) {
+      for (const term of tf.keys()) {
+        documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+      }
+    }
+
+    return counts.map(tf => {
+      const vector: TermVector = new Map();
+      let norm = 0;
+      for (const [term, count] of tf) {
+        const weight = (1 + Math.log(count)) * Math.log(1 + episodes.length / documentFrequency.get(term)!);
+        vector.set(term, weight);
+        norm += weight * weight;
+      }
+      norm = Math.sqrt(norm);
+      if (norm > 0) {
+        for (const [term, weight] of vector) vector.set(term, weight / norm);
+      }
+      return vector;
+    });
+  }
+
+  private similarity(a: EpisodicMemory, b: EpisodicMemory, vectorA: TermVector, vectorB: TermVector): number {
+    const text = dot(vectorA, vectorB);
+    if (a.tags.length === 0 || b.tags.length === 0) return text;
+    return (1 - this.tagWeight) * text + this.tagWeight * tagJaccard(a.tags, b.tags);
+  }
+
+  /**
+   * Label each episode with a cluster index, or NOISE
+   */
+  private dbscan(n: number, similarity: Float32Array): Int32Array {
+    const labels = new Int32Array(n).fill(UNVISITED);
+    const neighbours = (i: number): number[] => {
+      const result: number[] = [];
+      for (let j = 0; j < n; j++) {
+        if (j !== i && similarity[i * n + j] >= this.minSimilarity) result.push(j);
+      }
+      return result;
+    };
+
+    let clusterCount = 0;
+    for (let i = 0; i < n; i++) {
+      if (labels[i] !== UNVISITED) continue;
+      const seeds = neighbours(i);
+      if (seeds.length + 1 < this.minClusterSize) {
+        labels[i] = NOISE;
+        continue;
+      }
+
+      const cluster = clusterCount++;
+      labels[i] = cluster;
+      const queue = [...seeds];
+      while (queue.length > 0) {
+        const j = queue.shift()!;
+        if (labels[j] === NOISE) labels[j] = cluster; // Border episode
+        if (labels[j] !== UNVISITED) continue;
+        labels[j] = cluster;
+        const expansion = neighbours(j);
+        if (expansion.length + 1 >= this.minClusterSize) queue.push(...expansion);
+      }
+    }
+
+    return labels;
+  }
+
+  /**
+   * Silhouette of each clustered episode, using 1 - similarity as distance.
+   * Everything outside an episode's cluster (other clusters and noise) counts
+   * as the nearest alternative, so a single cluster is still scored.
+   */
+  private silhouettes(n: number, similarity: Float32Array, labels: Int32Array): Float64Array {
+    const result = new Float64Array(n);
+    for (let i = 0; i < n; i++) {
+      if (labels[i] < 0) continue;
+
+      let inside = 0;
+      let insideCount = 0;
+      const outside = new Map<number, { sum: number; count: number }>();
+      for (let j = 0; j < n; j++) {
+        if (j === i) continue;
+        const distance = 1 - similarity[i * n + j];
+        if (labels[j] === labels[i]) {
+          inside += distance;
+          insideCount++;
+        } else {
+          // Each noise episode is its own group
+          const group = labels[j] >= 0 ? labels[j] : n + j;
+          const entry = outside.get(group) ?? { sum: 0, count: 0 };
+          entry.sum += distance;
+          entry.count++;
+          outside.set(group, entry);
+        }
+      }
+
+      const a = insideCount > 0 ? inside / insideCount : 0;
+      const b = outside.size > 0
+        ? Math.min(...[...outside.values()].map(g => g.sum / g.count))
+        : 1;
+      result[i] = Math.max(a, b) > 0 ? (b - a) / Math.max(a, b) : 0;
+    }
+    return result;
+  }
+
+  private describe(
+    indexes: number[],
+    episodes: EpisodicMemory[],
+    vectors: TermVector[],
+    similarity: Float32Array,
+    silhouettes: Float64Array,
+    n: number
+  ): EpisodeCluster {
+    const members = indexes.map(i => episodes[i]);
+
+    const tagCounts = new Map<string, number>();
+    for (const member of members) {
+      for (const tag of new Set(member.tags)) tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1);
+    }
+    const rankedTags = [...tagCounts.entries()].sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : 1));
+
+    const typeCounts = new Map<EpisodicMemory['type'], number>();
+    for (const member of members) typeCounts.set(member.type, (typeCounts.get(member.type) ?? 0) + 1);
+    // Map iteration follows first occurrence, so ties go to the earliest type
+    const commonType = [...typeCounts.entries()].reduce((best, entry) => entry[1] > best[1] ? entry : best)[0];
+
+    const centroid = new Map<string, number>();
+    for (const i of indexes) {
+      for (const [term, weight] of vectors[i]) centroid.set(term, (centroid.get(term) ?? 0) + weight);
+    }
+    const topTerms = [...centroid.entries()]
+      .sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : 1))
+      .slice(0, TOP_TERMS)
+      .map(([term]) => term);
+
+    let pairSum = 0;
+    let pairs = 0;
+    for (let x = 0; x < indexes.length; x++) {
+      for (let y = x + 1; y < indexes.length; y++) {
+        pairSum += similarity[indexes[x] * n + indexes[y]];
+        pairs++;
+      }
+    }
+
+    return {
+      episodes: members,
+      centroidTags: rankedTags.filter(([, count]) => count >= members.length * 0.5).map(([tag]) => tag),
+      commonTags: rankedTags.filter(([, count]) => count === members.length).map(([tag]) => tag),
+      topTerms,
+      commonType,
+      avgImportance: members.reduce((sum, e) => sum + e.importance, 0) / members.length,
+      cohesion: pairs > 0 ? pairSum / pairs : 1,
+      quality: indexes.reduce((sum, i) => sum + silhouettes[i], 0) / indexes.length,
+    };
+  }
+}
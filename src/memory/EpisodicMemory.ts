@@ -10,6 +10,7 @@ import type {
   EpisodeQuery,
   EpisodeOutcome,
   Transcript,
+  TranscriptSearchMatch,
 } from './types.js';
 
 export class EpisodicMemory {
@@ -121,6 +122,13 @@ export class EpisodicMemory {
       .filter((e): e is EpisodicMemoryType => e !== null);
   }
 
+  /**
+   * Get multiple episodes by IDs without counting an access
+   */
+  peekByIds(ids: string[]): EpisodicMemoryType[] {
+    return this.storage.peekEpisodes(ids);
+  }
+
   /**
    * Search episodes
    */
@@ -240,6 +248,13 @@ export class EpisodicMemory {
     return this.storage.getTranscript(episodeId);
   }
 
+  /**
+   * Search transcript messages, optionally within specific episodes
+   */
+  searchTranscripts(query: string, options?: { episodeIds?: string[]; limit?: number }): TranscriptSearchMatch[] {
+    return this.storage.searchTranscripts(query, options);
+  }
+
   /**
    * Add messages to an existing transcript
    */
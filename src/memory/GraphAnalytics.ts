@@ -0,0 +1,243 @@
+/**
+ * Graph Analytics - Structure of the knowledge graph
+ *
+ * - PageRank and degree centrality surface the core concepts
+ * - Label propagation groups entities into topic communities
+ * - Bridges and articulation points are relations and entities whose removal
+ *   would disconnect part of the graph, i.e. knowledge that hangs by a thread
+ *
+ * PageRank follows relation direction (weighted by strength); the other
+ * measures treat the graph as undirected.
+ */
+
+import type { GraphAnalytics, KnowledgeGraph, SemanticRelation } from './types.js';
+import { CONTRADICTS } from './ContradictionDetector.js';
+import { SUPERSEDES, isValidAt } from './validity.js';
+
+/** Relations recording conflicts and replaced facts rather than connections between facts */
+const NON_KNOWLEDGE_RELATIONS = new Set([CONTRADICTS, SUPERSEDES]);
+
+export interface PageRankOptions {
+  /** Probability of following a relation rather than jumping (default: 0.85) */
+  damping?: number;
+  /** Maximum iterations (default: 100) */
+  maxIterations?: number;
+  /** Stop when ranks change less than this in total (default: 1e-6) */
+  tolerance?: number;
+}
+
+/** Neighbours of each entity, ignoring direction and self-relations */
+type Adjacency = Map<string, Array<{ to: string; relation: SemanticRelation }>>;
+
+function undirected(graph: KnowledgeGraph): Adjacency {
+  const adjacency: Adjacency = new Map(graph.entities.map(entity => [entity.id, []]));
+  for (const relation of graph.relations) {
+    if (relation.from === relation.to) continue;
+    const from = adjacency.get(relation.from);
+    const to = adjacency.get(relation.to);
+    if (!from || !to) continue;
+    from.push({ to: relation.to, relation });
+    to.push({ to: relation.from, relation });
+  }
+  return adjacency;
+}
+
+/**
+ * PageRank of each entity (ranks sum to 1)
+ */
+export function pageRank(graph: KnowledgeGraph, options: PageRankOptions = {}): Map<string, number> {
+  const { damping = 0.85, maxIterations = 100, tolerance = 1e-6 } = options;
+  const ids = graph.entities.map(entity => entity.id);
+  const n = ids.length;
+  if (n === 0) return new Map();
+
+  const outgoing = new Map<string, Array<{ to: string; weight: number }>>(ids.map(id => [id, []]));
+  for (const relation of graph.relations) {
+    if (relation.from === relation.to || relation.strength <= 0 || !outgoing.has(relation.to)) continue;
+    outgoing.get(relation.from)?.push({ to: relation.to, weight: relation.strength });
+  }
+  const outWeight = new Map(ids.map(id => [id, outgoing.get(id)!.reduce((sum, edge) => sum + edge.weight, 0)]));
+
+  let ranks = new Map(ids.map(id => [id, 1 / n]));
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    // Entities without outgoing relations spread their rank evenly
+    const dangling = ids.reduce((sum, id) => sum + (outWeight.get(id) === 0 ? ranks.get(id)! : 0), 0);
+    const next = new Map(ids.map(id => [id, (1 - damping) / n + damping * dangling / n]));
+
+    for (const id of ids) {
+      const total = outWeight.get(id)!;
+      if (total === 0) continue;
+      const share = damping * ranks.get(id)! / total;
+      for (const edge of outgoing.get(id)!) {
+        next.set(edge.to, next.get(edge.to)! + share * edge.weight);
+      }
+    }
+
+    const change = ids.reduce((sum, id) => sum + Math.abs(next.get(id)! - ranks.get(id)!), 0);
+    ranks = next;
+    if (change < tolerance) break;
+  }
+
+  return ranks;
+}
+
+/**
+ * Share of the other entities each entity is directly related to
+ */
+export function degreeCentrality(graph: KnowledgeGraph): Map<string, number> {
+  const adjacency = undirected(graph);
+  const others = Math.max(1, adjacency.size - 1);
+  return new Map([...adjacency].map(([id, edges]) => [id, new Set(edges.map(edge => edge.to)).size / others]));
+}
+
+/**
+ * Communities by weighted label propagation, largest first.
+ * Entities without relations are not part of any community.
+ */
+export function detectCommunities(graph: KnowledgeGraph, maxIterations: number = 20): string[][] {
+  const adjacency = undirected(graph);
+  // Visit in a fixed order so that results are stable between runs
+  const ids = [...adjacency.keys()].sort();
+  const labels = new Map(ids.map(id => [id, id]));
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let changed = false;
+    for (const id of ids) {
+      const weights = new Map<string, number>();
+      for (const { to, relation } of adjacency.get(id)!) {
+        const label = labels.get(to)!;
+        weights.set(label, (weights.get(label) ?? 0) + relation.strength);
+      }
+      if (weights.size === 0) continue;
+
+      const best = Math.max(...weights.values());
+      const current = labels.get(id)!;
+      if (weights.get(current) === best) continue;
+      const label = [...weights].filter(([, weight]) => weight === best).map(([label]) => label).sort()[0];
+      labels.set(id, label);
+      changed = true;
+    }
+    if (!changed) break;
+  }
+
+  const communities = new Map<string, string[]>();
+  for (const id of ids) {
+    if (adjacency.get(id)!.length === 0) continue;
+    const label = labels.get(id)!;
+    communities.set(label, [...(communities.get(label) ?? []), id]);
+  }
+  return [...communities.values()]
+    .filter(members => members.length > 1)
+    .sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Bridges (relations) and articulation points (entities) whose removal
+ * would split a connected part of the graph
+ */
+export function findBridges(graph: KnowledgeGraph): { bridges: SemanticRelation[]; articulationPoints: string[] } {
+  const adjacency = undirected(graph);
+  const discovered = new Map<string, number>();
+  const low = new Map<string, number>();
+  const bridges: SemanticRelation[] = [];
+  const articulationPoints = new Set<string>();
+  let time = 0;
+
+  // Iterative depth-first search (Tarjan), so long chains do not overflow the stack
+  for (const root of adjacency.keys()) {
+    if (discovered.has(root)) continue;
+    discovered.set(root, time);
+    low.set(root, time++);
+    let rootChildren = 0;
+    const stack = [{ id: root, via: null as SemanticRelation | null, next: 0 }];
+
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      const edges = adjacency.get(frame.id)!;
+
+      if (frame.next < edges.length) {
+        const { to, relation } = edges[frame.next++];
+        // Only the relation we came through is skipped: parallel relations still count
+        if (relation === frame.via) continue;
+        if (discovered.has(to)) {
+          low.set(frame.id, Math.min(low.get(frame.id)!, discovered.get(to)!));
+        } else {
+          discovered.set(to, time);
+          low.set(to, time++);
+          if (frame.id === root) rootChildren++;
+          stack.push({ id: to, via: relation, next: 0 });
+        }
+        continue;
+      }
+
+      stack.pop();
+      const parent = stack[stack.length - 1];
+      if (!parent) continue;
+      low.set(parent.id, Math.min(low.get(parent.id)!, low.get(frame.id)!));
+      if (low.get(frame.id)! > discovered.get(parent.id)!) bridges.push(frame.via!);
+      if (parent.id !== root && low.get(frame.id)! >= discovered.get(parent.id)!) articulationPoints.add(parent.id);
+    }
+
+    if (rootChildren > 1) articulationPoints.add(root);
+  }
+
+  return { bridges, articulationPoints: [...articulationPoints] };
+}
+
+/**
+ * The part of a graph that analytics run on: entities valid at the given time
+ * and the knowledge relations between them (no contradicts/supersedes edges)
+ */
+export function currentKnowledgeGraph(graph: KnowledgeGraph, at: number = Date.now()): KnowledgeGraph {
+  const entities = graph.entities.filter(entity => isValidAt(entity, at));
+  const ids = new Set(entities.map(entity => entity.id));
+  const relations = graph.relations.filter(relation =>
+    !NON_KNOWLEDGE_RELATIONS.has(relation.relationType) && ids.has(relation.from) && ids.has(relation.to)
+  );
+  return { entities, relations };
+}
+
+/**
+ * Centrality, communities and weak points, for the dashboard
+ */
+export function analyzeGraph(graph: KnowledgeGraph, limit: number = 10): GraphAnalytics {
+  const entities = new Map(graph.entities.map(entity => [entity.id, entity]));
+  const ranks = pageRank(graph);
+  const degrees = degreeCentrality(graph);
+  const rankOf = (id: string) => ranks.get(id) ?? 0;
+  const round = (value: number) => Math.round(value * 10000) / 10000;
+  const ref = (id: string) => ({ id, name: entities.get(id)!.name });
+
+  const centralEntities = graph.entities
+    .filter(entity => degrees.get(entity.id)! > 0)
+    .sort((a, b) => rankOf(b.id) - rankOf(a.id))
+    .slice(0, limit)
+    .map(entity => ({
+      id: entity.id,
+      name: entity.name,
+      type: entity.type,
+      pageRank: round(rankOf(entity.id)),
+      degreeCentrality: round(degrees.get(entity.id)!),
+    }));
+
+  const communities = detectCommunities(graph)
+    .slice(0, limit)
+    .map(members => ({
+      size: members.length,
+      members: [...members].sort((a, b) => rankOf(b) - rankOf(a)).slice(0, limit).map(ref),
+    }));
+
+  const weakPoints = findBridges(graph);
+  const bridges = weakPoints.bridges.slice(0, limit).map(relation => ({
+    relationId: relation.id,
+    relationType: relation.relationType,
+    from: ref(relation.from),
+    to: ref(relation.to),
+  }));
+  const articulationPoints = weakPoints.articulationPoints
+    .sort((a, b) => rankOf(b) - rankOf(a))
+    .slice(0, limit)
+    .map(id => ({ ...ref(id), type: entities.get(id)!.type }));
+
+  return { centralEntities, communities, bridges, articulationPoints };
+}
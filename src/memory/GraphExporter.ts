@@ -0,0 +1,180 @@
+/**
+ * Graph Exporter - Renders the knowledge graph for external tools
+ *
+ * GraphML (yEd, Gephi, Cytoscape), Graphviz DOT and Mermaid flowcharts.
+ * Entities can be filtered by type and tag; relations by minimum strength.
+ * Relations are only kept when both of their entities are.
+ */
+
+import type { KnowledgeGraph, SemanticEntityType } from './types.js';
+
+export const GRAPH_EXPORT_FORMATS = ['graphml', 'dot', 'mermaid'] as const;
+export type GraphExportFormat = typeof GRAPH_EXPORT_FORMATS[number];
+
+export const GRAPH_EXPORT_MIME_TYPES: Record<GraphExportFormat, string> = {
+  graphml: 'application/graphml+xml',
+  dot: 'text/vnd.graphviz',
+  mermaid: 'text/vnd.mermaid',
+};
+
+export interface GraphExportFilter {
+  /** Only entities of these types */
+  types?: SemanticEntityType[];
+  /** Only entities with any of these tags */
+  tags?: string[];
+  /** Only relations at least this strong */
+  minStrength?: number;
+}
+
+export function isGraphExportFormat(format: string): format is GraphExportFormat {
+  return (GRAPH_EXPORT_FORMATS as readonly string[]).includes(format);
+}
+
+/**
+ * Apply an export filter to a graph
+ */
+export function filterGraph(graph: KnowledgeGraph, filter: GraphExportFilter = {}): KnowledgeGraph {
+  const entities = graph.entities.filter(entity =>
+    (!filter.types?.length || filter.types.includes(entity.type)) &&
+    (!filter.tags?.length || entity.tags.some(tag => filter.tags!.includes(tag)))
+  );
+  const ids = new Set(entities.map(entity => entity.id));
+  const relations = graph.relations.filter(relation =>
+    ids.has(relation.from) && ids.has(relation.to) &&
+    relation.strength >= (filter.minStrength ?? 0)
+  );
+  return { entities, relations };
+}
+
+/**
+ * Filter a graph and render it in the given format
+ */
+export function exportGraph(graph: KnowledgeGraph, format: GraphExportFormat, filter?: GraphExportFilter): string {
+  const filtered = filterGraph(graph, filter);
+  switch (format) {
+    case 'graphml':
+      return toGraphML(filtered);
+    case 'dot':
+      return toDot(filtered);
+    case 'mermaid':
+      return toMermaid(filtered);
+  }
+}
+
+/**
+ * Export filter from query parameters (type, tag and min_strength; type and
+ * tag may repeat or be comma-separated)
+ */
+export function graphExportFilterFromParams(params: URLSearchParams): GraphExportFilter {
+  const list = (name: string) => params.getAll(name).flatMap(value => value.split(',')).map(v => v.trim()).filter(Boolean);
+  const types = list('type') as SemanticEntityType[];
+  const tags = list('tag');
+  const minStrength = params.has('min_strength') ? Number(params.get('min_strength')) : undefined;
+
+  return {
+    types: types.length > 0 ? types : undefined,
+    tags: tags.length > 0 ? tags : undefined,
+    minStrength: minStrength !== undefined && Number.isFinite(minStrength) ? minStrength : undefined,
+  };
+}
+
+export function toGraphML(graph: KnowledgeGraph): string {
+  const data = (key: string, value: string | number) => `<data key="${key}">${escapeXml(String(value))}</data>`;
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="name" for="node" attr.name="name" attr.type="string"/>',
+    '  <key id="type" for="node" attr.name="type" attr.type="string"/>',
+    '  <key id="description" for="node" attr.name="description" attr.type="string"/>',
+    '  <key id="tags" for="node" attr.name="tags" attr.type="string"/>',
+    '  <key id="confidence" for="node" attr.name="confidence" attr.type="double"/>',
+    '  <key id="relationType" for="edge" attr.name="relationType" attr.type="string"/>',
+    '  <key id="strength" for="edge" attr.name="strength" attr.type="double"/>',
+    '  <graph id="knowledge" edgedefault="directed">',
+  ];
+
+  for (const entity of graph.entities) {
+    lines.push(
+      `    <node id="${escapeXml(entity.id)}">` +
+      data('name', entity.name) +
+      data('type', entity.type) +
+      data('description', entity.description) +
+      data('tags', entity.tags.join(',')) +
+      data('confidence', entity.confidence) +
+      '</node>'
+    );
+  }
+  for (const relation of graph.relations) {
+    lines.push(
+      `    <edge id="${escapeXml(relation.id)}" source="${escapeXml(relation.from)}" target="${escapeXml(relation.to)}">` +
+      data('relationType', relation.relationType) +
+      data('strength', relation.strength) +
+      '</edge>'
+    );
+  }
+
+  lines.push('  </graph>', '</graphml>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Graphviz DOT. Strength (0-1) is drawn as the edge's pen width and scaled to
+ * dot's integer layout weight (1-10).
+ */
+export function toDot(graph: KnowledgeGraph): string {
+  const lines = ['digraph knowledge {', '  node [shape=box];'];
+
+  for (const entity of graph.entities) {
+    lines.push(
+      `  ${dotString(entity.id)} [label=${dotString(`${entity.name}\n(${entity.type})`)}, tooltip=${dotString(entity.description)}];`
+    );
+  }
+  for (const relation of graph.relations) {
+    lines.push(
+      `  ${dotString(relation.from)} -> ${dotString(relation.to)} [label=${dotString(relation.relationType)}, weight=${dotWeight(relation.strength)}, penwidth=${dotPenWidth(relation.strength)}];`
+    );
+  }
+
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+export function toMermaid(graph: KnowledgeGraph): string {
+  // Entity IDs are not valid Mermaid node IDs, so nodes are numbered
+  const nodeIds = new Map(graph.entities.map((entity, index) => [entity.id, `n${index}`]));
+  const lines = ['flowchart LR'];
+
+  for (const entity of graph.entities) {
+    lines.push(`  ${nodeIds.get(entity.id)}["${mermaidText(entity.name)}<br/>(${entity.type})"]`);
+  }
+  for (const relation of graph.relations) {
+    lines.push(`  ${nodeIds.get(relation.from)} -->|"${mermaidText(relation.relationType)}"| ${nodeIds.get(relation.to)}`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function dotString(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, '\\n')}"`;
+}
+
+function dotWeight(strength: number): number {
+  return Math.max(1, Math.round(strength * 10));
+}
+
+function dotPenWidth(strength: number): number {
+  return Math.round((1 + strength * 2) * 100) / 100;
+}
+
+function mermaidText(text: string): string {
+  return text.replace(/"/g, '#quot;').replace(/\r?\n/g, ' ');
+}
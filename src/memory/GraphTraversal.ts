@@ -0,0 +1,225 @@
+/**
+ * Graph Traversal - Multi-hop queries over the knowledge graph
+ *
+ * Each hop follows a relation from either end and is named the way it reads
+ * from the current entity: the relation type when leaving its source, the
+ * inverse name (or "~type" for unregistered types) when leaving its target.
+ * Relation type filters and hop sequences match those names, so
+ * ["depends_on", "depends_on"] finds transitive dependencies and
+ * ["required_by"] finds dependents.
+ */
+
+import type { SqliteStorage } from '../storage/SqliteStorage.js';
+import type { SemanticEntity, SemanticRelation } from './types.js';
+import type { RelationRegistry } from './RelationRegistry.js';
+
+export type TraversalDirection = 'out' | 'in' | 'both';
+
+export interface TraversalOptions {
+  /** Hop names to follow (default: all) */
+  relationTypes?: string[];
+  /** Follow relations from their source, their target or both (default: both) */
+  direction?: TraversalDirection;
+  /** Maximum number of hops */
+  maxDepth?: number;
+  /** Maximum number of results */
+  limit?: number;
+}
+
+export interface PathQueryOptions extends TraversalOptions {
+  /** Hop names in order ("*" matches any hop); overrides relationTypes and maxDepth */
+  path?: string[];
+  /** Only return paths ending at this entity */
+  to?: string;
+}
+
+export interface TraversalStep {
+  relation: SemanticRelation;
+  /** Relation name as read in the direction of travel */
+  label: string;
+  entity: SemanticEntity;
+}
+
+export interface TraversalPath {
+  start: SemanticEntity;
+  steps: TraversalStep[];
+}
+
+export interface Subgraph {
+  center: SemanticEntity;
+  /** Reached entities with their distance from the center */
+  entities: Array<{ entity: SemanticEntity; depth: number }>;
+  /** Matching relations between the reached entities */
+  relations: SemanticRelation[];
+  /** The entity limit was reached before the depth limit */
+  truncated: boolean;
+}
+
+/**
+ * Render a path as "a -[depends_on]-> b -[required_by]-> c"
+ */
+export function describePath(path: TraversalPath): string {
+  return path.steps.reduce(
+    (text, step) => `${text} -[${step.label}]-> ${step.entity.name}`,
+    path.start.name
+  );
+}
+
+export class GraphTraversal {
+  private storage: SqliteStorage;
+  private relationTypes: RelationRegistry;
+
+  constructor(storage: SqliteStorage, relationTypes: RelationRegistry) {
+    this.storage = storage;
+    this.relationTypes = relationTypes;
+  }
+
+  /**
+   * Simple paths (no repeated entity) starting at an entity, shortest first.
+   * With a hop sequence only paths that complete it are returned.
+   */
+  paths(fromIdentifier: string, options: PathQueryOptions = {}): TraversalPath[] {
+    const start = this.storage.getEntity(fromIdentifier);
+    if (!start) return [];
+
+    const target = options.to !== undefined ? this.storage.getEntity(options.to) : undefined;
+    if (target === null) return [];
+
+    const pattern = options.path;
+    const maxDepth = pattern ? pattern.length : options.maxDepth ?? 3;
+    const limit = options.limit ?? 50;
+    const results: TraversalPath[] = [];
+    const visited = new Set([start.id]);
+
+    const walk = (entity: SemanticEntity, steps: TraversalStep[]): void => {
+      if (steps.length >= maxDepth) return;
+      const names = pattern ? (pattern[steps.length] === '*' ? undefined : [pattern[steps.length]]) : options.relationTypes;
+
+      for (const step of this.steps(entity, { ...options, relationTypes: names })) {
+        if (visited.has(step.entity.id)) continue;
+        const path = [...steps, step];
+        const complete = (!pattern || path.length === pattern.length) && (!target || step.entity.id === target.id);
+        if (complete) results.push({ start, steps: path });
+
+        // Paths do not continue past their target
+        if (target && step.entity.id === target.id) continue;
+        visited.add(step.entity.id);
+        walk(step.entity, path);
+        visited.delete(step.entity.id);
+      }
+    };
+    walk(start, []);
+
+    return results
+      .sort((a, b) => a.steps.length - b.steps.length)
+      .slice(0, limit);
+  }
+
+  /**
+   * Shortest path between two entities (default: up to 6 hops)
+   */
+  shortestPath(fromIdentifier: string, toIdentifier: string, options: TraversalOptions = {}): TraversalPath | null {
+    const start = this.storage.getEntity(fromIdentifier);
+    const target = this.storage.getEntity(toIdentifier);
+    if (!start || !target) return null;
+    if (start.id === target.id) return { start, steps: [] };
+
+    const maxDepth = options.maxDepth ?? 6;
+    const reachedBy = new Map<string, { previous: string; step: TraversalStep }>();
+    const visited = new Set([start.id]);
+    let frontier = [start];
+
+    for (let depth = 0; depth < maxDepth && frontier.length > 0; depth++) {
+      const next: SemanticEntity[] = [];
+      for (const entity of frontier) {
+        for (const step of this.steps(entity, options)) {
+          if (visited.has(step.entity.id)) continue;
+          visited.add(step.entity.id);
+          reachedBy.set(step.entity.id, { previous: entity.id, step });
+          if (step.entity.id === target.id) {
+            return { start, steps: this.backtrack(reachedBy, target.id) };
+          }
+          next.push(step.entity);
+        }
+      }
+      frontier = next;
+    }
+
+    return null;
+  }
+
+  /**
+   * Entities within a number of hops of an entity (default: 2 hops, 100 entities)
+   * and the relations between them
+   */
+  subgraph(centerIdentifier: string, options: TraversalOptions = {}): Subgraph | null {
+    const center = this.storage.getEntity(centerIdentifier);
+    if (!center) return null;
+
+    const maxDepth = options.maxDepth ?? 2;
+    const limit = options.limit ?? 100;
+    const entities = [{ entity: center, depth: 0 }];
+    const reached = new Set([center.id]);
+    const relations = new Map<string, SemanticRelation>();
+    let truncated = false;
+    let frontier = [center];
+
+    for (let depth = 1; depth <= maxDepth && frontier.length > 0 && !truncated; depth++) {
+      const next: SemanticEntity[] = [];
+      for (const entity of frontier) {
+        for (const step of this.steps(entity, options)) {
+          if (!reached.has(step.entity.id)) {
+            if (entities.length >= limit) {
+              truncated = true;
+              continue;
+            }
+            reached.add(step.entity.id);
+            entities.push({ entity: step.entity, depth });
+            next.push(step.entity);
+          }
+          relations.set(step.relation.id, step.relation);
+        }
+      }
+      frontier = next;
+    }
+
+    // Relations among the outermost entities were not followed yet
+    for (const entity of frontier) {
+      for (const step of this.steps(entity, options)) {
+        if (reached.has(step.entity.id)) relations.set(step.relation.id, step.relation);
+      }
+    }
+
+    return { center, entities, relations: [...relations.values()], truncated };
+  }
+
+  /**
+   * Hops available from an entity under the given filters
+   */
+  private steps(entity: SemanticEntity, options: TraversalOptions): TraversalStep[] {
+    const direction = options.direction ?? 'both';
+    const steps: TraversalStep[] = [];
+
+    for (const relation of this.storage.getRelations(entity.id)) {
+      const outgoing = relation.from === entity.id;
+      const symmetric = this.relationTypes.resolve(relation.relationType).definition?.symmetric ?? false;
+      if (!symmetric && direction !== 'both' && (direction === 'out') !== outgoing) continue;
+
+      const label = this.relationTypes.label(relation, entity.id);
+      if (options.relationTypes && !options.relationTypes.includes(label)) continue;
+
+      const other = this.storage.getEntity(outgoing ? relation.to : relation.from);
+      if (other && other.id !== entity.id) steps.push({ relation, label, entity: other });
+    }
+
+    return steps;
+  }
+
+  private backtrack(reachedBy: Map<string, { previous: string; step: TraversalStep }>, entityId: string): TraversalStep[] {
+    const steps: TraversalStep[] = [];
+    for (let hop = reachedBy.get(entityId); hop; hop = reachedBy.get(hop.previous)) {
+      steps.unshift(hop.step);
+    }
+    return steps;
+  }
+}
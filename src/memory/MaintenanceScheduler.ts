@@ -0,0 +1,330 @@
+/**
+ * Maintenance Scheduler - Runs memory upkeep jobs on cron-like schedules
+ *
+ * Decay, access boosting, compression, working memory cleanup and DIKW
+ * auto-promotion otherwise only run when a tool is called. The scheduler
+ * checks for due jobs periodically, runs them one at a time and records every
+ * run in storage, so schedules survive restarts and runs missed while the
+ * server was down are caught up. Scheduled runs are claimed in storage, so
+ * when several processes share a data path only one of them runs each job.
+ */
+
+import type { SqliteStorage } from '../storage/SqliteStorage.js';
+import { MAINTENANCE_JOBS, type MaintenanceJobName, type MaintenanceRun } from './types.js';
+
+const CRON_ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+/** How far ahead next() searches (covers Feb 29 schedules) */
+const MAX_LOOKAHEAD_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+/**
+ * Standard 5-field cron expression (minute hour day-of-month month day-of-week)
+ * with `*`, lists, ranges and steps, evaluated in local time. As in cron, when
+ * both day fields are restricted a day matches if either does.
+ */
+export class CronSchedule {
+  readonly expression: string;
+  private minutes: Set<number>;
+  private hours: Set<number>;
+  private daysOfMonth: Set<number>;
+  private months: Set<number>;
+  private daysOfWeek: Set<number>;
+  private dayOfMonthRestricted: boolean;
+  private dayOfWeekRestricted: boolean;
+
+  constructor(expression: string) {
+    this.expression = expression.trim();
+    const fields = (CRON_ALIASES[this.expression] ?? this.expression).split(/\s+/);
+    if (fields.length !== 5) {
+      throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+    }
+
+    this.minutes = this.parseField(fields[0], 0, 59);
+    this.hours = this.parseField(fields[1], 0, 23);
+    this.daysOfMonth = this.parseField(fields[2], 1, 31);
+    this.months = this.parseField(fields[3], 1, 12);
+    // 7 is Sunday too
+    this.daysOfWeek = new Set([...this.parseField(fields[4], 0, 7)].map(day => day % 7));
+    this.dayOfMonthRestricted = fields[2] !== '*';
+    this.dayOfWeekRestricted = fields[4] !== '*';
+  }
+
+  matches(date: Date): boolean {
+    return this.minutes.has(date.getMinutes()) &&
+      this.hours.has(date.getHours()) &&
+      this.months.has(date.getMonth() + 1) &&
+      this.matchesDay(date);
+  }
+
+  /**
+   * First matching minute strictly after the given time (null if none within 5 years)
+   */
+  next(after: Date): Date | null {
+    const date = new Date(after);
+    date.setSeconds(0, 0);
+    date.setMinutes(date.getMinutes() + 1);
+    const limit = after.getTime() + MAX_LOOKAHEAD_MS;
+
+    while (date.getTime() <= limit) {
+      if (!this.months.has(date.getMonth() + 1)) {
+        date.setMonth(date.getMonth() + 1, 1);
+        date.setHours(0, 0, 0, 0);
+      } else if (!this.matchesDay(date)) {
+        date.setDate(date.getDate() + 1);
+        date.setHours(0, 0, 0, 0);
+      } else if (!this.hours.has(date.getHours())) {
+        date.setHours(date.getHours() + 1, 0, 0, 0);
+      } else if (!this.minutes.has(date.getMinutes())) {
+        date.setMinutes(date.getMinutes() + 1, 0, 0);
+      } else {
+        return date;
+      }
+    }
+    return null;
+  }
+
+  private matchesDay(date: Date): boolean {
+    const dayOfMonth = this.daysOfMonth.has(date.getDate());
+    const dayOfWeek = this.daysOfWeek.has(date.getDay());
+    if (this.dayOfMonthRestricted && this.dayOfWeekRestricted) {
+      return dayOfMonth || dayOfWeek;
+    }
+    return dayOfMonth && dayOfWeek;
+  }
+
+  private parseField(field: string, min: number, max: number): Set<number> {
+    const values = new Set<number>();
+    for (const part of field.split(',')) {
+      const [range, stepText] = part.split('/');
+      const step = stepText === undefined ? 1 : this.parseNumber(stepText, 1, max);
+      let from = min;
+      let to = max;
+      if (range !== '*') {
+        const [start, end] = range.split('-');
+        from = this.parseNumber(start, min, max);
+        // "5/15" means 5, 20, 35, ...
+        to = end !== undefined ? this.parseNumber(end, from, max) : stepText !== undefined ? max : from;
+      }
+      for (let value = from; value <= to; value += step) values.add(value);
+    }
+    return values;
+  }
+
+  private parseNumber(text: string, min: number, max: number): number {
+    const value = /^\d+$/.test(text) ? Number(text) : NaN;
+    if (!(value >= min && value <= max)) {
+      throw new Error(`Invalid cron expression "${this.expression}": "${text}" is not in ${min}-${max}`);
+    }
+    return value;
+  }
+}
+
+/** A maintenance job returns counts describing what it did */
+export type MaintenanceJob = () => Promise<Record<string, unknown>>;
+
+export interface MaintenanceConfig {
+  /** Run jobs on their schedules (default: false; jobs can still be run manually) */
+  enabled?: boolean;
+  /** Cron expression per job (5 fields or @hourly/@daily/@weekly/@monthly); null disables the job's schedule */
+  schedules?: Partial<Record<MaintenanceJobName, string | null>>;
+  /** How often to check for due jobs in ms (default: 60000) */
+  checkInterval?: number;
+}
+
+export const DEFAULT_MAINTENANCE_SCHEDULES: Record<MaintenanceJobName, string> = {
+  working_cleanup: '*/5 * * * *',
+  decay: '0 3 * * *',
+  boost: '0 3 * * *',
+  compress: '30 3 * * *',
+  dikw_promote: '0 4 * * *',
+};
+
+export interface MaintenanceJobStatus {
+  job: MaintenanceJobName;
+  /** Cron expression (null when the job only runs manually) */
+  schedule: string | null;
+  running: boolean;
+  lastRun: MaintenanceRun | null;
+  /** When the scheduler will next run the job (null when unscheduled) */
+  nextRunAt: number | null;
+}
+
+export interface MaintenanceStatus {
+  /** Whether jobs run on their schedules */
+  enabled: boolean;
+  jobs: MaintenanceJobStatus[];
+  recentRuns: MaintenanceRun[];
+}
+
+export class MaintenanceScheduler {
+  private storage: SqliteStorage;
+  private jobs: Record<MaintenanceJobName, MaintenanceJob>;
+  private schedules = new Map<MaintenanceJobName, CronSchedule>();
+  private enabled: boolean;
+  private checkInterval: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  /** Jobs that have never run are scheduled from here */
+  private since = Date.now();
+  /** Runs are chained so that only one job runs at a time */
+  private queue: Promise<unknown> = Promise.resolve();
+  private running = new Set<MaintenanceJobName>();
+  private stopped = false;
+
+  constructor(
+    storage: SqliteStorage,
+    jobs: Record<MaintenanceJobName, MaintenanceJob>,
+    config?: MaintenanceConfig
+  ) {
+    this.storage = storage;
+    this.jobs = jobs;
+    this.enabled = config?.enabled ?? false;
+    this.checkInterval = config?.checkInterval ?? 60_000;
+
+    const schedules = { ...DEFAULT_MAINTENANCE_SCHEDULES, ...config?.schedules };
+    for (const job of MAINTENANCE_JOBS) {
+      const expression = schedules[job];
+      if (expression) {
+        this.schedules.set(job, new CronSchedule(expression));
+      }
+    }
+  }
+
+  /**
+   * Start checking for due jobs (no-op unless enabled)
+   */
+  start(): void {
+    if (!this.enabled || this.timer || this.stopped) return;
+
+    this.since = Date.now();
+    this.timer = setInterval(() => {
+      this.runDue().catch(error => {
+        console.error(`[Maintenance] Scheduled run failed: ${(error as Error).message}`);
+      });
+    }, this.checkInterval);
+    this.timer.unref?.();
+  }
+
+  /**
+   * Stop the scheduler. Queued runs are skipped.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.stopped = true;
+  }
+
+  /**
+   * Run every job whose scheduled time has passed since its last run
+   */
+  runDue(now: number = Date.now()): Promise<MaintenanceRun[]> {
+    return this.enqueue(async () => {
+      if (this.stopped) return [];
+      // Another process sharing the data path may have run a job already
+      this.storage.refresh();
+      const runs: MaintenanceRun[] = [];
+      for (const job of MAINTENANCE_JOBS) {
+        if (this.stopped) break;
+        const nextRunAt = this.getNextRunAt(job);
+        if (nextRunAt === null || nextRunAt > now) continue;
+
+        // Lost to another process that started the same scheduled run
+        const run = this.storage.claimMaintenanceRun(job, nextRunAt);
+        if (run) runs.push(await this.execute(job, run));
+      }
+      return runs;
+    });
+  }
+
+  /**
+   * Run jobs now, regardless of their schedules (default: all jobs)
+   */
+  run(jobs: MaintenanceJobName[] = MAINTENANCE_JOBS): Promise<MaintenanceRun[]> {
+    return this.enqueue(() => this.runJobs(jobs, 'manual'));
+  }
+
+  getStatus(options?: { historyLimit?: number }): MaintenanceStatus {
+    return {
+      enabled: this.timer !== null,
+      jobs: MAINTENANCE_JOBS.map(job => ({
+        job,
+        schedule: this.schedules.get(job)?.expression ?? null,
+        running: this.running.has(job),
+        lastRun: this.getLastRun(job),
+        nextRunAt: this.getNextRunAt(job),
+      })),
+      recentRuns: this.storage.listMaintenanceRuns({ limit: options?.historyLimit ?? 10 }),
+    };
+  }
+
+  private getLastRun(job: MaintenanceJobName): MaintenanceRun | null {
+    return this.storage.listMaintenanceRuns({ job, limit: 1 })[0] ?? null;
+  }
+
+  private getNextRunAt(job: MaintenanceJobName): number | null {
+    const schedule = this.schedules.get(job);
+    if (!schedule) return null;
+    const from = this.getLastRun(job)?.startedAt ?? this.since;
+    return schedule.next(new Date(from))?.getTime() ?? null;
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async runJobs(jobs: MaintenanceJobName[], trigger: MaintenanceRun['trigger']): Promise<MaintenanceRun[]> {
+    const runs: MaintenanceRun[] = [];
+    for (const job of jobs) {
+      if (this.stopped) break;
+      runs.push(await this.execute(job, this.storage.startMaintenanceRun(job, trigger)));
+    }
+    return runs;
+  }
+
+  private async execute(job: MaintenanceJobName, run: MaintenanceRun): Promise<MaintenanceRun> {
+    this.running.add(job);
+    try {
+      const result = await this.jobs[job]();
+      return this.storage.finishMaintenanceRun(run.id, { status: 'success', result }) ?? run;
+    } catch (error) {
+      const message = (error as Error).message;
+      console.error(`[Maintenance] ${job} failed: ${message}`);
+      return this.storage.finishMaintenanceRun(run.id, { status: 'error', error: message }) ?? run;
+    } finally {
+      this.running.delete(job);
+    }
+  }
+}
+
+/**
+ * Get the maintenance config for this deployment.
+ *
+ * CC_MEMORY_MAINTENANCE=on enables scheduled runs (default: off; jobs can
+ * still be run with the maintenance_run tool).
+ * CC_MEMORY_MAINTENANCE_SCHEDULE overrides schedules as `job=cron;job=off`,
+ * e.g. `decay=0 2 * * *;compress=off`.
+ */
+export function getDefaultMaintenanceConfig(): MaintenanceConfig {
+  const enabled = ['on', 'true', '1'].includes(process.env.CC_MEMORY_MAINTENANCE?.toLowerCase() ?? '');
+  const schedules: Partial<Record<MaintenanceJobName, string | null>> = {};
+
+  for (const entry of (process.env.CC_MEMORY_MAINTENANCE_SCHEDULE ?? '').split(';')) {
+    if (!entry.trim()) continue;
+    const [job, expression = ''] = entry.split('=').map(s => s.trim());
+    if (!MAINTENANCE_JOBS.includes(job as MaintenanceJobName)) {
+      console.error(`[Maintenance] Ignoring schedule for unknown job: ${job}`);
+      continue;
+    }
+    schedules[job as MaintenanceJobName] = expression === 'off' ? null : expression;
+  }
+
+  return { enabled, schedules };
+}
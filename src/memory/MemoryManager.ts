@@ -8,6 +8,16 @@ import { WorkingMemory, type WorkingMemoryConfig } from './WorkingMemory.js';
 import { EpisodicMemory } from './EpisodicMemory.js';
 import { SemanticMemory } from './SemanticMemory.js';
 import { DIKWPipeline } from '../dikw/DIKWPipeline.js';
+import { parseQuery, getSearchText, hasStructuredFilters, matchesParsedQuery } from '../search/QueryParser.js';
+import { createHighlightedSnippet, findMatchSpans } from '../search/snippet.js';
+import { ContextPacker, type ContextCandidate, type ContextPackerOptions, type PackedContext } from './ContextPacker.js';
+import { createSummarizer, getDefaultSummarizer, type Summarizer, type SummarizerName } from './Summarizer.js';
+import { EpisodeClusterer, type EpisodeCluster } from './EpisodeClusterer.js';
+import { MaintenanceScheduler, type MaintenanceConfig, type MaintenanceStatus } from './MaintenanceScheduler.js';
+import { isValidAt } from './validity.js';
+import { ProvenanceTracker } from './ProvenanceTracker.js';
+import { GraphTraversal } from './GraphTraversal.js';
+import { analyzeGraph, currentKnowledgeGraph, pageRank } from './GraphAnalytics.js';
 import type {
   StorageConfig,
   MemoryStats,
@@ -20,10 +30,47 @@ import type {
   GoalContent,
   GoalProgress,
   GoalStatus,
+  MaintenanceJobName,
+  MaintenanceRun,
+  ProvenanceSource,
 } from './types.js';
 
+/**
+ * Shorten text to a maximum length, marking the cut with "…"
+ */
+function shorten(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
 export interface MemoryManagerConfig extends StorageConfig {
   sessionId?: string;
+  /** Summarizer for memory compression (default: CC_MEMORY_SUMMARIZER or 'extractive') */
+  summarizer?: Summarizer | SummarizerName;
+  /** Scheduled maintenance (decay, boosting, compression, cleanup, DIKW promotion; default: disabled) */
+  maintenance?: MaintenanceConfig;
+}
+
+export interface FormattedContextOptions {
+  /** Maximum length of the formatted context in characters (default: 4000) */
+  maxChars?: number;
+  /** Maximum length of each snippet in characters (default: 160) */
+  snippetLength?: number;
+}
+
+export interface SessionEndDIKWOptions {
+  /** Minimum confidence for auto-creating patterns (default: 0.6) */
+  minConfidence?: number;
+  /** Maximum age of episodes to consider in days (default: 7) */
+  maxAgeDays?: number;
+  /** Whether to only analyze or also create (default: true = create) */
+  autoCreate?: boolean;
+}
+
+export interface SessionEndDIKWResult {
+  patternsAnalyzed: number;
+  patternsCreated: number;
+  insightsCreated: number;
+  wisdomCreated: number;
 }
 
 export interface RecallResult {
@@ -42,14 +89,21 @@ export class MemoryManager {
   public readonly working: WorkingMemory;
   public readonly episodic: EpisodicMemory;
   public readonly semantic: SemanticMemory;
+  public readonly provenance: ProvenanceTracker;
+  public readonly graph: GraphTraversal;
 
   private storage: SqliteStorage;
   private sessionId: string;
+  private summarizer: Summarizer;
   private cleanupInterval: NodeJS.Timeout | null = null;
+  private maintenance: MaintenanceScheduler;
 
   constructor(config: MemoryManagerConfig) {
     this.sessionId = config.sessionId || uuidv7();
     this.storage = new SqliteStorage(config);
+    this.summarizer = typeof config.summarizer === 'string'
+      ? createSummarizer(config.summarizer)
+      : config.summarizer ?? getDefaultSummarizer();
 
     this.working = new WorkingMemory(this.storage, this.sessionId, {
       capacity: 7,
@@ -66,11 +120,29 @@ export class MemoryManager {
     });
     this.episodic = new EpisodicMemory(this.storage, this.sessionId);
     this.semantic = new SemanticMemory(this.storage);
+    this.provenance = new ProvenanceTracker(this.storage);
+    this.graph = new GraphTraversal(this.storage, this.semantic.relationTypes);
 
     // Start cleanup interval
     if (config.cleanupInterval) {
       this.startCleanup(config.cleanupInterval);
     }
+
+    this.maintenance = new MaintenanceScheduler(this.storage, {
+      working_cleanup: async () => ({ cleared: this.working.clearExpired() }),
+      decay: async () => ({ updated: this.applyEbbinghausDecay().updated }),
+      boost: async () => this.applyAccessBoost(),
+      compress: async () => {
+        const { clustersFound, episodesCompressed } = await this.compressMemories();
+        return { clustersFound, episodesCompressed };
+      },
+      dikw_promote: async () => {
+        const { patternsAnalyzed, patternsCreated, insightsCreated, wisdomCreated } =
+          this.runSessionEndDIKW({ maxAgeDays: 30 });
+        return { patternsAnalyzed, patternsCreated, insightsCreated, wisdomCreated };
+      },
+    }, config.maintenance);
+    this.storage.ready().then(() => this.maintenance.start(), () => undefined);
   }
 
   /**
@@ -97,6 +169,20 @@ export class MemoryManager {
     }, interval);
   }
 
+  /**
+   * Run maintenance jobs now (default: all jobs) and record the results
+   */
+  runMaintenance(jobs?: MaintenanceJobName[]): Promise<MaintenanceRun[]> {
+    return this.maintenance.run(jobs);
+  }
+
+  /**
+   * Get maintenance schedules, last runs and recent run history
+   */
+  getMaintenanceStatus(options?: { historyLimit?: number }): MaintenanceStatus {
+    return this.maintenance.getStatus(options);
+  }
+
   /**
    * Consolidate working memory to episodic or semantic memory
    */
@@ -137,6 +223,8 @@ export class MemoryManager {
       type: SemanticEntity['type'];
       description: string;
       tags?: string[];
+      /** Episodes (and transcript messages) the knowledge came from */
+      sources?: ProvenanceSource[];
     }
   ): SemanticEntity | null {
     const workingItem = this.working.get(workingKey);
@@ -148,6 +236,7 @@ export class MemoryManager {
       description: metadata.description,
       content: workingItem.value,
       tags: [...(metadata.tags || []), ...workingItem.tags],
+      sources: metadata.sources,
     });
 
     // Delete the working memory item after consolidation
@@ -164,12 +253,15 @@ export class MemoryManager {
     includeEpisodic?: boolean;
     includeSemantic?: boolean;
     limit?: number;
+    /** Also recall facts that are no longer valid */
+    includeHistory?: boolean;
   }): RecallResult {
     const {
       includeWorking = true,
       includeEpisodic = true,
       includeSemantic = true,
       limit = 10,
+      includeHistory = false,
     } = options || {};
 
     const result: RecallResult = {
@@ -179,16 +271,12 @@ export class MemoryManager {
     };
 
     if (includeWorking) {
-      // For working memory, we search by tags that might match the query
+      // Working memory is not indexed: match the parsed query against key, value and tags
+      const parsed = parseQuery(query);
       const workingItems = this.working.list();
       result.working = workingItems.filter(item => {
-        const valueStr = JSON.stringify(item.value).toLowerCase();
-        const queryLower = query.toLowerCase();
-        return (
-          item.key.toLowerCase().includes(queryLower) ||
-          valueStr.includes(queryLower) ||
-          item.tags.some(tag => tag.toLowerCase().includes(queryLower))
-        );
+        const text = [item.key, JSON.stringify(item.value), ...item.tags].join(' ');
+        return matchesParsedQuery(parsed, text, item.tags);
       }).slice(0, limit);
     }
 
@@ -197,50 +285,268 @@ export class MemoryManager {
     }
 
     if (includeSemantic) {
-      result.semantic = this.semantic.search({ query, limit });
+      result.semantic = this.semantic.search({ query, limit, includeHistory });
     }
 
     return result;
   }
 
   /**
-   * Get formatted context for recall (useful for prompts)
+   * Get formatted context for recall (useful for prompts).
+   * Matched words are highlighted in windowed snippets, and whole entries are
+   * dropped once the character budget is used up.
    */
-  async getFormattedContext(query: string): Promise<string> {
+  async getFormattedContext(query: string, options?: FormattedContextOptions): Promise<string> {
+    const maxChars = options?.maxChars ?? 4000;
+    const snippetLength = options?.snippetLength ?? 160;
     const recall = this.recall(query);
-    const parts: string[] = [];
+
+    const searchManager = this.storage.getSearchManager();
+    const analyzer = searchManager.getAnalyzer();
+    const parsed = parseQuery(query);
+    const terms = [...parsed.phrases, ...searchManager.analyzeQuery(getSearchText(parsed))];
+    const snippet = (text: string): string =>
+      createHighlightedSnippet(text, terms, { maxLength: snippetLength, analyzer }).text;
+    const hasMatch = (text: string): boolean => findMatchSpans(text, terms, analyzer).length > 0;
+
+    const sections: Array<{ heading: string; entries: string[][] }> = [];
 
     if (recall.working.length > 0) {
-      parts.push('## Current Context (Working Memory)');
-      for (const item of recall.working) {
-        parts.push(`- **${item.key}** (${item.type}): ${JSON.stringify(item.value)}`);
-      }
+      sections.push({
+        heading: '## Current Context (Working Memory)',
+        entries: recall.working.map(item => [
+          `- **${item.key}** (${item.type}): ${snippet(JSON.stringify(item.value))}`,
+        ]),
+      });
     }
 
     if (recall.episodic.length > 0) {
-      parts.push('\n## Relevant Past Events (Episodic Memory)');
-      for (const episode of recall.episodic) {
-        parts.push(`- **${episode.summary}** (${episode.type}, importance: ${episode.importance})`);
-        if (episode.outcome) {
-          parts.push(`  - Outcome: ${episode.outcome.status}`);
-          if (episode.outcome.learnings.length > 0) {
-            parts.push(`  - Learnings: ${episode.outcome.learnings.join(', ')}`);
+      sections.push({
+        heading: '## Relevant Past Events (Episodic Memory)',
+        entries: recall.episodic.map(episode => {
+          const lines = [`- ${snippet(episode.summary)} (${episode.type}, importance: ${episode.importance})`];
+          if (episode.details && hasMatch(episode.details)) {
+            lines.push(`  - Details: ${snippet(episode.details)}`);
+          }
+          if (episode.outcome) {
+            lines.push(`  - Outcome: ${episode.outcome.status}`);
+            if (episode.outcome.learnings.length > 0) {
+              lines.push(`  - Learnings: ${snippet(episode.outcome.learnings.join(', '))}`);
+            }
+          }
+          return lines;
+        }),
+      });
+    }
+
+    if (recall.semantic.length > 0) {
+      sections.push({
+        heading: '## Relevant Knowledge (Semantic Memory)',
+        entries: recall.semantic.map(entity => {
+          const lines = [`- **${entity.name}** (${entity.type}): ${snippet(entity.description)}`];
+          if (entity.observations.length > 0) {
+            // Prefer observations that mention the query
+            const observations = [
+              ...entity.observations.filter(hasMatch),
+              ...entity.observations.filter(o => !hasMatch(o)),
+            ].slice(0, 3);
+            lines.push(`  - Observations: ${observations.map(snippet).join('; ')}`);
           }
+          return lines;
+        }),
+      });
+    }
+
+    const searchText = getSearchText(parsed);
+    if (searchText) {
+      const dikw = searchManager.searchWithMetadata(searchText, {
+        types: ['pattern', 'insight', 'wisdom'],
+        limit: 5,
+        includeMetadata: true,
+        includeSnippets: true,
+        snippetLength,
+      });
+      if (dikw.length > 0) {
+        sections.push({
+          heading: '## Related Patterns, Insights and Wisdom',
+          entries: dikw.map(result => {
+            const label = result.metadata?.name ? `${result.metadata.name}: ` : '';
+            return [`- (${result.docType}) ${label}${result.snippet?.text ?? result.metadata?.summary ?? ''}`];
+          }),
+        });
+      }
+    }
+
+    if (sections.length === 0) {
+      return 'No relevant memories found.';
+    }
+
+    // Add whole entries while they fit, leaving room for the omission note
+    const parts: string[] = [];
+    let length = 0;
+    let omitted = 0;
+    const reserve = 80;
+    const fits = (text: string): boolean => length + text.length + 1 <= maxChars - reserve;
+
+    for (const section of sections) {
+      const heading = parts.length > 0 ? `\n${section.heading}` : section.heading;
+      let headingAdded = false;
+      for (const entry of section.entries) {
+        const text = entry.join('\n');
+        const needed = headingAdded ? text : `${heading}\n${text}`;
+        if (omitted > 0 || !fits(needed)) {
+          omitted++;
+          continue;
         }
+        parts.push(needed);
+        length += needed.length + 1;
+        headingAdded = true;
       }
     }
 
-    if (recall.semantic.length > 0) {
-      parts.push('\n## Relevant Knowledge (Semantic Memory)');
-      for (const entity of recall.semantic) {
-        parts.push(`- **${entity.name}** (${entity.type}): ${entity.description}`);
-        if (entity.observations.length > 0) {
-          parts.push(`  - Observations: ${entity.observations.slice(0, 3).join('; ')}`);
+    if (omitted > 0) {
+      parts.push(`\n_${omitted} more ${omitted === 1 ? 'memory' : 'memories'} omitted (context budget: ${maxChars} chars)_`);
+    }
+
+    return parts.join('\n');
+  }
+
+  /**
+   * Pack the most relevant memories from all layers into a token budget.
+   * Near-duplicates are dropped and lower-ranked memories are shortened
+   * (full details, then summary, then title only) before any are left out.
+   * Episode and entity details are taken from highlighted search snippets;
+   * raw details are used only for memories without a snippet.
+   */
+  packContext(query: string, options?: ContextPackerOptions & { limit?: number }): PackedContext {
+    const limit = options?.limit ?? 10;
+    const recall = this.smartRecall(query, { limit });
+    const candidates: ContextCandidate[] = [];
+    const searchText = getSearchText(parseQuery(query));
+
+    // Snippets of the best matching field, keyed by document ID
+    const excerpts = (snippetLength: number): Map<string, string> => {
+      const map = new Map<string, string>();
+      if (!searchText) return map;
+      const results = this.storage.getSearchManager().searchWithMetadata(searchText, {
+        types: ['episodic', 'semantic'],
+        limit: limit * 5,
+        includeSnippets: true,
+        snippetLength,
+      });
+      for (const result of results) {
+        // A snippet of the title field adds nothing to the title line
+        if (!result.snippet || result.snippet.field === 'summary' || result.snippet.field === 'name') continue;
+        const field = result.snippet.field;
+        map.set(result.docId, `  - ${field.charAt(0).toUpperCase()}${field.slice(1)}: ${result.snippet.text}`);
+      }
+      return map;
+    };
+    const fullExcerpts = excerpts(400);
+    const summaryExcerpts = excerpts(120);
+
+    for (const item of recall.working) {
+      const value = typeof item.value === 'string' ? item.value : JSON.stringify(item.value);
+      candidates.push({
+        id: item.id,
+        layer: 'working',
+        relevance: item.relevanceScore,
+        title: `- **${item.key}** (${item.type})`,
+        summary: `- **${item.key}** (${item.type}): ${shorten(value, 200)}`,
+        full: `- **${item.key}** (${item.type}): ${value}`,
+      });
+    }
+
+    for (const episode of recall.episodic) {
+      const title = `- **${episode.summary}** (${episode.type}, importance: ${episode.importance})`;
+      const outcome: string[] = [];
+      if (episode.outcome) {
+        outcome.push(`  - Outcome: ${episode.outcome.status}`);
+        if (episode.outcome.learnings.length > 0) {
+          outcome.push(`  - Learnings: ${episode.outcome.learnings.join(', ')}`);
+        }
+      }
+      const fullExcerpt = fullExcerpts.get(episode.id);
+      const summaryExcerpt = summaryExcerpts.get(episode.id);
+      candidates.push({
+        id: episode.id,
+        layer: 'episodic',
+        relevance: episode.relevanceScore,
+        title,
+        summary: [title, ...(summaryExcerpt ? [summaryExcerpt] : []), ...outcome].join('\n'),
+        full: [title, fullExcerpt ?? `  - Details: ${episode.details}`, ...outcome].join('\n'),
+      });
+    }
+
+    for (const entity of recall.semantic) {
+      const title = `- **${entity.name}** (${entity.type})`;
+      const summary = `${title}: ${entity.description}`;
+      const fullExcerpt = fullExcerpts.get(entity.id);
+      const summaryExcerpt = summaryExcerpts.get(entity.id);
+      const observations = entity.observations.length > 0
+        ? `${summary}\n  - Observations: ${entity.observations.join('; ')}`
+        : summary;
+      candidates.push({
+        id: entity.id,
+        layer: 'semantic',
+        relevance: entity.relevanceScore,
+        title,
+        summary: summaryExcerpt ? `${title}\n${summaryExcerpt}` : summary,
+        full: fullExcerpt ? `${title}\n${fullExcerpt}` : observations,
+      });
+    }
+
+    if (searchText) {
+      const results = this.storage.getSearchManager().search(searchText, {
+        types: ['pattern', 'insight', 'wisdom'],
+        limit,
+      });
+      for (const result of results) {
+        if (result.docType === 'pattern') {
+          const pattern = this.storage.getPattern(result.docId);
+          if (!pattern) continue;
+          const summary = `- ${pattern.pattern} (confidence: ${pattern.confidence.toFixed(2)})`;
+          candidates.push({
+            id: pattern.id,
+            layer: 'pattern',
+            relevance: result.score,
+            title: `- ${shorten(pattern.pattern, 80)}`,
+            summary,
+            full: pattern.relatedTags.length > 0 ? `${summary}\n  - Tags: ${pattern.relatedTags.join(', ')}` : summary,
+          });
+        } else if (result.docType === 'insight') {
+          const insight = this.storage.getInsight(result.docId);
+          if (!insight) continue;
+          const summary = `- ${insight.insight} (confidence: ${insight.confidence.toFixed(2)})`;
+          candidates.push({
+            id: insight.id,
+            layer: 'insight',
+            relevance: result.score,
+            title: `- ${shorten(insight.insight, 80)}`,
+            summary,
+            full: insight.reasoning ? `${summary}\n  - Reasoning: ${insight.reasoning}` : summary,
+          });
+        } else if (result.docType === 'wisdom') {
+          const wisdom = this.storage.getWisdom(result.docId);
+          if (!wisdom) continue;
+          const summary = `- **${wisdom.name}**: ${wisdom.principle}`;
+          const details = [`  - ${wisdom.description}`];
+          if (wisdom.limitations.length > 0) {
+            details.push(`  - Limitations: ${wisdom.limitations.join('; ')}`);
+          }
+          candidates.push({
+            id: wisdom.id,
+            layer: 'wisdom',
+            relevance: result.score,
+            title: `- **${wisdom.name}**`,
+            summary,
+            full: [summary, ...details].join('\n'),
+          });
         }
       }
     }
 
-    return parts.length > 0 ? parts.join('\n') : 'No relevant memories found.';
+    return new ContextPacker(options).pack(candidates);
   }
 
   /**
@@ -267,7 +573,7 @@ export class MemoryManager {
 
     // Get all data for analysis
     const allEpisodes = this.storage.searchEpisodes({});
-    const allEntities = this.storage.searchEntities({});
+    const allEntities = this.storage.searchEntities({ includeHistory: true });
     const exportData = this.storage.export();
     const allRelations = exportData.semantic.relations;
     const workingItems = this.working.list();
@@ -364,6 +670,7 @@ export class MemoryManager {
         totalEdges,
         averageDegree: Math.round(averageDegree * 100) / 100,
         density: Math.round(density * 1000) / 1000,
+        ...analyzeGraph(currentKnowledgeGraph({ entities: allEntities, relations: allRelations }, now)),
       },
       stats,
       generatedAt: now,
@@ -415,6 +722,10 @@ export class MemoryManager {
    * Context-dependent encoding (N6): When the current context matches the episode's
    * encoding context (projectPath, branch), a 1.2x bonus is applied to the relevance score.
    * This mimics how human memory recall is enhanced when in the same context as encoding.
+   *
+   * Hybrid retrieval: episodic and semantic candidates come from both the inverted index
+   * and the embedding vector index, and their text match blends keyword coverage with
+   * cosine similarity (weighted by semanticWeight), so near-paraphrases are also recalled.
    */
   smartRecall(query: string, options?: {
     includeWorking?: boolean;
@@ -430,6 +741,11 @@ export class MemoryManager {
     activationDecay?: number;
     /** Maximum hops for spreading activation (default: 2) */
     maxSpreadingHops?: number;
+    /**
+     * Boost activation of central entities by up to this factor, using PageRank
+     * over the whole graph as a prior, 0-1 (default: 0, off)
+     */
+    centralityPrior?: number;
     /** Current context for context-dependent encoding bonus (1.2x when matching) */
     currentContext?: {
       projectPath?: string;
@@ -438,6 +754,12 @@ export class MemoryManager {
     };
     /** Context match multiplier (default: 1.2) */
     contextMatchMultiplier?: number;
+    /** Weight of embedding similarity in the text match score, 0-1 (default: 0.3) */
+    semanticWeight?: number;
+    /** Minimum cosine similarity for embedding matches (default: 0.5) */
+    minSimilarity?: number;
+    /** Also recall facts that are no longer valid */
+    includeHistory?: boolean;
   }): ScoredRecallResult {
     const {
       includeWorking = true,
@@ -450,8 +772,12 @@ export class MemoryManager {
       spreadingActivation = true,
       activationDecay = 0.5,
       maxSpreadingHops = 2,
+      centralityPrior = 0,
       currentContext,
       contextMatchMultiplier = 1.2,
+      semanticWeight = 0.3,
+      minSimilarity = 0.5,
+      includeHistory = false,
     } = options || {};
 
     const result: ScoredRecallResult = {
@@ -460,7 +786,12 @@ export class MemoryManager {
       semantic: [],
     };
 
-    const queryLower = query.toLowerCase();
+    // Filters (type:, tag:, ...) are applied by the searches; score only the free text
+    const parsedQuery = parseQuery(query);
+    const searchText = getSearchText(parsedQuery);
+    // Vector-only candidates bypass SQL filters, so only use them for plain text queries
+    const allowVectorOnly = !hasStructuredFilters(parsedQuery);
+    const queryLower = searchText.toLowerCase();
     const queryTerms = queryLower.split(/\s+/).filter(t => t.length > 2);
     const now = Date.now();
 
@@ -498,13 +829,24 @@ export class MemoryManager {
     // Score episodic memories
     if (includeEpisodic) {
       const episodes = this.episodic.search({ query, limit: limit * 2 });
+      const similarities = this.getSimilarityScores(searchText, 'episodic', limit * 4, minSimilarity);
+
+      // Add vector-only candidates (paraphrases without shared keywords),
+      // read without counting an access so that recall stays read-only
+      const seenEpisodes = new Set(episodes.map(ep => ep.id));
+      const extraEpisodeIds = allowVectorOnly
+        ? [...similarities.keys()].filter(id => !seenEpisodes.has(id)).slice(0, limit)
+        : [];
+      episodes.push(...this.episodic.peekByIds(extraEpisodeIds));
+
       result.episodic = episodes
         .map(episode => {
-          const textMatch = this.calculateTextMatch(queryTerms, [
+          const keywordMatch = this.calculateTextMatch(queryTerms, [
             episode.summary.toLowerCase(),
             episode.details.toLowerCase(),
             ...episode.tags.map(t => t.toLowerCase()),
           ]);
+          const textMatch = this.blendTextMatch(keywordMatch, similarities.get(episode.id) ?? 0, semanticWeight);
 
           // Recency score (decays over weeks)
           const ageInWeeks = (now - episode.timestamp) / (7 * 24 * 60 * 60 * 1000);
@@ -573,16 +915,28 @@ export class MemoryManager {
 
     // Score semantic entities
     if (includeSemantic) {
-      const entities = this.semantic.search({ query, limit: limit * 2 });
+      const entities = this.semantic.search({ query, limit: limit * 2, includeHistory });
+      const similarities = this.getSimilarityScores(searchText, 'semantic', limit * 4, minSimilarity);
+
+      // Add vector-only candidates (paraphrases without shared keywords)
+      const seenEntities = new Set(entities.map(e => e.id));
+      const extraEntityIds = allowVectorOnly
+        ? [...similarities.keys()].filter(id => !seenEntities.has(id)).slice(0, limit)
+        : [];
+      for (const id of extraEntityIds) {
+        const entity = this.semantic.get(id);
+        if (entity && (includeHistory || isValidAt(entity, now))) entities.push(entity);
+      }
 
       // Score helper function
       const scoreEntity = (entity: SemanticEntity, baseScore?: number): number => {
-        const textMatch = this.calculateTextMatch(queryTerms, [
+        const keywordMatch = this.calculateTextMatch(queryTerms, [
           entity.name.toLowerCase(),
           entity.description.toLowerCase(),
           ...entity.tags.map(t => t.toLowerCase()),
           ...entity.observations.map(o => o.toLowerCase()),
         ]);
+        const textMatch = this.blendTextMatch(keywordMatch, similarities.get(entity.id) ?? 0, semanticWeight);
 
         // Confidence score
         const confidenceScore = entity.confidence;
@@ -620,6 +974,7 @@ export class MemoryManager {
       if (spreadingActivation && scoredEntities.size > 0) {
         const activatedEntities = new Map(scoredEntities);
         const toProcess: Array<{ entityId: string; score: number; hop: number }> = [];
+        const centrality = centralityPrior > 0 ? this.normalizedPageRank() : null;
 
         // Initialize with directly matched entities
         for (const [id, { relevanceScore }] of scoredEntities) {
@@ -637,8 +992,13 @@ export class MemoryManager {
           const relatedWithStrength = this.semantic.getRelatedWithStrength(entityId);
 
           for (const { entity: related, strength } of relatedWithStrength) {
+            if (!includeHistory && !isValidAt(related, now)) continue;
+
             // Calculate activation score: parent score * relation strength * decay per hop
-            const activationScore = score * strength * Math.pow(activationDecay, hop + 1);
+            let activationScore = score * strength * Math.pow(activationDecay, hop + 1);
+            if (centrality) {
+              activationScore *= 1 + centralityPrior * (centrality.get(related.id) ?? 0);
+            }
 
             // Skip if activation is too weak
             if (activationScore < 0.05) continue;
@@ -683,6 +1043,15 @@ export class MemoryManager {
     return result;
   }
 
+  /**
+   * PageRank of each currently valid entity relative to the most central one (0-1)
+   */
+  private normalizedPageRank(): Map<string, number> {
+    const ranks = pageRank(currentKnowledgeGraph(this.semantic.getGraph()));
+    const max = Math.max(0, ...ranks.values());
+    return new Map([...ranks].map(([id, rank]) => [id, max > 0 ? rank / max : 0]));
+  }
+
   /**
    * Calculate text match score
    */
@@ -701,6 +1070,31 @@ export class MemoryManager {
     return matchCount / queryTerms.length;
   }
 
+  /**
+   * Get embedding similarity scores for a document type, keyed by document ID
+   */
+  private getSimilarityScores(
+    query: string,
+    docType: 'episodic' | 'semantic',
+    limit: number,
+    minSimilarity: number
+  ): Map<string, number> {
+    const results = this.storage.getSearchManager().semanticSearch(query, {
+      types: [docType],
+      limit,
+      minScore: minSimilarity,
+    });
+    return new Map(results.map(r => [r.docId, r.score]));
+  }
+
+  /**
+   * Blend keyword match and embedding similarity into a single text match score
+   */
+  private blendTextMatch(keywordMatch: number, similarity: number, semanticWeight: number): number {
+    const weight = Math.min(1, Math.max(0, semanticWeight));
+    return (keywordMatch * (1 - weight)) + (Math.max(0, similarity) * weight);
+  }
+
   /**
    * Find reconsolidation candidates for an episode (N7).
    *
@@ -1056,23 +1450,12 @@ export class MemoryManager {
    * Run DIKW pattern detection on session end (N4+P7).
    * Automatically detects patterns from recent episodes and creates pattern candidates.
    * This mimics the brain's offline processing during sleep that strengthens patterns.
+   * Episodes are not compressed here; see compressRecentEpisodes.
    *
    * @param options Configuration for auto-DIKW
    * @returns Created patterns count
    */
-  runSessionEndDIKW(options?: {
-    /** Minimum confidence for auto-creating patterns (default: 0.6) */
-    minConfidence?: number;
-    /** Maximum age of episodes to consider in days (default: 7) */
-    maxAgeDays?: number;
-    /** Whether to only analyze or also create (default: true = create) */
-    autoCreate?: boolean;
-  }): {
-    patternsAnalyzed: number;
-    patternsCreated: number;
-    insightsCreated: number;
-    wisdomCreated: number;
-  } {
+  runSessionEndDIKW(options?: SessionEndDIKWOptions): SessionEndDIKWResult {
     const {
       minConfidence = 0.6,
       maxAgeDays = 7,
@@ -1121,34 +1504,39 @@ export class MemoryManager {
   }
 
   /**
-   * Cluster similar episodes based on tags, type, and content (P3).
+   * Compress clusters of recent similar episodes with the configured summarizer.
+   * Opt-in counterpart of runSessionEndDIKW for callers that can wait for it.
+   */
+  async compressRecentEpisodes(options?: { maxAgeDays?: number }): Promise<{ clustersFound: number; episodesCompressed: number }> {
+    const { clustersFound, episodesCompressed } = await this.compressMemories({ maxAgeDays: options?.maxAgeDays ?? 7 });
+    return { clustersFound, episodesCompressed };
+  }
+
+  /**
+   * Cluster similar episodes by content and tags (P3).
    *
-   * This method groups episodes that share common characteristics,
-   * preparing them for summarization and compression.
+   * This method groups episodes about the same thing (by text similarity of
+   * their summary, details and learnings), preparing them for summarization
+   * and compression.
    *
    * @param options Configuration for clustering
-   * @returns Array of episode clusters
+   * @returns Array of episode clusters, largest first
    */
   clusterSimilarEpisodes(options?: {
     /** Episode type to cluster (all types if not specified) */
     type?: EpisodicMemoryType['type'];
-    /** Minimum tag overlap ratio to group episodes (default: 0.4) */
-    minTagOverlap?: number;
+    /** Minimum similarity (0-1) for episodes to be grouped (default: 0.3) */
+    minSimilarity?: number;
     /** Minimum cluster size (default: 3) */
     minClusterSize?: number;
     /** Maximum age of episodes to consider in days (default: 30) */
     maxAgeDays?: number;
     /** Maximum number of episodes to analyze (default: 200) */
     limit?: number;
-  }): Array<{
-    centroidTags: string[];
-    episodes: EpisodicMemoryType[];
-    avgImportance: number;
-    commonType: EpisodicMemoryType['type'];
-  }> {
+  }): EpisodeCluster[] {
     const {
       type,
-      minTagOverlap = 0.4,
+      minSimilarity,
       minClusterSize = 3,
       maxAgeDays = 30,
       limit = 200,
@@ -1162,139 +1550,37 @@ export class MemoryManager {
       limit,
     }).filter(ep =>
       ep.timestamp >= cutoffTime &&
-      ep.tags.length > 0 &&
       !ep.tags.includes('summary') // Exclude existing summaries
     );
 
-    if (episodes.length < minClusterSize) {
-      return [];
-    }
-
-    // Simple greedy clustering based on tag overlap
-    const clusters: Array<{
-      centroidTags: string[];
-      episodes: EpisodicMemoryType[];
-      avgImportance: number;
-      commonType: EpisodicMemoryType['type'];
-    }> = [];
-
-    const clustered = new Set<string>();
-
-    for (const episode of episodes) {
-      if (clustered.has(episode.id)) continue;
-
-      // Find all episodes with sufficient tag overlap
-      const clusterMembers: EpisodicMemoryType[] = [episode];
-      const episodeTags = new Set(episode.tags);
-
-      for (const other of episodes) {
-        if (other.id === episode.id || clustered.has(other.id)) continue;
-        if (other.type !== episode.type) continue;
-
-        // Calculate tag overlap
-        const otherTags = new Set(other.tags);
-        const commonTags = [...episodeTags].filter(t => otherTags.has(t));
-        const overlap = commonTags.length / Math.max(episodeTags.size, otherTags.size);
-
-        if (overlap >= minTagOverlap) {
-          clusterMembers.push(other);
-        }
-      }
-
-      if (clusterMembers.length >= minClusterSize) {
-        // Mark all as clustered
-        for (const member of clusterMembers) {
-          clustered.add(member.id);
-        }
-
-        // Find centroid tags (tags that appear in majority of cluster)
-        const tagCounts = new Map<string, number>();
-        for (const member of clusterMembers) {
-          for (const tag of member.tags) {
-            tagCounts.set(tag, (tagCounts.get(tag) || 0) + 1);
-          }
-        }
-
-        const centroidTags = [...tagCounts.entries()]
-          .filter(([_, count]) => count >= clusterMembers.length * 0.5)
-          .sort((a, b) => b[1] - a[1])
-          .map(([tag]) => tag);
-
-        const avgImportance = clusterMembers.reduce((sum, e) => sum + e.importance, 0) / clusterMembers.length;
-
-        clusters.push({
-          centroidTags,
-          episodes: clusterMembers,
-          avgImportance,
-          commonType: episode.type,
-        });
-      }
-    }
-
-    return clusters;
+    return new EpisodeClusterer({ minSimilarity, minClusterSize }).cluster(episodes).clusters;
   }
 
   /**
    * Create a summary episode from a cluster of similar episodes (P3).
    *
-   * The summary combines key information from all episodes in the cluster,
-   * and links back to the original episodes.
+   * The summary is written by the configured summarizer from the key
+   * information of all episodes in the cluster, and links back to them.
    *
    * @param cluster The cluster to summarize
    * @param options Summary options
    * @returns The created summary episode
    */
-  summarizeCluster(cluster: {
-    centroidTags: string[];
-    episodes: EpisodicMemoryType[];
-    avgImportance: number;
-    commonType: EpisodicMemoryType['type'];
-  }, options?: {
+  async summarizeCluster(cluster: Pick<EpisodeCluster, 'centroidTags' | 'episodes' | 'avgImportance' | 'commonType'>, options?: {
     /** Custom summary (auto-generated if not provided) */
     customSummary?: string;
     /** Reduce original episode importance by this factor (default: 0.4) */
     originalImportanceReduction?: number;
-  }): EpisodicMemoryType {
+    /** Summarizer to use instead of the configured one */
+    summarizer?: Summarizer;
+  }): Promise<EpisodicMemoryType> {
     const {
       customSummary,
       originalImportanceReduction = 0.4,
+      summarizer = this.summarizer,
     } = options || {};
 
-    // Collect all unique learnings from the cluster
-    const allLearnings: string[] = [];
-    for (const episode of cluster.episodes) {
-      if (episode.outcome?.learnings) {
-        for (const learning of episode.outcome.learnings) {
-          if (!allLearnings.includes(learning)) {
-            allLearnings.push(learning);
-          }
-        }
-      }
-    }
-
-    // Generate summary text
-    const typeDescriptions: Record<string, string> = {
-      success: 'successes',
-      error: 'errors',
-      milestone: 'milestones',
-      incident: 'incidents',
-      interaction: 'interactions',
-    };
-
-    const summary = customSummary ||
-      `Summary: ${cluster.episodes.length} ${typeDescriptions[cluster.commonType] || 'episodes'} related to ${cluster.centroidTags.slice(0, 3).join(', ')}`;
-
-    // Combine details from top episodes
-    const topEpisodes = cluster.episodes
-      .sort((a, b) => b.importance - a.importance)
-      .slice(0, 5);
-
-    const details = [
-      `Summarized from ${cluster.episodes.length} episodes`,
-      '',
-      'Key episodes:',
-      ...topEpisodes.map((ep, i) => `${i + 1}. ${ep.summary}`),
-    ].join('\n');
+    const generated = await summarizer.summarize(cluster);
 
     // Determine appropriate importance (slightly higher than average)
     const summaryImportance = Math.min(10, Math.ceil(cluster.avgImportance * 1.2));
@@ -1302,13 +1588,13 @@ export class MemoryManager {
     // Create the summary episode
     const summaryEpisode = this.episodic.record({
       type: cluster.commonType,
-      summary,
-      details,
+      summary: customSummary || generated.summary,
+      details: generated.details,
       importance: summaryImportance,
       tags: [...cluster.centroidTags, 'summary', 'compressed'],
-      outcome: allLearnings.length > 0 ? {
+      outcome: generated.learnings.length > 0 ? {
         status: 'success',
-        learnings: allLearnings,
+        learnings: generated.learnings,
       } : undefined,
     });
 
@@ -1335,25 +1621,25 @@ export class MemoryManager {
    * @param options Compression options
    * @returns Compression results
    */
-  compressMemories(options?: {
+  async compressMemories(options?: {
     /** Episode type to compress (all types if not specified) */
     type?: EpisodicMemoryType['type'];
-    /** Minimum tag overlap ratio (default: 0.4) */
-    minTagOverlap?: number;
+    /** Minimum similarity (0-1) for episodes to be grouped (default: 0.3) */
+    minSimilarity?: number;
     /** Minimum cluster size (default: 3) */
     minClusterSize?: number;
     /** Maximum age of episodes to consider (default: 30 days) */
     maxAgeDays?: number;
     /** Reduce original episode importance (default: 0.4) */
     originalImportanceReduction?: number;
-  }): {
+  }): Promise<{
     clustersFound: number;
     episodesCompressed: number;
     summariesCreated: Array<{ id: string; summary: string; episodeCount: number }>;
-  } {
+  }> {
     const {
       type,
-      minTagOverlap,
+      minSimilarity,
       minClusterSize,
       maxAgeDays,
       originalImportanceReduction,
@@ -1362,7 +1648,7 @@ export class MemoryManager {
     // Find clusters
     const clusters = this.clusterSimilarEpisodes({
       type,
-      minTagOverlap,
+      minSimilarity,
       minClusterSize,
       maxAgeDays,
     });
@@ -1372,7 +1658,7 @@ export class MemoryManager {
 
     // Create summaries for each cluster
     for (const cluster of clusters) {
-      const summaryEpisode = this.summarizeCluster(cluster, {
+      const summaryEpisode = await this.summarizeCluster(cluster, {
         originalImportanceReduction,
       });
 
@@ -1648,6 +1934,7 @@ export class MemoryManager {
       console.error(`[cc-memory] DIKW analysis error: ${(error as Error).message}`);
     }
 
+    this.maintenance.stop();
     if (this.cleanupInterval) {
       clearInterval(this.cleanupInterval);
       this.cleanupInterval = null;
@@ -0,0 +1,199 @@
+/**
+ * Provenance Tracker - Explains where a piece of knowledge came from
+ *
+ * Entities record the episodes (and transcript messages) their observations
+ * came from as provenance links; patterns, insights and wisdom record them
+ * both as links and through their own derivation fields. explain() walks
+ * that chain from wisdom down to the raw conversation.
+ */
+
+import type { SqliteStorage } from '../storage/SqliteStorage.js';
+import type { ProvenanceLink, ProvenanceNode, ProvenanceTargetType } from './types.js';
+
+export interface ExplainOptions {
+  /** Transcript messages shown per episode (default: 20) */
+  maxMessages?: number;
+  /** Characters shown per transcript message (default: 500) */
+  maxMessageLength?: number;
+}
+
+/** Episode sources of one node, merged by episode */
+interface EpisodeSources {
+  ranges: Array<{ start: number; end: number }>;
+  observations: string[];
+}
+
+export class ProvenanceTracker {
+  private storage: SqliteStorage;
+
+  constructor(storage: SqliteStorage) {
+    this.storage = storage;
+  }
+
+  /**
+   * Build the provenance tree of an entity, pattern, insight or wisdom.
+   * Entities and wisdom can be given by name. Without a type, entities are
+   * tried first, then wisdom, insights and patterns.
+   */
+  explain(identifier: string, type?: ProvenanceTargetType, options?: ExplainOptions): ProvenanceNode | null {
+    const walk = new ProvenanceWalk(this.storage, options);
+    const types: ProvenanceTargetType[] = type ? [type] : ['entity', 'wisdom', 'insight', 'pattern'];
+
+    for (const candidate of types) {
+      const node = walk.node(candidate, identifier);
+      if (node) return node;
+    }
+    return null;
+  }
+}
+
+/**
+ * One explanation. Each record appears once: a pattern reached through an
+ * insight is not repeated under the wisdom that lists both.
+ */
+class ProvenanceWalk {
+  private storage: SqliteStorage;
+  private visited = new Set<string>();
+  private maxMessages: number;
+  private maxMessageLength: number;
+
+  constructor(storage: SqliteStorage, options?: ExplainOptions) {
+    this.storage = storage;
+    this.maxMessages = options?.maxMessages ?? 20;
+    this.maxMessageLength = options?.maxMessageLength ?? 500;
+  }
+
+  node(type: ProvenanceTargetType, identifier: string): ProvenanceNode | null {
+    switch (type) {
+      case 'entity': {
+        const entity = this.storage.getEntity(identifier);
+        if (!entity || !this.visit('entity', entity.id)) return null;
+        return {
+          type,
+          id: entity.id,
+          label: entity.name,
+          sources: this.episodes(new Map(), 'entity', entity.id),
+        };
+      }
+      case 'pattern': {
+        const pattern = this.storage.getPattern(identifier);
+        if (!pattern || !this.visit('pattern', pattern.id)) return null;
+        return {
+          type,
+          id: pattern.id,
+          label: pattern.pattern,
+          sources: this.episodes(this.withEpisodes(pattern.supportingEpisodes), 'pattern', pattern.id),
+        };
+      }
+      case 'insight': {
+        const insight = this.storage.getInsight(identifier);
+        if (!insight || !this.visit('insight', insight.id)) return null;
+        return {
+          type,
+          id: insight.id,
+          label: insight.insight,
+          sources: [
+            ...this.nodes('pattern', insight.sourcePatterns),
+            ...this.episodes(new Map(), 'insight', insight.id),
+          ],
+        };
+      }
+      case 'wisdom': {
+        const wisdom = this.storage.getWisdom(identifier);
+        if (!wisdom || !this.visit('wisdom', wisdom.id)) return null;
+        // Insights first, so that patterns and episodes they cover are not repeated
+        const derived = [
+          ...this.nodes('insight', wisdom.derivedFromInsights),
+          ...this.nodes('pattern', wisdom.derivedFromPatterns),
+        ];
+        return {
+          type,
+          id: wisdom.id,
+          label: wisdom.principle,
+          sources: [
+            ...derived,
+            ...this.episodes(this.withEpisodes(wisdom.evidenceEpisodes), 'wisdom', wisdom.id),
+          ],
+        };
+      }
+    }
+  }
+
+  private nodes(type: ProvenanceTargetType, ids: string[]): ProvenanceNode[] {
+    return ids
+      .map(id => this.node(type, id))
+      .filter((node): node is ProvenanceNode => node !== null);
+  }
+
+  private visit(type: ProvenanceNode['type'], id: string): boolean {
+    const key = `${type}:${id}`;
+    if (this.visited.has(key)) return false;
+    this.visited.add(key);
+    return true;
+  }
+
+  private withEpisodes(episodeIds: string[]): Map<string, EpisodeSources> {
+    return new Map(episodeIds.map(id => [id, { ranges: [], observations: [] }]));
+  }
+
+  /**
+   * Episode nodes for the given episodes plus the record's provenance links
+   */
+  private episodes(
+    sources: Map<string, EpisodeSources>,
+    targetType: ProvenanceTargetType,
+    targetId: string
+  ): ProvenanceNode[] {
+    for (const link of this.storage.getProvenanceLinks(targetType, targetId)) {
+      const entry = sources.get(link.episodeId) ?? { ranges: [], observations: [] };
+      this.addLink(entry, link);
+      sources.set(link.episodeId, entry);
+    }
+
+    const nodes: ProvenanceNode[] = [];
+    for (const [episodeId, { ranges, observations }] of sources) {
+      if (!this.visit('episode', episodeId)) continue;
+      const episode = this.storage.getEpisode(episodeId);
+      if (!episode) continue;
+
+      const node: ProvenanceNode = { type: 'episode', id: episode.id, label: episode.summary, sources: [] };
+      if (observations.length > 0) node.observations = observations;
+      const messages = this.messages(episode.id, ranges);
+      if (messages.length > 0) node.messages = messages;
+      nodes.push(node);
+    }
+    return nodes;
+  }
+
+  private addLink(entry: EpisodeSources, link: ProvenanceLink): void {
+    if (link.messageRange) entry.ranges.push(link.messageRange);
+    if (link.observation !== undefined && !entry.observations.includes(link.observation)) {
+      entry.observations.push(link.observation);
+    }
+  }
+
+  /**
+   * Transcript messages in the given ranges (the whole transcript without ranges)
+   */
+  private messages(episodeId: string, ranges: Array<{ start: number; end: number }>): NonNullable<ProvenanceNode['messages']> {
+    const transcript = this.storage.getTranscript(episodeId);
+    if (!transcript) return [];
+
+    const indexes = ranges.length === 0
+      ? transcript.map((_, index) => index)
+      : [...new Set(ranges.flatMap(({ start, end }) => {
+          const from = Math.max(0, start);
+          const to = Math.min(transcript.length - 1, end);
+          return Array.from({ length: Math.max(0, to - from + 1) }, (_, i) => from + i);
+        }))].sort((a, b) => a - b);
+
+    return indexes.slice(0, this.maxMessages).map(index => {
+      const { role, content } = transcript[index];
+      return {
+        index,
+        role,
+        content: content.length > this.maxMessageLength ? content.slice(0, this.maxMessageLength) + '…' : content,
+      };
+    });
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Relation Registry - Known relation types of the knowledge graph
+ *
+ * Relation types are free strings, but registered types also have an inverse
+ * name, a cardinality and the entity types they may connect. Relations
+ * created under an inverse name are stored as the canonical type in the
+ * other direction, so "B required_by A" and "A depends_on B" are one relation.
+ * Unregistered types are still accepted as-is.
+ */
+
+import type { SqliteStorage } from '../storage/SqliteStorage.js';
+import type { RelationTypeDefinition, SemanticEntity, SemanticRelation } from './types.js';
+import { CONTRADICTS } from './ContradictionDetector.js';
+import { SUPERSEDES } from './validity.js';
+
+export const BUILTIN_RELATION_TYPES: RelationTypeDefinition[] = [
+  { name: 'depends_on', inverse: 'required_by', cardinality: 'many_to_many' },
+  { name: 'part_of', inverse: 'has_part', cardinality: 'many_to_one' },
+  { name: 'uses', inverse: 'used_by', cardinality: 'many_to_many' },
+  { name: 'implements', inverse: 'implemented_by', cardinality: 'many_to_many' },
+  { name: 'derived_from', inverse: 'source_of', cardinality: 'many_to_many' },
+  { name: SUPERSEDES, inverse: 'superseded_by', cardinality: 'many_to_many' },
+  { name: 'related_to', symmetric: true, cardinality: 'many_to_many' },
+  { name: CONTRADICTS, symmetric: true, cardinality: 'many_to_many' },
+];
+
+/**
+ * Thrown when a relation breaks its type's constraints
+ */
+export class RelationConstraintError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RelationConstraintError';
+  }
+}
+
+/**
+ * A relation type name resolved to its definition
+ */
+export interface ResolvedRelationType {
+  /** Canonical relation type */
+  name: string;
+  definition: RelationTypeDefinition | null;
+  /** The name was the inverse: the relation runs the other way */
+  inverted: boolean;
+}
+
+export class RelationRegistry {
+  private storage: SqliteStorage;
+
+  constructor(storage: SqliteStorage) {
+    this.storage = storage;
+  }
+
+  /**
+   * All registered relation types, built-in ones first
+   */
+  list(): RelationTypeDefinition[] {
+    return [...BUILTIN_RELATION_TYPES, ...this.storage.listRelationTypes()];
+  }
+
+  /**
+   * Register (or redefine) a relation type. Built-in types and names already
+   * used by another type cannot be redefined.
+   */
+  define(definition: RelationTypeDefinition): RelationTypeDefinition {
+    if (definition.symmetric && definition.inverse) {
+      throw new RelationConstraintError(`Symmetric relation type "${definition.name}" cannot have an inverse`);
+    }
+    if (definition.inverse === definition.name) {
+      throw new RelationConstraintError(`Relation type "${definition.name}" cannot be its own inverse`);
+    }
+
+    const names = new Set([definition.name, definition.inverse].filter(name => name !== undefined));
+    for (const existing of this.list()) {
+      const builtin = BUILTIN_RELATION_TYPES.includes(existing);
+      // User-defined types can be redefined under the same name
+      if (!builtin && existing.name === definition.name) continue;
+      const clash = [existing.name, existing.inverse].find(name => name !== undefined && names.has(name));
+      if (clash) {
+        throw new RelationConstraintError(
+          `Relation type name "${clash}" is already used by ${builtin ? 'built-in ' : ''}type "${existing.name}"`
+        );
+      }
+    }
+
+    this.storage.saveRelationType(definition);
+    return definition;
+  }
+
+  resolve(relationType: string): ResolvedRelationType {
+    for (const definition of this.list()) {
+      if (definition.name === relationType) {
+        return { name: definition.name, definition, inverted: false };
+      }
+      if (definition.inverse === relationType) {
+        return { name: definition.name, definition, inverted: true };
+      }
+    }
+    return { name: relationType, definition: null, inverted: false };
+  }
+
+  /**
+   * Name of a relation as read from one of its ends
+   * (the inverse name when read from the target)
+   */
+  label(relation: SemanticRelation, fromEntityId: string): string {
+    if (relation.from === fromEntityId) return relation.relationType;
+    const { definition } = this.resolve(relation.relationType);
+    if (definition?.symmetric) return relation.relationType;
+    return definition?.inverse ?? `~${relation.relationType}`;
+  }
+
+  /**
+   * Check a new relation against its type's entity types and cardinality
+   *
+   * @throws RelationConstraintError when the relation is not allowed
+   */
+  check(relationType: string, from: SemanticEntity, to: SemanticEntity): void {
+    const { definition } = this.resolve(relationType);
+    if (!definition) return;
+
+    if (definition.fromTypes && !definition.fromTypes.includes(from.type)) {
+      throw new RelationConstraintError(
+        `"${relationType}" relations must start at ${definition.fromTypes.join('/')} entities, not ${from.type} ("${from.name}")`
+      );
+    }
+    if (definition.toTypes && !definition.toTypes.includes(to.type)) {
+      throw new RelationConstraintError(
+        `"${relationType}" relations must end at ${definition.toTypes.join('/')} entities, not ${to.type} ("${to.name}")`
+      );
+    }
+
+    const { cardinality } = definition;
+    const ofType = (entityId: string) => this.storage.getRelations(entityId)
+      .filter(r => r.relationType === definition.name);
+
+    if (cardinality === 'one_to_one' || cardinality === 'many_to_one') {
+      const existing = ofType(from.id).find(r => r.from === from.id && r.to !== to.id);
+      if (existing) {
+        throw new RelationConstraintError(`"${from.name}" already has a "${relationType}" relation (${cardinality})`);
+      }
+    }
+    if (cardinality === 'one_to_one' || cardinality === 'one_to_many') {
+      const existing = ofType(to.id).find(r => r.to === to.id && r.from !== from.id);
+      if (existing) {
+        throw new RelationConstraintError(`"${to.name}" is already the target of a "${relationType}" relation (${cardinality})`);
+      }
+    }
+  }
+}
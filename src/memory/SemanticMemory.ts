@@ -9,14 +9,37 @@ import type {
   SemanticEntityInput,
   SemanticRelation,
   SemanticQuery,
+  SemanticEntityVersion,
+  SemanticEntityDiff,
+  SemanticEntityType,
   Procedure,
+  ProvenanceSource,
 } from './types.js';
+import {
+  ContradictionDetector,
+  CONTRADICTS,
+  entityStatements,
+  type Contradiction,
+  type ContradictionKind,
+  type ContradictionReport,
+} from './ContradictionDetector.js';
+import { SUPERSEDES, isValidAt } from './validity.js';
+import { RelationRegistry } from './RelationRegistry.js';
+import { EntityResolver, type EntityResolverOptions, type MergeCandidate } from './EntityResolver.js';
+
+/** Entities compared when looking for contradictions */
+const MAX_CONTRADICTION_CANDIDATES = 1000;
+/** Entities compared when looking for duplicates */
+const MAX_RESOLUTION_CANDIDATES = 1000;
 
 export class SemanticMemory {
   private storage: SqliteStorage;
+  private contradictionDetector = new ContradictionDetector();
+  public readonly relationTypes: RelationRegistry;
 
   constructor(storage: SqliteStorage) {
     this.storage = storage;
+    this.relationTypes = new RelationRegistry(storage);
   }
 
   /**
@@ -24,6 +47,8 @@ export class SemanticMemory {
    */
   create(input: SemanticEntityInput): SemanticEntity {
     const now = Date.now();
+    const validFrom = input.validFrom ?? now;
+    const observations = input.observations || [];
 
     const entity: SemanticEntity = {
       id: uuidv7(),
@@ -32,16 +57,37 @@ export class SemanticMemory {
       description: input.description,
       content: input.content,
       procedure: input.procedure,
-      observations: input.observations || [],
+      observations,
       confidence: input.confidence ?? 1.0,
       source: input.source || 'user',
       createdAt: now,
       updatedAt: now,
       version: 1,
       tags: input.tags || [],
+      aliases: input.aliases || [],
+      validFrom,
+      validTo: input.validTo,
+      observationHistory: observations.map(text => ({ text, validFrom })),
     };
 
     this.storage.createEntity(entity);
+    if (input.sources) {
+      this.storage.addProvenanceLinks('entity', entity.id, input.sources);
+    }
+    return entity;
+  }
+
+  /**
+   * Create an entity that replaces an existing one. The old entity is kept,
+   * valid until the new one takes effect, and linked by a `supersedes` relation.
+   */
+  supersede(identifier: string, input: SemanticEntityInput): SemanticEntity | null {
+    const old = this.storage.getEntity(identifier);
+    if (!old) return null;
+
+    const entity = this.create(input);
+    this.storage.updateEntity(old.id, { validTo: entity.validFrom });
+    this.relate(entity.id, old.id, SUPERSEDES);
     return entity;
   }
 
@@ -70,14 +116,37 @@ export class SemanticMemory {
   }
 
   /**
-   * Add an observation to an entity
+   * Add an observation to an entity. An observation it supersedes stays in the
+   * entity's observation history, valid until the new one takes effect.
+   * Sources are recorded as the observation's provenance.
    */
-  addObservation(identifier: string, observation: string): boolean {
+  addObservation(
+    identifier: string,
+    observation: string,
+    options?: { validFrom?: number; supersedes?: string; sources?: ProvenanceSource[] }
+  ): boolean {
     const entity = this.storage.getEntity(identifier);
     if (!entity) return false;
 
-    const observations = [...entity.observations, observation];
-    return this.storage.updateEntity(entity.id, { observations });
+    let updated: boolean;
+    if (options?.validFrom === undefined && options?.supersedes === undefined) {
+      const observations = [...entity.observations, observation];
+      updated = this.storage.updateEntity(entity.id, { observations });
+    } else {
+      const validFrom = options.validFrom ?? Date.now();
+      const observationHistory = (entity.observationHistory ?? []).map(record =>
+        record.validTo === undefined && record.text === options.supersedes
+          ? { ...record, validTo: Math.max(validFrom, record.validFrom) }
+          : record
+      );
+      observationHistory.push({ text: observation, validFrom });
+      updated = this.storage.updateEntity(entity.id, { observationHistory });
+    }
+
+    if (updated && options?.sources) {
+      this.storage.addProvenanceLinks('entity', entity.id, options.sources, observation);
+    }
+    return updated;
   }
 
   /**
@@ -114,7 +183,67 @@ export class SemanticMemory {
   }
 
   /**
-   * Create a relation between two entities
+   * Get the version history of an entity (archived versions newest first)
+   */
+  getHistory(identifier: string): { current: SemanticEntity; versions: SemanticEntityVersion[] } | null {
+    const entity = this.storage.getEntity(identifier);
+    if (!entity) return null;
+
+    return {
+      current: entity,
+      versions: this.storage.getEntityVersions(entity.id),
+    };
+  }
+
+  /**
+   * Compare two versions of an entity (toVersion defaults to the current version)
+   */
+  diff(identifier: string, fromVersion: number, toVersion?: number): SemanticEntityDiff | null {
+    const entity = this.storage.getEntity(identifier);
+    if (!entity) return null;
+
+    const from = this.storage.getEntityVersion(entity.id, fromVersion);
+    const to = toVersion === undefined ? entity : this.storage.getEntityVersion(entity.id, toVersion);
+    if (!from || !to) return null;
+
+    const changes: SemanticEntityDiff['changes'] = [];
+    for (const field of ['type', 'description', 'content', 'procedure', 'confidence', 'source'] as const) {
+      if (JSON.stringify(from[field] ?? null) !== JSON.stringify(to[field] ?? null)) {
+        changes.push({ field, from: from[field] ?? null, to: to[field] ?? null });
+      }
+    }
+
+    const setDiff = (before: string[], after: string[]) => ({
+      added: after.filter(item => !before.includes(item)),
+      removed: before.filter(item => !after.includes(item)),
+    });
+
+    return {
+      entityId: entity.id,
+      fromVersion: from.version,
+      toVersion: to.version,
+      changes,
+      observations: setDiff(from.observations, to.observations),
+      tags: setDiff(from.tags, to.tags),
+    };
+  }
+
+  /**
+   * Revert an entity to an archived version (recorded as a new version)
+   */
+  revert(identifier: string, version: number): SemanticEntity | null {
+    const entity = this.storage.getEntity(identifier);
+    if (!entity) return null;
+
+    if (!this.storage.restoreEntityVersion(entity.id, version)) return null;
+    return this.storage.getEntity(entity.id);
+  }
+
+  /**
+   * Create a relation between two entities. Relations given under an inverse
+   * name are stored as the canonical type from the other end.
+   *
+   * @throws RelationConstraintError when the relation breaks its type's constraints
    */
   relate(
     fromIdentifier: string,
@@ -128,11 +257,15 @@ export class SemanticMemory {
 
     if (!fromEntity || !toEntity) return null;
 
+    const resolved = this.relationTypes.resolve(relationType);
+    const [source, target] = resolved.inverted ? [toEntity, fromEntity] : [fromEntity, toEntity];
+    this.relationTypes.check(resolved.name, source, target);
+
     const relation: SemanticRelation = {
       id: uuidv7(),
-      from: fromEntity.id,
-      to: toEntity.id,
-      relationType,
+      from: source.id,
+      to: target.id,
+      relationType: resolved.name,
       strength: Math.max(0, Math.min(1, strength)),
       metadata,
       createdAt: Date.now(),
@@ -192,6 +325,93 @@ export class SemanticMemory {
     return results;
   }
 
+  /**
+   * Detect statements of an entity that likely contradict its other statements
+   * or other entities, and record new ones as `contradicts` relations.
+   * Only the given statements are checked when provided (e.g. a new observation).
+   */
+  detectContradictions(identifier: string, statements?: string[]): Contradiction[] {
+    const entity = this.storage.getEntity(identifier);
+    if (!entity) return [];
+
+    const others = this.storage.searchEntities({ limit: MAX_CONTRADICTION_CANDIDATES });
+    const contradictions = this.contradictionDetector.detect(entity, others, statements);
+    const recorded = this.storage.getRelations(entity.id).filter(r => r.relationType === CONTRADICTS);
+
+    for (const contradiction of contradictions) {
+      const pair = [contradiction.statement, contradiction.conflictingStatement];
+      const exists = recorded.some(r =>
+        [r.from, r.to].includes(contradiction.conflictingEntityId) &&
+        pair.includes(r.metadata?.statement as string) &&
+        pair.includes(r.metadata?.conflictingStatement as string)
+      );
+      if (exists) continue;
+
+      const relation = this.relate(entity.id, contradiction.conflictingEntityId, CONTRADICTS, contradiction.confidence, {
+        kind: contradiction.kind,
+        statement: contradiction.statement,
+        conflictingStatement: contradiction.conflictingStatement,
+      });
+      if (relation) recorded.push(relation);
+    }
+
+    return contradictions;
+  }
+
+  /**
+   * List recorded contradictions, newest first. Contradictions whose statements
+   * have since been changed or removed count as resolved and are left out
+   * unless includeResolved is set.
+   */
+  listContradictions(options?: {
+    identifier?: string;
+    includeResolved?: boolean;
+    limit?: number;
+  }): ContradictionReport[] {
+    const { identifier, includeResolved = false, limit = 50 } = options ?? {};
+
+    let relations: SemanticRelation[];
+    if (identifier) {
+      const entity = this.storage.getEntity(identifier);
+      if (!entity) return [];
+      relations = this.storage.getRelations(entity.id).filter(r => r.relationType === CONTRADICTS);
+    } else {
+      relations = this.storage.getRelationsByType(CONTRADICTS);
+    }
+
+    const now = Date.now();
+    const reports: ContradictionReport[] = [];
+    for (const relation of relations) {
+      const from = this.storage.getEntity(relation.from);
+      const to = this.storage.getEntity(relation.to);
+      if (!from || !to) continue;
+
+      const statement = String(relation.metadata?.statement ?? '');
+      const conflictingStatement = String(relation.metadata?.conflictingStatement ?? '');
+      // Superseding either entity settles the conflict too
+      const resolved = !entityStatements(from).includes(statement) ||
+        !entityStatements(to).includes(conflictingStatement) ||
+        !isValidAt(from, now) || !isValidAt(to, now);
+      if (resolved && !includeResolved) continue;
+
+      reports.push({
+        relationId: relation.id,
+        kind: relation.metadata?.kind as ContradictionKind,
+        confidence: relation.strength,
+        entity: { id: from.id, name: from.name },
+        statement,
+        conflictingEntity: { id: to.id, name: to.name },
+        conflictingStatement,
+        detectedAt: relation.createdAt,
+        resolved,
+      });
+    }
+
+    return reports
+      .sort((a, b) => b.detectedAt - a.detectedAt)
+      .slice(0, limit);
+  }
+
   /**
    * Get entities by type
    */
@@ -227,11 +447,96 @@ export class SemanticMemory {
     return this.storage.getEntity(identifier) !== null;
   }
 
+  /**
+   * Pairs of currently valid entities that likely describe the same thing,
+   * most similar first. With an identifier, only pairs involving that entity.
+   */
+  findDuplicates(options?: EntityResolverOptions & {
+    identifier?: string;
+    type?: SemanticEntityType;
+    limit?: number;
+  }): MergeCandidate[] {
+    const resolver = new EntityResolver(options);
+    const entities = this.storage.searchEntities({ type: options?.type, limit: MAX_RESOLUTION_CANDIDATES });
+
+    let candidates: MergeCandidate[];
+    if (options?.identifier) {
+      const entity = this.storage.getEntity(options.identifier);
+      if (!entity) return [];
+      candidates = entities
+        .map(other => resolver.compare(entity, other))
+        .filter((candidate): candidate is MergeCandidate => candidate !== null)
+        .sort((a, b) => b.similarity - a.similarity);
+    } else {
+      candidates = resolver.findCandidates(entities);
+    }
+
+    return candidates.slice(0, options?.limit ?? 20);
+  }
+
+  /**
+   * Merge a duplicate entity into another: observations (with their history),
+   * tags and aliases are combined, relations and provenance move to the target,
+   * and the duplicate's name and ID keep resolving to the target.
+   */
+  merge(targetIdentifier: string, duplicateIdentifier: string): SemanticEntity | null {
+    const target = this.storage.getEntity(targetIdentifier);
+    const duplicate = this.storage.getEntity(duplicateIdentifier);
+    if (!target || !duplicate || target.id === duplicate.id) return null;
+
+    const union = (...lists: string[][]) => [...new Set(lists.flat())];
+    const observations = union(target.observations, duplicate.observations);
+    // Closed records of the duplicate are history too; open ones matching the target's are not repeated
+    const observationHistory = [
+      ...(target.observationHistory ?? []),
+      ...(duplicate.observationHistory ?? []).filter(record =>
+        record.validTo !== undefined || !target.observations.includes(record.text)
+      ),
+    ];
+    const aliases = union(target.aliases ?? [], [duplicate.name], duplicate.aliases ?? [])
+      .filter(alias => alias !== target.name);
+
+    this.storage.updateEntity(target.id, {
+      description: target.description || duplicate.description,
+      observations,
+      observationHistory,
+      tags: union(target.tags, duplicate.tags),
+      aliases,
+      confidence: Math.max(target.confidence, duplicate.confidence),
+      validFrom: Math.min(target.validFrom ?? target.createdAt, duplicate.validFrom ?? duplicate.createdAt),
+    });
+    this.storage.mergeEntityInto(duplicate.id, target.id);
+
+    return this.storage.getEntity(target.id);
+  }
+
+  /**
+   * Merge every candidate pair at or above a similarity (default: 0.95)
+   */
+  mergeDuplicates(options?: { minSimilarity?: number; type?: SemanticEntityType }): MergeCandidate[] {
+    const candidates = this.findDuplicates({
+      minSimilarity: options?.minSimilarity ?? 0.95,
+      type: options?.type,
+      limit: MAX_RESOLUTION_CANDIDATES,
+    });
+
+    const merged: MergeCandidate[] = [];
+    const removed = new Set<string>();
+    for (const candidate of candidates) {
+      if (removed.has(candidate.target.id) || removed.has(candidate.duplicate.id)) continue;
+      if (this.merge(candidate.target.id, candidate.duplicate.id)) {
+        removed.add(candidate.duplicate.id);
+        merged.push(candidate);
+      }
+    }
+    return merged;
+  }
+
   /**
    * Get the knowledge graph (all entities and relations)
    */
   getGraph(): { entities: SemanticEntity[]; relations: SemanticRelation[] } {
-    const entities = this.storage.searchEntities({});
+    const entities = this.storage.searchEntities({ includeHistory: true });
     const relations: SemanticRelation[] = [];
     const seenRelations = new Set<string>();
 
@@ -0,0 +1,315 @@
+/**
+ * Summarizers - Turn a cluster of similar episodes into one readable summary
+ *
+ * Used by memory compression. The extractive summarizer is deterministic and
+ * works offline; the Anthropic summarizer asks a model to write the summary
+ * and falls back to extractive summarization when the API is unavailable.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import type { EpisodicMemory } from './types.js';
+import { MorphologicalAnalyzer, type Analyzer } from '../search/Analyzer.js';
+import { resolveApiKey } from '../agents/WorkerAgent.js';
+
+export type SummarizerName = 'extractive' | 'anthropic';
+
+export interface ClusterSummaryInput {
+  episodes: EpisodicMemory[];
+  centroidTags: string[];
+  commonType: EpisodicMemory['type'];
+  /** Most characteristic content terms, used when the episodes share no tags */
+  topTerms?: string[];
+}
+
+export interface ClusterSummary {
+  /** One-line summary */
+  summary: string;
+  /** Multi-line details */
+  details: string;
+  /** Learnings merged across the cluster (duplicates removed) */
+  learnings: string[];
+}
+
+export interface Summarizer {
+  readonly name: string;
+  summarize(input: ClusterSummaryInput): Promise<ClusterSummary>;
+}
+
+const TYPE_DESCRIPTIONS: Record<EpisodicMemory['type'], string> = {
+  success: 'successes',
+  error: 'errors',
+  milestone: 'milestones',
+  incident: 'incidents',
+  interaction: 'interactions',
+};
+
+/** Learnings at least this similar (term Jaccard) are merged */
+const LEARNING_MERGE_THRESHOLD = 0.8;
+/** Shorter learnings are only merged when their normalized text is identical */
+const LEARNING_MIN_TERMS = 3;
+
+function describeCluster(input: ClusterSummaryInput): string {
+  const description = `${input.episodes.length} ${TYPE_DESCRIPTIONS[input.commonType] ?? 'episodes'}`;
+  const topics = input.centroidTags.length > 0 ? input.centroidTags : input.topTerms ?? [];
+  return topics.length > 0 ? `${description} related to ${topics.slice(0, 3).join(', ')}` : description;
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?。！？])\s+|\n+/)
+    .map(s => s.replace(/^[\s\-*\d.]+/, '').trim())
+    .filter(s => s.length > 0);
+}
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[\p{P}\s]+/gu, ' ').trim();
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const term of a) if (b.has(term)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+export interface ExtractiveSummarizerOptions {
+  /** Key sentences to extract (default: 3) */
+  maxSentences?: number;
+  /** Analyzer used to compare sentences (default: morphological) */
+  analyzer?: Analyzer;
+}
+
+/**
+ * Picks the sentences that share the most terms with the rest of the cluster
+ * and merges near-duplicate learnings. Deterministic and offline.
+ */
+export class ExtractiveSummarizer implements Summarizer {
+  readonly name = 'extractive';
+  private maxSentences: number;
+  private analyzer: Analyzer;
+
+  constructor(options?: ExtractiveSummarizerOptions) {
+    this.maxSentences = options?.maxSentences ?? 3;
+    this.analyzer = options?.analyzer ?? new MorphologicalAnalyzer();
+  }
+
+  async summarize(input: ClusterSummaryInput): Promise<ClusterSummary> {
+    return this.summarizeSync(input);
+  }
+
+  summarizeSync(input: ClusterSummaryInput): ClusterSummary {
+    // Chronological order makes the result independent of the input order
+    const episodes = [...input.episodes].sort((a, b) =>
+      a.timestamp - b.timestamp || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+    );
+    const ranked = this.extractKeySentences(episodes);
+    const sentences = [...ranked].sort((a, b) => a.order - b.order).map(s => s.text);
+    const learnings = this.mergeLearnings(episodes);
+    const timestamps = episodes.map(e => e.timestamp);
+    const from = new Date(Math.min(...timestamps)).toISOString().slice(0, 10);
+    const to = new Date(Math.max(...timestamps)).toISOString().slice(0, 10);
+
+    const topEpisodes = [...episodes]
+      .sort((a, b) => b.importance - a.importance)
+      .slice(0, 5);
+
+    const details = [
+      `Summarized from ${input.episodes.length} episodes (${from === to ? from : `${from} to ${to}`})`,
+      '',
+      'Key points:',
+      ...sentences.map(s => `- ${s}`),
+      ...(learnings.length > 0 ? ['', 'Learnings:', ...learnings.map(l => `- ${l}`)] : []),
+      '',
+      'Key episodes:',
+      ...topEpisodes.map((ep, i) => `${i + 1}. ${ep.summary}`),
+    ].join('\n');
+
+    return {
+      summary: `Summary: ${describeCluster(input)}${ranked.length > 0 ? ` - ${ranked[0].text}` : ''}`,
+      details,
+      learnings,
+    };
+  }
+
+  /**
+   * Score each sentence by how many of its terms recur across the cluster's
+   * episodes (weighted by importance), then pick the best non-redundant ones
+   */
+  private extractKeySentences(episodes: EpisodicMemory[]): Array<{ text: string; order: number }> {
+    const documentFrequency = new Map<string, number>();
+    const candidates: Array<{ text: string; terms: Set<string>; weight: number; order: number }> = [];
+
+    for (const episode of episodes) {
+      const episodeTerms = new Set<string>();
+      for (const text of splitSentences(`${episode.summary}\n${episode.details}`)) {
+        const terms = new Set(this.analyzer.analyze(text));
+        if (terms.size === 0) continue;
+        terms.forEach(term => episodeTerms.add(term));
+        candidates.push({ text, terms, weight: episode.importance / 10, order: candidates.length });
+      }
+      episodeTerms.forEach(term => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1));
+    }
+
+    const scored = candidates.map(candidate => {
+      let shared = 0;
+      for (const term of candidate.terms) shared += (documentFrequency.get(term) ?? 1) - 1;
+      return { ...candidate, score: (shared / candidate.terms.size) * (1 + candidate.weight) };
+    }).sort((a, b) => b.score - a.score || a.order - b.order);
+
+    const picked: typeof scored = [];
+    for (const candidate of scored) {
+      if (picked.length >= this.maxSentences) break;
+      if (picked.some(p => jaccard(p.terms, candidate.terms) >= 0.5)) continue;
+      picked.push(candidate);
+    }
+    return picked;
+  }
+
+  private mergeLearnings(episodes: EpisodicMemory[]): string[] {
+    const merged: Array<{ text: string; terms: Set<string> }> = [];
+    for (const episode of episodes) {
+      for (const learning of episode.outcome?.learnings ?? []) {
+        const text = learning.trim();
+        if (!text) continue;
+        const terms = new Set(this.analyzer.analyze(text));
+        const existing = merged.find(m =>
+          normalizeText(m.text) === normalizeText(text) ||
+          (Math.min(m.terms.size, terms.size) >= LEARNING_MIN_TERMS && jaccard(m.terms, terms) >= LEARNING_MERGE_THRESHOLD)
+        );
+        if (!existing) {
+          merged.push({ text, terms });
+        } else if (text.length > existing.text.length) {
+          // Keep the more complete phrasing
+          existing.text = text;
+          existing.terms = terms;
+        }
+      }
+    }
+    return merged.map(m => m.text);
+  }
+}
+
+/** Subset of the Anthropic client used here (lets tests stub the model) */
+export interface MessagesClient {
+  messages: {
+    create(params: Anthropic.MessageCreateParamsNonStreaming): Promise<Anthropic.Message>;
+  };
+}
+
+export interface AnthropicSummarizerOptions {
+  /** Client to use (default: created from apiKey or the resolved API key) */
+  client?: MessagesClient;
+  apiKey?: string;
+  /** Model (default: CC_MEMORY_SUMMARIZER_MODEL or claude-haiku-4-5) */
+  model?: string;
+  maxTokens?: number;
+  /** Used when the API call or its response fails (default: extractive) */
+  fallback?: Summarizer;
+}
+
+const MAX_EPISODES_IN_PROMPT = 20;
+const MAX_DETAILS_IN_PROMPT = 600;
+
+/**
+ * Asks a Claude model to write the summary
+ */
+export class AnthropicSummarizer implements Summarizer {
+  readonly name = 'anthropic';
+  private client: MessagesClient | null;
+  private apiKey?: string;
+  private model: string;
+  private maxTokens: number;
+  private fallback: Summarizer;
+
+  constructor(options?: AnthropicSummarizerOptions) {
+    this.client = options?.client ?? null;
+    this.apiKey = options?.apiKey;
+    this.model = options?.model ?? process.env.CC_MEMORY_SUMMARIZER_MODEL ?? 'claude-haiku-4-5';
+    this.maxTokens = options?.maxTokens ?? 1024;
+    this.fallback = options?.fallback ?? new ExtractiveSummarizer();
+  }
+
+  async summarize(input: ClusterSummaryInput): Promise<ClusterSummary> {
+    try {
+      const response = await this.getClient().messages.create({
+        model: this.model,
+        max_tokens: this.maxTokens,
+        system: 'You compress an agent\'s episodic memories. Reply with JSON only: ' +
+          '{"summary": one sentence, "details": a short paragraph with the key facts, "learnings": array of distinct lessons}.',
+        messages: [{ role: 'user', content: this.buildPrompt(input) }],
+      });
+      const text = response.content
+        .map(block => (block.type === 'text' ? block.text : ''))
+        .join('');
+      return this.parseResponse(text, input);
+    } catch (error) {
+      console.error(`[Summarizer] Falling back to ${this.fallback.name} summarization: ${(error as Error).message}`);
+      return this.fallback.summarize(input);
+    }
+  }
+
+  private getClient(): MessagesClient {
+    if (!this.client) {
+      this.client = new Anthropic({ apiKey: resolveApiKey({ apiKey: this.apiKey }) });
+    }
+    return this.client;
+  }
+
+  private buildPrompt(input: ClusterSummaryInput): string {
+    const episodes = [...input.episodes]
+      .sort((a, b) => b.importance - a.importance)
+      .slice(0, MAX_EPISODES_IN_PROMPT)
+      .map((ep, i) => [
+        `${i + 1}. [${ep.type}, importance ${ep.importance}] ${ep.summary}`,
+        ep.details ? `   ${ep.details.slice(0, MAX_DETAILS_IN_PROMPT)}` : '',
+        ep.outcome?.learnings?.length ? `   Learnings: ${ep.outcome.learnings.join('; ')}` : '',
+      ].filter(Boolean).join('\n'));
+
+    return `Summarize these ${describeCluster(input)}:\n\n${episodes.join('\n')}`;
+  }
+
+  private parseResponse(text: string, input: ClusterSummaryInput): ClusterSummary {
+    const json = text.slice(text.indexOf('{'), text.lastIndexOf('}') + 1);
+    const parsed = JSON.parse(json) as Partial<ClusterSummary>;
+    if (typeof parsed.summary !== 'string' || !parsed.summary.trim()) {
+      throw new Error('Model response has no summary');
+    }
+
+    return {
+      summary: parsed.summary.trim(),
+      details: [
+        `Summarized from ${input.episodes.length} episodes`,
+        '',
+        typeof parsed.details === 'string' ? parsed.details.trim() : '',
+      ].join('\n').trim(),
+      learnings: Array.isArray(parsed.learnings)
+        ? parsed.learnings.filter((l): l is string => typeof l === 'string' && l.trim().length > 0)
+        : [],
+    };
+  }
+}
+
+/**
+ * Create a summarizer by name
+ */
+export function createSummarizer(name: SummarizerName): Summarizer {
+  switch (name) {
+    case 'extractive':
+      return new ExtractiveSummarizer();
+    case 'anthropic':
+      return new AnthropicSummarizer();
+    default:
+      throw new Error(`Unknown summarizer: ${name}`);
+  }
+}
+
+/**
+ * Get the summarizer for this deployment from CC_MEMORY_SUMMARIZER (default: extractive)
+ */
+export function getDefaultSummarizer(): Summarizer {
+  const name = process.env.CC_MEMORY_SUMMARIZER?.toLowerCase();
+  if (name === 'extractive' || name === 'anthropic') {
+    return createSummarizer(name);
+  }
+  return new ExtractiveSummarizer();
+}
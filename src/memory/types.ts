@@ -2,6 +2,9 @@
  * Type definitions for the hierarchical memory system
  */
 
+import type { EmbeddingProvider } from '../search/EmbeddingProvider.js';
+import type { Analyzer, AnalyzerName } from '../search/Analyzer.js';
+
 // ============================================================================
 // Working Memory Types
 // ============================================================================
@@ -22,6 +25,8 @@ export interface WorkingMemoryItem {
     priority: Priority;
   };
   tags: string[];
+  /** Vector clock of the last change, for Tachikoma sync (unset before tachikoma_init) */
+  vectorClock?: SyncVector;
 }
 
 export interface WorkingMemoryInput {
@@ -69,6 +74,19 @@ export interface TranscriptMessage {
 
 export type Transcript = TranscriptMessage[];
 
+/** A transcript message matching a search query */
+export interface TranscriptSearchMatch {
+  episodeId: string;
+  messageIndex: number;
+  role: TranscriptMessage['role'];
+  score: number;
+  /** Excerpt of the message around the first match */
+  snippet: string;
+  /** Character offset of the first match within the message content (-1 if not found literally) */
+  offset: number;
+  matchedTerms: string[];
+}
+
 export interface TranscriptMetadata {
   messageCount: number;
   totalChars: number;
@@ -108,6 +126,8 @@ export interface EpisodicMemory {
   valence: number;
   /** Emotional arousal: 0.0 (calm) to 1.0 (excited) */
   arousal: number;
+  /** Vector clock of the last change, for Tachikoma sync (unset before tachikoma_init) */
+  vectorClock?: SyncVector;
 }
 
 export interface EpisodicMemoryInput {
@@ -166,6 +186,26 @@ export interface SemanticEntity {
   updatedAt: number;
   version: number;
   tags: string[];
+  /** Other names the entity is known by (e.g. names of entities merged into it) */
+  aliases?: string[];
+  /** When the fact became true (defaults to createdAt) */
+  validFrom?: number;
+  /** When the fact stopped being true (unset while it still holds) */
+  validTo?: number;
+  /** Every observation with its validity interval, including ones no longer valid */
+  observationHistory?: ObservationRecord[];
+  /** Vector clock of the last change, for Tachikoma sync (unset before tachikoma_init) */
+  vectorClock?: SyncVector;
+}
+
+/**
+ * An observation and the interval during which it held
+ */
+export interface ObservationRecord {
+  text: string;
+  validFrom: number;
+  /** Unset while the observation still holds */
+  validTo?: number;
 }
 
 export interface SemanticEntityInput {
@@ -178,6 +218,34 @@ export interface SemanticEntityInput {
   confidence?: number;
   source?: EntitySource;
   tags?: string[];
+  /** Other names the entity is known by */
+  aliases?: string[];
+  /** Episodes (and transcript messages) the entity came from */
+  sources?: ProvenanceSource[];
+  /** When the fact became true (default: now) */
+  validFrom?: number;
+  /** When the fact stopped being true */
+  validTo?: number;
+}
+
+/**
+ * An archived (superseded) version of a semantic entity
+ */
+export interface SemanticEntityVersion {
+  /** The entity as it was at this version */
+  entity: SemanticEntity;
+  /** When this version was superseded */
+  archivedAt: number;
+}
+
+export interface SemanticEntityDiff {
+  entityId: string;
+  fromVersion: number;
+  toVersion: number;
+  /** Changed scalar fields (description, type, content, procedure, confidence, source) */
+  changes: Array<{ field: string; from: unknown; to: unknown }>;
+  observations: { added: string[]; removed: string[] };
+  tags: { added: string[]; removed: string[] };
 }
 
 export interface SemanticRelation {
@@ -188,6 +256,31 @@ export interface SemanticRelation {
   strength: number;
   metadata?: Record<string, unknown>;
   createdAt: number;
+  /** When the relation was last changed (e.g. moved by an entity merge) */
+  updatedAt?: number;
+}
+
+/**
+ * How many relations of a type an entity may take part in. "one_to_many"
+ * means a source may have many targets but each target only one source.
+ */
+export type RelationCardinality = 'one_to_one' | 'one_to_many' | 'many_to_one' | 'many_to_many';
+
+/**
+ * A registered relation type
+ */
+export interface RelationTypeDefinition {
+  name: string;
+  /** Name of the relation read from the target (e.g. required_by for depends_on) */
+  inverse?: string;
+  /** Reads the same in both directions (e.g. related_to) */
+  symmetric?: boolean;
+  cardinality: RelationCardinality;
+  /** Entity types allowed as the source (any when unset) */
+  fromTypes?: SemanticEntityType[];
+  /** Entity types allowed as the target (any when unset) */
+  toTypes?: SemanticEntityType[];
+  description?: string;
 }
 
 export interface SemanticQuery {
@@ -197,6 +290,10 @@ export interface SemanticQuery {
   minConfidence?: number;
   limit?: number;
   offset?: number;
+  /** Return facts as they stood at this time (default: now) */
+  asOf?: number;
+  /** Also return facts that are no longer (or not yet) valid */
+  includeHistory?: boolean;
 }
 
 // ============================================================================
@@ -207,6 +304,18 @@ export interface StorageConfig {
   dataPath: string;
   backupInterval?: number;
   cleanupInterval?: number;
+  /** Embedding provider for vector search (default: offline hashed n-gram provider) */
+  embeddingProvider?: EmbeddingProvider;
+  /** Search analyzer (default: CC_MEMORY_ANALYZER or 'morphological'); changing it rebuilds the index */
+  analyzer?: Analyzer | AnalyzerName;
+  /** Compact the change journal into a snapshot once it exceeds this many bytes (default: 4 MiB) */
+  journalCompactionThreshold?: number;
+  /** Check for changes written by other processes every N ms (default: 2000, 0 disables) */
+  externalChangeCheckInterval?: number;
+  /** Retention settings (missing fields fall back to DEFAULT_RETENTION_POLICY) */
+  retentionPolicy?: {
+    [K in keyof RetentionPolicy]?: Partial<RetentionPolicy[K]>;
+  };
 }
 
 export interface MemoryStats {
@@ -227,6 +336,46 @@ export interface MemoryStats {
   };
 }
 
+/**
+ * Semantic entities and the relations between them
+ */
+export interface KnowledgeGraph {
+  entities: SemanticEntity[];
+  relations: SemanticRelation[];
+}
+
+/**
+ * Structure of the knowledge graph: core concepts, topic clusters and weak points
+ */
+export interface GraphAnalytics {
+  /** Most central entities by PageRank */
+  centralEntities: Array<{
+    id: string;
+    name: string;
+    type: string;
+    pageRank: number;
+    degreeCentrality: number;
+  }>;
+  /** Topic clusters, largest first (members by PageRank) */
+  communities: Array<{
+    size: number;
+    members: Array<{ id: string; name: string }>;
+  }>;
+  /** Relations whose removal would disconnect part of the graph */
+  bridges: Array<{
+    relationId: string;
+    relationType: string;
+    from: { id: string; name: string };
+    to: { id: string; name: string };
+  }>;
+  /** Entities whose removal would disconnect part of the graph */
+  articulationPoints: Array<{
+    id: string;
+    name: string;
+    type: string;
+  }>;
+}
+
 export interface MemoryDashboard {
   /** Top N most frequently accessed memories */
   topAccessed: Array<{
@@ -262,7 +411,7 @@ export interface MemoryDashboard {
     type: string;
   }>;
   /** Knowledge graph statistics */
-  graphStats: {
+  graphStats: GraphAnalytics & {
     totalNodes: number;
     totalEdges: number;
     averageDegree: number;
@@ -416,6 +565,36 @@ export interface ConflictRecord {
   resolution?: 'local' | 'remote' | 'merged';
 }
 
+/** 墓標の対象となる記憶の種類 */
+export type TombstoneType = 'working' | 'episodic' | 'semantic_entity' | 'semantic_relation';
+
+/** 削除の墓標（削除を同期で伝播させる） */
+export interface Tombstone {
+  memoryType: TombstoneType;
+  recordId: string;            // 削除されたレコードのID（Working は key）
+  deletedAt: number;
+  deletedBy?: TachikomaId;     // 削除した個体のID（未エクスポートの削除では未設定）
+  syncVector: SyncVector;      // 削除を運ぶエクスポートのベクタークロック
+}
+
+/** 同期相手の個体 */
+export interface SyncPeer {
+  id: TachikomaId;
+  name?: string;
+  syncVector: SyncVector;      // 相手から最後に受け取ったベクタークロック
+  lastSeenAt: number;
+}
+
+/** 同期アダプターごとの進捗（再起動後に続きから同期する） */
+export interface SyncAdapterState {
+  name: string;
+  cursor?: number;             // 最後に取り込んだ差分のカーソル（HTTP 同期）
+  lastPushAt?: number;         // 最後に送った差分の時刻
+}
+
+/** 並列化差分エクスポート形式のバージョン（1.1.0 で DIKW を追加） */
+export const PARALLELIZATION_EXPORT_VERSION = '1.1.0';
+
 /** 並列化差分エクスポート形式 */
 export interface ParallelizationExport {
   version: string;
@@ -432,6 +611,11 @@ export interface ParallelizationExport {
       entities: SemanticEntity[];
       relations: SemanticRelation[];
     };
+    // DIKW の知識（1.1.0 以降。1.0.0 の差分には含まれない）
+    patterns?: Pattern[];
+    insights?: Insight[];
+    wisdom?: WisdomEntity[];
+    wisdomApplications?: WisdomApplication[];
   };
 
   deleted: {
@@ -442,6 +626,9 @@ export interface ParallelizationExport {
       relations: string[];
     };
   };
+
+  /** deleted の墓標（削除時刻とベクタークロック付き） */
+  tombstones?: Tombstone[];
 }
 
 /** 並列化の結果 */
@@ -451,8 +638,13 @@ export interface ParallelizationResult {
     working: number;
     episodic: number;
     semantic: { entities: number; relations: number };
+    patterns: number;
+    insights: number;
+    wisdom: number;
+    wisdomApplications: number;
   };
   conflicts: ConflictRecord[];
+  deleted: number;             // 墓標により削除されたレコード数
   skipped: number;
   syncVector: SyncVector;
 }
@@ -524,6 +716,8 @@ export interface PatternInput {
   supportingEpisodes?: string[];
   relatedTags?: string[];
   confidence?: number;
+  /** Episodes and transcript messages the pattern came from (added to supportingEpisodes) */
+  sources?: ProvenanceSource[];
 }
 
 export interface PatternQuery {
@@ -564,6 +758,8 @@ export interface InsightInput {
   sourcePatterns?: string[];
   domains?: string[];
   confidence?: number;
+  /** Episodes and transcript messages the insight came from directly */
+  sources?: ProvenanceSource[];
 }
 
 export interface InsightQuery {
@@ -623,6 +819,8 @@ export interface WisdomEntityInput {
   applicableContexts?: string[];
   limitations?: string[];
   tags?: string[];
+  /** Episodes and transcript messages the wisdom came from (added to evidenceEpisodes) */
+  sources?: ProvenanceSource[];
 }
 
 export interface WisdomQuery {
@@ -691,6 +889,70 @@ export interface SyncHistoryEntry {
   createdAt: number;
 }
 
+// ============================================================================
+// Maintenance Types
+// ============================================================================
+
+export type MaintenanceJobName = 'decay' | 'boost' | 'compress' | 'working_cleanup' | 'dikw_promote';
+
+export const MAINTENANCE_JOBS: MaintenanceJobName[] = ['working_cleanup', 'decay', 'boost', 'compress', 'dikw_promote'];
+
+export interface MaintenanceRun {
+  id: string;
+  job: MaintenanceJobName;
+  /** What started the run */
+  trigger: 'schedule' | 'manual';
+  status: 'running' | 'success' | 'error';
+  startedAt: number;
+  finishedAt?: number;
+  /** Job result counts (on success) */
+  result?: Record<string, unknown>;
+  /** Error message (on error) */
+  error?: string;
+}
+
+// ============================================================================
+// Provenance Types
+// ============================================================================
+
+/** Kinds of knowledge that record where they came from */
+export type ProvenanceTargetType = 'entity' | 'pattern' | 'insight' | 'wisdom';
+
+/**
+ * An episode, and optionally the transcript messages within it, that a piece
+ * of knowledge came from
+ */
+export interface ProvenanceSource {
+  episodeId: string;
+  /** Transcript message indexes (inclusive) */
+  messageRange?: { start: number; end: number };
+}
+
+export interface ProvenanceLink extends ProvenanceSource {
+  id: string;
+  targetType: ProvenanceTargetType;
+  targetId: string;
+  /** Entity observation the source supports (unset when it supports the whole record) */
+  observation?: string;
+  createdAt: number;
+}
+
+/**
+ * A step in the chain from derived knowledge back to raw conversation
+ */
+export interface ProvenanceNode {
+  type: ProvenanceTargetType | 'episode';
+  id: string;
+  /** Name, statement or summary */
+  label: string;
+  /** Entity observations this node supports */
+  observations?: string[];
+  /** Transcript messages the knowledge came from (episodes only) */
+  messages?: Array<{ index: number; role: TranscriptMessage['role']; content: string }>;
+  /** What this node was derived from */
+  sources: ProvenanceNode[];
+}
+
 // ============================================================================
 // Goal Tracking Types (P5)
 // ============================================================================
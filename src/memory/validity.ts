@@ -0,0 +1,60 @@
+/**
+ * Validity intervals for semantic facts
+ *
+ * Entities and their observations carry the interval during which they held
+ * (validFrom to validTo, open-ended while validTo is unset) alongside when
+ * they were recorded (createdAt/updatedAt). Superseding a fact closes its
+ * interval instead of overwriting it, so past states stay queryable.
+ */
+
+import type { ObservationRecord, SemanticEntity } from './types.js';
+
+/** Relation type linking a fact to the fact it replaced */
+export const SUPERSEDES = 'supersedes';
+
+/**
+ * Whether an interval holds at the given time (validFrom inclusive, validTo exclusive)
+ */
+export function isValidAt(interval: { validFrom?: number; validTo?: number }, at: number): boolean {
+  return (interval.validFrom === undefined || interval.validFrom <= at) &&
+    (interval.validTo === undefined || interval.validTo > at);
+}
+
+/**
+ * Bring an observation history in line with the current observations:
+ * observations without an open record get one starting at `at`, and open
+ * records whose observation is gone are closed at `at`.
+ */
+export function reconcileObservationHistory(
+  history: ObservationRecord[],
+  observations: string[],
+  at: number
+): ObservationRecord[] {
+  const reconciled = history.map(record => ({ ...record }));
+  const unmatched = reconciled.filter(record => record.validTo === undefined);
+
+  for (const text of observations) {
+    const index = unmatched.findIndex(record => record.text === text);
+    if (index >= 0) {
+      unmatched.splice(index, 1);
+    } else {
+      reconciled.push({ text, validFrom: at });
+    }
+  }
+  for (const record of unmatched) {
+    record.validTo = Math.max(at, record.validFrom);
+  }
+
+  return reconciled;
+}
+
+/**
+ * An entity as it stood at the given time: only the observations valid then
+ */
+export function entityAsOf(entity: SemanticEntity, at: number): SemanticEntity {
+  if (!entity.observationHistory) return entity;
+  return {
+    ...entity,
+    observations: entity.observationHistory.filter(record => isValidAt(record, at)).map(record => record.text),
+  };
+}
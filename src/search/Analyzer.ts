@@ -0,0 +1,154 @@
+/**
+ * Text analyzers: turn text into index terms
+ * The analyzer used to build the index is recorded so that changing it triggers a rebuild
+ */
+
+import { tokenizeAll, ENGLISH_STOP_WORDS } from './tokenizer.js';
+import { porterStem } from './PorterStemmer.js';
+import { JapaneseSegmenter, type JapaneseSegmenterOptions } from './JapaneseSegmenter.js';
+
+export type AnalyzerName = 'standard' | 'morphological';
+
+/**
+ * Converts text into index terms. The same analyzer must be used for indexing
+ * and querying; `id` identifies the analyzer (and its version) in the index.
+ */
+export interface Analyzer {
+  readonly id: string;
+  /** Analyze text into terms, keeping duplicates so term frequencies can be counted */
+  analyze(text: string): string[];
+}
+
+/**
+ * Original analyzer: lowercase English words and Japanese character bigrams
+ */
+export class StandardAnalyzer implements Analyzer {
+  readonly id = 'standard-v1';
+
+  analyze(text: string): string[] {
+    return tokenizeAll(text);
+  }
+}
+
+export interface MorphologicalAnalyzerOptions extends JapaneseSegmenterOptions {
+  /** Apply Porter stemming to English words (default: true) */
+  stem?: boolean;
+  /** Split camelCase/snake_case identifiers and paths into parts (default: true) */
+  splitIdentifiers?: boolean;
+}
+
+const JAPANESE_CHARS = /[\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FFF\u3400-\u4DBF]+/g;
+const WORD_PATTERN = /[\p{L}\p{N}_./\\:-]+/gu;
+
+/**
+ * Short stable hash of a word list (identifies a user dictionary in the analyzer id)
+ */
+function hashWords(words: string[]): string {
+  let hash = 0x811c9dc5;
+  for (const char of [...words].sort().join('\n')) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * Split an identifier or path into its parts:
+ * "src/search/tokenizer.ts" -> src, search, tokenizer, ts
+ * "getUserById" -> get, User, By, Id; "max_connections" -> max, connections
+ */
+export function splitIdentifier(word: string): string[] {
+  return word
+    .split(/[_./\\:-]+/)
+    .flatMap(part => part.split(/(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/))
+    .filter(part => part.length > 0);
+}
+
+/**
+ * Dictionary-based Japanese segmentation, Porter stemming for English,
+ * and code-aware splitting of identifiers and file paths
+ */
+export class MorphologicalAnalyzer implements Analyzer {
+  readonly id: string;
+  private segmenter: JapaneseSegmenter;
+  private stem: boolean;
+  private splitIdentifiers: boolean;
+
+  constructor(options?: MorphologicalAnalyzerOptions) {
+    this.segmenter = new JapaneseSegmenter(options);
+    this.stem = options?.stem ?? true;
+    this.splitIdentifiers = options?.splitIdentifiers ?? true;
+    this.id = `morphological-v1${this.stem ? '' : ':nostem'}${this.splitIdentifiers ? '' : ':nosplit'}` +
+      (options?.userDictionary?.length ? `:dict-${hashWords(options.userDictionary)}` : '');
+  }
+
+  analyze(text: string): string[] {
+    if (!text || text.trim().length === 0) return [];
+
+    const terms: string[] = [];
+    let lastIndex = 0;
+
+    for (const match of text.matchAll(JAPANESE_CHARS)) {
+      terms.push(...this.analyzeLatin(text.slice(lastIndex, match.index)));
+      terms.push(...this.segmenter.segment(match[0]));
+      lastIndex = match.index! + match[0].length;
+    }
+    terms.push(...this.analyzeLatin(text.slice(lastIndex)));
+
+    return terms;
+  }
+
+  private analyzeLatin(text: string): string[] {
+    const terms: string[] = [];
+
+    for (const match of text.matchAll(WORD_PATTERN)) {
+      // Strip sentence punctuation around words ("done.", "(see)", "-flag")
+      const word = match[0].replace(/^[./\\:-]+|[./\\:-]+$/g, '');
+      if (!word) continue;
+
+      const parts = this.splitIdentifiers ? splitIdentifier(word) : [word];
+      for (const part of parts) {
+        const term = this.normalize(part);
+        if (term) terms.push(term);
+      }
+
+      // Keep the whole identifier/path too, so exact lookups still match
+      if (parts.length > 1) {
+        terms.push(word.toLowerCase());
+      }
+    }
+
+    return terms;
+  }
+
+  private normalize(part: string): string | null {
+    const lower = part.toLowerCase();
+    if (lower.length < 2 || ENGLISH_STOP_WORDS.has(lower)) return null;
+    return this.stem ? porterStem(lower) : lower;
+  }
+}
+
+/**
+ * Create an analyzer by name
+ */
+export function createAnalyzer(name: AnalyzerName): Analyzer {
+  switch (name) {
+    case 'standard':
+      return new StandardAnalyzer();
+    case 'morphological':
+      return new MorphologicalAnalyzer();
+    default:
+      throw new Error(`Unknown analyzer: ${name}`);
+  }
+}
+
+/**
+ * Get the analyzer for this deployment from CC_MEMORY_ANALYZER (default: morphological)
+ */
+export function getDefaultAnalyzer(): Analyzer {
+  const name = process.env.CC_MEMORY_ANALYZER?.toLowerCase();
+  if (name === 'standard' || name === 'morphological') {
+    return createAnalyzer(name);
+  }
+  return new MorphologicalAnalyzer();
+}
@@ -0,0 +1,128 @@
+/**
+ * Embedding providers for vector-based semantic search
+ * The bundled default runs fully offline (no model download or network access)
+ */
+
+/**
+ * Produces fixed-size vectors for text.
+ * Implementations must be deterministic: the same text always yields the same vector.
+ */
+export interface EmbeddingProvider {
+  /** Stable identifier stored alongside vectors (changing it invalidates stored vectors) */
+  readonly id: string;
+  /** Vector dimensionality */
+  readonly dimensions: number;
+  /** Embed a single text */
+  embed(text: string): number[];
+}
+
+export interface HashedNgramEmbeddingOptions {
+  /** Vector dimensionality (default: 512) */
+  dimensions?: number;
+  /** Character n-gram sizes (default: [3, 4]) */
+  ngramSizes?: number[];
+  /** Weight of whole-word features relative to character n-grams (default: 2) */
+  wordWeight?: number;
+}
+
+/**
+ * FNV-1a 32-bit hash
+ */
+function fnv1a(text: string, seed: number = 0x811c9dc5): number {
+  let hash = seed;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Offline embedding provider based on the hashing trick.
+ *
+ * Words and character n-grams (with word boundary markers) are hashed into a
+ * fixed number of buckets with a signed hash, then log-scaled and L2-normalized.
+ * Character n-grams make the vectors robust to inflections and partial matches
+ * ("connection" / "connections" / "connect"), which pure term matching misses.
+ */
+export class HashedNgramEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  readonly dimensions: number;
+  private ngramSizes: number[];
+  private wordWeight: number;
+
+  constructor(options?: HashedNgramEmbeddingOptions) {
+    this.dimensions = options?.dimensions ?? 512;
+    this.ngramSizes = options?.ngramSizes ?? [3, 4];
+    this.wordWeight = options?.wordWeight ?? 2;
+    this.id = `hashed-ngram-v1:${this.dimensions}:${this.ngramSizes.join(',')}:${this.wordWeight}`;
+  }
+
+  embed(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    if (!text) return vector;
+
+    const words = text
+      .toLowerCase()
+      .normalize('NFKC')
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(w => w.length > 0);
+
+    for (const word of words) {
+      this.addFeature(vector, `w:${word}`, this.wordWeight);
+
+      const padded = `<${word}>`;
+      for (const n of this.ngramSizes) {
+        if (padded.length < n) continue;
+        for (let i = 0; i <= padded.length - n; i++) {
+          this.addFeature(vector, `c:${padded.slice(i, i + n)}`, 1);
+        }
+      }
+    }
+
+    // Sublinear scaling keeps frequent n-grams from dominating
+    for (let i = 0; i < vector.length; i++) {
+      const v = vector[i];
+      vector[i] = Math.sign(v) * Math.log1p(Math.abs(v));
+    }
+
+    return normalizeVector(vector);
+  }
+
+  private addFeature(vector: number[], feature: string, weight: number): void {
+    const hash = fnv1a(feature);
+    const bucket = hash % this.dimensions;
+    const sign = (fnv1a(feature, 0x9747b28c) & 1) === 0 ? 1 : -1;
+    vector[bucket] += sign * weight;
+  }
+}
+
+/**
+ * Scale a vector to unit length (zero vectors are returned unchanged)
+ */
+export function normalizeVector(vector: number[]): number[] {
+  let norm = 0;
+  for (const v of vector) norm += v * v;
+  norm = Math.sqrt(norm);
+  if (norm === 0) return vector;
+  return vector.map(v => v / norm);
+}
+
+/**
+ * Cosine similarity between two vectors of equal length
+ */
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
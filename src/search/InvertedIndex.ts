@@ -1,17 +1,19 @@
 /**
  * Inverted Index implementation for fast full-text search
- * Stores term -> document mappings in SQLite
+ * Stores term -> document mappings in SQLite and ranks with BM25 (per-field weights)
  */
 
 import type { Database as SqlJsDatabase } from 'sql.js';
-import { tokenize, calculateTermFrequency } from './tokenizer.js';
+import { calculateTermFrequency } from './tokenizer.js';
+import { getDefaultAnalyzer, type Analyzer } from './Analyzer.js';
 
-export type DocumentType = 'episodic' | 'semantic' | 'working' | 'pattern' | 'insight' | 'wisdom';
+export type DocumentType = 'episodic' | 'semantic' | 'working' | 'pattern' | 'insight' | 'wisdom' | 'transcript';
 
 export interface IndexEntry {
   term: string;
   docType: DocumentType;
   docId: string;
+  field: string;
   frequency: number;
 }
 
@@ -22,12 +24,56 @@ export interface SearchResult {
   matchedTerms: string[];
 }
 
+export interface Bm25Options {
+  /** Term frequency saturation (default: 1.2) */
+  k1?: number;
+  /** Field length normalization strength, 0-1 (default: 0.75) */
+  b?: number;
+  /** Per-field weights; fields not listed use 1 */
+  fieldWeights?: Record<string, number>;
+}
+
+export interface InvertedIndexOptions extends Bm25Options {
+  /** Analyzer for documents and queries (default: from CC_MEMORY_ANALYZER) */
+  analyzer?: Analyzer;
+}
+
+/**
+ * Default field weights: titles count more than bodies
+ */
+export const DEFAULT_FIELD_WEIGHTS: Record<string, number> = {
+  summary: 3,
+  name: 3,
+  key: 3,
+  pattern: 2,
+  insight: 2,
+  principle: 2,
+  tags: 2,
+  learnings: 1.5,
+  description: 1.5,
+  domains: 1.5,
+  observations: 1,
+  reasoning: 1,
+  details: 1,
+  tools: 1,
+  value: 1,
+  content: 1,
+};
+
 export class InvertedIndex {
   private db: SqlJsDatabase | null = null;
   private saveCallback?: () => void;
+  private k1: number;
+  private b: number;
+  private fieldWeights: Record<string, number>;
+  private analyzer: Analyzer;
 
-  constructor(db: SqlJsDatabase | null) {
+  constructor(db: SqlJsDatabase | null, options?: InvertedIndexOptions) {
     this.db = db;
+    this.analyzer = options?.analyzer ?? getDefaultAnalyzer();
+    this.k1 = options?.k1 ?? 1.2;
+    this.b = options?.b ?? 0.75;
+    this.fieldWeights = { ...DEFAULT_FIELD_WEIGHTS, ...options?.fieldWeights };
   }
 
   setDatabase(db: SqlJsDatabase): void {
@@ -38,6 +84,10 @@ export class InvertedIndex {
     this.saveCallback = callback;
   }
 
+  getAnalyzer(): Analyzer {
+    return this.analyzer;
+  }
+
   private save(): void {
     if (this.saveCallback) {
       this.saveCallback();
@@ -45,7 +95,7 @@ export class InvertedIndex {
   }
 
   /**
-   * Create the search index table if it doesn't exist
+   * Create the search index tables if they don't exist
    */
   createTable(): void {
     if (!this.db) return;
@@ -55,9 +105,21 @@ export class InvertedIndex {
         term TEXT NOT NULL,
         doc_type TEXT NOT NULL,
         doc_id TEXT NOT NULL,
+        field TEXT NOT NULL,
         frequency INTEGER DEFAULT 1,
         created_at INTEGER NOT NULL,
-        PRIMARY KEY (term, doc_type, doc_id)
+        PRIMARY KEY (term, doc_type, doc_id, field)
+      )
+    `);
+
+    // Token count per indexed field, used for BM25 length normalization
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS search_documents (
+        doc_type TEXT NOT NULL,
+        doc_id TEXT NOT NULL,
+        field TEXT NOT NULL,
+        length INTEGER NOT NULL,
+        PRIMARY KEY (doc_type, doc_id, field)
       )
     `);
 
@@ -69,49 +131,83 @@ export class InvertedIndex {
       CREATE INDEX IF NOT EXISTS idx_search_doc ON search_index(doc_type, doc_id)
     `);
 
+    // Index-wide settings (which analyzer built the index)
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS search_meta (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      )
+    `);
+
+    // Terms from a different analyzer cannot be matched: clear so the index is rebuilt
+    const stored = this.db.exec("SELECT value FROM search_meta WHERE key = 'analyzer'");
+    const storedAnalyzer = stored.length > 0 ? stored[0].values[0][0] as string : null;
+    if (storedAnalyzer !== this.analyzer.id) {
+      this.db.run('DELETE FROM search_index');
+      this.db.run('DELETE FROM search_documents');
+      this.db.run(
+        "INSERT OR REPLACE INTO search_meta (key, value) VALUES ('analyzer', ?)",
+        [this.analyzer.id]
+      );
+    }
+
     this.save();
   }
 
   /**
-   * Index a document by extracting and storing its terms
+   * Get the analyzer ID recorded in the index
+   */
+  getIndexedAnalyzerId(): string | null {
+    if (!this.db) return null;
+    const result = this.db.exec("SELECT value FROM search_meta WHERE key = 'analyzer'");
+    return result.length > 0 ? result[0].values[0][0] as string : null;
+  }
+
+  /**
+   * Index a document as a single unnamed field
    */
   indexDocument(docType: DocumentType, docId: string, content: string): number {
-    if (!this.db || !content) return 0;
+    return this.indexDocumentFields(docType, docId, { content });
+  }
 
-    const tokens = tokenize(content);
-    if (tokens.length === 0) return 0;
+  /**
+   * Index multiple fields of a document, keeping one term row per field
+   */
+  indexDocumentFields(docType: DocumentType, docId: string, fields: Record<string, string | undefined>): number {
+    if (!this.db) return 0;
 
-    const termFreq = calculateTermFrequency(tokens);
     const now = Date.now();
 
     // Remove existing entries for this document
     this.db.run('DELETE FROM search_index WHERE doc_type = ? AND doc_id = ?', [docType, docId]);
+    this.db.run('DELETE FROM search_documents WHERE doc_type = ? AND doc_id = ?', [docType, docId]);
 
     // Insert new entries
     let indexed = 0;
-    for (const [term, frequency] of termFreq) {
+    for (const [field, content] of Object.entries(fields)) {
+      if (!content) continue;
+
+      const tokens = this.analyzer.analyze(content);
+      if (tokens.length === 0) continue;
+
       this.db.run(
-        'INSERT INTO search_index (term, doc_type, doc_id, frequency, created_at) VALUES (?, ?, ?, ?, ?)',
-        [term, docType, docId, frequency, now]
+        'INSERT INTO search_documents (doc_type, doc_id, field, length) VALUES (?, ?, ?, ?)',
+        [docType, docId, field, tokens.length]
       );
-      indexed++;
+
+      for (const [term, frequency] of calculateTermFrequency(tokens)) {
+        this.db.run(
+          'INSERT INTO search_index (term, doc_type, doc_id, field, frequency, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+          [term, docType, docId, field, frequency, now]
+        );
+        indexed++;
+      }
     }
 
     this.save();
     return indexed;
   }
 
-  /**
-   * Index multiple fields of a document
-   */
-  indexDocumentFields(docType: DocumentType, docId: string, fields: Record<string, string | undefined>): number {
-    const combinedContent = Object.values(fields)
-      .filter((v): v is string => v !== undefined && v !== null)
-      .join(' ');
-
-    return this.indexDocument(docType, docId, combinedContent);
-  }
-
   /**
    * Remove a document from the index
    */
@@ -120,12 +216,31 @@ export class InvertedIndex {
 
     this.db.run('DELETE FROM search_index WHERE doc_type = ? AND doc_id = ?', [docType, docId]);
     const changes = this.db.getRowsModified();
+    this.db.run('DELETE FROM search_documents WHERE doc_type = ? AND doc_id = ?', [docType, docId]);
     this.save();
     return changes > 0;
   }
 
   /**
-   * Search for documents matching the query
+   * Remove all documents of a type whose ID starts with the given prefix
+   */
+  removeDocumentsByPrefix(docType: DocumentType, prefix: string): number {
+    if (!this.db) return 0;
+
+    // substr() instead of LIKE so that '_' and '%' in IDs are not treated as wildcards
+    const condition = 'doc_type = ? AND substr(doc_id, 1, ?) = ?';
+    const params = [docType, prefix.length, prefix];
+    this.db.run(`DELETE FROM search_index WHERE ${condition}`, params);
+    const changes = this.db.getRowsModified();
+    this.db.run(`DELETE FROM search_documents WHERE ${condition}`, params);
+    this.save();
+    return changes;
+  }
+
+  /**
+   * Search for documents matching the query, ranked by BM25F:
+   * field term frequencies are length-normalized and weighted per field,
+   * then saturated and multiplied by the term's inverse document frequency.
    */
   search(query: string, options?: {
     docTypes?: DocumentType[];
@@ -134,62 +249,68 @@ export class InvertedIndex {
   }): SearchResult[] {
     if (!this.db || !query) return [];
 
-    const queryTokens = tokenize(query);
+    const queryTokens = this.analyzeQuery(query);
     if (queryTokens.length === 0) return [];
 
-    const placeholders = queryTokens.map(() => '?').join(', ');
-    let sql = `
-      SELECT doc_type, doc_id, term, frequency
-      FROM search_index
-      WHERE term IN (${placeholders})
-    `;
-    const params: (string | number)[] = [...queryTokens];
-
-    if (options?.docTypes && options.docTypes.length > 0) {
-      const typeHolders = options.docTypes.map(() => '?').join(', ');
-      sql += ` AND doc_type IN (${typeHolders})`;
-      params.push(...options.docTypes);
-    }
+    const typeParams: string[] = options?.docTypes ?? [];
+    const typeHolders = typeParams.map(() => '?').join(', ');
 
-    const result = this.db.exec(sql, params);
+    const placeholders = queryTokens.map(() => '?').join(', ');
+    const result = this.db.exec(`
+      SELECT si.doc_type, si.doc_id, si.term, si.field, si.frequency, sd.length
+      FROM search_index si
+      JOIN search_documents sd
+        ON sd.doc_type = si.doc_type AND sd.doc_id = si.doc_id AND sd.field = si.field
+      WHERE si.term IN (${placeholders})${typeParams.length > 0 ? ` AND si.doc_type IN (${typeHolders})` : ''}
+    `, [...queryTokens, ...typeParams]);
     if (result.length === 0) return [];
 
-    // Aggregate results by document
-    const docScores = new Map<string, { score: number; matchedTerms: Set<string>; docType: DocumentType }>();
+    const { docCount, avgFieldLengths } = this.getCollectionStats(typeParams);
+
+    // Document frequency per term (a document counts once regardless of field)
+    const docFreq = new Map<string, Set<string>>();
+    // Length-normalized, field-weighted term frequency per document and term
+    const docTerms = new Map<string, { docType: DocumentType; docId: string; tf: Map<string, number> }>();
 
     for (const row of result[0].values) {
       const docType = row[0] as DocumentType;
       const docId = row[1] as string;
       const term = row[2] as string;
-      const frequency = row[3] as number;
+      const field = row[3] as string;
+      const frequency = row[4] as number;
+      const length = row[5] as number;
 
       const key = `${docType}:${docId}`;
-      const existing = docScores.get(key);
-
-      if (existing) {
-        existing.score += frequency;
-        existing.matchedTerms.add(term);
-      } else {
-        docScores.set(key, {
-          score: frequency,
-          matchedTerms: new Set([term]),
-          docType,
-        });
+
+      if (!docFreq.has(term)) docFreq.set(term, new Set());
+      docFreq.get(term)!.add(key);
+
+      const avgLength = avgFieldLengths.get(field) || length || 1;
+      const weight = this.fieldWeights[field] ?? 1;
+      const normalizedTf = weight * frequency / (1 - this.b + this.b * (length / avgLength));
+
+      let doc = docTerms.get(key);
+      if (!doc) {
+        doc = { docType, docId, tf: new Map() };
+        docTerms.set(key, doc);
       }
+      doc.tf.set(term, (doc.tf.get(term) || 0) + normalizedTf);
     }
 
-    // Convert to results and apply scoring boost for multiple term matches
     let results: SearchResult[] = [];
-    for (const [key, data] of docScores) {
-      const docId = key.split(':').slice(1).join(':');
-      const matchRatio = data.matchedTerms.size / queryTokens.length;
-      const finalScore = data.score * (1 + matchRatio);
+    for (const doc of docTerms.values()) {
+      let score = 0;
+      for (const [term, tf] of doc.tf) {
+        const df = docFreq.get(term)!.size;
+        const idf = Math.log(1 + (docCount - df + 0.5) / (df + 0.5));
+        score += idf * (tf * (this.k1 + 1)) / (tf + this.k1);
+      }
 
       results.push({
-        docType: data.docType,
-        docId,
-        score: finalScore,
-        matchedTerms: [...data.matchedTerms],
+        docType: doc.docType,
+        docId: doc.docId,
+        score,
+        matchedTerms: [...doc.tf.keys()],
       });
     }
 
@@ -206,6 +327,46 @@ export class InvertedIndex {
     return results;
   }
 
+  /**
+   * Document count and average field lengths for the searched collection
+   */
+  private getCollectionStats(docTypes: string[]): {
+    docCount: number;
+    avgFieldLengths: Map<string, number>;
+  } {
+    const avgFieldLengths = new Map<string, number>();
+    if (!this.db) return { docCount: 0, avgFieldLengths };
+
+    const typeFilter = docTypes.length > 0
+      ? ` AND doc_type IN (${docTypes.map(() => '?').join(', ')})`
+      : '';
+
+    const countResult = this.db.exec(
+      `SELECT COUNT(DISTINCT doc_type || ':' || doc_id) FROM search_documents WHERE 1=1${typeFilter}`,
+      docTypes
+    );
+    const docCount = countResult.length > 0 ? Number(countResult[0].values[0][0]) : 0;
+
+    const avgResult = this.db.exec(
+      `SELECT field, AVG(length) FROM search_documents WHERE 1=1${typeFilter} GROUP BY field`,
+      docTypes
+    );
+    if (avgResult.length > 0) {
+      for (const row of avgResult[0].values) {
+        avgFieldLengths.set(row[0] as string, Number(row[1]));
+      }
+    }
+
+    return { docCount, avgFieldLengths };
+  }
+
+  /**
+   * Analyze a query into the unique terms used for lookup
+   */
+  analyzeQuery(query: string): string[] {
+    return [...new Set(this.analyzer.analyze(query))];
+  }
+
   /**
    * Get index statistics
    */
@@ -231,12 +392,25 @@ export class InvertedIndex {
     };
   }
 
+  /**
+   * Count indexed documents of a type
+   */
+  countDocuments(docType: DocumentType): number {
+    if (!this.db) return 0;
+    const result = this.db.exec(
+      'SELECT COUNT(DISTINCT doc_id) FROM search_documents WHERE doc_type = ?',
+      [docType]
+    );
+    return result.length > 0 ? Number(result[0].values[0][0]) : 0;
+  }
+
   /**
    * Clear the entire index
    */
   clear(): void {
     if (!this.db) return;
     this.db.run('DELETE FROM search_index');
+    this.db.run('DELETE FROM search_documents');
     this.save();
   }
 
@@ -246,6 +420,7 @@ export class InvertedIndex {
   clearDocumentType(docType: DocumentType): void {
     if (!this.db) return;
     this.db.run('DELETE FROM search_index WHERE doc_type = ?', [docType]);
+    this.db.run('DELETE FROM search_documents WHERE doc_type = ?', [docType]);
     this.save();
   }
 }
@@ -0,0 +1,185 @@
+/**
+ * Dictionary-based Japanese word segmenter (fully offline)
+ *
+ * Text is split into runs of the same script (kanji / hiragana / katakana).
+ * Each run is segmented by longest match against a bundled lexicon:
+ * - kanji runs: known compounds, unknown stretches split into two-character chunks
+ * - katakana runs: known loanwords, unknown stretches kept whole
+ * - hiragana runs: particles and auxiliaries are dropped, other stretches kept
+ */
+
+type ScriptType = 'kanji' | 'hiragana' | 'katakana';
+
+/**
+ * Common kanji compounds (technical and general vocabulary)
+ */
+const KANJI_WORDS = [
+  '接続', '接続先', '設定', '認証', '認可', '実装', '問題', '解決', '処理', '確認',
+  '変更', '追加', '削除', '更新', '作成', '機能', '情報', '管理', '環境', '開発',
+  '本番', '検索', '記憶', '失敗', '成功', '原因', '対応', '修正', '障害', '発生',
+  '性能', '改善', '利用', '使用', '構成', '起動', '停止', '設計', '試験', '自動',
+  '手動', '保存', '読込', '書込', '時間', '速度', '容量', '不足', '上限', '制限',
+  '権限', '暗号', '暗号化', '同期', '非同期', '並列', '通信', '通知', '応答', '要求',
+  '結果', '出力', '入力', '文字', '文字列', '数値', '日付', '期限', '期限切', '状態',
+  '会議', '仕様', '要件', '決定', '判断', '方針', '手順', '作業', '完了', '開始',
+  '終了', '予定', '課題', '調査', '分析', '検証', '評価', '比較', '学習', '知識',
+  '経験', '知恵', '洞察', '記録', '履歴', '一覧', '詳細', '概要', '説明', '報告',
+  '共有', '連携', '統合', '移行', '導入', '運用', '監視', '警告', '重要', '重要度',
+  '優先', '優先度', '緊急', '安全', '危険', '脆弱性', '負荷', '遅延', '高速', '低速',
+  '最適化', '効率', '品質', '不具合', '例外', '異常', '正常', '復旧', '再起動', '再試行',
+  '依存', '関係', '関連', '参照', '引数', '戻値', '変数', '関数', '型', '定義',
+  '宣言', '呼出', '実行', '処理中', '待機', '排他', '競合', '衝突', '整合性', '一貫性',
+  '並列化', '分散', '集約', '抽出', '変換', '生成', '解析', '構文', '字句', '形態素',
+  '辞書', '単語', '文章', '言語', '日本語', '英語', '翻訳', '画面', '表示', '操作',
+  '利用者', '顧客', '担当', '担当者', '開発者', '管理者', '組織', '部署', '案件', '計画',
+  '目標', '進捗', '見積', '費用', '予算', '契約', '東京', '大阪', '日本', '会社',
+];
+
+/**
+ * Common katakana loanwords
+ */
+const KATAKANA_WORDS = [
+  'データ', 'データベース', 'サーバー', 'サーバ', 'エラー', 'ログ', 'テスト', 'ファイル',
+  'メモリ', 'メモリー', 'キャッシュ', 'クエリ', 'クエリー', 'コネクション', 'プール',
+  'タイムアウト', 'ユーザー', 'ユーザ', 'パスワード', 'トークン', 'セッション', 'リクエスト',
+  'レスポンス', 'デプロイ', 'ビルド', 'リリース', 'バージョン', 'ブランチ', 'コミット',
+  'マージ', 'レビュー', 'バグ', 'パッチ', 'スクリプト', 'コマンド', 'オプション',
+  'パラメータ', 'パラメーター', 'インデックス', 'テーブル', 'カラム', 'スキーマ',
+  'マイグレーション', 'バックアップ', 'リストア', 'ネットワーク', 'ポート', 'プロセス',
+  'スレッド', 'タスク', 'ジョブ', 'キュー', 'イベント', 'メッセージ', 'エージェント',
+  'ツール', 'プラグイン', 'モジュール', 'ライブラリ', 'フレームワーク', 'コード', 'ソース',
+  'テンプレート', 'コンテキスト', 'プロジェクト', 'ドキュメント', 'アプリ', 'アプリケーション',
+  'システム', 'サービス', 'クライアント', 'ブラウザ', 'パフォーマンス', 'セキュリティ',
+  'ロック', 'デッドロック', 'リトライ', 'ステータス', 'パス', 'ディレクトリ', 'フォルダ',
+  'リーク', 'タチコマ', 'パターン', 'インサイト', 'エンティティ', 'リレーション', 'グラフ',
+  'チーム', 'ミーティング', 'スケジュール', 'ワークフロー', 'パイプライン', 'コンテナ',
+  'クラスタ', 'クラスター', 'ノード', 'レプリカ', 'シャード', 'トランザクション',
+];
+
+/**
+ * Particles, auxiliaries and inflection endings (not indexed)
+ */
+const HIRAGANA_FUNCTION_WORDS = [
+  'では', 'には', 'とは', 'でも', 'への', 'から', 'まで', 'より', 'ので', 'のに',
+  'けど', 'けれど', 'ている', 'ていた', 'ています', 'ました', 'ません', 'ます', 'です',
+  'でした', 'だった', 'する', 'した', 'して', 'され', 'された', 'される', 'させ',
+  'できる', 'できない', 'ない', 'なかった', 'ある', 'あった', 'いる', 'いた', 'れる',
+  'られる', 'こと', 'もの', 'ため', 'よう', 'など', 'これ', 'それ', 'あれ', 'この',
+  'その', 'あの', 'ここ', 'そこ', 'について', 'において', 'によって', 'により', 'として',
+  'という', 'ください', 'なる', 'なり', 'なっ', 'ところ', 'また', 'しかし', 'だけ',
+  'ね', 'よ', 'な', 'の', 'に', 'は', 'を', 'が', 'で', 'て', 'と', 'も', 'へ',
+  'や', 'か', 'た', 'だ', 'し', 'り', 'う', 'く', 'き', 'け', 'っ', 'ん', 'ず',
+  'ば', 'い', 'え', 'せ', 'れ', 'ら', 'さ', 'ち', 'み', 'め', 'ろ', 'わ',
+];
+
+/**
+ * Common hiragana content words
+ */
+const HIRAGANA_WORDS = ['すべて', 'まとめ', 'ひらがな', 'かたかな', 'やりかた', 'しくみ'];
+
+export interface JapaneseSegmenterOptions {
+  /** Additional words to recognize (any script) */
+  userDictionary?: string[];
+}
+
+function scriptOf(char: string): ScriptType | null {
+  const code = char.charCodeAt(0);
+  if (code >= 0x3040 && code <= 0x309F) return 'hiragana';
+  if (code >= 0x30A0 && code <= 0x30FF) return 'katakana';
+  if ((code >= 0x4E00 && code <= 0x9FFF) || (code >= 0x3400 && code <= 0x4DBF)) return 'kanji';
+  return null;
+}
+
+export class JapaneseSegmenter {
+  private contentWords: Set<string>;
+  private functionWords: Set<string>;
+  private maxWordLength: number;
+
+  constructor(options?: JapaneseSegmenterOptions) {
+    this.contentWords = new Set([
+      ...KANJI_WORDS,
+      ...KATAKANA_WORDS,
+      ...HIRAGANA_WORDS,
+      ...(options?.userDictionary ?? []),
+    ]);
+    this.functionWords = new Set(HIRAGANA_FUNCTION_WORDS);
+    this.maxWordLength = Math.max(
+      ...[...this.contentWords, ...this.functionWords].map(w => w.length)
+    );
+  }
+
+  /**
+   * Segment text into Japanese words (non-Japanese characters are ignored)
+   */
+  segment(text: string): string[] {
+    const tokens: string[] = [];
+    let run = '';
+    let runType: ScriptType | null = null;
+
+    const flush = (): void => {
+      if (run && runType) {
+        tokens.push(...this.segmentRun(run, runType));
+      }
+      run = '';
+      runType = null;
+    };
+
+    for (const char of text) {
+      const type = scriptOf(char);
+      if (type !== runType) flush();
+      if (type) {
+        run += char;
+        runType = type;
+      }
+    }
+    flush();
+
+    return tokens;
+  }
+
+  /**
+   * Segment a run of a single script by longest dictionary match
+   */
+  private segmentRun(run: string, type: ScriptType): string[] {
+    const tokens: string[] = [];
+    let unknown = '';
+
+    const flushUnknown = (): void => {
+      if (!unknown) return;
+      if (type === 'kanji') {
+        for (let i = 0; i < unknown.length; i += 2) {
+          tokens.push(unknown.slice(i, i + 2));
+        }
+      } else if (type === 'katakana' || unknown.length >= 2) {
+        tokens.push(unknown);
+      }
+      unknown = '';
+    };
+
+    let i = 0;
+    while (i < run.length) {
+      let matched = '';
+      for (let len = Math.min(this.maxWordLength, run.length - i); len >= 1; len--) {
+        const candidate = run.slice(i, i + len);
+        if (this.contentWords.has(candidate) || this.functionWords.has(candidate)) {
+          matched = candidate;
+          break;
+        }
+      }
+
+      if (matched) {
+        flushUnknown();
+        if (!this.functionWords.has(matched)) {
+          tokens.push(matched);
+        }
+        i += matched.length;
+      } else {
+        unknown += run[i];
+        i++;
+      }
+    }
+    flushUnknown();
+
+    return tokens;
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Porter stemming algorithm (M.F. Porter, 1980) for English terms
+ */
+
+/**
+ * Check if the character at position i is a consonant
+ */
+function isConsonant(word: string, i: number): boolean {
+  const c = word[i];
+  if (c === 'a' || c === 'e' || c === 'i' || c === 'o' || c === 'u') return false;
+  if (c === 'y') return i === 0 ? true : !isConsonant(word, i - 1);
+  return true;
+}
+
+/**
+ * Measure m of a stem: the number of vowel-consonant sequences ([C](VC)^m[V])
+ */
+function measure(stem: string): number {
+  let m = 0;
+  let i = 0;
+  const n = stem.length;
+
+  while (i < n && isConsonant(stem, i)) i++;
+  while (i < n) {
+    while (i < n && !isConsonant(stem, i)) i++;
+    if (i >= n) break;
+    while (i < n && isConsonant(stem, i)) i++;
+    m++;
+  }
+  return m;
+}
+
+function containsVowel(stem: string): boolean {
+  for (let i = 0; i < stem.length; i++) {
+    if (!isConsonant(stem, i)) return true;
+  }
+  return false;
+}
+
+function endsWithDoubleConsonant(word: string): boolean {
+  const n = word.length;
+  return n >= 2 && word[n - 1] === word[n - 2] && isConsonant(word, n - 1);
+}
+
+/**
+ * Stem ends consonant-vowel-consonant, where the last consonant is not w, x or y
+ */
+function endsWithCvc(word: string): boolean {
+  const n = word.length;
+  if (n < 3) return false;
+  const last = word[n - 1];
+  return isConsonant(word, n - 3) &&
+    !isConsonant(word, n - 2) &&
+    isConsonant(word, n - 1) &&
+    last !== 'w' && last !== 'x' && last !== 'y';
+}
+
+type SuffixRule = [suffix: string, replacement: string];
+
+/**
+ * Sort rules so that the longest matching suffix is always tried first
+ */
+function byLength(rules: SuffixRule[]): SuffixRule[] {
+  return [...rules].sort((a, b) => b[0].length - a[0].length);
+}
+
+const STEP2_RULES = byLength([
+  ['ational', 'ate'], ['tional', 'tion'], ['enci', 'ence'], ['anci', 'ance'],
+  ['izer', 'ize'], ['abli', 'able'], ['alli', 'al'], ['entli', 'ent'],
+  ['eli', 'e'], ['ousli', 'ous'], ['ization', 'ize'], ['ation', 'ate'],
+  ['ator', 'ate'], ['alism', 'al'], ['iveness', 'ive'], ['fulness', 'ful'],
+  ['ousness', 'ous'], ['aliti', 'al'], ['iviti', 'ive'], ['biliti', 'ble'],
+]);
+
+const STEP3_RULES = byLength([
+  ['icate', 'ic'], ['ative', ''], ['alize', 'al'], ['iciti', 'ic'],
+  ['ical', 'ic'], ['ful', ''], ['ness', ''],
+]);
+
+const STEP4_SUFFIXES = [
+  'al', 'ance', 'ence', 'er', 'ic', 'able', 'ible', 'ant', 'ement', 'ment',
+  'ent', 'ion', 'ou', 'ism', 'ate', 'iti', 'ous', 'ive', 'ize',
+].sort((a, b) => b.length - a.length);
+
+/**
+ * Replace the longest matching suffix when the remaining stem has measure > minMeasure
+ */
+function applyRules(word: string, rules: SuffixRule[], minMeasure: number): string {
+  for (const [suffix, replacement] of rules) {
+    if (word.endsWith(suffix)) {
+      const stem = word.slice(0, -suffix.length);
+      return measure(stem) > minMeasure ? stem + replacement : word;
+    }
+  }
+  return word;
+}
+
+function step1a(word: string): string {
+  if (word.endsWith('sses')) return word.slice(0, -2);
+  if (word.endsWith('ies')) return word.slice(0, -2);
+  if (word.endsWith('ss')) return word;
+  if (word.endsWith('s')) return word.slice(0, -1);
+  return word;
+}
+
+function step1b(word: string): string {
+  if (word.endsWith('eed')) {
+    return measure(word.slice(0, -3)) > 0 ? word.slice(0, -1) : word;
+  }
+
+  let stem: string | null = null;
+  if (word.endsWith('ed') && containsVowel(word.slice(0, -2))) {
+    stem = word.slice(0, -2);
+  } else if (word.endsWith('ing') && containsVowel(word.slice(0, -3))) {
+    stem = word.slice(0, -3);
+  }
+  if (stem === null) return word;
+
+  if (stem.endsWith('at') || stem.endsWith('bl') || stem.endsWith('iz')) {
+    return stem + 'e';
+  }
+  if (endsWithDoubleConsonant(stem) && !/[lsz]$/.test(stem)) {
+    return stem.slice(0, -1);
+  }
+  if (measure(stem) === 1 && endsWithCvc(stem)) {
+    return stem + 'e';
+  }
+  return stem;
+}
+
+function step1c(word: string): string {
+  if (word.endsWith('y') && containsVowel(word.slice(0, -1))) {
+    return word.slice(0, -1) + 'i';
+  }
+  return word;
+}
+
+function step4(word: string): string {
+  for (const suffix of STEP4_SUFFIXES) {
+    if (word.endsWith(suffix)) {
+      const stem = word.slice(0, -suffix.length);
+      if (measure(stem) <= 1) return word;
+      if (suffix === 'ion' && !/[st]$/.test(stem)) return word;
+      return stem;
+    }
+  }
+  return word;
+}
+
+function step5(word: string): string {
+  if (word.endsWith('e')) {
+    const stem = word.slice(0, -1);
+    const m = measure(stem);
+    if (m > 1 || (m === 1 && !endsWithCvc(stem))) {
+      word = stem;
+    }
+  }
+  if (word.endsWith('ll') && measure(word) > 1) {
+    word = word.slice(0, -1);
+  }
+  return word;
+}
+
+/**
+ * Stem a lowercase English word. Words of two letters or fewer, and words
+ * containing non-letters, are returned unchanged.
+ */
+export function porterStem(word: string): string {
+  if (word.length <= 2 || !/^[a-z]+$/.test(word)) return word;
+
+  let stem = step1a(word);
+  stem = step1b(stem);
+  stem = step1c(stem);
+  stem = applyRules(stem, STEP2_RULES, 0);
+  stem = applyRules(stem, STEP3_RULES, 0);
+  stem = step4(stem);
+  stem = step5(stem);
+  return stem;
+}
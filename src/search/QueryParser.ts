@@ -0,0 +1,210 @@
+/**
+ * Structured query parser for memory search
+ *
+ * Syntax (all parts optional, combined with AND):
+ *   plain words            full-text terms (looked up in the inverted index)
+ *   "quoted phrase"        exact substring match
+ *   -word / -"phrase"      exclude documents containing the word or phrase
+ *   type:error             filter by type (repeatable, OR within the same key)
+ *   tag:postgres           require a tag (repeatable, all must match); -tag:x excludes
+ *   importance>=7          numeric comparison (>=, >, <=, <, : for equality)
+ *   confidence>=0.8        numeric comparison on confidence
+ *   after:2026-09-01       timestamp lower bound (ISO date or epoch millis)
+ *   before:2026-10-01      timestamp upper bound (a date includes that whole day)
+ *
+ * Unknown `key:value` tokens are treated as plain text.
+ */
+
+export interface NumericRange {
+  min?: number;
+  max?: number;
+}
+
+export interface ParsedQuery {
+  /** Positive free-text terms */
+  terms: string[];
+  /** Positive quoted phrases */
+  phrases: string[];
+  /** Terms that must not appear */
+  excludedTerms: string[];
+  /** Phrases that must not appear */
+  excludedPhrases: string[];
+  /** Allowed types (empty = any) */
+  types: string[];
+  /** Required tags */
+  tags: string[];
+  /** Forbidden tags */
+  excludedTags: string[];
+  importance: NumericRange;
+  confidence: NumericRange;
+  /** Timestamp lower bound (inclusive) */
+  after?: number;
+  /** Timestamp upper bound (inclusive) */
+  before?: number;
+}
+
+const NUMERIC_FIELDS = new Set(['importance', 'confidence']);
+
+const TOKEN_PATTERN = /(-?)(?:"([^"]*)"|(\S+))/g;
+const COMPARISON_PATTERN = /^(\w+)(>=|<=|>|<|:)(-?\d+(?:\.\d+)?)$/;
+const KEY_VALUE_PATTERN = /^(\w+):(.+)$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a date value (ISO date/datetime or epoch milliseconds).
+ * With endOfDay, a date without a time means the last millisecond of that day.
+ */
+function parseDate(value: string, endOfDay: boolean = false): number | undefined {
+  if (/^\d{10,}$/.test(value)) {
+    return Number(value);
+  }
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) return undefined;
+  return endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value) ? time + DAY_MS - 1 : time;
+}
+
+/**
+ * Apply a numeric comparison to a range (strict bounds are approximated
+ * with the smallest step that keeps integer and decimal fields correct)
+ */
+function applyComparison(range: NumericRange, op: string, value: number): void {
+  const epsilon = Number.isInteger(value) ? 1 : 1e-9;
+  switch (op) {
+    case '>=':
+      range.min = Math.max(range.min ?? -Infinity, value);
+      break;
+    case '>':
+      range.min = Math.max(range.min ?? -Infinity, value + epsilon);
+      break;
+    case '<=':
+      range.max = Math.min(range.max ?? Infinity, value);
+      break;
+    case '<':
+      range.max = Math.min(range.max ?? Infinity, value - epsilon);
+      break;
+    case ':':
+      range.min = value;
+      range.max = value;
+      break;
+  }
+}
+
+/**
+ * Parse a query string into its structured parts
+ */
+export function parseQuery(input: string): ParsedQuery {
+  const parsed: ParsedQuery = {
+    terms: [],
+    phrases: [],
+    excludedTerms: [],
+    excludedPhrases: [],
+    types: [],
+    tags: [],
+    excludedTags: [],
+    importance: {},
+    confidence: {},
+  };
+
+  if (!input) return parsed;
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const negated = match[1] === '-';
+    const phrase = match[2];
+    const word = match[3];
+
+    if (phrase !== undefined) {
+      if (phrase.trim().length === 0) continue;
+      (negated ? parsed.excludedPhrases : parsed.phrases).push(phrase);
+      continue;
+    }
+
+    if (!word) {
+      continue;
+    }
+
+    const comparison = word.match(COMPARISON_PATTERN);
+    if (comparison && !negated && NUMERIC_FIELDS.has(comparison[1].toLowerCase())) {
+      const field = comparison[1].toLowerCase() as 'importance' | 'confidence';
+      applyComparison(parsed[field], comparison[2], Number(comparison[3]));
+      continue;
+    }
+
+    const keyValue = word.match(KEY_VALUE_PATTERN);
+    if (keyValue) {
+      const key = keyValue[1].toLowerCase();
+      const value = keyValue[2];
+
+      if (key === 'type' && !negated) {
+        parsed.types.push(value);
+        continue;
+      }
+      if (key === 'tag') {
+        (negated ? parsed.excludedTags : parsed.tags).push(value);
+        continue;
+      }
+      if ((key === 'after' || key === 'before') && !negated) {
+        const time = parseDate(value, key === 'before');
+        if (time !== undefined) {
+          if (key === 'after') {
+            parsed.after = Math.max(parsed.after ?? -Infinity, time);
+          } else {
+            parsed.before = Math.min(parsed.before ?? Infinity, time);
+          }
+          continue;
+        }
+      }
+    }
+
+    (negated ? parsed.excludedTerms : parsed.terms).push(word);
+  }
+
+  return parsed;
+}
+
+/**
+ * Text to look up in the inverted index (positive terms and phrase words)
+ */
+export function getSearchText(parsed: ParsedQuery): string {
+  return [...parsed.terms, ...parsed.phrases].join(' ');
+}
+
+/**
+ * Whether the query has anything besides free-text terms
+ * (filters, phrases or exclusions)
+ */
+export function hasStructuredFilters(parsed: ParsedQuery): boolean {
+  return parsed.phrases.length > 0 ||
+    parsed.excludedTerms.length > 0 ||
+    parsed.excludedPhrases.length > 0 ||
+    parsed.types.length > 0 ||
+    parsed.tags.length > 0 ||
+    parsed.excludedTags.length > 0 ||
+    parsed.importance.min !== undefined ||
+    parsed.importance.max !== undefined ||
+    parsed.confidence.min !== undefined ||
+    parsed.confidence.max !== undefined ||
+    parsed.after !== undefined ||
+    parsed.before !== undefined;
+}
+
+/**
+ * Check a document's text and tags against the parsed query in memory.
+ * Used where there is no index (e.g. working memory); numeric and date
+ * filters are not applied here.
+ */
+export function matchesParsedQuery(parsed: ParsedQuery, text: string, tags: string[] = []): boolean {
+  const haystack = text.toLowerCase();
+  const tagSet = new Set(tags.map(t => t.toLowerCase()));
+  const includes = (needle: string): boolean => {
+    const lower = needle.toLowerCase();
+    return haystack.includes(lower) || tagSet.has(lower);
+  };
+
+  return parsed.terms.every(includes) &&
+    parsed.phrases.every(includes) &&
+    !parsed.excludedTerms.some(includes) &&
+    !parsed.excludedPhrases.some(includes) &&
+    parsed.tags.every(tag => tagSet.has(tag.toLowerCase())) &&
+    !parsed.excludedTags.some(tag => tagSet.has(tag.toLowerCase()));
+}
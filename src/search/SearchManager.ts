@@ -4,6 +4,10 @@
 
 import type { Database as SqlJsDatabase } from 'sql.js';
 import { InvertedIndex, type DocumentType, type SearchResult } from './InvertedIndex.js';
+import { VectorIndex, type VectorSearchResult } from './VectorIndex.js';
+import { HashedNgramEmbeddingProvider, type EmbeddingProvider } from './EmbeddingProvider.js';
+import type { Analyzer } from './Analyzer.js';
+import { createHighlightedSnippet, findMatchSpans } from './snippet.js';
 import type {
   EpisodicMemory,
   SemanticEntity,
@@ -11,6 +15,7 @@ import type {
   Pattern,
   Insight,
   WisdomEntity,
+  Transcript,
 } from '../memory/types.js';
 
 export interface SearchOptions {
@@ -22,6 +27,21 @@ export interface SearchOptions {
   minScore?: number;
   /** Whether to include metadata in results */
   includeMetadata?: boolean;
+  /** Whether to include a highlighted snippet of the best matching field */
+  includeSnippets?: boolean;
+  /** Maximum length of each snippet in characters (default: 160) */
+  snippetLength?: number;
+  /** Character budget shared by all snippets; later results get none once it runs out */
+  maxChars?: number;
+}
+
+export interface SearchSnippet {
+  /** Field the snippet was taken from (e.g. "details", "observations") */
+  field: string;
+  /** Excerpt with matched words wrapped in ** markers */
+  text: string;
+  /** Character offset of the first match in the field (-1 if none) */
+  offset: number;
 }
 
 export interface EnrichedSearchResult extends SearchResult {
@@ -31,24 +51,73 @@ export interface EnrichedSearchResult extends SearchResult {
     type?: string;
     timestamp?: number;
   };
+  snippet?: SearchSnippet;
+}
+
+export interface SemanticSearchOptions {
+  /** Document types to search (default: all) */
+  types?: DocumentType[];
+  /** Maximum number of results (default: 20) */
+  limit?: number;
+  /** Minimum cosine similarity (default: 0) */
+  minScore?: number;
+}
+
+export interface SearchManagerOptions {
+  /** Embedding provider for vector search (default: offline hashed n-gram provider) */
+  embeddingProvider?: EmbeddingProvider;
+  /** Analyzer for the inverted index (default: from CC_MEMORY_ANALYZER) */
+  analyzer?: Analyzer;
+}
+
+/** Snippets shorter than this are not worth showing */
+const MIN_SNIPPET_LENGTH = 20;
+
+/**
+ * Columns needed for metadata and snippets, per document type
+ */
+const DOCUMENT_QUERIES: Partial<Record<DocumentType, string>> = {
+  episodic: 'SELECT summary, details, outcome, tags, type, timestamp FROM episodic_memory WHERE id = ?',
+  semantic: 'SELECT name, description, observations, tags, type FROM semantic_entities WHERE id = ?',
+  pattern: 'SELECT pattern, related_tags, status, created_at FROM patterns WHERE id = ?',
+  insight: 'SELECT insight, reasoning, domains, status, created_at FROM insights WHERE id = ?',
+  wisdom: 'SELECT name, principle, description, tags, created_at FROM wisdom WHERE id = ?',
+};
+
+function parseJson<T>(value: unknown): T | null {
+  if (typeof value !== 'string' || value.length === 0) return null;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
+
+function joinJsonArray(value: unknown, separator: string = ' '): string {
+  const array = parseJson<unknown[]>(value);
+  return Array.isArray(array) ? array.map(String).join(separator) : '';
 }
 
 export class SearchManager {
   private index: InvertedIndex;
+  private vectors: VectorIndex;
   private db: SqlJsDatabase | null = null;
 
-  constructor(db: SqlJsDatabase | null) {
+  constructor(db: SqlJsDatabase | null, options?: SearchManagerOptions) {
     this.db = db;
-    this.index = new InvertedIndex(db);
+    this.index = new InvertedIndex(db, { analyzer: options?.analyzer });
+    this.vectors = new VectorIndex(db, options?.embeddingProvider ?? new HashedNgramEmbeddingProvider());
   }
 
   setDatabase(db: SqlJsDatabase): void {
     this.db = db;
     this.index.setDatabase(db);
+    this.vectors.setDatabase(db);
   }
 
   setSaveCallback(callback: () => void): void {
     this.index.setSaveCallback(callback);
+    this.vectors.setSaveCallback(callback);
   }
 
   /**
@@ -56,13 +125,39 @@ export class SearchManager {
    */
   initialize(): void {
     this.index.createTable();
+    this.vectors.createTable();
+  }
+
+  /**
+   * Get the analyzer used by the inverted index
+   */
+  getAnalyzer(): Analyzer {
+    return this.index.getAnalyzer();
+  }
+
+  /**
+   * Get the embedding provider used for vector search
+   */
+  getEmbeddingProvider(): EmbeddingProvider {
+    return this.vectors.getProvider();
+  }
+
+  /**
+   * Index document fields in both the inverted index and the vector index
+   */
+  private indexFields(docType: DocumentType, docId: string, fields: Record<string, string | undefined>): void {
+    this.index.indexDocumentFields(docType, docId, fields);
+    const content = Object.values(fields)
+      .filter((v): v is string => v !== undefined && v !== null)
+      .join(' ');
+    this.vectors.indexDocument(docType, docId, content);
   }
 
   /**
    * Index an episodic memory
    */
   indexEpisode(episode: EpisodicMemory): void {
-    this.index.indexDocumentFields('episodic', episode.id, {
+    this.indexFields('episodic', episode.id, {
       summary: episode.summary,
       details: episode.details,
       tags: episode.tags?.join(' '),
@@ -74,8 +169,8 @@ export class SearchManager {
    * Index a semantic entity
    */
   indexEntity(entity: SemanticEntity): void {
-    this.index.indexDocumentFields('semantic', entity.id, {
-      name: entity.name,
+    this.indexFields('semantic', entity.id, {
+      name: [entity.name, ...(entity.aliases ?? [])].join(' '),
       description: entity.description,
       tags: entity.tags?.join(' '),
       observations: entity.observations?.join(' '),
@@ -90,7 +185,7 @@ export class SearchManager {
       ? item.value
       : JSON.stringify(item.value);
 
-    this.index.indexDocumentFields('working', item.id, {
+    this.indexFields('working', item.id, {
       key: item.key,
       value: valueStr,
       tags: item.tags?.join(' '),
@@ -101,7 +196,7 @@ export class SearchManager {
    * Index a pattern
    */
   indexPattern(pattern: Pattern): void {
-    this.index.indexDocumentFields('pattern', pattern.id, {
+    this.indexFields('pattern', pattern.id, {
       pattern: pattern.pattern,
       tags: pattern.relatedTags?.join(' '),
     });
@@ -111,7 +206,7 @@ export class SearchManager {
    * Index an insight
    */
   indexInsight(insight: Insight): void {
-    this.index.indexDocumentFields('insight', insight.id, {
+    this.indexFields('insight', insight.id, {
       insight: insight.insight,
       reasoning: insight.reasoning,
       domains: insight.domains?.join(' '),
@@ -122,7 +217,7 @@ export class SearchManager {
    * Index a wisdom entity
    */
   indexWisdom(wisdom: WisdomEntity): void {
-    this.index.indexDocumentFields('wisdom', wisdom.id, {
+    this.indexFields('wisdom', wisdom.id, {
       name: wisdom.name,
       principle: wisdom.principle,
       description: wisdom.description,
@@ -131,11 +226,61 @@ export class SearchManager {
     });
   }
 
+  /**
+   * Index a transcript with one document per message (doc ID: `<episodeId>#<messageIndex>`).
+   * Transcripts go into the inverted index only; they are too large to embed usefully.
+   */
+  indexTranscript(episodeId: string, transcript: Transcript): void {
+    this.index.removeDocumentsByPrefix('transcript', `${episodeId}#`);
+    transcript.forEach((message, messageIndex) => {
+      this.index.indexDocumentFields('transcript', `${episodeId}#${messageIndex}`, {
+        content: message.content,
+        tools: message.toolCalls?.map(call => call.name).join(' '),
+      });
+    });
+  }
+
+  /**
+   * Remove all indexed messages of a transcript
+   */
+  removeTranscript(episodeId: string): void {
+    this.index.removeDocumentsByPrefix('transcript', `${episodeId}#`);
+  }
+
+  /**
+   * Search transcript messages; results carry the episode ID and message index
+   */
+  searchTranscripts(query: string, options?: { limit?: number; minScore?: number }): Array<SearchResult & {
+    episodeId: string;
+    messageIndex: number;
+  }> {
+    return this.index.search(query, {
+      docTypes: ['transcript'],
+      limit: options?.limit ?? 20,
+      minScore: options?.minScore,
+    }).map(result => {
+      const separator = result.docId.lastIndexOf('#');
+      return {
+        ...result,
+        episodeId: result.docId.slice(0, separator),
+        messageIndex: Number(result.docId.slice(separator + 1)),
+      };
+    });
+  }
+
+  /**
+   * Analyze a query into index terms (for highlighting and snippets)
+   */
+  analyzeQuery(query: string): string[] {
+    return this.index.analyzeQuery(query);
+  }
+
   /**
    * Remove a document from the index
    */
   removeDocument(docType: DocumentType, docId: string): boolean {
-    return this.index.removeDocument(docType, docId);
+    const removedVector = this.vectors.removeDocument(docType, docId);
+    return this.index.removeDocument(docType, docId) || removedVector;
   }
 
   /**
@@ -150,89 +295,49 @@ export class SearchManager {
   }
 
   /**
-   * Search with enriched metadata
+   * Search by embedding similarity (finds paraphrases that share no exact terms)
+   */
+  semanticSearch(query: string, options?: SemanticSearchOptions): VectorSearchResult[] {
+    return this.vectors.search(query, {
+      docTypes: options?.types,
+      limit: options?.limit ?? 20,
+      minScore: options?.minScore,
+    });
+  }
+
+  /**
+   * Search with enriched metadata and, optionally, highlighted snippets
    */
   searchWithMetadata(query: string, options?: SearchOptions): EnrichedSearchResult[] {
     if (!this.db) return [];
 
     const results = this.search(query, options);
-    if (!options?.includeMetadata) {
+    if (!options?.includeMetadata && !options?.includeSnippets) {
       return results;
     }
 
+    const snippetLength = options?.snippetLength ?? 160;
+    let remaining = options?.maxChars ?? Infinity;
+
     return results.map(result => {
       const enriched: EnrichedSearchResult = { ...result };
       try {
-        switch (result.docType) {
-          case 'episodic': {
-            const res = this.db!.exec(
-              'SELECT summary, type, timestamp FROM episodic_memory WHERE id = ?',
-              [result.docId]
-            );
-            if (res.length > 0 && res[0].values.length > 0) {
-              enriched.metadata = {
-                summary: res[0].values[0][0] as string,
-                type: res[0].values[0][1] as string,
-                timestamp: res[0].values[0][2] as number,
-              };
-            }
-            break;
-          }
-          case 'semantic': {
-            const res = this.db!.exec(
-              'SELECT name, description, type FROM semantic_entities WHERE id = ?',
-              [result.docId]
-            );
-            if (res.length > 0 && res[0].values.length > 0) {
-              enriched.metadata = {
-                name: res[0].values[0][0] as string,
-                summary: res[0].values[0][1] as string,
-                type: res[0].values[0][2] as string,
-              };
-            }
-            break;
-          }
-          case 'pattern': {
-            const res = this.db!.exec(
-              'SELECT pattern, status, created_at FROM patterns WHERE id = ?',
-              [result.docId]
-            );
-            if (res.length > 0 && res[0].values.length > 0) {
-              enriched.metadata = {
-                summary: res[0].values[0][0] as string,
-                type: res[0].values[0][1] as string,
-                timestamp: res[0].values[0][2] as number,
-              };
-            }
-            break;
-          }
-          case 'insight': {
-            const res = this.db!.exec(
-              'SELECT insight, status, created_at FROM insights WHERE id = ?',
-              [result.docId]
-            );
-            if (res.length > 0 && res[0].values.length > 0) {
-              enriched.metadata = {
-                summary: res[0].values[0][0] as string,
-                type: res[0].values[0][1] as string,
-                timestamp: res[0].values[0][2] as number,
-              };
-            }
-            break;
-          }
-          case 'wisdom': {
-            const res = this.db!.exec(
-              'SELECT name, principle, created_at FROM wisdom WHERE id = ?',
-              [result.docId]
-            );
-            if (res.length > 0 && res[0].values.length > 0) {
-              enriched.metadata = {
-                name: res[0].values[0][0] as string,
-                summary: res[0].values[0][1] as string,
-                timestamp: res[0].values[0][2] as number,
-              };
-            }
-            break;
+        const document = this.loadDocument(result.docType, result.docId);
+        if (!document) return enriched;
+
+        if (options?.includeMetadata) {
+          enriched.metadata = document.metadata;
+        }
+        if (options?.includeSnippets && remaining >= MIN_SNIPPET_LENGTH) {
+          const snippet = this.createDocumentSnippet(
+            document.fields,
+            result.matchedTerms,
+            Math.min(snippetLength, remaining),
+            remaining
+          );
+          if (snippet) {
+            enriched.snippet = snippet;
+            remaining -= snippet.text.length;
           }
         }
       } catch {
@@ -242,6 +347,128 @@ export class SearchManager {
     });
   }
 
+  /**
+   * Build a highlighted snippet from the first field (in priority order) that
+   * contains a match, falling back to the first non-empty field.
+   * The snippet text, markers included, never exceeds maxChars.
+   */
+  private createDocumentSnippet(
+    fields: Record<string, string>,
+    terms: string[],
+    maxLength: number,
+    maxChars: number
+  ): SearchSnippet | null {
+    const analyzer = this.getAnalyzer();
+    const entries = Object.entries(fields).filter(([, text]) => text.length > 0);
+    if (entries.length === 0) return null;
+
+    const [field, text] = entries.find(([, value]) => findMatchSpans(value, terms, analyzer).length > 0)
+      ?? entries[0];
+
+    let length = maxLength;
+    while (length >= MIN_SNIPPET_LENGTH) {
+      const snippet = createHighlightedSnippet(text, terms, { maxLength: length, analyzer });
+      if (snippet.text.length <= maxChars) {
+        return { field, text: snippet.text, offset: snippet.offset };
+      }
+      length -= snippet.text.length - maxChars;
+    }
+    return null;
+  }
+
+  /**
+   * Load display metadata and snippet source fields for an indexed document
+   */
+  private loadDocument(docType: DocumentType, docId: string): {
+    metadata: NonNullable<EnrichedSearchResult['metadata']>;
+    fields: Record<string, string>;
+  } | null {
+    const query = DOCUMENT_QUERIES[docType];
+    if (!query || !this.db) return null;
+
+    const res = this.db.exec(query, [docId]);
+    if (res.length === 0 || res[0].values.length === 0) return null;
+
+    const row: Record<string, unknown> = {};
+    res[0].columns.forEach((column, i) => {
+      row[column] = res[0].values[0][i];
+    });
+
+    switch (docType) {
+      case 'episodic': {
+        const outcome = parseJson<{ learnings?: string[] }>(row.outcome);
+        return {
+          metadata: {
+            summary: row.summary as string,
+            type: row.type as string,
+            timestamp: row.timestamp as number,
+          },
+          fields: {
+            summary: row.summary as string,
+            details: row.details as string,
+            learnings: (outcome?.learnings ?? []).join('; '),
+            tags: joinJsonArray(row.tags),
+          },
+        };
+      }
+      case 'semantic':
+        return {
+          metadata: {
+            name: row.name as string,
+            summary: row.description as string,
+            type: row.type as string,
+          },
+          fields: {
+            name: row.name as string,
+            description: row.description as string,
+            observations: joinJsonArray(row.observations, '; '),
+            tags: joinJsonArray(row.tags),
+          },
+        };
+      case 'pattern':
+        return {
+          metadata: {
+            summary: row.pattern as string,
+            type: row.status as string,
+            timestamp: row.created_at as number,
+          },
+          fields: {
+            pattern: row.pattern as string,
+            tags: joinJsonArray(row.related_tags),
+          },
+        };
+      case 'insight':
+        return {
+          metadata: {
+            summary: row.insight as string,
+            type: row.status as string,
+            timestamp: row.created_at as number,
+          },
+          fields: {
+            insight: row.insight as string,
+            reasoning: (row.reasoning as string | null) ?? '',
+            domains: joinJsonArray(row.domains),
+          },
+        };
+      case 'wisdom':
+        return {
+          metadata: {
+            name: row.name as string,
+            summary: row.principle as string,
+            timestamp: row.created_at as number,
+          },
+          fields: {
+            name: row.name as string,
+            principle: row.principle as string,
+            description: row.description as string,
+            tags: joinJsonArray(row.tags),
+          },
+        };
+      default:
+        return null;
+    }
+  }
+
   /**
    * Get search index statistics
    */
@@ -249,11 +476,26 @@ export class SearchManager {
     return this.index.getStats();
   }
 
+  /**
+   * Count indexed documents of a type
+   */
+  countDocuments(docType: DocumentType): number {
+    return this.index.countDocuments(docType);
+  }
+
+  /**
+   * Get the number of stored vectors for the current embedding provider
+   */
+  getVectorCount(): number {
+    return this.vectors.count();
+  }
+
   /**
    * Clear the search index
    */
   clear(): void {
     this.index.clear();
+    this.vectors.clear();
   }
 
   /**
@@ -261,5 +503,6 @@ export class SearchManager {
    */
   clearDocumentType(docType: DocumentType): void {
     this.index.clearDocumentType(docType);
+    this.vectors.clearDocumentType(docType);
   }
 }
@@ -0,0 +1,178 @@
+/**
+ * Vector index for embedding-based semantic search
+ * Stores document vectors in SQLite and performs brute-force cosine search
+ */
+
+import type { Database as SqlJsDatabase } from 'sql.js';
+import type { DocumentType } from './InvertedIndex.js';
+import { cosineSimilarity, type EmbeddingProvider } from './EmbeddingProvider.js';
+
+export interface VectorSearchResult {
+  docType: DocumentType;
+  docId: string;
+  /** Cosine similarity (-1 to 1) */
+  score: number;
+}
+
+export class VectorIndex {
+  private db: SqlJsDatabase | null = null;
+  private provider: EmbeddingProvider;
+  private saveCallback?: () => void;
+
+  constructor(db: SqlJsDatabase | null, provider: EmbeddingProvider) {
+    this.db = db;
+    this.provider = provider;
+  }
+
+  setDatabase(db: SqlJsDatabase): void {
+    this.db = db;
+  }
+
+  setSaveCallback(callback: () => void): void {
+    this.saveCallback = callback;
+  }
+
+  getProvider(): EmbeddingProvider {
+    return this.provider;
+  }
+
+  private save(): void {
+    if (this.saveCallback) {
+      this.saveCallback();
+    }
+  }
+
+  /**
+   * Create the vector table if it doesn't exist, and drop vectors produced by
+   * a different embedding provider (they are not comparable with new ones)
+   */
+  createTable(): void {
+    if (!this.db) return;
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS search_vectors (
+        doc_type TEXT NOT NULL,
+        doc_id TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        dimensions INTEGER NOT NULL,
+        vector BLOB NOT NULL,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (doc_type, doc_id)
+      )
+    `);
+
+    this.db.run('DELETE FROM search_vectors WHERE provider != ?', [this.provider.id]);
+    if (this.db.getRowsModified() > 0) {
+      this.save();
+    }
+  }
+
+  /**
+   * Embed and store the vector for a document
+   */
+  indexDocument(docType: DocumentType, docId: string, content: string): boolean {
+    if (!this.db) return false;
+
+    if (!content || content.trim().length === 0) {
+      this.removeDocument(docType, docId);
+      return false;
+    }
+
+    const vector = new Float32Array(this.provider.embed(content));
+
+    this.db.run(`
+      INSERT OR REPLACE INTO search_vectors (doc_type, doc_id, provider, dimensions, vector, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `, [docType, docId, this.provider.id, vector.length, new Uint8Array(vector.buffer), Date.now()]);
+
+    this.save();
+    return true;
+  }
+
+  /**
+   * Remove a document vector
+   */
+  removeDocument(docType: DocumentType, docId: string): boolean {
+    if (!this.db) return false;
+
+    this.db.run('DELETE FROM search_vectors WHERE doc_type = ? AND doc_id = ?', [docType, docId]);
+    const changes = this.db.getRowsModified();
+    if (changes > 0) this.save();
+    return changes > 0;
+  }
+
+  /**
+   * Find the documents most similar to the query text
+   */
+  search(query: string, options?: {
+    docTypes?: DocumentType[];
+    limit?: number;
+    minScore?: number;
+  }): VectorSearchResult[] {
+    if (!this.db || !query || query.trim().length === 0) return [];
+
+    const queryVector = this.provider.embed(query);
+
+    let sql = 'SELECT doc_type, doc_id, vector FROM search_vectors WHERE provider = ?';
+    const params: (string | number)[] = [this.provider.id];
+
+    if (options?.docTypes && options.docTypes.length > 0) {
+      const typeHolders = options.docTypes.map(() => '?').join(', ');
+      sql += ` AND doc_type IN (${typeHolders})`;
+      params.push(...options.docTypes);
+    }
+
+    const result = this.db.exec(sql, params);
+    if (result.length === 0) return [];
+
+    let results: VectorSearchResult[] = [];
+    for (const row of result[0].values) {
+      // Copy so the Float32Array view starts on an aligned offset
+      const vector = new Float32Array((row[2] as Uint8Array).slice().buffer);
+      const score = cosineSimilarity(queryVector, vector);
+
+      if (options?.minScore !== undefined && score < options.minScore) continue;
+
+      results.push({
+        docType: row[0] as DocumentType,
+        docId: row[1] as string,
+        score,
+      });
+    }
+
+    results.sort((a, b) => b.score - a.score);
+
+    if (options?.limit !== undefined && options.limit > 0) {
+      results = results.slice(0, options.limit);
+    }
+
+    return results;
+  }
+
+  /**
+   * Number of stored vectors for the current provider
+   */
+  count(): number {
+    if (!this.db) return 0;
+    const result = this.db.exec('SELECT COUNT(*) FROM search_vectors WHERE provider = ?', [this.provider.id]);
+    return result.length > 0 ? Number(result[0].values[0][0]) : 0;
+  }
+
+  /**
+   * Clear all vectors
+   */
+  clear(): void {
+    if (!this.db) return;
+    this.db.run('DELETE FROM search_vectors');
+    this.save();
+  }
+
+  /**
+   * Clear vectors for a specific document type
+   */
+  clearDocumentType(docType: DocumentType): void {
+    if (!this.db) return;
+    this.db.run('DELETE FROM search_vectors WHERE doc_type = ?', [docType]);
+    this.save();
+  }
+}
@@ -1,8 +1,39 @@
 /**
  * Search module exports
  */
-export { tokenize, calculateTermFrequency, normalizeTerm } from './tokenizer.js';
-export { InvertedIndex } from './InvertedIndex.js';
-export type { DocumentType, IndexEntry, SearchResult } from './InvertedIndex.js';
+export { tokenize, tokenizeAll, calculateTermFrequency, normalizeTerm } from './tokenizer.js';
+export { InvertedIndex, DEFAULT_FIELD_WEIGHTS } from './InvertedIndex.js';
+export type { DocumentType, IndexEntry, SearchResult, Bm25Options, InvertedIndexOptions } from './InvertedIndex.js';
 export { SearchManager } from './SearchManager.js';
-export type { SearchOptions, EnrichedSearchResult } from './SearchManager.js';
+export type { SearchOptions, SemanticSearchOptions, SearchManagerOptions, EnrichedSearchResult, SearchSnippet } from './SearchManager.js';
+export { HashedNgramEmbeddingProvider, cosineSimilarity, normalizeVector } from './EmbeddingProvider.js';
+export type { EmbeddingProvider, HashedNgramEmbeddingOptions } from './EmbeddingProvider.js';
+export { VectorIndex } from './VectorIndex.js';
+export type { VectorSearchResult } from './VectorIndex.js';
+export { parseQuery, getSearchText, hasStructuredFilters, matchesParsedQuery } from './QueryParser.js';
+export type { ParsedQuery, NumericRange } from './QueryParser.js';
+export {
+  StandardAnalyzer,
+  MorphologicalAnalyzer,
+  createAnalyzer,
+  getDefaultAnalyzer,
+  splitIdentifier,
+} from './Analyzer.js';
+export type { Analyzer, AnalyzerName, MorphologicalAnalyzerOptions } from './Analyzer.js';
+export { JapaneseSegmenter } from './JapaneseSegmenter.js';
+export type { JapaneseSegmenterOptions } from './JapaneseSegmenter.js';
+export { porterStem } from './PorterStemmer.js';
+export {
+  createSnippet,
+  findFirstMatch,
+  findMatchSpans,
+  applyHighlights,
+  createHighlightedSnippet,
+} from './snippet.js';
+export type {
+  Snippet,
+  HighlightSpan,
+  HighlightOptions,
+  HighlightedSnippetOptions,
+  HighlightedSnippet,
+} from './snippet.js';
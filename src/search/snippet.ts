@@ -0,0 +1,175 @@
+/**
+ * Snippet extraction and highlighting around matched terms
+ */
+
+import type { Analyzer } from './Analyzer.js';
+
+export interface Snippet {
+  /** Excerpt of the text (with "…" where it was cut) */
+  text: string;
+  /** Character offset of the first match in the original text (-1 if none) */
+  offset: number;
+}
+
+/**
+ * Find the earliest occurrence of any term (case-insensitive)
+ */
+export function findFirstMatch(text: string, terms: string[]): { offset: number; length: number } | null {
+  const lower = text.toLowerCase();
+  let best: { offset: number; length: number } | null = null;
+
+  for (const term of terms) {
+    if (!term) continue;
+    const offset = lower.indexOf(term.toLowerCase());
+    if (offset >= 0 && (best === null || offset < best.offset)) {
+      best = { offset, length: term.length };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Extract a window of text around the first matching term.
+ * Falls back to the beginning of the text when nothing matches.
+ */
+export function createSnippet(text: string, terms: string[], maxLength: number = 200): Snippet {
+  if (!text) return { text: '', offset: -1 };
+
+  const match = findFirstMatch(text, terms);
+  if (text.length <= maxLength) {
+    return { text, offset: match ? match.offset : -1 };
+  }
+
+  const offset = match ? match.offset : 0;
+  // Place the match about a third of the way into the window
+  const start = match ? Math.max(0, Math.min(offset - Math.floor(maxLength / 3), text.length - maxLength)) : 0;
+  const end = Math.min(text.length, start + maxLength);
+
+  return {
+    text: (start > 0 ? '…' : '') + text.slice(start, end) + (end < text.length ? '…' : ''),
+    offset: match ? offset : -1,
+  };
+}
+
+export interface HighlightSpan {
+  start: number;
+  end: number;
+}
+
+export interface HighlightOptions {
+  /** Analyzer used by the index; lets stemmed terms ("connect") match words ("connections") */
+  analyzer?: Analyzer;
+  /** Marker inserted before a match (default: "**") */
+  open?: string;
+  /** Marker inserted after a match (default: "**") */
+  close?: string;
+}
+
+export interface HighlightedSnippetOptions extends HighlightOptions {
+  /** Maximum snippet length in characters, excluding markers (default: 200) */
+  maxLength?: number;
+}
+
+export interface HighlightedSnippet extends Snippet {
+  /** Matched spans relative to the original text */
+  spans: HighlightSpan[];
+}
+
+const WORD_CHARS = /[\p{L}\p{N}_]+/gu;
+const JAPANESE_CHAR = /[\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FFF\u3400-\u4DBF]/;
+
+/**
+ * Find the spans of text matching any of the terms.
+ * Whole words are matched directly or through the analyzer; Japanese terms
+ * and terms spanning several words (phrases) are matched as substrings.
+ */
+export function findMatchSpans(text: string, terms: string[], analyzer?: Analyzer): HighlightSpan[] {
+  if (!text) return [];
+  const termSet = new Set(terms.filter(Boolean).map(t => t.toLowerCase()));
+  if (termSet.size === 0) return [];
+
+  const spans: HighlightSpan[] = [];
+
+  for (const match of text.matchAll(WORD_CHARS)) {
+    const word = match[0];
+    if (JAPANESE_CHAR.test(word)) continue;
+    const lower = word.toLowerCase();
+    if (termSet.has(lower) || analyzer?.analyze(word).some(term => termSet.has(term))) {
+      spans.push({ start: match.index!, end: match.index! + word.length });
+    }
+  }
+
+  const lowerText = text.toLowerCase();
+  for (const term of termSet) {
+    if (!JAPANESE_CHAR.test(term) && !/[^\p{L}\p{N}_]/u.test(term)) continue;
+    let from = 0;
+    let offset: number;
+    while ((offset = lowerText.indexOf(term, from)) >= 0) {
+      spans.push({ start: offset, end: offset + term.length });
+      from = offset + term.length;
+    }
+  }
+
+  // Merge overlapping spans
+  spans.sort((a, b) => a.start - b.start || b.end - a.end);
+  const merged: HighlightSpan[] = [];
+  for (const span of spans) {
+    const last = merged[merged.length - 1];
+    if (last && span.start <= last.end) {
+      last.end = Math.max(last.end, span.end);
+    } else {
+      merged.push({ ...span });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Wrap the given spans of text in highlight markers
+ */
+export function applyHighlights(text: string, spans: HighlightSpan[], open: string = '**', close: string = '**'): string {
+  let result = '';
+  let position = 0;
+  for (const span of spans) {
+    result += text.slice(position, span.start) + open + text.slice(span.start, span.end) + close;
+    position = span.end;
+  }
+  return result + text.slice(position);
+}
+
+/**
+ * Extract a window around the first match and highlight every match inside it
+ */
+export function createHighlightedSnippet(
+  text: string,
+  terms: string[],
+  options?: HighlightedSnippetOptions
+): HighlightedSnippet {
+  if (!text) return { text: '', offset: -1, spans: [] };
+
+  const maxLength = Math.max(1, options?.maxLength ?? 200);
+  const open = options?.open ?? '**';
+  const close = options?.close ?? '**';
+  const spans = findMatchSpans(text, terms, options?.analyzer);
+  const offset = spans.length > 0 ? spans[0].start : -1;
+
+  let start = 0;
+  if (text.length > maxLength && offset >= 0) {
+    start = Math.max(0, Math.min(offset - Math.floor(maxLength / 3), text.length - maxLength));
+  }
+  const end = Math.min(text.length, start + maxLength);
+
+  // Clip spans to the window so markers never cut a word in half
+  const visible = spans
+    .filter(span => span.end > start && span.start < end)
+    .map(span => ({ start: Math.max(span.start, start) - start, end: Math.min(span.end, end) - start }));
+
+  return {
+    text: (start > 0 ? '…' : '') +
+      applyHighlights(text.slice(start, end), visible, open, close) +
+      (end < text.length ? '…' : ''),
+    offset,
+    spans,
+  };
+}
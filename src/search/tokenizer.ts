@@ -6,7 +6,7 @@
 /**
  * Common English stop words to filter out
  */
-const ENGLISH_STOP_WORDS = new Set([
+export const ENGLISH_STOP_WORDS = new Set([
   'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from',
   'has', 'he', 'in', 'is', 'it', 'its', 'of', 'on', 'that', 'the',
   'to', 'was', 'were', 'will', 'with', 'the', 'this', 'but', 'they',
@@ -104,9 +104,10 @@ function tokenizeJapanese(text: string, ngramSize: number = 2): string[] {
 }
 
 /**
- * Tokenize mixed text (English and Japanese)
+ * Tokenize mixed text (English and Japanese), keeping repeated tokens
+ * so that term frequencies can be counted
  */
-export function tokenize(text: string): string[] {
+export function tokenizeAll(text: string): string[] {
   if (!text || text.trim().length === 0) {
     return [];
   }
@@ -121,7 +122,14 @@ export function tokenize(text: string): string[] {
     tokens.push(...tokenizeEnglish(text));
   }
 
-  return [...new Set(tokens)];
+  return tokens;
+}
+
+/**
+ * Tokenize mixed text (English and Japanese) into unique tokens
+ */
+export function tokenize(text: string): string[] {
+  return [...new Set(tokenizeAll(text))];
 }
 
 /**
@@ -3,11 +3,18 @@
  * Creates and configures McpServer instances for both stdio and HTTP transports
  */
 
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 
 import { MemoryManager } from '../../memory/MemoryManager.js';
 import { SqliteStorage } from '../../storage/SqliteStorage.js';
+import {
+  GRAPH_EXPORT_FORMATS,
+  GRAPH_EXPORT_MIME_TYPES,
+  exportGraph,
+  graphExportFilterFromParams,
+  isGraphExportFormat,
+} from '../../memory/GraphExporter.js';
 import {
   createToolHandlers,
   WorkingSetSchema,
@@ -26,7 +33,16 @@ import {
   SemanticSearchSchema,
   SemanticAddObservationSchema,
   SemanticRelateSchema,
+  SemanticTraverseSchema,
+  RelationTypeDefineSchema,
   SemanticUpdateSchema,
+  SemanticHistorySchema,
+  MemoryConflictsSchema,
+  SemanticMergeCandidatesSchema,
+  SemanticMergeSchema,
+  MemoryExplainSchema,
+  SemanticDiffSchema,
+  SemanticRevertSchema,
   MemoryConsolidateSchema,
   MemoryRecallSchema,
   MemoryImportSchema,
@@ -34,6 +50,8 @@ import {
   SmartRecallSchema,
   MemoryDecaySchema,
   MemoryBoostSchema,
+  MaintenanceRunSchema,
+  MaintenanceStatusSchema,
   TachikomaInitSchema,
   TachikomaStatusSchema,
   TachikomaExportSchema,
@@ -103,7 +121,11 @@ cc-memory は Claude の持続的記憶システムです。以下のルール
 ## 注意事項
 
 - ユーザーに「覚えて」と言われなくても、重要な情報は自主的に記憶すること
-- 過去の記憶と矛盾する新情報があれば、semantic_update で更新すること
+- 事実が変わった場合（例: Node 18 → Node 22）は上書きせず、supersedes を指定して semantic_create / semantic_add_observation で記録すること（古い事実は履歴として残り、semantic_search の as_of で参照できる）
+- semantic_create / semantic_add_observation が contradictions を返したら、memory_conflicts で確認して解消すること
+- 記憶の根拠となったエピソードが分かる場合は sources を指定すること（memory_explain で会話まで遡れる）
+- semantic_create が possibleDuplicates を返したら、同じものなら semantic_merge で統合すること（統合された名前は別名として引き続き使える）
+- 依存関係などを複数ホップで辿るときは semantic_traverse を使うこと（relation_type_list で登録済みの関係と逆名を確認できる）
 `.trim();
 
 import type { AuthInfo } from '../http/auth/types.js';
@@ -238,7 +260,7 @@ function registerTools(server: McpServer, handlers: ReturnType<typeof createTool
 
   server.tool(
     'episode_get_transcript',
-    'Get the full conversation transcript for an episode',
+    'Get the conversation transcript for an episode (optionally only the part around a message or query match)',
     EpisodeGetTranscriptSchema.shape,
     async (args) => {
       const result = handlers.episode_get_transcript(args as z.infer<typeof EpisodeGetTranscriptSchema>);
@@ -327,6 +349,36 @@ function registerTools(server: McpServer, handlers: ReturnType<typeof createTool
     }
   );
 
+  server.tool(
+    'semantic_traverse',
+    'Query the knowledge graph: multi-hop paths, shortest path between entities, or the subgraph around an entity',
+    SemanticTraverseSchema.shape,
+    async (args) => {
+      const result = handlers.semantic_traverse(args as z.infer<typeof SemanticTraverseSchema>);
+      return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+    }
+  );
+
+  server.tool(
+    'relation_type_define',
+    'Register a relation type with its inverse name, cardinality and allowed entity types',
+    RelationTypeDefineSchema.shape,
+    async (args) => {
+      const result = handlers.relation_type_define(args as z.infer<typeof RelationTypeDefineSchema>);
+      return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+    }
+  );
+
+  server.tool(
+    'relation_type_list',
+    'List registered relation types',
+    {},
+    async () => {
+      const result = handlers.relation_type_list();
+      return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+    }
+  );
+
   server.tool(
     'semantic_update',
     'Update a semantic entity',
@@ -337,6 +389,76 @@ function registerTools(server: McpServer, handlers: ReturnType<typeof createTool
     }
   );
 
+  server.tool(
+    'semantic_history',
+    'List previous versions of a semantic entity',
+    SemanticHistorySchema.shape,
+    async (args) => {
+      const result = handlers.semantic_history(args as z.infer<typeof SemanticHistorySchema>);
+      return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+    }
+  );
+
+  server.tool(
+    'semantic_diff',
+    'Show what changed between two versions of a semantic entity',
+    SemanticDiffSchema.shape,
+    async (args) => {
+      const result = handlers.semantic_diff(args as z.infer<typeof SemanticDiffSchema>);
+      return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+    }
+  );
+
+  server.tool(
+    'semantic_revert',
+    'Restore a semantic entity to a previous version',
+    SemanticRevertSchema.shape,
+    async (args) => {
+      const result = handlers.semantic_revert(args as z.infer<typeof SemanticRevertSchema>);
+      return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+    }
+  );
+
+  server.tool(
+    'memory_conflicts',
+    'List likely contradictions between semantic memories for review',
+    MemoryConflictsSchema.shape,
+    async (args) => {
+      const result = handlers.memory_conflicts(args as z.infer<typeof MemoryConflictsSchema>);
+      return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+    }
+  );
+
+  server.tool(
+    'semantic_merge_candidates',
+    'Find semantic entities that likely describe the same thing (optionally merging them)',
+    SemanticMergeCandidatesSchema.shape,
+    async (args) => {
+      const result = handlers.semantic_merge_candidates(args as z.infer<typeof SemanticMergeCandidatesSchema>);
+      return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+    }
+  );
+
+  server.tool(
+    'semantic_merge',
+    'Merge a duplicate semantic entity into another, keeping its name as an alias',
+    SemanticMergeSchema.shape,
+    async (args) => {
+      const result = handlers.semantic_merge(args as z.infer<typeof SemanticMergeSchema>);
+      return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+    }
+  );
+
+  server.tool(
+    'memory_explain',
+    'Explain where knowledge came from, from wisdom back to source episodes and transcript messages',
+    MemoryExplainSchema.shape,
+    async (args) => {
+      const result = handlers.memory_explain(args as z.infer<typeof MemoryExplainSchema>);
+      return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+    }
+  );
+
   // Memory Management Tools
   server.tool(
     'memory_consolidate',
@@ -418,6 +540,26 @@ function registerTools(server: McpServer, handlers: ReturnType<typeof createTool
     }
   );
 
+  server.tool(
+    'maintenance_run',
+    'Run memory maintenance jobs (decay, boost, compress, working_cleanup, dikw_promote) now',
+    MaintenanceRunSchema.shape,
+    async (args) => {
+      const result = await handlers.maintenance_run(args as z.infer<typeof MaintenanceRunSchema>);
+      return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+    }
+  );
+
+  server.tool(
+    'maintenance_status',
+    'Show maintenance schedules, last runs and recent results',
+    MaintenanceStatusSchema.shape,
+    async (args) => {
+      const result = handlers.maintenance_status(args as z.infer<typeof MaintenanceStatusSchema>);
+      return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+    }
+  );
+
   // Tachikoma Parallelization Tools
   server.tool(
     'tachikoma_init',
@@ -821,6 +963,34 @@ function registerResources(server: McpServer, memoryManager: MemoryManager): voi
     }
   );
 
+  server.resource(
+    'memory://semantic/graph/{format}',
+    new ResourceTemplate('memory://semantic/graph/{format}', {
+      list: async () => ({
+        resources: GRAPH_EXPORT_FORMATS.map(format => ({
+          uri: `memory://semantic/graph/${format}`,
+          name: `Knowledge graph (${format})`,
+          mimeType: GRAPH_EXPORT_MIME_TYPES[format],
+        })),
+      }),
+    }),
+    async (uri) => {
+      // Filters are passed as query parameters: ?type=fact&tag=api&min_strength=0.5
+      const format = uri.pathname.split('/').pop() ?? '';
+      if (!isGraphExportFormat(format)) {
+        throw new Error(`Unknown graph format: ${format} (expected ${GRAPH_EXPORT_FORMATS.join(', ')})`);
+      }
+      const graph = memoryManager.semantic.getGraph();
+      return {
+        contents: [{
+          uri: uri.href,
+          mimeType: GRAPH_EXPORT_MIME_TYPES[format],
+          text: exportGraph(graph, format, graphExportFilterFromParams(uri.searchParams)),
+        }],
+      };
+    }
+  );
+
   server.resource(
     'memory://stats',
     'memory://stats',
@@ -835,6 +1005,21 @@ function registerResources(server: McpServer, memoryManager: MemoryManager): voi
       };
     }
   );
+
+  server.resource(
+    'memory://maintenance',
+    'memory://maintenance',
+    async () => {
+      const status = memoryManager.getMaintenanceStatus();
+      return {
+        contents: [{
+          uri: 'memory://maintenance',
+          mimeType: 'application/json',
+          text: JSON.stringify(status, null, 2),
+        }],
+      };
+    }
+  );
 }
 
 /**
@@ -848,9 +1033,13 @@ function registerPrompts(server: McpServer, memoryManager: MemoryManager): void
       task_description: z.string().describe('Description of current task'),
       include_episodes: z.boolean().optional().default(true),
       include_semantic: z.boolean().optional().default(true),
+      max_tokens: z.number().optional().describe('Token budget for the returned context (default: 2000)'),
     },
     async (args) => {
-      const context = await memoryManager.getFormattedContext(args.task_description as string);
+      const packed = memoryManager.packContext(args.task_description as string, {
+        tokenBudget: args.max_tokens as number | undefined,
+      });
+      const context = packed.text || 'No relevant memories found.';
       return {
         messages: [{
           role: 'user',
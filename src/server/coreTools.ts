@@ -64,7 +64,17 @@ export const ADVANCED_TOOLS = new Set([
   'semantic_search',
   'semantic_add_observation',
   'semantic_relate',
+  'semantic_traverse',
+  'relation_type_define',
+  'relation_type_list',
   'semantic_update',
+  'semantic_history',
+  'semantic_diff',
+  'semantic_revert',
+  'memory_conflicts',
+  'semantic_merge_candidates',
+  'semantic_merge',
+  'memory_explain',
 
   // Advanced memory operations
   'memory_boost',
@@ -72,6 +82,8 @@ export const ADVANCED_TOOLS = new Set([
   'merge_episodes',
   'cluster_episodes',
   'compress_memories',
+  'maintenance_run',
+  'maintenance_status',
 
   // Goal tracking
   'goal_create',
@@ -0,0 +1,159 @@
+/**
+ * Sync HTTP API Routes
+ *
+ * Tachikoma deltas pushed and pulled by HttpSyncAdapter. Deltas are kept per
+ * namespace and pulled by cursor. Requires an authenticated request:
+ * pulling needs memory:read, pushing needs memory:write. Namespaces named
+ * "team:<id>" are shared by the members of that team; any other namespace
+ * is private to the API key's client. A pull after a cursor whose deltas
+ * were already dropped gets 410, so the client resyncs from the oldest one.
+ *
+ * Endpoints:
+ * - POST   /api/sync/:namespace/deltas   # Push a delta
+ * - GET    /api/sync/:namespace/deltas   # Pull deltas (?after=<cursor>&limit=&exclude=<tachikomaId>)
+ * - GET    /api/sync/:namespace/status   # Latest cursor of the namespace
+ */
+
+import { Router, type Request, type Response, type NextFunction } from 'express';
+import { requireScopes } from '../auth/apiKey.js';
+import type { AuthenticatedRequest } from '../auth/types.js';
+import type { ParallelizationExport } from '../../../memory/types.js';
+import type { SyncDeltaStore } from '../sync/deltaStore.js';
+
+export interface SyncRouterOptions {
+  store: SyncDeltaStore;
+  /** Maximum deltas per pull (default: 100) */
+  maxPullLimit?: number;
+}
+
+const NAMESPACE_PATTERN = /^(team:)?[a-zA-Z0-9_.-]{1,64}$/;
+
+// Helper to extract string from param (handles express type)
+function getParam(params: Request['params'], name: string): string {
+  const value = params[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Namespace in the store: team namespaces are shared, others are kept per client
+ */
+function storeNamespace(req: AuthenticatedRequest): string {
+  const namespace = getParam(req.params, 'namespace');
+  return namespace.startsWith('team:') ? namespace : `client:${req.auth?.clientId ?? 'anonymous'}/${namespace}`;
+}
+
+/**
+ * Creates Express router for sync endpoints (mount behind the auth middleware)
+ */
+export function createSyncRouter(options: SyncRouterOptions): Router {
+  const { store, maxPullLimit = 100 } = options;
+  const router = Router();
+
+  // Validate the namespace and team membership for every route
+  const namespaceAccess = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const namespace = getParam(req.params, 'namespace');
+    if (!NAMESPACE_PATTERN.test(namespace)) {
+      res.status(400).json({
+        error: 'bad_request',
+        message: 'namespace must be 1-64 characters, alphanumeric with dots, hyphens and underscores (optionally prefixed with "team:")',
+      });
+      return;
+    }
+
+    if (namespace.startsWith('team:') && req.auth?.team !== namespace.slice(5)) {
+      res.status(403).json({
+        error: 'forbidden',
+        message: 'Cannot access another team\'s namespace',
+      });
+      return;
+    }
+
+    next();
+  };
+
+  /**
+   * POST /api/sync/:namespace/deltas
+   * Push a delta
+   */
+  router.post('/:namespace/deltas', requireScopes('memory:write'), namespaceAccess, (req: AuthenticatedRequest, res) => {
+    const namespace = getParam(req.params, 'namespace');
+    const delta = req.body as ParallelizationExport;
+
+    if (!delta || delta.format !== 'tachikoma-parallelize-delta' ||
+        typeof delta.tachikomaId !== 'string' || typeof delta.exportedAt !== 'number' || !delta.delta) {
+      res.status(400).json({
+        error: 'bad_request',
+        message: 'body must be a tachikoma-parallelize-delta export',
+      });
+      return;
+    }
+
+    const stored = store.append(storeNamespace(req), delta, req.auth?.clientId ?? 'anonymous');
+
+    res.status(201).json({
+      namespace,
+      cursor: stored.cursor,
+      receivedAt: stored.receivedAt,
+    });
+  });
+
+  /**
+   * GET /api/sync/:namespace/deltas
+   * Pull deltas after a cursor
+   */
+  router.get('/:namespace/deltas', requireScopes('memory:read'), namespaceAccess, (req: AuthenticatedRequest, res) => {
+    const namespace = getParam(req.params, 'namespace');
+    const after = parseInt((req.query.after as string | undefined) ?? '0', 10);
+    const limitStr = req.query.limit as string | undefined;
+    const limit = limitStr ? parseInt(limitStr, 10) : maxPullLimit;
+    const exclude = req.query.exclude as string | undefined;
+
+    if (Number.isNaN(after) || after < 0 || Number.isNaN(limit) || limit < 1) {
+      res.status(400).json({
+        error: 'bad_request',
+        message: 'after must be a cursor (>= 0) and limit a positive number',
+      });
+      return;
+    }
+
+    // Deltas right after the cursor were dropped, so pulling on would skip them
+    const { oldestCursor } = store.getStatus(storeNamespace(req));
+    if (oldestCursor !== undefined && after < oldestCursor - 1) {
+      res.status(410).json({
+        error: 'gone',
+        message: `Deltas after cursor ${after} are no longer kept; resync from cursor ${oldestCursor - 1}`,
+        oldestCursor,
+      });
+      return;
+    }
+
+    const page = store.list(storeNamespace(req), after, {
+      limit: Math.min(limit, maxPullLimit),
+      excludeTachikomaId: exclude,
+    });
+
+    res.json({
+      namespace,
+      deltas: page.deltas.map(stored => stored.delta),
+      cursor: page.cursor,
+      hasMore: page.hasMore,
+    });
+  });
+
+  /**
+   * GET /api/sync/:namespace/status
+   * Latest cursor of the namespace
+   */
+  router.get('/:namespace/status', requireScopes('memory:read'), namespaceAccess, (req: AuthenticatedRequest, res) => {
+    const namespace = getParam(req.params, 'namespace');
+
+    res.json({
+      namespace,
+      ...store.getStatus(storeNamespace(req)),
+    });
+  });
+
+  return router;
+}
+
+export default createSyncRouter;
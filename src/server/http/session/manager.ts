@@ -8,6 +8,7 @@ import { join } from 'path';
 import { mkdirSync } from 'fs';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { MemoryManager } from '../../../memory/MemoryManager.js';
+import { getDefaultMaintenanceConfig } from '../../../memory/MaintenanceScheduler.js';
 import { SqliteStorage } from '../../../storage/SqliteStorage.js';
 import { createMcpServer } from '../../common/mcpServer.js';
 import type { AuthInfo } from '../auth/types.js';
@@ -94,6 +95,7 @@ export class SessionManager {
         dataPath,
         sessionId: clientId,
         cleanupInterval: 5 * 60 * 1000, // 5 minutes
+        maintenance: getDefaultMaintenanceConfig(),
       });
       this.clientManagers.set(clientId, memoryManager);
     }
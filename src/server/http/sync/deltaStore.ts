@@ -0,0 +1,158 @@
+/**
+ * Sync Delta Store for HTTP sync
+ *
+ * Keeps pushed Tachikoma deltas per namespace. Every delta gets the next
+ * cursor of its namespace, so clients pull everything after the cursor they
+ * last saw. Only the newest deltas of each namespace are kept.
+ *
+ * With a data directory, each namespace is appended to its own JSONL file
+ * and reloaded on first use.
+ */
+
+import { existsSync, mkdirSync, readFileSync, appendFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { ParallelizationExport } from '../../../memory/types.js';
+
+export interface StoredSyncDelta {
+  /** Position in the namespace (1, 2, 3, ...) */
+  cursor: number;
+  /** Client that pushed the delta */
+  pushedBy: string;
+  receivedAt: number;
+  delta: ParallelizationExport;
+}
+
+export interface SyncDeltaPage {
+  deltas: StoredSyncDelta[];
+  /** Cursor to pull from next time */
+  cursor: number;
+  hasMore: boolean;
+}
+
+export interface SyncDeltaStoreOptions {
+  /** Directory for namespace files (in memory only if omitted) */
+  dataDir?: string;
+  /** Deltas kept per namespace (default: 1000) */
+  maxDeltasPerNamespace?: number;
+}
+
+interface Namespace {
+  deltas: StoredSyncDelta[];
+  lastCursor: number;
+}
+
+export class SyncDeltaStore {
+  private namespaces = new Map<string, Namespace>();
+  private dataDir?: string;
+  private maxDeltas: number;
+
+  constructor(options: SyncDeltaStoreOptions = {}) {
+    this.dataDir = options.dataDir;
+    this.maxDeltas = options.maxDeltasPerNamespace ?? 1000;
+  }
+
+  /**
+   * Store a delta and return its cursor. A delta that was already pushed
+   * (same Tachikoma and export time) keeps its original cursor.
+   */
+  append(namespace: string, delta: ParallelizationExport, pushedBy: string): StoredSyncDelta {
+    const ns = this.load(namespace);
+    const existing = ns.deltas.find(stored =>
+      stored.delta.tachikomaId === delta.tachikomaId && stored.delta.exportedAt === delta.exportedAt
+    );
+    if (existing) {
+      return existing;
+    }
+
+    const stored: StoredSyncDelta = {
+      cursor: ns.lastCursor + 1,
+      pushedBy,
+      receivedAt: Date.now(),
+      delta,
+    };
+    ns.deltas.push(stored);
+    ns.lastCursor = stored.cursor;
+
+    const overflow = ns.deltas.length - this.maxDeltas;
+    if (overflow > 0) {
+      ns.deltas.splice(0, overflow);
+    }
+
+    if (this.dataDir) {
+      appendFileSync(this.filePath(namespace), JSON.stringify(stored) + '\n', 'utf-8');
+      // Rewrite the file once it holds twice the retained deltas
+      if (overflow > 0 && stored.cursor % this.maxDeltas === 0) {
+        this.compact(namespace, ns);
+      }
+    }
+
+    return stored;
+  }
+
+  /**
+   * Deltas after the given cursor, oldest first
+   */
+  list(namespace: string, after: number, options: { limit?: number; excludeTachikomaId?: string } = {}): SyncDeltaPage {
+    const ns = this.load(namespace);
+    const pending = ns.deltas.filter(stored => stored.cursor > after);
+    const page = pending.slice(0, options.limit ?? 100);
+    const cursor = page.length > 0 ? page[page.length - 1].cursor : Math.max(after, 0);
+
+    return {
+      // Excluded deltas still move the cursor, so they are not pulled again
+      deltas: page.filter(stored => stored.delta.tachikomaId !== options.excludeTachikomaId),
+      cursor,
+      hasMore: pending.length > page.length,
+    };
+  }
+
+  /**
+   * Latest cursor and number of retained deltas
+   */
+  getStatus(namespace: string): { cursor: number; count: number; oldestCursor?: number } {
+    const ns = this.load(namespace);
+    return {
+      cursor: ns.lastCursor,
+      count: ns.deltas.length,
+      oldestCursor: ns.deltas[0]?.cursor,
+    };
+  }
+
+  private load(namespace: string): Namespace {
+    let ns = this.namespaces.get(namespace);
+    if (ns) {
+      return ns;
+    }
+
+    ns = { deltas: [], lastCursor: 0 };
+    if (this.dataDir) {
+      if (!existsSync(this.dataDir)) {
+        mkdirSync(this.dataDir, { recursive: true });
+      }
+      const filePath = this.filePath(namespace);
+      if (existsSync(filePath)) {
+        for (const line of readFileSync(filePath, 'utf-8').split('\n')) {
+          if (!line.trim()) continue;
+          try {
+            ns.deltas.push(JSON.parse(line) as StoredSyncDelta);
+          } catch {
+            // Skip a partially written line
+          }
+        }
+        ns.lastCursor = ns.deltas[ns.deltas.length - 1]?.cursor ?? 0;
+        ns.deltas = ns.deltas.slice(-this.maxDeltas);
+      }
+    }
+
+    this.namespaces.set(namespace, ns);
+    return ns;
+  }
+
+  private compact(namespace: string, ns: Namespace): void {
+    writeFileSync(this.filePath(namespace), ns.deltas.map(stored => JSON.stringify(stored) + '\n').join(''), 'utf-8');
+  }
+
+  private filePath(namespace: string): string {
+    return join(this.dataDir!, `${encodeURIComponent(namespace)}.jsonl`);
+  }
+}
@@ -7,6 +7,10 @@ import * as fs from 'fs';
 import type { MemoryManager } from '../memory/MemoryManager.js';
 import type { SqliteStorage } from '../storage/SqliteStorage.js';
 import type { AuthInfo } from './http/auth/types.js';
+import { MAINTENANCE_JOBS, type MaintenanceJobName, type ProvenanceSource } from '../memory/types.js';
+import { RelationConstraintError } from '../memory/RelationRegistry.js';
+import { describePath, type TraversalPath } from '../memory/GraphTraversal.js';
+import type { MergeCandidate } from '../memory/EntityResolver.js';
 
 // Schema definitions
 export const WorkingSetSchema = z.object({
@@ -77,10 +81,17 @@ export const EpisodeGetSchema = z.object({
 
 export const EpisodeGetTranscriptSchema = z.object({
   id: z.string().describe('Episode ID'),
+  message_index: z.number().int().min(0).optional()
+    .describe('Return only the messages around this index'),
+  query: z.string().optional()
+    .describe('Jump to the best matching message for this query'),
+  context: z.number().int().min(0).optional().default(3)
+    .describe('Messages to include before and after the target message'),
 });
 
 export const EpisodeSearchSchema = z.object({
-  query: z.string().optional().describe('Full-text search query'),
+  query: z.string().optional()
+    .describe('Full-text search query; supports type:, tag:, importance>=N, after:/before:YYYY-MM-DD, "phrases" and -exclusions'),
   type: z.enum(['incident', 'interaction', 'milestone', 'error', 'success']).optional()
     .describe('Filter by episode type'),
   date_start: z.number().optional().describe('Start timestamp'),
@@ -89,7 +100,7 @@ export const EpisodeSearchSchema = z.object({
   min_importance: z.number().optional().describe('Minimum importance level'),
   limit: z.number().optional().default(10).describe('Maximum results'),
   search_transcript: z.boolean().optional().default(false)
-    .describe('Also search within transcript content (slower)'),
+    .describe('Also search within transcript messages (returns matching message snippets)'),
 });
 
 export const EpisodeUpdateSchema = z.object({
@@ -108,6 +119,12 @@ export const EpisodeRelateSchema = z.object({
   related_id: z.string().describe('Related episode ID'),
 });
 
+export const ProvenanceSourceSchema = z.object({
+  episode_id: z.string().describe('Episode the knowledge came from'),
+  message_start: z.number().int().min(0).optional().describe('First transcript message index'),
+  message_end: z.number().int().min(0).optional().describe('Last transcript message index (default: message_start)'),
+});
+
 export const SemanticCreateSchema = z.object({
   name: z.string().describe('Unique name for the entity'),
   type: z.enum(['procedure', 'fact', 'config', 'preference', 'pattern', 'skill'])
@@ -122,6 +139,13 @@ export const SemanticCreateSchema = z.object({
   observations: z.array(z.string()).optional().describe('Initial observations'),
   confidence: z.number().min(0).max(1).optional().describe('Confidence score (0-1)'),
   tags: z.array(z.string()).optional().describe('Tags for categorization'),
+  aliases: z.array(z.string()).optional().describe('Other names the entity can be looked up by'),
+  valid_from: z.number().optional().describe('Timestamp from which the fact holds (default: now)'),
+  valid_to: z.number().optional().describe('Timestamp at which the fact stopped holding'),
+  supersedes: z.string().optional()
+    .describe('Entity ID or name this fact replaces; the old fact is kept, valid until this one takes effect, so the new fact needs a name of its own'),
+  sources: z.array(ProvenanceSourceSchema).optional()
+    .describe('Episodes (and transcript messages) this fact came from'),
 });
 
 export const SemanticGetSchema = z.object({
@@ -129,33 +153,122 @@ export const SemanticGetSchema = z.object({
 });
 
 export const SemanticSearchSchema = z.object({
-  query: z.string().optional().describe('Full-text search query'),
+  query: z.string().optional()
+    .describe('Full-text search query; supports type:, tag:, confidence>=N, after:/before:YYYY-MM-DD, "phrases" and -exclusions'),
   type: z.enum(['procedure', 'fact', 'config', 'preference', 'pattern', 'skill']).optional()
     .describe('Filter by entity type'),
   tags: z.array(z.string()).optional().describe('Filter by tags'),
   min_confidence: z.number().optional().describe('Minimum confidence score'),
   limit: z.number().optional().default(10).describe('Maximum results'),
+  as_of: z.number().optional().describe('Return facts as they stood at this timestamp (default: now)'),
+  include_history: z.boolean().optional().default(false)
+    .describe('Also return facts that are no longer valid'),
 });
 
 export const SemanticAddObservationSchema = z.object({
   identifier: z.string().describe('Entity ID or name'),
   observation: z.string().describe('Observation to add'),
+  valid_from: z.number().optional().describe('Timestamp from which the observation holds (default: now)'),
+  supersedes: z.string().optional()
+    .describe('Existing observation this one replaces; it is kept in the history, valid until this one takes effect'),
+  sources: z.array(ProvenanceSourceSchema).optional()
+    .describe('Episodes (and transcript messages) this observation came from'),
 });
 
 export const SemanticRelateSchema = z.object({
   from: z.string().describe('Source entity ID or name'),
   to: z.string().describe('Target entity ID or name'),
-  relation_type: z.string().describe('Type of relation (e.g., "depends_on", "part_of")'),
+  relation_type: z.string()
+    .describe('Type of relation (e.g., "depends_on", "part_of"); inverse names such as "required_by" are stored as their registered type'),
   strength: z.number().min(0).max(1).optional().default(1.0)
     .describe('Relation strength (0-1)'),
 });
 
+export const SemanticTraverseSchema = z.object({
+  mode: z.enum(['paths', 'shortest_path', 'subgraph']).optional().default('paths')
+    .describe('paths: multi-hop paths from an entity; shortest_path: between two entities; subgraph: neighbourhood of an entity'),
+  from: z.string().describe('Start (or center) entity ID or name'),
+  to: z.string().optional().describe('Target entity ID or name (required for shortest_path)'),
+  relation_types: z.array(z.string()).optional()
+    .describe('Hop names to follow; inverse names (e.g. "required_by") follow relations backwards'),
+  path: z.array(z.string()).optional()
+    .describe('Hop sequence for paths mode, e.g. ["depends_on", "depends_on"]; "*" matches any hop'),
+  direction: z.enum(['out', 'in', 'both']).optional().default('both')
+    .describe('Follow relations from their source, their target or both'),
+  max_depth: z.number().min(1).max(10).optional()
+    .describe('Maximum hops (default: 3 for paths, 6 for shortest_path, 2 for subgraph)'),
+  limit: z.number().min(1).max(500).optional().describe('Maximum paths (default: 50) or entities (default: 100)'),
+});
+
+export const RelationTypeDefineSchema = z.object({
+  name: z.string().describe('Relation type name (e.g., "owned_by")'),
+  inverse: z.string().optional().describe('Name of the relation read from the target (e.g., "owns")'),
+  symmetric: z.boolean().optional().default(false).describe('Relation reads the same from both ends'),
+  cardinality: z.enum(['one_to_one', 'one_to_many', 'many_to_one', 'many_to_many']).optional().default('many_to_many')
+    .describe('How many relations of this type an entity may take part in'),
+  from_types: z.array(z.enum(['procedure', 'fact', 'config', 'preference', 'pattern', 'skill'])).optional()
+    .describe('Entity types allowed as source (default: any)'),
+  to_types: z.array(z.enum(['procedure', 'fact', 'config', 'preference', 'pattern', 'skill'])).optional()
+    .describe('Entity types allowed as target (default: any)'),
+  description: z.string().optional().describe('What the relation means'),
+});
+
 export const SemanticUpdateSchema = z.object({
   identifier: z.string().describe('Entity ID or name'),
   description: z.string().optional().describe('Updated description'),
   content: z.unknown().optional().describe('Updated content'),
   confidence: z.number().min(0).max(1).optional().describe('Updated confidence'),
   tags: z.array(z.string()).optional().describe('Updated tags'),
+  aliases: z.array(z.string()).optional().describe('Updated aliases'),
+  valid_from: z.number().optional().describe('Timestamp from which the fact holds'),
+  valid_to: z.number().optional().describe('Timestamp at which the fact stopped holding'),
+});
+
+export const SemanticMergeCandidatesSchema = z.object({
+  identifier: z.string().optional().describe('Only look for duplicates of this entity (ID or name)'),
+  type: z.enum(['procedure', 'fact', 'config', 'preference', 'pattern', 'skill']).optional()
+    .describe('Only compare entities of this type'),
+  min_similarity: z.number().min(0).max(1).optional().default(0.85)
+    .describe('Minimum name similarity (0-1)'),
+  limit: z.number().min(1).max(200).optional().default(20),
+  auto_merge_above: z.number().min(0).max(1).optional()
+    .describe('Merge candidates at or above this similarity instead of only listing them'),
+});
+
+export const SemanticMergeSchema = z.object({
+  target: z.string().describe('Entity to keep (ID or name)'),
+  duplicate: z.string().describe('Entity to merge into the target (ID or name); its name becomes an alias'),
+});
+
+export const MemoryExplainSchema = z.object({
+  identifier: z.string().describe('ID of an entity, pattern, insight or wisdom (or name of an entity or wisdom)'),
+  type: z.enum(['entity', 'pattern', 'insight', 'wisdom']).optional()
+    .describe('Kind of record (default: tried in that order)'),
+  max_messages: z.number().min(0).max(200).optional().default(20)
+    .describe('Transcript messages shown per episode'),
+});
+
+export const MemoryConflictsSchema = z.object({
+  identifier: z.string().optional().describe('Only list conflicts involving this entity (ID or name)'),
+  include_resolved: z.boolean().optional().default(false)
+    .describe('Also list conflicts whose statements have since been changed or removed'),
+  limit: z.number().min(1).max(200).optional().default(20),
+});
+
+export const SemanticHistorySchema = z.object({
+  identifier: z.string().describe('Entity ID or name'),
+  limit: z.number().optional().default(10).describe('Maximum archived versions to return'),
+});
+
+export const SemanticDiffSchema = z.object({
+  identifier: z.string().describe('Entity ID or name'),
+  from_version: z.number().int().describe('Version to compare from'),
+  to_version: z.number().int().optional().describe('Version to compare to (default: current version)'),
+});
+
+export const SemanticRevertSchema = z.object({
+  identifier: z.string().describe('Entity ID or name'),
+  version: z.number().int().describe('Archived version to restore (the revert is saved as a new version)'),
 });
 
 export const MemoryConsolidateSchema = z.object({
@@ -171,17 +284,22 @@ export const MemoryConsolidateSchema = z.object({
     name: z.string().optional(),
     entity_type: z.enum(['procedure', 'fact', 'config', 'preference', 'pattern', 'skill']).optional(),
     description: z.string().optional(),
+    sources: z.array(ProvenanceSourceSchema).optional()
+      .describe('Episodes (and transcript messages) the knowledge came from'),
     // Common
     tags: z.array(z.string()).optional(),
   }).describe('Metadata for the target memory'),
 });
 
 export const MemoryRecallSchema = z.object({
-  query: z.string().describe('Search query'),
+  query: z.string()
+    .describe('Search query; supports type:, tag:, importance>=N, after:/before:YYYY-MM-DD, "phrases" and -exclusions'),
   include_working: z.boolean().optional().default(true),
   include_episodic: z.boolean().optional().default(true),
   include_semantic: z.boolean().optional().default(true),
   limit: z.number().optional().default(10),
+  include_history: z.boolean().optional().default(false)
+    .describe('Also recall facts that are no longer valid'),
 });
 
 export const MemoryImportSchema = z.object({
@@ -232,6 +350,8 @@ export const SmartRecallSchema = z.object({
     .describe('Decay factor per hop in spreading activation (0-1)'),
   max_spreading_hops: z.number().min(1).max(5).optional().default(2)
     .describe('Maximum hops for spreading activation (1-5)'),
+  centrality_prior: z.number().min(0).max(1).optional().default(0)
+    .describe('Boost spreading activation toward central entities of the knowledge graph (0 = off, 1 = up to 2x)'),
   current_context: z.object({
     project_path: z.string().optional().describe('Current project path'),
     branch: z.string().optional().describe('Current git branch'),
@@ -239,6 +359,10 @@ export const SmartRecallSchema = z.object({
   }).optional().describe('Current context for context-dependent encoding bonus (N6)'),
   context_match_multiplier: z.number().min(1).max(2).optional().default(1.2)
     .describe('Multiplier applied when context matches (default: 1.2)'),
+  semantic_weight: z.number().min(0).max(1).optional().default(0.3)
+    .describe('Weight of embedding similarity vs keyword match in text scoring (0-1)'),
+  min_similarity: z.number().min(0).max(1).optional().default(0.5)
+    .describe('Minimum embedding similarity for paraphrase-only matches (0-1)'),
 });
 
 export const ReconsolidationCandidatesSchema = z.object({
@@ -267,8 +391,10 @@ export const MergeEpisodesSchema = z.object({
 export const ClusterEpisodesSchema = z.object({
   type: z.enum(['incident', 'interaction', 'milestone', 'error', 'success']).optional()
     .describe('Episode type to cluster (all types if not specified)'),
-  min_tag_overlap: z.number().min(0).max(1).optional().default(0.4)
-    .describe('Minimum tag overlap ratio to group episodes'),
+  min_similarity: z.number().min(0).max(1).optional()
+    .describe('Minimum content similarity (0-1) to group episodes (default: 0.3)'),
+  min_tag_overlap: z.number().min(0).max(1).optional()
+    .describe('Deprecated alias of min_similarity'),
   min_cluster_size: z.number().min(2).max(20).optional().default(3)
     .describe('Minimum number of episodes to form a cluster'),
   max_age_days: z.number().min(1).max(365).optional().default(30)
@@ -280,8 +406,10 @@ export const ClusterEpisodesSchema = z.object({
 export const CompressMemoriesSchema = z.object({
   type: z.enum(['incident', 'interaction', 'milestone', 'error', 'success']).optional()
     .describe('Episode type to compress (all types if not specified)'),
-  min_tag_overlap: z.number().min(0).max(1).optional().default(0.4)
-    .describe('Minimum tag overlap ratio to group episodes'),
+  min_similarity: z.number().min(0).max(1).optional()
+    .describe('Minimum content similarity (0-1) to group episodes (default: 0.3)'),
+  min_tag_overlap: z.number().min(0).max(1).optional()
+    .describe('Deprecated alias of min_similarity'),
   min_cluster_size: z.number().min(2).max(20).optional().default(3)
     .describe('Minimum cluster size'),
   max_age_days: z.number().min(1).max(365).optional().default(30)
@@ -314,6 +442,16 @@ export const MemoryBoostSchema = z.object({
     .describe('Minimum access count to qualify for boost'),
 });
 
+export const MaintenanceRunSchema = z.object({
+  jobs: z.array(z.enum(MAINTENANCE_JOBS as [MaintenanceJobName, ...MaintenanceJobName[]])).optional()
+    .describe('Jobs to run now (all jobs if not specified)'),
+});
+
+export const MaintenanceStatusSchema = z.object({
+  history_limit: z.number().min(1).max(100).optional().default(10)
+    .describe('Number of recent runs to include'),
+});
+
 // ============================================================================
 // Unified High-Level Schemas (P1: Reduced tool surface)
 // ============================================================================
@@ -491,6 +629,8 @@ export const PatternCreateSchema = z.object({
     .describe('Related tags'),
   confidence: z.number().min(0).max(1).optional()
     .describe('Confidence score (0-1)'),
+  sources: z.array(ProvenanceSourceSchema).optional()
+    .describe('Episodes and transcript messages the pattern came from (added to supporting episodes)'),
 });
 
 export const PatternGetSchema = z.object({
@@ -526,6 +666,8 @@ export const InsightCreateSchema = z.object({
     .describe('Applicable domains'),
   confidence: z.number().min(0).max(1).optional()
     .describe('Confidence score'),
+  sources: z.array(ProvenanceSourceSchema).optional()
+    .describe('Episodes and transcript messages the insight came from directly'),
 });
 
 export const InsightGetSchema = z.object({
@@ -567,6 +709,8 @@ export const WisdomCreateSchema = z.object({
   limitations: z.array(z.string()).optional()
     .describe('Limitations'),
   tags: z.array(z.string()).optional(),
+  sources: z.array(ProvenanceSourceSchema).optional()
+    .describe('Episodes and transcript messages the wisdom came from (added to evidence episodes)'),
 });
 
 export const WisdomGetSchema = z.object({
@@ -598,7 +742,9 @@ export const DIKWAnalyzeSchema = z.object({
   min_episodes_for_pattern: z.number().optional().default(3)
     .describe('Minimum episodes with same tags to suggest a pattern'),
   tag_overlap_threshold: z.number().min(0).max(1).optional().default(0.5)
-    .describe('Minimum tag overlap ratio to consider episodes similar'),
+    .describe('Minimum tag overlap ratio to match episodes to existing patterns'),
+  similarity_threshold: z.number().min(0).max(1).optional().default(0.3)
+    .describe('Minimum content similarity (0-1) to cluster episodes'),
   min_frequency_for_insight: z.number().optional().default(3)
     .describe('Minimum pattern frequency to suggest an insight'),
   min_successes_for_wisdom: z.number().optional().default(3)
@@ -651,7 +797,7 @@ export const SharedMemoryListSchema = z.object({
 });
 
 export const SharedMemorySearchSchema = z.object({
-  query: z.string().describe('Search query'),
+  query: z.string().describe('Search query; supports tag:, after:/before:YYYY-MM-DD, "phrases" and -exclusions'),
   namespace: z.string().optional().describe('Namespace (defaults to team namespace)'),
   limit: z.number().optional().default(50).describe('Maximum results'),
 });
@@ -729,6 +875,42 @@ export interface ToolContext {
   sharedStorage?: SqliteStorage;
 }
 
+/**
+ * Compact form of a merge candidate for tool output
+ */
+function toMergeCandidateResult(candidate: MergeCandidate) {
+  return {
+    target: { id: candidate.target.id, name: candidate.target.name },
+    duplicate: { id: candidate.duplicate.id, name: candidate.duplicate.name },
+    similarity: candidate.similarity,
+    reason: candidate.reason,
+  };
+}
+
+/**
+ * Compact form of a traversal path for tool output
+ */
+function toPathResult(path: TraversalPath) {
+  return {
+    description: describePath(path),
+    length: path.steps.length,
+    entities: [path.start, ...path.steps.map(step => step.entity)].map(e => ({ id: e.id, name: e.name, type: e.type })),
+    relations: path.steps.map(step => step.relation),
+  };
+}
+
+/**
+ * Convert provenance sources from tool arguments
+ */
+function toProvenanceSources(sources: z.infer<typeof ProvenanceSourceSchema>[] | undefined): ProvenanceSource[] | undefined {
+  return sources?.map(source => ({
+    episodeId: source.episode_id,
+    messageRange: source.message_start === undefined
+      ? undefined
+      : { start: source.message_start, end: source.message_end ?? source.message_start },
+  }));
+}
+
 // Tool handler factory
 export function createToolHandlers(
   memoryManager: MemoryManager,
@@ -799,7 +981,32 @@ export function createToolHandlers(
       if (!transcript) {
         return { success: false, error: 'Transcript not found' };
       }
-      return { success: true, transcript, messageCount: transcript.length };
+
+      let targetIndex = args.message_index;
+      let match;
+      if (args.query) {
+        match = memoryManager.episodic.searchTranscripts(args.query, { episodeIds: [args.id], limit: 1 })[0];
+        if (!match) {
+          return { success: false, error: 'No matching message in transcript', messageCount: transcript.length };
+        }
+        targetIndex = match.messageIndex;
+      }
+
+      if (targetIndex === undefined) {
+        return { success: true, transcript, messageCount: transcript.length };
+      }
+
+      const context = args.context ?? 3;
+      const startIndex = Math.max(0, targetIndex - context);
+      const endIndex = Math.min(transcript.length, targetIndex + context + 1);
+      return {
+        success: true,
+        transcript: transcript.slice(startIndex, endIndex),
+        messageCount: transcript.length,
+        startIndex,
+        targetIndex,
+        match,
+      };
     },
 
     episode_search: (args: z.infer<typeof EpisodeSearchSchema>) => {
@@ -815,6 +1022,13 @@ export function createToolHandlers(
         limit: args.limit,
         searchTranscript: args.search_transcript,
       });
+      if (args.search_transcript && args.query && episodes.length > 0) {
+        const transcriptMatches = memoryManager.episodic.searchTranscripts(args.query, {
+          episodeIds: episodes.map(ep => ep.id),
+          limit: args.limit * 3,
+        });
+        return { success: true, episodes, count: episodes.length, transcriptMatches };
+      }
       return { success: true, episodes, count: episodes.length };
     },
 
@@ -843,7 +1057,7 @@ export function createToolHandlers(
 
     // Semantic Memory Tools
     semantic_create: (args: z.infer<typeof SemanticCreateSchema>) => {
-      const entity = memoryManager.semantic.create({
+      const input = {
         name: args.name,
         type: args.type,
         description: args.description,
@@ -852,8 +1066,24 @@ export function createToolHandlers(
         observations: args.observations,
         confidence: args.confidence,
         tags: args.tags,
-      });
-      return { success: true, entity };
+        aliases: args.aliases,
+        validFrom: args.valid_from,
+        validTo: args.valid_to,
+        sources: toProvenanceSources(args.sources),
+      };
+      if (args.supersedes && memoryManager.semantic.get(args.name)?.name === args.name) {
+        return { success: false, error: `An entity named "${args.name}" already exists; the superseding fact needs a new name` };
+      }
+      const entity = args.supersedes
+        ? memoryManager.semantic.supersede(args.supersedes, input)
+        : memoryManager.semantic.create(input);
+      if (!entity) {
+        return { success: false, error: 'Entity to supersede not found' };
+      }
+      const contradictions = memoryManager.semantic.detectContradictions(entity.id);
+      const duplicates = memoryManager.semantic.findDuplicates({ identifier: entity.id, limit: 5 });
+      if (duplicates.length === 0) return { success: true, entity, contradictions };
+      return { success: true, entity, contradictions, possibleDuplicates: duplicates.map(toMergeCandidateResult) };
     },
 
     semantic_get: (args: z.infer<typeof SemanticGetSchema>) => {
@@ -868,23 +1098,100 @@ export function createToolHandlers(
         tags: args.tags,
         minConfidence: args.min_confidence,
         limit: args.limit,
+        asOf: args.as_of,
+        includeHistory: args.include_history,
       });
       return { success: true, entities, count: entities.length };
     },
 
     semantic_add_observation: (args: z.infer<typeof SemanticAddObservationSchema>) => {
-      const success = memoryManager.semantic.addObservation(args.identifier, args.observation);
-      return { success };
+      if (args.supersedes !== undefined && !memoryManager.semantic.get(args.identifier)?.observations.includes(args.supersedes)) {
+        return { success: false, error: 'Observation to supersede not found' };
+      }
+      const success = memoryManager.semantic.addObservation(args.identifier, args.observation, {
+        validFrom: args.valid_from,
+        supersedes: args.supersedes,
+        sources: toProvenanceSources(args.sources),
+      });
+      if (!success) {
+        return { success };
+      }
+      const contradictions = memoryManager.semantic.detectContradictions(args.identifier, [args.observation]);
+      return { success, contradictions };
     },
 
     semantic_relate: (args: z.infer<typeof SemanticRelateSchema>) => {
-      const relation = memoryManager.semantic.relate(
-        args.from,
-        args.to,
-        args.relation_type,
-        args.strength
-      );
-      return relation ? { success: true, relation } : { success: false, error: 'Failed to create relation' };
+      try {
+        const relation = memoryManager.semantic.relate(
+          args.from,
+          args.to,
+          args.relation_type,
+          args.strength
+        );
+        return relation ? { success: true, relation } : { success: false, error: 'Failed to create relation' };
+      } catch (error) {
+        if (error instanceof RelationConstraintError) return { success: false, error: error.message };
+        throw error;
+      }
+    },
+
+    semantic_traverse: (args: z.infer<typeof SemanticTraverseSchema>) => {
+      const options = {
+        relationTypes: args.relation_types,
+        direction: args.direction,
+        maxDepth: args.max_depth,
+        limit: args.limit,
+      };
+
+      if (args.mode === 'shortest_path') {
+        if (!args.to) return { success: false, error: 'to is required for shortest_path' };
+        if (!memoryManager.semantic.exists(args.from) || !memoryManager.semantic.exists(args.to)) {
+          return { success: false, error: 'Entity not found' };
+        }
+        const path = memoryManager.graph.shortestPath(args.from, args.to, options);
+        return path ? { success: true, path: toPathResult(path) } : { success: false, error: 'No path found' };
+      }
+
+      if (args.mode === 'subgraph') {
+        const subgraph = memoryManager.graph.subgraph(args.from, options);
+        if (!subgraph) return { success: false, error: 'Entity not found' };
+        return {
+          success: true,
+          center: subgraph.center.id,
+          entities: subgraph.entities.map(({ entity, depth }) => ({ id: entity.id, name: entity.name, type: entity.type, depth })),
+          relations: subgraph.relations,
+          truncated: subgraph.truncated,
+        };
+      }
+
+      if (!memoryManager.semantic.exists(args.from) || (args.to && !memoryManager.semantic.exists(args.to))) {
+        return { success: false, error: 'Entity not found' };
+      }
+      const paths = memoryManager.graph.paths(args.from, { ...options, path: args.path, to: args.to });
+      return { success: true, paths: paths.map(toPathResult), total: paths.length };
+    },
+
+    relation_type_define: (args: z.infer<typeof RelationTypeDefineSchema>) => {
+      try {
+        const relationType = memoryManager.semantic.relationTypes.define({
+          name: args.name,
+          inverse: args.inverse,
+          symmetric: args.symmetric || undefined,
+          cardinality: args.cardinality,
+          fromTypes: args.from_types,
+          toTypes: args.to_types,
+          description: args.description,
+        });
+        return { success: true, relationType };
+      } catch (error) {
+        if (error instanceof RelationConstraintError) return { success: false, error: error.message };
+        throw error;
+      }
+    },
+
+    relation_type_list: () => {
+      const relationTypes = memoryManager.semantic.relationTypes.list();
+      return { relationTypes, total: relationTypes.length };
     },
 
     semantic_update: (args: z.infer<typeof SemanticUpdateSchema>) => {
@@ -893,10 +1200,79 @@ export function createToolHandlers(
         content: args.content,
         confidence: args.confidence,
         tags: args.tags,
+        aliases: args.aliases,
+        validFrom: args.valid_from,
+        validTo: args.valid_to,
       });
       return { success };
     },
 
+    semantic_merge_candidates: (args: z.infer<typeof SemanticMergeCandidatesSchema>) => {
+      if (args.auto_merge_above !== undefined) {
+        const merged = memoryManager.semantic.mergeDuplicates({ minSimilarity: args.auto_merge_above, type: args.type });
+        return { success: true, merged: merged.map(toMergeCandidateResult), total: merged.length };
+      }
+      if (args.identifier && !memoryManager.semantic.exists(args.identifier)) {
+        return { success: false, error: 'Entity not found' };
+      }
+      const candidates = memoryManager.semantic.findDuplicates({
+        identifier: args.identifier,
+        type: args.type,
+        minSimilarity: args.min_similarity,
+        limit: args.limit,
+      });
+      return { success: true, candidates: candidates.map(toMergeCandidateResult), total: candidates.length };
+    },
+
+    semantic_merge: (args: z.infer<typeof SemanticMergeSchema>) => {
+      const target = memoryManager.semantic.get(args.target);
+      const duplicate = memoryManager.semantic.get(args.duplicate);
+      if (!target || !duplicate) return { success: false, error: 'Entity not found' };
+      if (target.id === duplicate.id) return { success: false, error: 'Cannot merge an entity into itself' };
+
+      const entity = memoryManager.semantic.merge(target.id, duplicate.id);
+      return entity ? { success: true, entity, mergedId: duplicate.id } : { success: false, error: 'Failed to merge entities' };
+    },
+
+    memory_explain: (args: z.infer<typeof MemoryExplainSchema>) => {
+      const explanation = memoryManager.provenance.explain(args.identifier, args.type, {
+        maxMessages: args.max_messages,
+      });
+      return explanation ? { success: true, explanation } : { success: false, error: 'Record not found' };
+    },
+
+    memory_conflicts: (args: z.infer<typeof MemoryConflictsSchema>) => {
+      const conflicts = memoryManager.semantic.listContradictions({
+        identifier: args.identifier,
+        includeResolved: args.include_resolved,
+        limit: args.limit,
+      });
+      return { conflicts, total: conflicts.length };
+    },
+
+    semantic_history: (args: z.infer<typeof SemanticHistorySchema>) => {
+      const history = memoryManager.semantic.getHistory(args.identifier);
+      if (!history) return { success: false, error: 'Entity not found' };
+      const versions = history.versions.slice(0, args.limit);
+      return {
+        success: true,
+        entityId: history.current.id,
+        currentVersion: history.current.version,
+        versions: versions.map(v => ({ version: v.entity.version, archivedAt: v.archivedAt, entity: v.entity })),
+        count: versions.length,
+      };
+    },
+
+    semantic_diff: (args: z.infer<typeof SemanticDiffSchema>) => {
+      const diff = memoryManager.semantic.diff(args.identifier, args.from_version, args.to_version);
+      return diff ? { success: true, diff } : { success: false, error: 'Entity or version not found' };
+    },
+
+    semantic_revert: (args: z.infer<typeof SemanticRevertSchema>) => {
+      const entity = memoryManager.semantic.revert(args.identifier, args.version);
+      return entity ? { success: true, entity } : { success: false, error: 'Entity or archived version not found' };
+    },
+
     // Cross-Memory Tools
     memory_consolidate: (args: z.infer<typeof MemoryConsolidateSchema>) => {
       if (args.target_type === 'episodic') {
@@ -920,6 +1296,7 @@ export function createToolHandlers(
           type: args.metadata.entity_type,
           description: args.metadata.description,
           tags: args.metadata.tags,
+          sources: toProvenanceSources(args.metadata.sources),
         });
         return entity ? { success: true, entity } : { success: false, error: 'Working memory item not found' };
       }
@@ -931,6 +1308,7 @@ export function createToolHandlers(
         includeEpisodic: args.include_episodic,
         includeSemantic: args.include_semantic,
         limit: args.limit,
+        includeHistory: args.include_history,
       });
       return {
         success: true,
@@ -983,12 +1361,15 @@ export function createToolHandlers(
         spreadingActivation: args.spreading_activation,
         activationDecay: args.activation_decay,
         maxSpreadingHops: args.max_spreading_hops,
+        centralityPrior: args.centrality_prior,
         currentContext: args.current_context ? {
           projectPath: args.current_context.project_path,
           branch: args.current_context.branch,
           sessionId: args.current_context.session_id,
         } : undefined,
         contextMatchMultiplier: args.context_match_multiplier,
+        semanticWeight: args.semantic_weight,
+        minSimilarity: args.min_similarity,
       });
       return {
         success: true,
@@ -1027,7 +1408,7 @@ export function createToolHandlers(
     cluster_episodes: (args: z.infer<typeof ClusterEpisodesSchema>) => {
       const clusters = memoryManager.clusterSimilarEpisodes({
         type: args.type,
-        minTagOverlap: args.min_tag_overlap,
+        minSimilarity: args.min_similarity ?? args.min_tag_overlap,
         minClusterSize: args.min_cluster_size,
         maxAgeDays: args.max_age_days,
         limit: args.limit,
@@ -1040,15 +1421,18 @@ export function createToolHandlers(
           episode_count: c.episodes.length,
           avg_importance: c.avgImportance,
           common_type: c.commonType,
+          top_terms: c.topTerms,
+          cohesion: c.cohesion,
+          quality: c.quality,
         })),
         total: clusters.length,
       };
     },
 
-    compress_memories: (args: z.infer<typeof CompressMemoriesSchema>) => {
-      const result = memoryManager.compressMemories({
+    compress_memories: async (args: z.infer<typeof CompressMemoriesSchema>) => {
+      const result = await memoryManager.compressMemories({
         type: args.type,
-        minTagOverlap: args.min_tag_overlap,
+        minSimilarity: args.min_similarity ?? args.min_tag_overlap,
         minClusterSize: args.min_cluster_size,
         maxAgeDays: args.max_age_days,
         originalImportanceReduction: args.original_importance_reduction,
@@ -1138,6 +1522,18 @@ export function createToolHandlers(
       return { success: true, ...result };
     },
 
+    maintenance_run: async (args: z.infer<typeof MaintenanceRunSchema>) => {
+      const runs = await memoryManager.runMaintenance(args.jobs);
+      return {
+        success: runs.every(run => run.status === 'success'),
+        runs,
+      };
+    },
+
+    maintenance_status: (args: z.infer<typeof MaintenanceStatusSchema>) => {
+      return memoryManager.getMaintenanceStatus({ historyLimit: args.history_limit });
+    },
+
     // ============================================================================
     // Unified High-Level Tools (P1: Reduced tool surface)
     // ============================================================================
@@ -1345,6 +1741,10 @@ export function createToolHandlers(
               entities: exportData.delta.semantic.entities.length,
               relations: exportData.delta.semantic.relations.length,
             },
+            patterns: exportData.delta.patterns?.length ?? 0,
+            insights: exportData.delta.insights?.length ?? 0,
+            wisdom: exportData.delta.wisdom?.length ?? 0,
+            deleted: exportData.tombstones?.length ?? 0,
           },
         };
       } catch (error) {
@@ -1412,6 +1812,7 @@ export function createToolHandlers(
         supportingEpisodes: args.supporting_episodes,
         relatedTags: args.related_tags,
         confidence: args.confidence,
+        sources: toProvenanceSources(args.sources),
       });
       return { success: true, pattern };
     },
@@ -1448,6 +1849,7 @@ export function createToolHandlers(
         sourcePatterns: args.source_patterns,
         domains: args.domains,
         confidence: args.confidence,
+        sources: toProvenanceSources(args.sources),
       });
       return { success: true, insight };
     },
@@ -1488,6 +1890,7 @@ export function createToolHandlers(
         applicableContexts: args.applicable_contexts,
         limitations: args.limitations,
         tags: args.tags,
+        sources: toProvenanceSources(args.sources),
       });
       return { success: true, wisdom };
     },
@@ -1526,6 +1929,7 @@ export function createToolHandlers(
       const pipeline = new DIKWPipeline(storage, {
         minEpisodesForPattern: args.min_episodes_for_pattern,
         tagOverlapThreshold: args.tag_overlap_threshold,
+        similarityThreshold: args.similarity_threshold,
         minFrequencyForInsight: args.min_frequency_for_insight,
         minSuccessesForWisdom: args.min_successes_for_wisdom,
         maxEpisodeAgeDays: args.max_episode_age_days,
@@ -1936,11 +2340,61 @@ export const toolDefinitions = [
     description: 'Create a relation between two semantic entities',
     inputSchema: SemanticRelateSchema,
   },
+  {
+    name: 'semantic_traverse',
+    description: 'Query the knowledge graph: multi-hop paths, shortest path between entities, or the subgraph around an entity',
+    inputSchema: SemanticTraverseSchema,
+  },
+  {
+    name: 'relation_type_define',
+    description: 'Register a relation type with its inverse name, cardinality and allowed entity types',
+    inputSchema: RelationTypeDefineSchema,
+  },
+  {
+    name: 'relation_type_list',
+    description: 'List registered relation types',
+    inputSchema: z.object({}),
+  },
   {
     name: 'semantic_update',
     description: 'Update a semantic entity',
     inputSchema: SemanticUpdateSchema,
   },
+  {
+    name: 'memory_conflicts',
+    description: 'List likely contradictions between semantic memories for review',
+    inputSchema: MemoryConflictsSchema,
+  },
+  {
+    name: 'semantic_merge_candidates',
+    description: 'Find semantic entities that likely describe the same thing (optionally merging them)',
+    inputSchema: SemanticMergeCandidatesSchema,
+  },
+  {
+    name: 'semantic_merge',
+    description: 'Merge a duplicate semantic entity into another, keeping its name as an alias',
+    inputSchema: SemanticMergeSchema,
+  },
+  {
+    name: 'memory_explain',
+    description: 'Explain where knowledge came from, from wisdom back to source episodes and transcript messages',
+    inputSchema: MemoryExplainSchema,
+  },
+  {
+    name: 'semantic_history',
+    description: 'List previous versions of a semantic entity',
+    inputSchema: SemanticHistorySchema,
+  },
+  {
+    name: 'semantic_diff',
+    description: 'Show what changed between two versions of a semantic entity',
+    inputSchema: SemanticDiffSchema,
+  },
+  {
+    name: 'semantic_revert',
+    description: 'Restore a semantic entity to a previous version',
+    inputSchema: SemanticRevertSchema,
+  },
   {
     name: 'memory_consolidate',
     description: 'Promote working memory to episodic or semantic memory',
@@ -2066,6 +2520,17 @@ export const toolDefinitions = [
     description: 'Record wisdom application result',
     inputSchema: WisdomApplySchema,
   },
+  // Maintenance Tools
+  {
+    name: 'maintenance_run',
+    description: 'Run memory maintenance jobs (decay, boost, compress, working_cleanup, dikw_promote) now',
+    inputSchema: MaintenanceRunSchema,
+  },
+  {
+    name: 'maintenance_status',
+    description: 'Show maintenance schedules, last runs and recent results',
+    inputSchema: MaintenanceStatusSchema,
+  },
   // DIKW Pipeline Tools
   {
     name: 'dikw_analyze',
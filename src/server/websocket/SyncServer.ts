@@ -203,6 +203,13 @@ export class WebSocketSyncServer extends EventEmitter {
     reject: (error: Error) => void;
     timeout: NodeJS.Timeout;
   }> = new Map();
+  // Forwarded message ID -> requester, so the response can be relayed back
+  private forwardedSyncRequests: Map<string, {
+    requesterConnectionId: string;
+    targetConnectionId: string;
+    requestId: string;
+    forwardedAt: number;
+  }> = new Map();
 
   constructor(config: SyncServerConfig) {
     super();
@@ -269,7 +276,8 @@ export class WebSocketSyncServer extends EventEmitter {
     // Set up message handler
     const messageHandler = (data: unknown) => {
       try {
-        const message = typeof data === 'string' ? JSON.parse(data) : data;
+        // Node.js ws delivers text frames as Buffers
+        const message = typeof data === 'string' || Buffer.isBuffer(data) ? JSON.parse(data.toString()) : data;
         this.handleMessage(connectionId, message as WSMessage);
       } catch (error) {
         this.sendError(client, 'INVALID_MESSAGE', 'Failed to parse message');
@@ -533,9 +541,16 @@ export class WebSocketSyncServer extends EventEmitter {
     }
 
     // Forward the request
+    const forwardedId = this.generateId(); // New ID for the forwarded message
+    this.forwardedSyncRequests.set(forwardedId, {
+      requesterConnectionId: client.id,
+      targetConnectionId: targetClient.id,
+      requestId: message.id,
+      forwardedAt: Date.now(),
+    });
     this.sendMessage(targetClient, {
       ...message,
-      id: this.generateId(), // New ID for the forwarded message
+      id: forwardedId,
     });
 
     this.emit('sync:request', message, client);
@@ -553,6 +568,20 @@ export class WebSocketSyncServer extends EventEmitter {
       pending.resolve(batch);
     }
 
+    // Relay the response to the client that sent the request
+    const forwarded = this.forwardedSyncRequests.get(message.requestId);
+    if (forwarded && forwarded.targetConnectionId === client.id) {
+      this.forwardedSyncRequests.delete(message.requestId);
+      const requester = this.clients.get(forwarded.requesterConnectionId);
+      if (requester?.authenticated) {
+        this.sendMessage(requester, {
+          ...message,
+          id: this.generateId(),
+          requestId: forwarded.requestId,
+        } as WSSyncResponseMessage);
+      }
+    }
+
     this.emit('sync:response', message, client);
   }
 
@@ -728,6 +757,13 @@ export class WebSocketSyncServer extends EventEmitter {
         this.disconnectClient(connectionId, 1000, 'Connection timeout');
       }
     }
+
+    // Forget sync requests that were never answered
+    for (const [forwardedId, forwarded] of this.forwardedSyncRequests.entries()) {
+      if (now - forwarded.forwardedAt > timeout) {
+        this.forwardedSyncRequests.delete(forwardedId);
+      }
+    }
   }
 
   /**
@@ -0,0 +1,495 @@
+/**
+ * Change Journal - Append-only log of database mutations
+ *
+ * sql.js keeps the whole database in memory, so persisting it used to mean
+ * exporting and rewriting the entire file on every save. Instead, every
+ * mutating statement is recorded and appended to `<db>.journal`; the journal
+ * is replayed on top of the last snapshot at startup, and periodically
+ * compacted into a new snapshot written atomically (temp file + rename).
+ *
+ * Each journal line is `<checksum>\t<json>` where json is `[seq, sql, params]`.
+ * Every flush appends one batch of statements followed by a `[lastSeq]` marker,
+ * and only batches whose marker is intact are replayed. A batch torn by a kill
+ * mid-write is discarded as a whole, so an operation is never half-applied.
+ * Open transactions are held back until they commit (or dropped on rollback).
+ * Writes to derived tables (e.g. the search index) can be left out; the caller
+ * rebuilds them after applying a replay.
+ *
+ * Several processes may share one journal. Callers serialize commit() and
+ * compact() with a ProcessLock and call sync() first: batches appended by other
+ * processes are applied on top of the in-memory database, and a snapshot
+ * replaced by another process's compaction is reported so the caller reloads.
+ * sync() also reports the rows it changed, so derived data can be updated
+ * for just those rows.
+ */
+
+import type { Database as SqlJsDatabase, SqlValue, BindParams } from 'sql.js';
+import { existsSync, readFileSync, writeFileSync, openSync, readSync, writeSync, fsyncSync, closeSync, renameSync, statSync, truncateSync } from 'fs';
+import { createHash } from 'crypto';
+
+export interface ChangeJournalOptions {
+  /** Compact into a snapshot once the journal exceeds this many bytes (default: 4 MiB) */
+  compactionThreshold?: number;
+  /** Tables whose rows are derived from other tables and are rebuilt instead of journaled */
+  derivedTables?: string[];
+  /** Column identifying a row, per table, for the changes reported by sync() */
+  keyColumns?: Record<string, string>;
+}
+
+export interface ReplayResult {
+  /** Entries applied on top of the snapshot */
+  applied: number;
+  /** Entries skipped because the snapshot already contains them */
+  skipped: number;
+  /** Bytes discarded at the end of the journal (torn or unterminated batches) */
+  discardedBytes: number;
+}
+
+export interface AppliedChange {
+  /** Table written by the statement */
+  table: string;
+  /** Key of the changed row, or null if the statement does not name a single row by its key column */
+  id: SqlValue | null;
+}
+
+export interface JournalSyncResult {
+  /** Entries written by other processes and applied */
+  applied: number;
+  /** Rows changed by the applied entries */
+  changes: AppliedChange[];
+  /** The snapshot was replaced by another process; the database must be reloaded */
+  reloadRequired: boolean;
+}
+
+interface PendingStatement {
+  sql: string;
+  params: unknown;
+}
+
+/** A statement, or a batch marker (`[lastSeq]`) written after each batch of statements */
+type JournalEntry = [seq: number, sql: string, params: unknown] | [lastSeq: number];
+
+const STATE_TABLE = 'journal_state';
+
+/**
+ * Statements that cannot change the database and need not be journaled
+ */
+function isReadOnly(sql: string): boolean {
+  const head = sql.trimStart().slice(0, 64).toUpperCase();
+  if (head.startsWith('SELECT') || head.startsWith('EXPLAIN')) return true;
+  return head.startsWith('PRAGMA') && !sql.includes('=');
+}
+
+/**
+ * Table written by an INSERT, REPLACE, UPDATE or DELETE statement
+ */
+function writtenTable(sql: string): string | null {
+  const match = /^\s*(?:INSERT(?:\s+OR\s+\w+)?\s+INTO|REPLACE\s+INTO|UPDATE(?:\s+OR\s+\w+)?|DELETE\s+FROM)\s+["`]?(\w+)/i.exec(sql);
+  return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * Value of the key column of the single row a statement writes: an INSERT
+ * binding it to a parameter, or an UPDATE or DELETE ending in `WHERE <key> = ?`
+ */
+function changedRowId(sql: string, params: BindParams | undefined, keyColumn: string): SqlValue | null {
+  if (!Array.isArray(params)) return null;
+
+  const where = new RegExp(`\\bWHERE\\s+${keyColumn}\\s*=\\s*\\?\\s*$`, 'i').exec(sql);
+  if (where) {
+    return /^\s*(UPDATE|DELETE)\b/i.test(sql) ? params[params.length - 1] ?? null : null;
+  }
+
+  const insert = /^\s*(?:INSERT|REPLACE)\b[^(]*\(([^)]*)\)\s*VALUES\s*\((.*)\)\s*$/is.exec(sql);
+  if (!insert) return null;
+  const column = insert[1].split(',').map(name => name.trim().toLowerCase()).indexOf(keyColumn);
+  const values = splitTopLevel(insert[2]);
+  if (column < 0 || values[column]?.trim() !== '?') return null;
+  const position = values.slice(0, column).join(',').split('?').length - 1;
+  return params[position] ?? null;
+}
+
+/**
+ * Split a list of SQL expressions on the commas outside parentheses
+ */
+function splitTopLevel(list: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < list.length; i++) {
+    const char = list[i];
+    if (char === '(') depth++;
+    else if (char === ')') depth--;
+    else if (char === ',' && depth === 0) {
+      parts.push(list.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(list.slice(start));
+  return parts;
+}
+
+function statementKind(sql: string): 'begin' | 'commit' | 'rollback' | null {
+  const head = sql.trimStart().slice(0, 16).toUpperCase();
+  if (head.startsWith('BEGIN')) return 'begin';
+  if (head.startsWith('COMMIT') || head.startsWith('END')) return 'commit';
+  if (head.startsWith('ROLLBACK') && !/^ROLLBACK\s+TO\b/.test(head)) return 'rollback';
+  return null;
+}
+
+/**
+ * Identity of the snapshot file; changes whenever a compaction renames a new one in place
+ */
+function fileSignature(path: string): string {
+  try {
+    const stats = statSync(path);
+    return `${stats.ino}:${stats.size}:${stats.mtimeMs}`;
+  } catch {
+    return '';
+  }
+}
+
+function checksum(body: string): string {
+  return createHash('sha1').update(body).digest('hex').slice(0, 10);
+}
+
+/**
+ * Encode statement parameters as JSON (BLOBs as base64)
+ */
+function encodeParams(params: BindParams | undefined): unknown {
+  if (params === undefined || params === null) return null;
+  const encode = (value: SqlValue): unknown =>
+    value instanceof Uint8Array ? { $blob: Buffer.from(value).toString('base64') } : value;
+
+  if (Array.isArray(params)) return params.map(encode);
+  return Object.fromEntries(Object.entries(params).map(([key, value]) => [key, encode(value as SqlValue)]));
+}
+
+function decodeParams(params: unknown): BindParams | undefined {
+  if (params === null || params === undefined) return undefined;
+  const decode = (value: unknown): SqlValue =>
+    value !== null && typeof value === 'object' && '$blob' in value
+      ? new Uint8Array(Buffer.from((value as { $blob: string }).$blob, 'base64'))
+      : value as SqlValue;
+
+  if (Array.isArray(params)) return params.map(decode);
+  return Object.fromEntries(Object.entries(params as Record<string, unknown>).map(([key, value]) => [key, decode(value)]));
+}
+
+export class ChangeJournal {
+  private snapshotPath: string;
+  private journalPath: string;
+  private compactionThreshold: number;
+  private derivedTables: Set<string>;
+  private keyColumns: Map<string, string>;
+  private pending: PendingStatement[] = [];
+  /** Index in `pending` where the open transaction began */
+  private transactionStart: number | null = null;
+  private seq = 0;
+  /** Bytes of the journal this process has applied or written */
+  private offset = 0;
+  private snapshotSignature = '';
+  private originalRun: SqlJsDatabase['run'] | null = null;
+
+  constructor(snapshotPath: string, options?: ChangeJournalOptions) {
+    this.snapshotPath = snapshotPath;
+    this.journalPath = `${snapshotPath}.journal`;
+    this.compactionThreshold = options?.compactionThreshold ?? 4 * 1024 * 1024;
+    this.derivedTables = new Set((options?.derivedTables ?? []).map(table => table.toLowerCase()));
+    this.keyColumns = new Map(Object.entries(options?.keyColumns ?? {}).map(([table, column]) => [table.toLowerCase(), column.toLowerCase()]));
+  }
+
+  getJournalPath(): string {
+    return this.journalPath;
+  }
+
+  /**
+   * Apply journal entries that are newer than the loaded snapshot.
+   * Must be called before attach() so that replayed statements are not re-recorded.
+   */
+  replay(db: SqlJsDatabase): ReplayResult {
+    const result: ReplayResult = { applied: 0, skipped: 0, discardedBytes: 0 };
+    const snapshotSeq = this.readSnapshotSeq(db);
+    this.seq = snapshotSeq;
+    this.offset = 0;
+    this.snapshotSignature = fileSignature(this.snapshotPath);
+
+    if (!existsSync(this.journalPath)) return result;
+
+    const data = readFileSync(this.journalPath);
+    const batches = this.applyBatches(db.run.bind(db), data, snapshotSeq);
+    result.applied = batches.applied;
+    result.skipped = batches.skipped;
+    result.discardedBytes = data.length - batches.consumed;
+    this.offset = batches.consumed;
+
+    if (result.discardedBytes > 0) {
+      console.error(`[ChangeJournal] Discarded ${result.discardedBytes} bytes of incomplete journal data`);
+      // Cut the incomplete tail so new batches are not appended after it
+      writeFileSync(this.journalPath, data.subarray(0, batches.consumed));
+    }
+
+    return result;
+  }
+
+  /**
+   * Record every mutating statement run on the database from now on
+   */
+  attach(db: SqlJsDatabase): void {
+    const run = db.run.bind(db);
+    const exec = db.exec.bind(db);
+    this.originalRun = run;
+
+    db.run = ((sql: string, params?: BindParams) => {
+      run(sql, params);
+      if (!isReadOnly(sql)) this.record(sql, params);
+      return db;
+    }) as SqlJsDatabase['run'];
+
+    db.exec = ((sql: string, params?: BindParams) => {
+      const results = exec(sql, params);
+      if (!isReadOnly(sql)) this.record(sql, params);
+      return results;
+    }) as SqlJsDatabase['exec'];
+  }
+
+  /**
+   * Reload after another process replaced the snapshot: replay the journal onto
+   * the freshly loaded snapshot, then re-run this process's unwritten statements
+   */
+  reload(db: SqlJsDatabase): ReplayResult {
+    const pending = this.pending;
+    this.pending = [];
+    this.transactionStart = null;
+
+    const result = this.replay(db);
+    this.attach(db);
+    for (const { sql, params } of pending) {
+      try {
+        db.run(sql, decodeParams(params));
+      } catch (error) {
+        console.error('[ChangeJournal] Failed to re-apply local change after reload:', error);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Cheap check (two stats) for changes written by other processes
+   */
+  hasExternalChanges(): boolean {
+    if (fileSignature(this.snapshotPath) !== this.snapshotSignature) return true;
+    const size = existsSync(this.journalPath) ? statSync(this.journalPath).size : 0;
+    return size !== this.offset;
+  }
+
+  /**
+   * Apply batches other processes appended since this process last read or
+   * wrote the journal. Call while holding the process lock and never inside
+   * a transaction (their own BEGIN/COMMIT statements would interfere).
+   */
+  sync(db: SqlJsDatabase): JournalSyncResult {
+    if (fileSignature(this.snapshotPath) !== this.snapshotSignature) {
+      return { applied: 0, changes: [], reloadRequired: true };
+    }
+
+    const size = existsSync(this.journalPath) ? statSync(this.journalPath).size : 0;
+    if (size < this.offset) {
+      // Emptied by a compaction that has not renamed its snapshot yet
+      return { applied: 0, changes: [], reloadRequired: true };
+    }
+    if (size === this.offset) {
+      return { applied: 0, changes: [], reloadRequired: false };
+    }
+
+    const data = Buffer.alloc(size - this.offset);
+    const fd = openSync(this.journalPath, 'r');
+    try {
+      readSync(fd, data, 0, data.length, this.offset);
+    } finally {
+      closeSync(fd);
+    }
+
+    const changes: AppliedChange[] = [];
+    const batches = this.applyBatches(this.originalRun ?? db.run.bind(db), data, this.seq, changes);
+    this.offset += batches.consumed;
+    return { applied: batches.applied, changes, reloadRequired: false };
+  }
+
+  hasPending(): boolean {
+    return this.pending.length > 0;
+  }
+
+  /**
+   * Append pending entries to the journal and sync them to disk.
+   * Statements of an open transaction stay pending until it commits.
+   * Call sync() first while holding the process lock.
+   */
+  commit(): void {
+    const end = this.transactionStart ?? this.pending.length;
+    if (end === 0) return;
+
+    const lines = this.pending.slice(0, end).map(({ sql, params }) => {
+      const body = JSON.stringify([++this.seq, sql, params] satisfies JournalEntry);
+      return `${checksum(body)}\t${body}\n`;
+    });
+    const marker = JSON.stringify([this.seq] satisfies JournalEntry);
+    const chunk = lines.join('') + `${checksum(marker)}\t${marker}\n`;
+
+    // Anything past what sync() could read is a batch torn by a dead writer
+    if (existsSync(this.journalPath) && statSync(this.journalPath).size > this.offset) {
+      truncateSync(this.journalPath, this.offset);
+    }
+
+    const fd = openSync(this.journalPath, 'a');
+    try {
+      writeSync(fd, chunk);
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+    this.offset += Buffer.byteLength(chunk);
+    this.pending = this.pending.slice(end);
+    if (this.transactionStart !== null) this.transactionStart = 0;
+  }
+
+  /**
+   * Whether the journal has grown enough to be folded into a snapshot
+   */
+  needsCompaction(): boolean {
+    return this.offset >= this.compactionThreshold;
+  }
+
+  /**
+   * Whether the journal holds entries not yet in the snapshot
+   */
+  hasEntries(): boolean {
+    return this.offset > 0 || this.pending.length > 0;
+  }
+
+  /**
+   * Write the whole database as a new snapshot and empty the journal.
+   * The snapshot records the last journal sequence it contains, so a crash
+   * between the rename and the truncation cannot apply entries twice.
+   */
+  compact(db: SqlJsDatabase): void {
+    const run = this.originalRun ?? db.run.bind(db);
+    run(`CREATE TABLE IF NOT EXISTS ${STATE_TABLE} (key TEXT PRIMARY KEY, value INTEGER NOT NULL)`);
+    run(`INSERT OR REPLACE INTO ${STATE_TABLE} (key, value) VALUES ('last_seq', ?)`, [this.seq]);
+
+    const tempPath = `${this.snapshotPath}.tmp`;
+    const fd = openSync(tempPath, 'w');
+    try {
+      writeSync(fd, Buffer.from(db.export()));
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+    renameSync(tempPath, this.snapshotPath);
+
+    writeFileSync(this.journalPath, '');
+    this.offset = 0;
+    this.snapshotSignature = fileSignature(this.snapshotPath);
+    this.pending = [];
+  }
+
+  private record(sql: string, params: BindParams | undefined): void {
+    if (this.derivedTables.size > 0) {
+      const table = writtenTable(sql);
+      if (table && this.derivedTables.has(table)) return;
+    }
+
+    const kind = statementKind(sql);
+    if (kind === 'begin') {
+      this.transactionStart = this.pending.length;
+    }
+
+    this.pending.push({ sql, params: encodeParams(params) });
+
+    if (kind === 'rollback' && this.transactionStart !== null) {
+      // Nothing of a rolled back transaction reaches the journal
+      this.pending.length = this.transactionStart;
+      this.transactionStart = null;
+    } else if (kind === 'commit') {
+      this.transactionStart = null;
+    }
+  }
+
+  /**
+   * Apply every complete batch in data, skipping entries at or below afterSeq.
+   * The rows written by applied entries are added to changes if given.
+   */
+  private applyBatches(
+    run: SqlJsDatabase['run'],
+    data: Buffer,
+    afterSeq: number,
+    changes?: AppliedChange[]
+  ): { applied: number; skipped: number; consumed: number } {
+    let applied = 0;
+    let skipped = 0;
+    let position = 0;
+    let consumed = 0;
+    let batch: Array<[number, string, unknown]> = [];
+
+    while (position < data.length) {
+      const end = data.indexOf(0x0a, position);
+      const entry = end >= 0 ? this.decodeLine(data.toString('utf-8', position, end)) : null;
+      if (!entry) break;
+      position = end + 1;
+
+      if (entry.length === 3) {
+        batch.push(entry);
+        continue;
+      }
+
+      // Batch marker: the whole batch reached the disk, apply it
+      for (const [seq, sql, params] of batch) {
+        if (seq <= afterSeq) {
+          skipped++;
+          continue;
+        }
+        const decoded = decodeParams(params);
+        try {
+          run(sql, decoded);
+        } catch (error) {
+          console.error(`[ChangeJournal] Failed to replay entry ${seq}:`, error);
+        }
+        const table = changes ? writtenTable(sql) : null;
+        if (table) {
+          const keyColumn = this.keyColumns.get(table);
+          changes!.push({ table, id: keyColumn ? changedRowId(sql, decoded, keyColumn) : null });
+        }
+        this.seq = seq;
+        applied++;
+      }
+      batch = [];
+      consumed = position;
+    }
+
+    return { applied, skipped, consumed };
+  }
+
+  private decodeLine(line: string): JournalEntry | null {
+    const tab = line.indexOf('\t');
+    if (tab < 0) return null;
+    const body = line.slice(tab + 1);
+    if (checksum(body) !== line.slice(0, tab)) return null;
+    try {
+      const entry = JSON.parse(body) as JournalEntry;
+      if (!Array.isArray(entry) || typeof entry[0] !== 'number') return null;
+      if (entry.length === 1 || (entry.length === 3 && typeof entry[1] === 'string')) return entry;
+      return null;
+    } catch {
+      return null;
+    }
+  }
+
+  private readSnapshotSeq(db: SqlJsDatabase): number {
+    try {
+      const result = db.exec(`SELECT value FROM ${STATE_TABLE} WHERE key = 'last_seq'`);
+      return result.length > 0 ? Number(result[0].values[0][0]) : 0;
+    } catch {
+      return 0;
+    }
+  }
+}
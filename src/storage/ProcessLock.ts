@@ -0,0 +1,191 @@
+/**
+ * Process Lock - Advisory lock file shared by every process using a data path
+ *
+ * Each Claude Code window runs its own server against the same memory
+ * database. Writers hold `<db>.lock` while they read other processes'
+ * changes and append their own, so appends and compactions never interleave.
+ * A lock whose owner has exited (or that is older than `staleMs`) is broken.
+ * Long work under the lock calls keepAlive() so that it is not taken for abandoned,
+ * and release() only removes the lock file while it still belongs to this holder.
+ */
+
+import { openSync, writeSync, closeSync, readFileSync, unlinkSync, statSync, utimesSync } from 'fs';
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+
+export interface ProcessLockOptions {
+  /** Give up acquiring after this many milliseconds (default: 5000) */
+  timeoutMs?: number;
+  /** Treat a lock held longer than this as abandoned (default: 30000) */
+  staleMs?: number;
+}
+
+interface LockOwner {
+  pid: number;
+  hostname: string;
+  acquiredAt: number;
+  /** Distinguishes holders within one process */
+  token?: string;
+}
+
+/**
+ * Thrown when the lock cannot be acquired in time
+ */
+export class LockTimeoutError extends Error {
+  constructor(
+    public readonly lockPath: string,
+    public readonly owner: LockOwner | null
+  ) {
+    super(`Timed out waiting for ${lockPath}${owner ? ` (held by pid ${owner.pid} on ${owner.hostname})` : ''}`);
+    this.name = 'LockTimeoutError';
+  }
+}
+
+const RETRY_INTERVAL_MS = 10;
+
+/**
+ * Block the thread without spinning (storage operations are synchronous)
+ */
+function sleep(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+export class ProcessLock {
+  private lockPath: string;
+  private timeoutMs: number;
+  private staleMs: number;
+  private depth = 0;
+  private token: string | null = null;
+  private lastKeepAlive = 0;
+
+  constructor(lockPath: string, options?: ProcessLockOptions) {
+    this.lockPath = lockPath;
+    this.timeoutMs = options?.timeoutMs ?? 5000;
+    this.staleMs = options?.staleMs ?? 30000;
+  }
+
+  /**
+   * Acquire the lock, waiting for other processes to release it.
+   * Re-entrant within a process.
+   */
+  acquire(): void {
+    if (this.depth > 0) {
+      this.depth++;
+      return;
+    }
+
+    const deadline = Date.now() + this.timeoutMs;
+    const owner: LockOwner = { pid: process.pid, hostname: hostname(), acquiredAt: Date.now(), token: randomUUID() };
+    for (;;) {
+      try {
+        const fd = openSync(this.lockPath, 'wx');
+        try {
+          writeSync(fd, JSON.stringify(owner));
+        } finally {
+          closeSync(fd);
+        }
+        this.depth = 1;
+        this.token = owner.token!;
+        this.lastKeepAlive = Date.now();
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      }
+
+      if (this.isStale()) {
+        this.breakLock();
+        continue;
+      }
+      if (Date.now() >= deadline) {
+        throw new LockTimeoutError(this.lockPath, this.readOwner());
+      }
+      sleep(RETRY_INTERVAL_MS);
+    }
+  }
+
+  release(): void {
+    if (this.depth === 0) return;
+    this.depth--;
+    if (this.depth === 0) {
+      // Our lock may have been broken as stale and taken by another process
+      if (this.isOwned()) this.breakLock();
+      this.token = null;
+    }
+  }
+
+  /**
+   * Refresh the lock's mtime so that long work under it is not taken for an
+   * abandoned lock. Cheap to call often: touches the file at most every staleMs / 3.
+   */
+  keepAlive(): void {
+    if (this.depth === 0 || Date.now() - this.lastKeepAlive < this.staleMs / 3) return;
+    this.lastKeepAlive = Date.now();
+    if (!this.isOwned()) return;
+    try {
+      const now = new Date();
+      utimesSync(this.lockPath, now, now);
+    } catch {
+      // Removed in the meantime
+    }
+  }
+
+  /**
+   * Run fn while holding the lock
+   */
+  withLock<T>(fn: () => T): T {
+    this.acquire();
+    try {
+      return fn();
+    } finally {
+      this.release();
+    }
+  }
+
+  isHeld(): boolean {
+    return this.depth > 0;
+  }
+
+  private isStale(): boolean {
+    const owner = this.readOwner();
+    if (owner && owner.hostname === hostname() && !isProcessAlive(owner.pid)) {
+      return true;
+    }
+    try {
+      return Date.now() - statSync(this.lockPath).mtimeMs > this.staleMs;
+    } catch {
+      // Released in the meantime
+      return false;
+    }
+  }
+
+  private isOwned(): boolean {
+    return this.token !== null && this.readOwner()?.token === this.token;
+  }
+
+  private readOwner(): LockOwner | null {
+    try {
+      return JSON.parse(readFileSync(this.lockPath, 'utf-8')) as LockOwner;
+    } catch {
+      // Missing, or the owner has not finished writing it
+      return null;
+    }
+  }
+
+  private breakLock(): void {
+    try {
+      unlinkSync(this.lockPath);
+    } catch {
+      // Already removed
+    }
+  }
+}
@@ -2,8 +2,8 @@
  * SQLite storage implementation using sql.js (WASM-based, no native compilation needed)
  */
 
-import initSqlJs, { Database as SqlJsDatabase } from 'sql.js';
-import { mkdirSync, existsSync, readFileSync, writeFileSync } from 'fs';
+import initSqlJs, { Database as SqlJsDatabase, type SqlJsStatic } from 'sql.js';
+import { mkdirSync, existsSync, readFileSync } from 'fs';
 import { dirname, join } from 'path';
 import type {
   WorkingMemoryItem,
@@ -14,6 +14,11 @@ import type {
   SemanticEntity,
   SemanticRelation,
   SemanticQuery,
+  ObservationRecord,
+  ProvenanceTargetType,
+  ProvenanceSource,
+  ProvenanceLink,
+  RelationTypeDefinition,
   StorageConfig,
   MemoryStats,
   MemoryExport,
@@ -29,6 +34,10 @@ import type {
   SyncType,
   ParallelizationExport,
   ParallelizationResult,
+  Tombstone,
+  TombstoneType,
+  SyncPeer,
+  SyncAdapterState,
   Pattern,
   PatternInput,
   PatternQuery,
@@ -42,10 +51,51 @@ import type {
   WisdomQuery,
   WisdomApplication,
   Transcript,
+  TranscriptSearchMatch,
+  SemanticEntityVersion,
+  RetentionPolicy,
+  MaintenanceJobName,
+  MaintenanceRun,
 } from '../memory/types.js';
+import { DEFAULT_RETENTION_POLICY, PARALLELIZATION_EXPORT_VERSION } from '../memory/types.js';
 import { safeJsonParse, safeJsonParseOptional } from '../utils/safeJson.js';
+import { entityAsOf, reconcileObservationHistory } from '../memory/validity.js';
 import { SearchManager } from '../search/SearchManager.js';
+import type { DocumentType } from '../search/InvertedIndex.js';
+import { createAnalyzer } from '../search/Analyzer.js';
+import { parseQuery, getSearchText, type ParsedQuery } from '../search/QueryParser.js';
+import { createSnippet } from '../search/snippet.js';
 import { MigrationRunner, allMigrations } from './migrations/index.js';
+import { ChangeJournal, type AppliedChange } from './ChangeJournal.js';
+import { ProcessLock, LockTimeoutError } from './ProcessLock.js';
+import { VectorClock, type ClockComparison } from '../sync/VectorClock.js';
+
+/** Tables whose records carry a vector clock for Tachikoma sync */
+type ClockedTable = 'working_memory' | 'episodic_memory' | 'semantic_entities';
+
+/** Matches found outside a record's own text columns (e.g. in its transcript) */
+interface RelatedTextMatches {
+  /** Record IDs matching the free-text part of the query */
+  ids: string[];
+  /** Record IDs matching a quoted phrase */
+  phrase(phrase: string): string[];
+  /** Record IDs matching a single term */
+  term(term: string): string[];
+}
+
+/** Search index tables; rebuilt from the records after a replay instead of being journaled */
+const SEARCH_INDEX_TABLES = ['search_index', 'search_documents', 'search_vectors'];
+
+/** Tables with searchable records: their document type and the column naming a document */
+const INDEXED_TABLES: Record<string, { docType: DocumentType; key: string }> = {
+  working_memory: { docType: 'working', key: 'id' },
+  episodic_memory: { docType: 'episodic', key: 'id' },
+  episode_transcripts: { docType: 'transcript', key: 'episode_id' },
+  semantic_entities: { docType: 'semantic', key: 'id' },
+  patterns: { docType: 'pattern', key: 'id' },
+  insights: { docType: 'insight', key: 'id' },
+  wisdom: { docType: 'wisdom', key: 'id' },
+};
 
 export class SqliteStorage {
   private db: SqlJsDatabase | null = null;
@@ -57,13 +107,36 @@ export class SqliteStorage {
   private saveTimer: ReturnType<typeof setTimeout> | null = null;
   private inTransaction: boolean = false;
   private static readonly SAVE_DEBOUNCE_MS = 1000;
+  /** Attempts to take the process lock while initializing before giving up */
+  private static readonly INIT_LOCK_ATTEMPTS = 3;
+  /** Maintenance runs kept per job */
+  private static readonly MAINTENANCE_RUNS_KEPT = 50;
   private searchManager: SearchManager;
+  private retentionPolicy: RetentionPolicy;
+  private journal: ChangeJournal;
+  private lock: ProcessLock;
+  private SQL: SqlJsStatic | null = null;
+  private refreshTimer: ReturnType<typeof setInterval> | null = null;
   private migrationRunner: MigrationRunner | null = null;
 
   constructor(config: StorageConfig) {
     this.config = config;
     this.dbPath = join(config.dataPath, 'memory.db');
-    this.searchManager = new SearchManager(null);
+    this.journal = new ChangeJournal(this.dbPath, {
+      compactionThreshold: config.journalCompactionThreshold,
+      derivedTables: SEARCH_INDEX_TABLES,
+      keyColumns: Object.fromEntries(Object.entries(INDEXED_TABLES).map(([table, { key }]) => [table, key])),
+    });
+    this.lock = new ProcessLock(`${this.dbPath}.lock`);
+    this.retentionPolicy = {
+      working: { ...DEFAULT_RETENTION_POLICY.working, ...config.retentionPolicy?.working },
+      episodic: { ...DEFAULT_RETENTION_POLICY.episodic, ...config.retentionPolicy?.episodic },
+      semantic: { ...DEFAULT_RETENTION_POLICY.semantic, ...config.retentionPolicy?.semantic },
+    };
+    this.searchManager = new SearchManager(null, {
+      embeddingProvider: config.embeddingProvider,
+      analyzer: typeof config.analyzer === 'string' ? createAnalyzer(config.analyzer) : config.analyzer,
+    });
 
     // Ensure data directory exists
     const dbDir = dirname(this.dbPath);
@@ -71,57 +144,95 @@ export class SqliteStorage {
       mkdirSync(dbDir, { recursive: true });
     }
 
-    // Start initialization
+    // Start initialization; failures surface from ready()
     this.initPromise = this.initialize();
+    this.initPromise.catch(() => undefined);
   }
 
   private async initialize(): Promise<void> {
     const SQL = await initSqlJs();
 
-    // Try to load existing database
-    if (existsSync(this.dbPath)) {
-      try {
-        const buffer = readFileSync(this.dbPath);
-        this.db = new SQL.Database(buffer);
-      } catch {
-        // Create new database if loading fails
+    this.SQL = SQL;
+
+    // Other processes sharing the data path must not write while we load
+    await this.acquireInitLock();
+    try {
+      // Try to load the last snapshot
+      if (existsSync(this.dbPath)) {
+        try {
+          const buffer = readFileSync(this.dbPath);
+          this.db = new SQL.Database(buffer);
+        } catch {
+          // Create new database if loading fails
+          this.db = new SQL.Database();
+        }
+      } else {
         this.db = new SQL.Database();
       }
-    } else {
-      this.db = new SQL.Database();
-    }
 
-    this.createTables();
+      // Apply changes journaled since the snapshot, then journal everything from here on
+      const replay = this.journal.replay(this.db);
+      if (replay.applied > 0) {
+        console.error(`[SqliteStorage] Recovered ${replay.applied} journaled changes`);
+      }
+      this.journal.attach(this.db);
+      this.lock.keepAlive();
+
+      this.createTables();
 
-    // Run database migrations
-    this.migrationRunner = new MigrationRunner(this.db);
-    this.migrationRunner.registerAll(allMigrations);
-    const migrationResult = this.migrationRunner.migrate();
-    if (migrationResult.applied.length > 0) {
-      console.log(`[SqliteStorage] Applied migrations: ${migrationResult.applied.join(', ')}`);
-    }
-    if (migrationResult.errors.length > 0) {
-      console.error('[SqliteStorage] Migration errors:', migrationResult.errors);
-    }
-
-    // Initialize search index
-    this.searchManager.setDatabase(this.db);
-    this.searchManager.setSaveCallback(() => this.markDirty());
-    this.searchManager.initialize();
-
-    // Auto-rebuild search index if empty but data exists
-    const indexStats = this.searchManager.getStats();
-    if (indexStats.totalTerms === 0) {
-      const dataExists = this.db.exec('SELECT COUNT(*) FROM episodic_memory')[0]?.values[0][0] as number
-        + (this.db.exec('SELECT COUNT(*) FROM semantic_entities')[0]?.values[0][0] as number);
-      if (dataExists > 0) {
-        console.log(`[SqliteStorage] Search index empty with ${dataExists} records, rebuilding...`);
+      // Run database migrations
+      this.migrationRunner = new MigrationRunner(this.db);
+      this.migrationRunner.registerAll(allMigrations);
+      const migrationResult = this.migrationRunner.migrate();
+      if (migrationResult.applied.length > 0) {
+        console.error(`[SqliteStorage] Applied migrations: ${migrationResult.applied.join(', ')}`);
+      }
+      if (migrationResult.errors.length > 0) {
+        console.error('[SqliteStorage] Migration errors:', migrationResult.errors);
+      }
+      this.lock.keepAlive();
+
+      // Initialize search index
+      this.searchManager.setDatabase(this.db);
+      this.searchManager.setSaveCallback(() => this.markDirty());
+      this.searchManager.initialize();
+
+      // Auto-rebuild search index if empty (or vectors are missing) but data exists
+      const indexStats = this.searchManager.getStats();
+      if (replay.applied > 0) {
+        // The journal does not carry index rows for the recovered changes
         this.rebuildSearchIndex();
-        console.log(`[SqliteStorage] Search index rebuilt: ${this.searchManager.getStats().totalTerms} terms indexed`);
+      } else if (indexStats.totalTerms === 0 || this.searchManager.getVectorCount() === 0) {
+        const dataExists = this.db.exec('SELECT COUNT(*) FROM episodic_memory')[0]?.values[0][0] as number
+          + (this.db.exec('SELECT COUNT(*) FROM semantic_entities')[0]?.values[0][0] as number);
+        if (dataExists > 0) {
+          console.error(`[SqliteStorage] Search index empty with ${dataExists} records, rebuilding...`);
+          this.rebuildSearchIndex();
+          console.error(`[SqliteStorage] Search index rebuilt: ${this.searchManager.getStats().totalTerms} terms indexed`);
+        }
+      } else if (this.searchManager.countDocuments('transcript') === 0) {
+        // Transcripts saved before per-message indexing existed
+        for (const [episodeId, transcript] of Object.entries(this.getAllTranscripts())) {
+          this.searchManager.indexTranscript(episodeId, transcript);
+        }
+      }
+
+      // Fold recovered changes into a fresh snapshot
+      if (replay.applied > 0 || replay.discardedBytes > 0) {
+        this.compact();
       }
+    } finally {
+      this.lock.release();
     }
 
     this.initialized = true;
+
+    // Pick up memories written by other processes (e.g. other Claude Code windows)
+    const interval = this.config.externalChangeCheckInterval ?? 2000;
+    if (interval > 0) {
+      this.refreshTimer = setInterval(() => this.refresh(), interval);
+      this.refreshTimer.unref();
+    }
   }
 
   private async ensureInitialized(): Promise<void> {
@@ -130,6 +241,26 @@ export class SqliteStorage {
     }
   }
 
+  /**
+   * Take the process lock for initialization. Another process may hold it for
+   * a while (e.g. while rebuilding its search index), so wait between attempts
+   * and then fail with an error naming the data path.
+   */
+  private async acquireInitLock(): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        this.lock.acquire();
+        return;
+      } catch (error) {
+        if (!(error instanceof LockTimeoutError)) throw error;
+        if (attempt >= SqliteStorage.INIT_LOCK_ATTEMPTS) {
+          throw new Error(`Cannot open memory database in ${this.config.dataPath}: ${error.message}`);
+        }
+        await new Promise(resolve => setTimeout(resolve, 1000));
+      }
+    }
+  }
+
   /**
    * Wait for storage initialization to complete
    */
@@ -221,6 +352,28 @@ export class SqliteStorage {
     this.db.run(`CREATE INDEX IF NOT EXISTS idx_semantic_name ON semantic_entities(name)`);
     this.db.run(`CREATE INDEX IF NOT EXISTS idx_semantic_type ON semantic_entities(type)`);
 
+    // Semantic Entity Versions table (prior versions, pruned by retention policy)
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS semantic_entity_versions (
+        entity_id TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        type TEXT NOT NULL,
+        description TEXT NOT NULL,
+        content TEXT,
+        procedure TEXT,
+        observations TEXT,
+        confidence REAL,
+        source TEXT,
+        tags TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        archived_at INTEGER NOT NULL,
+        PRIMARY KEY (entity_id, version),
+        FOREIGN KEY (entity_id) REFERENCES semantic_entities(id) ON DELETE CASCADE
+      )
+    `);
+
     // Semantic Relations table
     this.db.run(`
       CREATE TABLE IF NOT EXISTS semantic_relations (
@@ -239,6 +392,29 @@ export class SqliteStorage {
     this.db.run(`CREATE INDEX IF NOT EXISTS idx_relation_from ON semantic_relations(from_entity)`);
     this.db.run(`CREATE INDEX IF NOT EXISTS idx_relation_to ON semantic_relations(to_entity)`);
 
+    // Relation Types table (user-defined; built-in types are not stored)
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS relation_types (
+        name TEXT PRIMARY KEY,
+        inverse TEXT,
+        symmetric INTEGER DEFAULT 0,
+        cardinality TEXT NOT NULL,
+        from_types TEXT,
+        to_types TEXT,
+        description TEXT,
+        created_at INTEGER NOT NULL
+      )
+    `);
+
+    // Entity Redirects Table (IDs of merged entities and the entity they were merged into)
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS entity_redirects (
+        from_id TEXT PRIMARY KEY,
+        to_id TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      )
+    `);
+
     // ============================================================================
     // Agent Tables (for multi-agent collaboration)
     // ============================================================================
@@ -303,6 +479,41 @@ export class SqliteStorage {
 
     this.db.run(`CREATE INDEX IF NOT EXISTS idx_conflicts_resolved ON conflicts(resolved_at)`);
 
+    // Tombstones of deleted records, so deletions propagate through sync
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS tombstones (
+        memory_type TEXT NOT NULL,
+        record_id TEXT NOT NULL,
+        deleted_at INTEGER NOT NULL,
+        deleted_by TEXT,
+        sync_vector TEXT NOT NULL DEFAULT '{}',
+        recorded_at INTEGER NOT NULL,
+        PRIMARY KEY (memory_type, record_id)
+      )
+    `);
+
+    this.db.run(`CREATE INDEX IF NOT EXISTS idx_tombstones_recorded ON tombstones(recorded_at)`);
+
+    // Peers we have imported from, with the last vector clock they sent
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS sync_peers (
+        tachikoma_id TEXT PRIMARY KEY,
+        tachikoma_name TEXT,
+        sync_vector TEXT NOT NULL,
+        last_seen_at INTEGER NOT NULL
+      )
+    `);
+
+    // Progress of each sync adapter (pull cursor, last push)
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS sync_adapter_state (
+        name TEXT PRIMARY KEY,
+        cursor INTEGER,
+        last_push_at INTEGER,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+
     // ============================================================================
     // Pattern Tables (Knowledge Level 2)
     // ============================================================================
@@ -455,6 +666,39 @@ export class SqliteStorage {
     this.db.run(`CREATE INDEX IF NOT EXISTS idx_audit_result ON audit_log(result)`);
     this.db.run(`CREATE INDEX IF NOT EXISTS idx_audit_team ON audit_log(team)`);
 
+    // Maintenance Runs Table (scheduled decay, compression, cleanup, ...)
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS maintenance_runs (
+        id TEXT PRIMARY KEY,
+        job TEXT NOT NULL,
+        triggered_by TEXT NOT NULL,
+        status TEXT NOT NULL,
+        started_at INTEGER NOT NULL,
+        finished_at INTEGER,
+        result TEXT,
+        error TEXT
+      )
+    `);
+
+    this.db.run(`CREATE INDEX IF NOT EXISTS idx_maintenance_job ON maintenance_runs(job, started_at)`);
+
+    // Provenance Links Table (episodes and transcript messages knowledge came from)
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS provenance_links (
+        id TEXT PRIMARY KEY,
+        target_type TEXT NOT NULL,
+        target_id TEXT NOT NULL,
+        observation TEXT,
+        episode_id TEXT NOT NULL,
+        message_start INTEGER,
+        message_end INTEGER,
+        created_at INTEGER NOT NULL
+      )
+    `);
+
+    this.db.run(`CREATE INDEX IF NOT EXISTS idx_provenance_target ON provenance_links(target_type, target_id)`);
+    this.db.run(`CREATE INDEX IF NOT EXISTS idx_provenance_episode ON provenance_links(episode_id)`);
+
     // ============================================================================
     // Extended columns for existing tables (migration)
     // ============================================================================
@@ -516,6 +760,8 @@ export class SqliteStorage {
    */
   private markDirty(): void {
     this.dirty = true;
+    // Bulk writes under the process lock (e.g. index rebuilds) keep it from looking abandoned
+    this.lock.keepAlive();
     if (this.saveTimer || this.inTransaction) return; // don't save during transaction
     this.saveTimer = setTimeout(() => {
       this.saveTimer = null;
@@ -533,6 +779,10 @@ export class SqliteStorage {
    */
   beginTransaction(): void {
     if (!this.db || this.inTransaction) return;
+    // Start from a durable state that includes other processes' changes,
+    // since none can be applied until the transaction ends
+    this.flush();
+    this.refresh();
     this.db.run('BEGIN TRANSACTION');
     this.inTransaction = true;
   }
@@ -580,23 +830,88 @@ export class SqliteStorage {
   }
 
   /**
-   * Immediately persist the database to disk if dirty.
+   * Immediately persist pending changes to the journal if dirty, compacting
+   * the journal into a new snapshot once it grows past the threshold.
+   * Changes other processes appended in the meantime are applied first.
+   * Deferred while a transaction is open; commit() schedules the write.
    * Called on close/shutdown and when an immediate write is required.
    */
   flush(): void {
-    if (!this.db || !this.dirty) return;
+    if (!this.db || !this.dirty || this.inTransaction) return;
     if (this.saveTimer) {
       clearTimeout(this.saveTimer);
       this.saveTimer = null;
     }
     try {
-      const data = this.db.export();
-      const buffer = Buffer.from(data);
-      writeFileSync(this.dbPath, buffer);
-      this.dirty = false;
+      this.lock.withLock(() => {
+        this.applyExternalChanges();
+        this.journal.commit();
+        this.dirty = false;
+        if (this.journal.needsCompaction() && !this.inTransaction) {
+          this.compact();
+        }
+      });
     } catch (error) {
       console.error('Failed to save database:', error);
+      // Retry later (e.g. another process held the lock for too long)
+      this.markDirty();
+    }
+  }
+
+  /**
+   * Write the whole database as a snapshot (atomically) and empty the journal
+   */
+  compact(): void {
+    if (!this.db || this.inTransaction) return;
+    try {
+      this.lock.withLock(() => {
+        this.applyExternalChanges();
+        this.journal.commit();
+        this.journal.compact(this.db!);
+        this.dirty = false;
+      });
+    } catch (error) {
+      console.error('Failed to compact database:', error);
+    }
+  }
+
+  /**
+   * Apply changes other processes sharing the data path have written since
+   * the last flush or refresh. Runs periodically; returns true if any were found.
+   */
+  refresh(): boolean {
+    if (!this.db || this.inTransaction || !this.journal.hasExternalChanges()) return false;
+    try {
+      this.lock.withLock(() => this.applyExternalChanges());
+      return true;
+    } catch (error) {
+      console.error('Failed to load external changes:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Merge other processes' changes into the in-memory database.
+   * Must be called while holding the process lock.
+   */
+  private applyExternalChanges(): void {
+    if (!this.db || !this.SQL) return;
+    const result = this.journal.sync(this.db);
+    if (!result.reloadRequired) {
+      // Index rows are not journaled, so re-index what the other processes wrote
+      this.reindexChanges(result.changes);
+      return;
     }
+
+    // Another process compacted: load its snapshot and re-apply our unwritten changes
+    const db = existsSync(this.dbPath) ? new this.SQL.Database(readFileSync(this.dbPath)) : new this.SQL.Database();
+    this.journal.reload(db);
+    this.db.close();
+    this.db = db;
+    this.migrationRunner = new MigrationRunner(db);
+    this.migrationRunner.registerAll(allMigrations);
+    this.searchManager.setDatabase(db);
+    this.rebuildSearchIndex();
   }
 
   /** @deprecated Use markDirty() for batched writes or flush() for immediate. */
@@ -611,10 +926,12 @@ export class SqliteStorage {
   setWorkingItem(item: WorkingMemoryItem): void {
     if (!this.db) return;
 
+    const vectorClock = this.nextRecordClock(this.recordClock('working_memory', 'key', item.key));
+
     this.db.run(`
       INSERT OR REPLACE INTO working_memory
-      (id, key, type, value, session_id, priority, tags, created_at, updated_at, expires_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      (id, key, type, value, session_id, priority, tags, created_at, updated_at, expires_at, vector_clock)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `, [
       item.id,
       item.key,
@@ -626,6 +943,7 @@ export class SqliteStorage {
       item.metadata.createdAt,
       item.metadata.updatedAt,
       item.metadata.expiresAt,
+      JSON.stringify(vectorClock ?? {}),
     ]);
 
     this.searchManager.indexWorkingItem(item);
@@ -654,6 +972,9 @@ export class SqliteStorage {
     if (changes > 0 && item) {
       this.searchManager.removeDocument('working', item.id);
     }
+    if (changes > 0) {
+      this.addTombstone('working', key);
+    }
     this.save();
     return changes > 0;
   }
@@ -696,17 +1017,30 @@ export class SqliteStorage {
   clearExpiredWorking(): number {
     if (!this.db) return 0;
 
-    this.db.run('DELETE FROM working_memory WHERE expires_at <= ?', [Date.now()]);
-    const changes = this.db.getRowsModified();
-    this.save();
-    return changes;
+    return this.clearWorkingWhere('expires_at <= ?', [Date.now()]);
   }
 
   clearAllWorking(): number {
     if (!this.db) return 0;
 
-    this.db.run('DELETE FROM working_memory');
+    return this.clearWorkingWhere('1=1', []);
+  }
+
+  /**
+   * Delete working memory items matching a condition. Each deletion gets a
+   * tombstone so that a sync does not bring the items back.
+   */
+  private clearWorkingWhere(condition: string, params: (string | number)[]): number {
+    if (!this.db) return 0;
+
+    const result = this.db.exec(`SELECT id, key FROM working_memory WHERE ${condition}`, params);
+    const rows = result.length > 0 ? result[0].values : [];
+    this.db.run(`DELETE FROM working_memory WHERE ${condition}`, params);
     const changes = this.db.getRowsModified();
+    for (const [id, key] of rows) {
+      this.searchManager.removeDocument('working', id as string);
+      this.addTombstone('working', key as string);
+    }
     this.save();
     return changes;
   }
@@ -726,6 +1060,7 @@ export class SqliteStorage {
         priority: row.priority as WorkingMemoryItem['metadata']['priority'],
       },
       tags: safeJsonParse(row.tags as string, []),
+      vectorClock: this.rowClock(row.vector_clock),
     };
   }
 
@@ -739,8 +1074,8 @@ export class SqliteStorage {
     this.db.run(`
       INSERT INTO episodic_memory
       (id, timestamp, type, summary, details, context, outcome, related_episodes,
-       related_entities, importance, access_count, last_accessed, tags, created_at, valence, arousal)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       related_entities, importance, access_count, last_accessed, tags, created_at, valence, arousal, vector_clock)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `, [
       episode.id,
       episode.timestamp,
@@ -758,6 +1093,7 @@ export class SqliteStorage {
       Date.now(),
       episode.valence ?? 0,
       episode.arousal ?? 0.5,
+      JSON.stringify(this.nextRecordClock() ?? {}),
     ]);
 
     this.searchManager.indexEpisode(episode);
@@ -831,36 +1167,71 @@ export class SqliteStorage {
     return this.rowToEpisode(result[0].columns, result[0].values[0]);
   }
 
+  /**
+   * Episodes by ID without counting an access (for ranking candidates)
+   */
+  peekEpisodes(ids: string[]): EpisodicMemory[] {
+    if (!this.db || ids.length === 0) return [];
+
+    const result = this.db.exec(
+      `SELECT * FROM episodic_memory WHERE id IN (${ids.map(() => '?').join(',')})`,
+      ids
+    );
+    if (result.length === 0) return [];
+
+    const byId = new Map(result[0].values.map(row => {
+      const episode = this.rowToEpisode(result[0].columns, row);
+      return [episode.id, episode];
+    }));
+    return ids.map(id => byId.get(id)).filter((e): e is EpisodicMemory => e !== undefined);
+  }
+
   searchEpisodes(query: EpisodeQuery): EpisodicMemory[] {
     if (!this.db) return [];
 
-    let sql: string;
+    let sql = 'SELECT * FROM episodic_memory em WHERE 1=1';
     const params: (string | number)[] = [];
 
-    // Use LEFT JOIN when searching transcripts, otherwise simple query
-    if (query.searchTranscript && query.query) {
-      sql = 'SELECT DISTINCT em.* FROM episodic_memory em LEFT JOIN episode_transcripts et ON em.id = et.episode_id WHERE 1=1';
-    } else {
-      sql = 'SELECT * FROM episodic_memory em WHERE 1=1';
-    }
-
     if (query.query) {
+      // Structured query: text parts via the inverted index, filters via SQL
+      const parsed = parseQuery(query.query);
+      let related: RelatedTextMatches | undefined;
+
       if (query.searchTranscript) {
-        // Transcript search still uses LIKE since transcripts are not indexed
-        sql += ' AND (em.summary LIKE ? OR em.details LIKE ? OR et.transcript LIKE ?)';
-        params.push(`%${query.query}%`, `%${query.query}%`, `%${query.query}%`);
-      } else {
-        // Use inverted index for fast text search
-        const searchResults = this.searchManager.search(query.query, { types: ['episodic'], limit: 1000 });
-        if (searchResults.length > 0) {
-          const ids = searchResults.map(r => r.docId);
-          const placeholders = ids.map(() => '?').join(', ');
-          sql += ` AND em.id IN (${placeholders})`;
-          params.push(...ids);
-        } else {
-          // No results found in index
-          sql += ' AND 1=0';
-        }
+        // Episodes whose transcript messages match (indexed per message)
+        const searchText = getSearchText(parsed);
+        related = {
+          ids: searchText
+            ? this.searchManager.searchTranscripts(searchText, { limit: 1000 }).map(m => m.episodeId)
+            : [],
+          phrase: phrase => this.transcriptPhraseMatches(phrase),
+          term: term => this.searchManager.searchTranscripts(term, { limit: 0 }).map(m => m.episodeId),
+        };
+      }
+
+      const compiled = this.compileTextQuery(parsed, 'episodic', 'em.', ['em.summary', 'em.details'], related);
+      sql += compiled.sql;
+      params.push(...compiled.params);
+
+      if (parsed.types.length > 0) {
+        sql += ` AND em.type IN (${parsed.types.map(() => '?').join(', ')})`;
+        params.push(...parsed.types);
+      }
+      if (parsed.importance.min !== undefined) {
+        sql += ' AND em.importance >= ?';
+        params.push(parsed.importance.min);
+      }
+      if (parsed.importance.max !== undefined) {
+        sql += ' AND em.importance <= ?';
+        params.push(parsed.importance.max);
+      }
+      if (parsed.after !== undefined) {
+        sql += ' AND em.timestamp >= ?';
+        params.push(parsed.after);
+      }
+      if (parsed.before !== undefined) {
+        sql += ' AND em.timestamp <= ?';
+        params.push(parsed.before);
       }
     }
 
@@ -939,6 +1310,12 @@ export class SqliteStorage {
       params.push(JSON.stringify(updates.tags));
     }
 
+    // Access tracking is not a change to sync
+    if (fields.length > 0) {
+      fields.push('vector_clock = ?');
+      params.push(JSON.stringify(this.nextRecordClock(this.recordClock('episodic_memory', 'id', id)) ?? {}));
+    }
+
     if (updates.lastAccessed !== undefined) {
       fields.push('last_accessed = ?');
       params.push(updates.lastAccessed);
@@ -1002,6 +1379,7 @@ export class SqliteStorage {
       tags: safeJsonParse(row.tags as string, []),
       valence: (row.valence as number) ?? 0,
       arousal: (row.arousal as number) ?? 0.5,
+      vectorClock: this.rowClock(row.vector_clock),
     };
   }
 
@@ -1012,11 +1390,14 @@ export class SqliteStorage {
   createEntity(entity: SemanticEntity): string {
     if (!this.db) return entity.id;
 
+    const validFrom = entity.validFrom ?? entity.createdAt;
+
     this.db.run(`
       INSERT INTO semantic_entities
       (id, name, type, description, content, procedure, observations,
-       confidence, source, version, tags, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       confidence, source, version, tags, created_at, updated_at,
+       valid_from, valid_to, observation_history, aliases, vector_clock)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `, [
       entity.id,
       entity.name,
@@ -1031,6 +1412,11 @@ export class SqliteStorage {
       JSON.stringify(entity.tags),
       entity.createdAt,
       entity.updatedAt,
+      validFrom,
+      entity.validTo ?? null,
+      JSON.stringify(reconcileObservationHistory(entity.observationHistory ?? [], entity.observations, validFrom)),
+      JSON.stringify(entity.aliases ?? []),
+      JSON.stringify(this.nextRecordClock() ?? {}),
     ]);
 
     this.searchManager.indexEntity(entity);
@@ -1085,6 +1471,22 @@ export class SqliteStorage {
       result = this.db.exec('SELECT * FROM semantic_entities WHERE name = ?', [identifier]);
     }
 
+    // Then the ID of an entity merged into another
+    if (result.length === 0 || result[0].values.length === 0) {
+      result = this.db.exec(`
+        SELECT e.* FROM semantic_entities e JOIN entity_redirects r ON r.to_id = e.id WHERE r.from_id = ?
+      `, [identifier]);
+    }
+
+    // Then by alias
+    if (result.length === 0 || result[0].values.length === 0) {
+      result = this.db.exec(`
+        SELECT * FROM semantic_entities
+        WHERE EXISTS (SELECT 1 FROM json_each(aliases) WHERE json_each.value = ?)
+        LIMIT 1
+      `, [identifier]);
+    }
+
     if (result.length === 0 || result[0].values.length === 0) return null;
 
     return this.rowToEntity(result[0].columns, result[0].values[0]);
@@ -1097,16 +1499,31 @@ export class SqliteStorage {
     const params: (string | number)[] = [];
 
     if (query.query) {
-      // Use inverted index for fast text search
-      const searchResults = this.searchManager.search(query.query, { types: ['semantic'], limit: 1000 });
-      if (searchResults.length > 0) {
-        const ids = searchResults.map(r => r.docId);
-        const placeholders = ids.map(() => '?').join(', ');
-        sql += ` AND id IN (${placeholders})`;
-        params.push(...ids);
-      } else {
-        // No results found in index
-        sql += ' AND 1=0';
+      // Structured query: text parts via the inverted index, filters via SQL
+      const parsed = parseQuery(query.query);
+      const compiled = this.compileTextQuery(parsed, 'semantic', '', ['name', 'description', 'observations']);
+      sql += compiled.sql;
+      params.push(...compiled.params);
+
+      if (parsed.types.length > 0) {
+        sql += ` AND type IN (${parsed.types.map(() => '?').join(', ')})`;
+        params.push(...parsed.types);
+      }
+      if (parsed.confidence.min !== undefined) {
+        sql += ' AND confidence >= ?';
+        params.push(parsed.confidence.min);
+      }
+      if (parsed.confidence.max !== undefined) {
+        sql += ' AND confidence <= ?';
+        params.push(parsed.confidence.max);
+      }
+      if (parsed.after !== undefined) {
+        sql += ' AND updated_at >= ?';
+        params.push(parsed.after);
+      }
+      if (parsed.before !== undefined) {
+        sql += ' AND updated_at <= ?';
+        params.push(parsed.before);
       }
     }
 
@@ -1126,6 +1543,12 @@ export class SqliteStorage {
       params.push(...query.tags);
     }
 
+    if (!query.includeHistory) {
+      const at = query.asOf ?? Date.now();
+      sql += ' AND COALESCE(valid_from, created_at) <= ? AND (valid_to IS NULL OR valid_to > ?)';
+      params.push(at, at);
+    }
+
     sql += ' ORDER BY updated_at DESC';
 
     if (query.limit) {
@@ -1141,14 +1564,111 @@ export class SqliteStorage {
     const result = this.db.exec(sql, params);
     if (result.length === 0) return [];
 
-    return result[0].values.map(row => this.rowToEntity(result[0].columns, row));
+    const entities = result[0].values.map(row => this.rowToEntity(result[0].columns, row));
+    return query.asOf !== undefined ? entities.map(entity => entityAsOf(entity, query.asOf!)) : entities;
+  }
+
+  /**
+   * Compile the text parts of a structured query into SQL conditions.
+   * Free-text terms (and exclusions) are resolved through the inverted index,
+   * quoted phrases with LIKE on the given column expressions, tags with json_each.
+   * `extraIds` are documents matched by other means (e.g. transcript messages).
+   */
+  private compileTextQuery(
+    parsed: ParsedQuery,
+    docType: DocumentType,
+    prefix: string,
+    textColumns: string[],
+    related?: RelatedTextMatches
+  ): { sql: string; params: (string | number)[] } {
+    let sql = '';
+    const params: (string | number)[] = [];
+    const idIn = (ids: string[]): string => `${prefix}id IN (${ids.map(() => '?').join(', ')})`;
+
+    const searchText = getSearchText(parsed);
+    if (searchText) {
+      const searchResults = this.searchManager.search(searchText, { types: [docType], limit: 1000 });
+      const ids = [...new Set([...searchResults.map(r => r.docId), ...(related?.ids ?? [])])];
+      if (ids.length > 0) {
+        sql += ` AND ${idIn(ids)}`;
+        params.push(...ids);
+      } else {
+        // No results found in index
+        sql += ' AND 1=0';
+      }
+    }
+
+    const likeAny = textColumns.map(col => `${col} LIKE ?`).join(' OR ');
+    for (const phrase of parsed.phrases) {
+      const ids = [...new Set(related?.phrase(phrase) ?? [])];
+      sql += ids.length > 0 ? ` AND (${likeAny} OR ${idIn(ids)})` : ` AND (${likeAny})`;
+      params.push(...textColumns.map(() => `%${phrase}%`), ...ids);
+    }
+    for (const phrase of parsed.excludedPhrases) {
+      sql += ` AND NOT (${likeAny})`;
+      params.push(...textColumns.map(() => `%${phrase}%`));
+      const ids = [...new Set(related?.phrase(phrase) ?? [])];
+      if (ids.length > 0) {
+        sql += ` AND NOT ${idIn(ids)}`;
+        params.push(...ids);
+      }
+    }
+
+    for (const term of parsed.excludedTerms) {
+      const excluded = [...new Set([
+        ...this.searchManager.search(term, { types: [docType], limit: 10000 }).map(r => r.docId),
+        ...(related?.term(term) ?? []),
+      ])];
+      if (excluded.length > 0) {
+        sql += ` AND NOT ${idIn(excluded)}`;
+        params.push(...excluded);
+      }
+    }
+
+    for (const tag of parsed.tags) {
+      sql += ` AND EXISTS (SELECT 1 FROM json_each(${prefix}tags) WHERE json_each.value = ?)`;
+      params.push(tag);
+    }
+    for (const tag of parsed.excludedTags) {
+      sql += ` AND NOT EXISTS (SELECT 1 FROM json_each(${prefix}tags) WHERE json_each.value = ?)`;
+      params.push(tag);
+    }
+
+    return { sql, params };
+  }
+
+  /**
+   * Episodes with a transcript message containing the phrase: candidates come
+   * from the per-message index, and only their messages are checked literally
+   */
+  private transcriptPhraseMatches(phrase: string): string[] {
+    const terms = new Set(this.searchManager.analyzeQuery(phrase));
+    if (terms.size === 0) return [];
+
+    const needle = phrase.toLowerCase();
+    const transcripts = new Map<string, Transcript | null>();
+    const ids = new Set<string>();
+    for (const match of this.searchManager.searchTranscripts(phrase, { limit: 0 })) {
+      if (ids.has(match.episodeId) || match.matchedTerms.length < terms.size) continue;
+      if (!transcripts.has(match.episodeId)) {
+        transcripts.set(match.episodeId, this.getTranscript(match.episodeId));
+      }
+      const message = transcripts.get(match.episodeId)?.[match.messageIndex];
+      if (message?.content.toLowerCase().includes(needle)) {
+        ids.add(match.episodeId);
+      }
+    }
+    return [...ids];
   }
 
   updateEntity(id: string, updates: Partial<SemanticEntity>): boolean {
     if (!this.db) return false;
 
+    this.archiveEntityVersion(id);
+
+    const now = Date.now();
     const fields: string[] = ['updated_at = ?'];
-    const params: (string | number | null)[] = [Date.now()];
+    const params: (string | number | null)[] = [now];
 
     // Increment version
     fields.push('version = version + 1');
@@ -1168,9 +1688,16 @@ export class SqliteStorage {
       params.push(JSON.stringify(updates.procedure));
     }
 
-    if (updates.observations !== undefined) {
-      fields.push('observations = ?');
-      params.push(JSON.stringify(updates.observations));
+    if (updates.observations !== undefined || updates.observationHistory !== undefined) {
+      // Removed observations are closed rather than dropped from the history
+      const history = updates.observationHistory ?? this.getEntity(id)?.observationHistory ?? [];
+      const observations = updates.observations ??
+        history.filter(record => record.validTo === undefined).map(record => record.text);
+      fields.push('observations = ?', 'observation_history = ?');
+      params.push(
+        JSON.stringify(observations),
+        JSON.stringify(reconcileObservationHistory(history, observations, now))
+      );
     }
 
     if (updates.confidence !== undefined) {
@@ -1183,6 +1710,24 @@ export class SqliteStorage {
       params.push(JSON.stringify(updates.tags));
     }
 
+    if (updates.aliases !== undefined) {
+      fields.push('aliases = ?');
+      params.push(JSON.stringify(updates.aliases));
+    }
+
+    if (updates.validFrom !== undefined) {
+      fields.push('valid_from = ?');
+      params.push(updates.validFrom);
+    }
+
+    if (updates.validTo !== undefined) {
+      fields.push('valid_to = ?');
+      params.push(updates.validTo);
+    }
+
+    fields.push('vector_clock = ?');
+    params.push(JSON.stringify(this.nextRecordClock(this.recordClock('semantic_entities', 'id', id)) ?? {}));
+
     params.push(id);
     this.db.run(`UPDATE semantic_entities SET ${fields.join(', ')} WHERE id = ?`, params as (string | number)[]);
     const changes = this.db.getRowsModified();
@@ -1197,54 +1742,262 @@ export class SqliteStorage {
     return changes > 0;
   }
 
-  createRelation(relation: SemanticRelation): string {
-    if (!this.db) return relation.id;
+  /**
+   * Copy the current version of an entity into its version history,
+   * then prune history beyond the retention policy's versionHistory
+   */
+  private archiveEntityVersion(id: string): void {
+    if (!this.db) return;
+
+    const keep = this.retentionPolicy.semantic.versionHistory;
+    if (keep <= 0) return;
 
     this.db.run(`
-      INSERT INTO semantic_relations
-      (id, from_entity, to_entity, relation_type, strength, metadata, created_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
-    `, [
-      relation.id,
-      relation.from,
-      relation.to,
-      relation.relationType,
-      relation.strength,
-      relation.metadata ? JSON.stringify(relation.metadata) : null,
-      relation.createdAt,
-    ]);
+      INSERT OR REPLACE INTO semantic_entity_versions
+      (entity_id, version, name, type, description, content, procedure, observations,
+       confidence, source, tags, aliases, created_at, updated_at, valid_from, valid_to, observation_history, archived_at)
+      SELECT id, version, name, type, description, content, procedure, observations,
+             confidence, source, tags, aliases, created_at, updated_at, valid_from, valid_to, observation_history, ?
+      FROM semantic_entities WHERE id = ?
+    `, [Date.now(), id]);
 
-    this.save();
-    return relation.id;
+    this.db.run(`
+      DELETE FROM semantic_entity_versions
+      WHERE entity_id = ? AND version NOT IN (
+        SELECT version FROM semantic_entity_versions
+        WHERE entity_id = ? ORDER BY version DESC LIMIT ?
+      )
+    `, [id, id, keep]);
   }
 
-  getRelations(entityId: string): SemanticRelation[] {
+  /**
+   * Get the archived versions of an entity (newest first; excludes the current version)
+   */
+  getEntityVersions(entityId: string): SemanticEntityVersion[] {
     if (!this.db) return [];
 
-    const result = this.db.exec(`
-      SELECT * FROM semantic_relations WHERE from_entity = ? OR to_entity = ?
-    `, [entityId, entityId]);
-
+    const result = this.db.exec(
+      'SELECT entity_id AS id, * FROM semantic_entity_versions WHERE entity_id = ? ORDER BY version DESC',
+      [entityId]
+    );
     if (result.length === 0) return [];
-    return result[0].values.map(row => this.rowToRelation(result[0].columns, row));
+
+    const { columns } = result[0];
+    return result[0].values.map(values => ({
+      entity: this.rowToEntity(columns, values),
+      archivedAt: this.arrayToObject(columns, values).archived_at as number,
+    }));
   }
 
-  private rowToEntity(columns: string[], values: unknown[]): SemanticEntity {
-    const row = this.arrayToObject(columns, values);
-    return {
-      id: row.id as string,
-      name: row.name as string,
+  /**
+   * Get an entity as it was at a given version (current or archived)
+   */
+  getEntityVersion(entityId: string, version: number): SemanticEntity | null {
+    const current = this.getEntity(entityId);
+    if (current && current.version === version) return current;
+    return this.getEntityVersions(entityId).find(v => v.entity.version === version)?.entity ?? null;
+  }
+
+  /**
+   * Restore an entity's content, aliases and validity from an archived version.
+   * The restore is itself a new version, so it can be undone the same way.
+   */
+  restoreEntityVersion(entityId: string, version: number): boolean {
+    if (!this.db) return false;
+
+    const snapshot = this.getEntityVersions(entityId).find(v => v.entity.version === version)?.entity;
+    if (!snapshot) return false;
+
+    this.archiveEntityVersion(entityId);
+    this.db.run(`
+      UPDATE semantic_entities
+      SET type = ?, description = ?, content = ?, procedure = ?, observations = ?,
+          confidence = ?, source = ?, tags = ?, aliases = ?, valid_from = ?, valid_to = ?, observation_history = ?,
+          version = version + 1, updated_at = ?, vector_clock = ?
+      WHERE id = ?
+    `, [
+      snapshot.type,
+      snapshot.description,
+      snapshot.content !== undefined && snapshot.content !== null ? JSON.stringify(snapshot.content) : null,
+      snapshot.procedure ? JSON.stringify(snapshot.procedure) : null,
+      JSON.stringify(snapshot.observations),
+      snapshot.confidence,
+      snapshot.source,
+      JSON.stringify(snapshot.tags),
+      JSON.stringify(snapshot.aliases ?? []),
+      snapshot.validFrom ?? snapshot.createdAt,
+      snapshot.validTo ?? null,
+      JSON.stringify(snapshot.observationHistory ?? []),
+      Date.now(),
+      JSON.stringify(this.nextRecordClock(this.recordClock('semantic_entities', 'id', entityId)) ?? {}),
+      entityId,
+    ]);
+    const changes = this.db.getRowsModified();
+
+    if (changes > 0) {
+      const updated = this.getEntity(entityId);
+      if (updated) this.searchManager.indexEntity(updated);
+    }
+
+    this.save();
+    return changes > 0;
+  }
+
+  createRelation(relation: SemanticRelation): string {
+    if (!this.db) return relation.id;
+
+    this.db.run(`
+      INSERT INTO semantic_relations
+      (id, from_entity, to_entity, relation_type, strength, metadata, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `, [
+      relation.id,
+      relation.from,
+      relation.to,
+      relation.relationType,
+      relation.strength,
+      relation.metadata ? JSON.stringify(relation.metadata) : null,
+      relation.createdAt,
+    ]);
+
+    this.save();
+    return relation.id;
+  }
+
+  getRelations(entityId: string): SemanticRelation[] {
+    if (!this.db) return [];
+
+    const result = this.db.exec(`
+      SELECT * FROM semantic_relations WHERE from_entity = ? OR to_entity = ?
+    `, [entityId, entityId]);
+
+    if (result.length === 0) return [];
+    return result[0].values.map(row => this.rowToRelation(result[0].columns, row));
+  }
+
+  getRelationsByType(relationType: string, limit: number = 1000): SemanticRelation[] {
+    if (!this.db) return [];
+
+    const result = this.db.exec(`
+      SELECT * FROM semantic_relations WHERE relation_type = ? ORDER BY created_at DESC LIMIT ?
+    `, [relationType, limit]);
+
+    if (result.length === 0) return [];
+    return result[0].values.map(row => this.rowToRelation(result[0].columns, row));
+  }
+
+  /**
+   * Move the relations and provenance of a duplicate entity to the entity it
+   * is merged into, then delete the duplicate and redirect its ID.
+   * Relations between the two are dropped, as are relations the target already has.
+   */
+  mergeEntityInto(duplicateId: string, targetId: string): boolean {
+    if (!this.db || duplicateId === targetId) return false;
+
+    const existing = new Set(this.getRelations(targetId).map(r => `${r.from}|${r.to}|${r.relationType}`));
+    for (const relation of this.getRelations(duplicateId)) {
+      const from = relation.from === duplicateId ? targetId : relation.from;
+      const to = relation.to === duplicateId ? targetId : relation.to;
+      const key = `${from}|${to}|${relation.relationType}`;
+      if (from === to || existing.has(key)) {
+        this.db.run('DELETE FROM semantic_relations WHERE id = ?', [relation.id]);
+        this.addTombstone('semantic_relation', relation.id);
+      } else {
+        // updated_at puts the moved relation into the next sync delta
+        this.db.run(
+          'UPDATE semantic_relations SET from_entity = ?, to_entity = ?, updated_at = ? WHERE id = ?',
+          [from, to, Date.now(), relation.id]
+        );
+        existing.add(key);
+      }
+    }
+
+    this.db.run(
+      "UPDATE provenance_links SET target_id = ? WHERE target_type = 'entity' AND target_id = ?",
+      [targetId, duplicateId]
+    );
+    // Earlier redirects to the duplicate follow it into the target
+    this.db.run('UPDATE entity_redirects SET to_id = ? WHERE to_id = ?', [targetId, duplicateId]);
+    this.db.run(
+      'INSERT OR REPLACE INTO entity_redirects (from_id, to_id, created_at) VALUES (?, ?, ?)',
+      [duplicateId, targetId, Date.now()]
+    );
+
+    return this.deleteEntity(duplicateId);
+  }
+
+  /**
+   * Save a relation type definition (replacing one with the same name)
+   */
+  saveRelationType(definition: RelationTypeDefinition): void {
+    if (!this.db) return;
+
+    this.db.run(`
+      INSERT OR REPLACE INTO relation_types
+      (name, inverse, symmetric, cardinality, from_types, to_types, description, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      definition.name,
+      definition.inverse ?? null,
+      definition.symmetric ? 1 : 0,
+      definition.cardinality,
+      definition.fromTypes ? JSON.stringify(definition.fromTypes) : null,
+      definition.toTypes ? JSON.stringify(definition.toTypes) : null,
+      definition.description ?? null,
+      Date.now(),
+    ]);
+    this.save();
+  }
+
+  listRelationTypes(): RelationTypeDefinition[] {
+    if (!this.db) return [];
+
+    const result = this.db.exec('SELECT * FROM relation_types ORDER BY name');
+    if (result.length === 0) return [];
+
+    return result[0].values.map(values => {
+      const row = this.arrayToObject(result[0].columns, values);
+      return {
+        name: row.name as string,
+        inverse: (row.inverse as string | null) ?? undefined,
+        symmetric: row.symmetric === 1,
+        cardinality: row.cardinality as RelationTypeDefinition['cardinality'],
+        fromTypes: safeJsonParseOptional(row.from_types as string | null),
+        toTypes: safeJsonParseOptional(row.to_types as string | null),
+        description: (row.description as string | null) ?? undefined,
+      };
+    });
+  }
+
+  private rowToEntity(columns: string[], values: unknown[]): SemanticEntity {
+    const row = this.arrayToObject(columns, values);
+    const validFrom = (row.valid_from as number | null) ?? (row.created_at as number);
+    const observations: string[] = safeJsonParse(row.observations as string, []);
+    const history: ObservationRecord[] = safeJsonParse(row.observation_history as string, []);
+    return {
+      id: row.id as string,
+      name: row.name as string,
       type: row.type as SemanticEntity['type'],
       description: row.description as string,
       content: safeJsonParseOptional(row.content as string),
       procedure: safeJsonParseOptional(row.procedure as string),
-      observations: safeJsonParse(row.observations as string, []),
+      observations,
       confidence: row.confidence as number,
       source: row.source as SemanticEntity['source'],
       createdAt: row.created_at as number,
       updatedAt: row.updated_at as number,
       version: row.version as number,
       tags: safeJsonParse(row.tags as string, []),
+      vectorClock: this.rowClock(row.vector_clock),
+      aliases: safeJsonParse(row.aliases as string, []),
+      validFrom,
+      validTo: (row.valid_to as number | null) ?? undefined,
+      // Rows written without a history (older rows, synced changes) get one on read
+      observationHistory: reconcileObservationHistory(
+        history,
+        observations,
+        history.length === 0 ? validFrom : row.updated_at as number
+      ),
     };
   }
 
@@ -1258,6 +2011,7 @@ export class SqliteStorage {
       strength: row.strength as number,
       metadata: safeJsonParseOptional(row.metadata as string),
       createdAt: row.created_at as number,
+      updatedAt: (row.updated_at as number | null) ?? undefined,
     };
   }
 
@@ -1423,47 +2177,154 @@ export class SqliteStorage {
     if (!this.db) return;
 
     this.searchManager.clear();
-
-    // Re-index all episodic memories
-    const episodes = this.searchEpisodes({ limit: 10000 });
-    for (const ep of episodes) {
-      this.searchManager.indexEpisode(ep);
+    for (const { docType } of Object.values(INDEXED_TABLES)) {
+      this.indexDocumentType(docType);
     }
+  }
 
-    // Re-index all semantic entities
-    const entities = this.searchEntities({ limit: 10000 });
-    for (const ent of entities) {
-      this.searchManager.indexEntity(ent);
+  /**
+   * Index every record of a document type
+   */
+  private indexDocumentType(docType: DocumentType): void {
+    switch (docType) {
+      case 'episodic':
+        for (const ep of this.searchEpisodes({ limit: 10000 })) {
+          this.searchManager.indexEpisode(ep);
+        }
+        break;
+      case 'transcript':
+        // One document per message
+        for (const [episodeId, transcript] of Object.entries(this.getAllTranscripts())) {
+          this.searchManager.indexTranscript(episodeId, transcript);
+        }
+        break;
+      case 'semantic':
+        for (const ent of this.searchEntities({ limit: 10000, includeHistory: true })) {
+          this.searchManager.indexEntity(ent);
+        }
+        break;
+      case 'working':
+        for (const item of this.listWorkingItems({ includeExpired: true })) {
+          this.searchManager.indexWorkingItem(item);
+        }
+        break;
+      case 'pattern':
+        for (const p of this.listPatterns({ limit: 10000 })) {
+          this.searchManager.indexPattern(p);
+        }
+        break;
+      case 'insight':
+        for (const i of this.listInsights({ limit: 10000 })) {
+          this.searchManager.indexInsight(i);
+        }
+        break;
+      case 'wisdom':
+        for (const w of this.listWisdom({ limit: 10000 })) {
+          this.searchManager.indexWisdom(w);
+        }
+        break;
     }
+  }
 
-    // Re-index all working items
-    const workingItems = this.listWorkingItems({ includeExpired: true });
-    for (const item of workingItems) {
-      this.searchManager.indexWorkingItem(item);
+  /**
+   * Re-index the records changed by statements applied from the journal.
+   * A statement that names no single record re-indexes its whole type.
+   */
+  private reindexChanges(changes: AppliedChange[]): void {
+    const whole = new Set<DocumentType>();
+    const records = new Map<DocumentType, Set<string>>();
+    for (const change of changes) {
+      const docType = INDEXED_TABLES[change.table]?.docType;
+      if (!docType) continue;
+      if (change.id === null) {
+        whole.add(docType);
+      } else {
+        if (!records.has(docType)) records.set(docType, new Set());
+        records.get(docType)!.add(String(change.id));
+      }
     }
 
-    // Re-index all patterns
-    const patterns = this.listPatterns({ limit: 10000 });
-    for (const p of patterns) {
-      this.searchManager.indexPattern(p);
+    for (const docType of whole) {
+      this.searchManager.clearDocumentType(docType);
+      this.indexDocumentType(docType);
     }
-
-    // Re-index all insights
-    const insights = this.listInsights({ limit: 10000 });
-    for (const i of insights) {
-      this.searchManager.indexInsight(i);
+    for (const [docType, ids] of records) {
+      if (whole.has(docType)) continue;
+      for (const id of ids) {
+        this.reindexDocument(docType, id);
+      }
     }
+  }
+
+  /**
+   * Index a record again, or drop it from the index if it no longer exists
+   */
+  private reindexDocument(docType: DocumentType, id: string): void {
+    if (!this.db) return;
+
+    const row = (table: string) => {
+      const result = this.db!.exec(`SELECT * FROM ${table} WHERE id = ?`, [id]);
+      return result.length > 0 && result[0].values.length > 0
+        ? { columns: result[0].columns, values: result[0].values[0] }
+        : null;
+    };
 
-    // Re-index all wisdom
-    const wisdomList = this.listWisdom({ limit: 10000 });
-    for (const w of wisdomList) {
-      this.searchManager.indexWisdom(w);
+    switch (docType) {
+      case 'episodic': {
+        const found = row('episodic_memory');
+        if (found) this.searchManager.indexEpisode(this.rowToEpisode(found.columns, found.values));
+        else this.searchManager.removeDocument('episodic', id);
+        break;
+      }
+      case 'transcript': {
+        const transcript = this.getTranscript(id);
+        if (transcript) this.searchManager.indexTranscript(id, transcript);
+        else this.searchManager.removeTranscript(id);
+        break;
+      }
+      case 'semantic': {
+        const found = row('semantic_entities');
+        if (found) this.searchManager.indexEntity(this.rowToEntity(found.columns, found.values));
+        else this.searchManager.removeDocument('semantic', id);
+        break;
+      }
+      case 'working': {
+        const found = row('working_memory');
+        if (found) this.searchManager.indexWorkingItem(this.rowToWorkingItem(found.columns, found.values));
+        else this.searchManager.removeDocument('working', id);
+        break;
+      }
+      case 'pattern': {
+        const pattern = this.getPattern(id);
+        if (pattern) this.searchManager.indexPattern(pattern);
+        else this.searchManager.removeDocument('pattern', id);
+        break;
+      }
+      case 'insight': {
+        const insight = this.getInsight(id);
+        if (insight) this.searchManager.indexInsight(insight);
+        else this.searchManager.removeDocument('insight', id);
+        break;
+      }
+      case 'wisdom': {
+        const found = row('wisdom');
+        if (found) this.searchManager.indexWisdom(this.rowToWisdom(found.columns, found.values));
+        else this.searchManager.removeDocument('wisdom', id);
+        break;
+      }
     }
   }
 
   close(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
     if (this.db) {
       this.flush();
+      if (this.journal.hasEntries()) {
+        this.compact();
+      }
       this.db.close();
       this.db = null;
     }
@@ -1576,6 +2437,11 @@ export class SqliteStorage {
     // Transcript will be deleted automatically via ON DELETE CASCADE
     this.db.run('DELETE FROM episodic_memory WHERE id = ?', [id]);
     const changes = this.db.getRowsModified();
+    this.searchManager.removeDocument('episodic', id);
+    this.searchManager.removeTranscript(id);
+    if (changes > 0) {
+      this.addTombstone('episodic', id);
+    }
     this.save();
     return changes > 0;
   }
@@ -1600,6 +2466,7 @@ export class SqliteStorage {
       VALUES (?, ?, ?, ?, ?, ?)
     `, [id, episodeId, content, messageCount, totalChars, Date.now()]);
 
+    this.searchManager.indexTranscript(episodeId, transcript);
     this.save();
     return id;
   }
@@ -1639,6 +2506,58 @@ export class SqliteStorage {
     };
   }
 
+  /**
+   * Search transcript messages through the inverted index.
+   * Returns the matching messages with a snippet and the character offset of the match.
+   */
+  searchTranscripts(query: string, options?: {
+    /** Restrict to these episodes */
+    episodeIds?: string[];
+    limit?: number;
+    /** Maximum snippet length in characters (default: 200) */
+    snippetLength?: number;
+  }): TranscriptSearchMatch[] {
+    if (!this.db || !query) return [];
+
+    const limit = options?.limit ?? 20;
+    const parsed = parseQuery(query);
+    const searchText = getSearchText(parsed);
+    if (!searchText) return [];
+
+    // Without a limit (0) when filtering by episode, so matches in other episodes don't crowd them out
+    let matches = this.searchManager.searchTranscripts(searchText, { limit: options?.episodeIds ? 0 : limit });
+    if (options?.episodeIds) {
+      const allowed = new Set(options.episodeIds);
+      matches = matches.filter(m => allowed.has(m.episodeId)).slice(0, limit);
+    }
+
+    // Literal query words first, then analyzed terms (stems may still be substrings)
+    const highlightTerms = [...parsed.phrases, ...parsed.terms, ...this.searchManager.analyzeQuery(searchText)];
+    const transcripts = new Map<string, Transcript | null>();
+    const results: TranscriptSearchMatch[] = [];
+
+    for (const match of matches) {
+      if (!transcripts.has(match.episodeId)) {
+        transcripts.set(match.episodeId, this.getTranscript(match.episodeId));
+      }
+      const message = transcripts.get(match.episodeId)?.[match.messageIndex];
+      if (!message) continue;
+
+      const snippet = createSnippet(message.content, highlightTerms, options?.snippetLength);
+      results.push({
+        episodeId: match.episodeId,
+        messageIndex: match.messageIndex,
+        role: message.role,
+        score: match.score,
+        snippet: snippet.text,
+        offset: snippet.offset,
+        matchedTerms: match.matchedTerms,
+      });
+    }
+
+    return results;
+  }
+
   /**
    * Delete transcript for an episode
    */
@@ -1647,6 +2566,7 @@ export class SqliteStorage {
 
     this.db.run('DELETE FROM episode_transcripts WHERE episode_id = ?', [episodeId]);
     const changes = this.db.getRowsModified();
+    this.searchManager.removeTranscript(episodeId);
     this.save();
     return changes > 0;
   }
@@ -1676,11 +2596,36 @@ export class SqliteStorage {
     if (!this.db) return false;
 
     // Delete related relations first
+    const relations = this.getRelations(id);
     this.db.run('DELETE FROM semantic_relations WHERE from_entity = ? OR to_entity = ?', [id, id]);
 
     // Delete the entity
     this.db.run('DELETE FROM semantic_entities WHERE id = ?', [id]);
     const changes = this.db.getRowsModified();
+    this.db.run('DELETE FROM semantic_entity_versions WHERE entity_id = ?', [id]);
+    this.db.run("DELETE FROM provenance_links WHERE target_type = 'entity' AND target_id = ?", [id]);
+    this.searchManager.removeDocument('semantic', id);
+    if (changes > 0) {
+      this.addTombstone('semantic_entity', id);
+      for (const relation of relations) {
+        this.addTombstone('semantic_relation', relation.id);
+      }
+    }
+    this.save();
+    return changes > 0;
+  }
+
+  /**
+   * Delete a semantic relation by ID
+   */
+  deleteRelation(id: string): boolean {
+    if (!this.db) return false;
+
+    this.db.run('DELETE FROM semantic_relations WHERE id = ?', [id]);
+    const changes = this.db.getRowsModified();
+    if (changes > 0) {
+      this.addTombstone('semantic_relation', id);
+    }
     this.save();
     return changes > 0;
   }
@@ -2066,81 +3011,284 @@ export class SqliteStorage {
     this.save();
   }
 
-  // ============================================================================
-  // Pattern Operations
-  // ============================================================================
+  // Record Clocks
+  /**
+   * Clock for a local write to a record: its current clock with this
+   * Tachikoma's component set to the sequence of the next export, the one
+   * that carries the write. Records stay unclocked before tachikoma_init.
+   */
+  private nextRecordClock(current?: SyncVector): SyncVector | undefined {
+    const profile = this.getTachikomaProfile();
+    if (!profile) return current;
+    return { ...current, [profile.id]: profile.syncSeq + 1 };
+  }
 
-  createPattern(input: PatternInput, agentId?: string, agentRoles?: AgentRole[]): Pattern {
-    if (!this.db) throw new Error('Database not initialized');
+  private recordClock(table: ClockedTable, column: 'id' | 'key', value: string): SyncVector | undefined {
+    if (!this.db) return undefined;
+    const result = this.db.exec(`SELECT vector_clock FROM ${table} WHERE ${column} = ?`, [value]);
+    if (result.length === 0 || result[0].values.length === 0) return undefined;
+    return this.rowClock(result[0].values[0][0]);
+  }
 
-    const now = Date.now();
-    const id = `pattern_${now}_${Math.random().toString(36).substr(2, 9)}`;
+  private setRecordClock(table: ClockedTable, column: 'id' | 'key', value: string, clock: SyncVector | undefined): void {
+    if (!this.db) return;
+    this.db.run(`UPDATE ${table} SET vector_clock = ? WHERE ${column} = ?`, [JSON.stringify(clock ?? {}), value]);
+  }
 
-    const pattern: Pattern = {
-      id,
-      pattern: input.pattern,
-      frequency: 1,
-      confidence: input.confidence || 0.5,
-      supportingEpisodes: input.supportingEpisodes || [],
-      relatedTags: input.relatedTags || [],
-      agentRoles: agentRoles || [],
-      sourceAgentId: agentId,
-      status: 'candidate',
-      createdAt: now,
-      updatedAt: now,
-    };
+  private rowClock(value: unknown): SyncVector | undefined {
+    const clock = safeJsonParse<SyncVector>(value as string | null, {});
+    return Object.keys(clock).length > 0 ? clock : undefined;
+  }
+
+  // Tombstones
+  /**
+   * Record the deletion of a record. The clock is that of the next export,
+   * which is the one that carries the deletion to other Tachikomas.
+   */
+  private addTombstone(memoryType: TombstoneType, recordId: string): void {
+    const profile = this.getTachikomaProfile();
+    this.saveTombstone({
+      memoryType,
+      recordId,
+      deletedAt: Date.now(),
+      deletedBy: profile?.id,
+      syncVector: profile ? { ...profile.syncVector, [profile.id]: profile.syncSeq + 1 } : {},
+    });
+  }
+
+  saveTombstone(tombstone: Tombstone): void {
+    if (!this.db) return;
 
     this.db.run(`
-      INSERT INTO patterns (id, pattern, frequency, confidence, supporting_episodes, related_tags, agent_roles, source_agent_id, status, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT OR REPLACE INTO tombstones (memory_type, record_id, deleted_at, deleted_by, sync_vector, recorded_at)
+      VALUES (?, ?, ?, ?, ?, ?)
     `, [
-      pattern.id,
-      pattern.pattern,
-      pattern.frequency,
-      pattern.confidence,
-      JSON.stringify(pattern.supportingEpisodes),
-      JSON.stringify(pattern.relatedTags),
-      JSON.stringify(pattern.agentRoles),
-      pattern.sourceAgentId || null,
-      pattern.status,
-      pattern.createdAt,
-      pattern.updatedAt,
+      tombstone.memoryType,
+      tombstone.recordId,
+      tombstone.deletedAt,
+      tombstone.deletedBy || null,
+      JSON.stringify(tombstone.syncVector),
+      Date.now(),
     ]);
-
-    this.searchManager.indexPattern(pattern);
-    this.save();
-    return pattern;
   }
 
-  getPattern(id: string): Pattern | null {
+  getTombstone(memoryType: TombstoneType, recordId: string): Tombstone | null {
     if (!this.db) return null;
 
-    const result = this.db.exec('SELECT * FROM patterns WHERE id = ?', [id]);
+    const result = this.db.exec(
+      'SELECT * FROM tombstones WHERE memory_type = ? AND record_id = ?',
+      [memoryType, recordId]
+    );
     if (result.length === 0 || result[0].values.length === 0) return null;
-
-    return this.rowToPattern(result[0].columns, result[0].values[0]);
+    return this.rowToTombstone(result[0].columns, result[0].values[0]);
   }
 
-  listPatterns(query?: PatternQuery): Pattern[] {
+  /**
+   * Tombstones recorded (locally or by import) after a timestamp
+   */
+  listTombstones(sinceTimestamp: number = 0): Tombstone[] {
     if (!this.db) return [];
 
-    let sql = 'SELECT * FROM patterns WHERE 1=1';
-    const params: (string | number | null)[] = [];
+    const result = this.db.exec(
+      'SELECT * FROM tombstones WHERE recorded_at > ? ORDER BY deleted_at ASC',
+      [sinceTimestamp]
+    );
+    if (result.length === 0) return [];
+    return result[0].values.map(row => this.rowToTombstone(result[0].columns, row));
+  }
 
-    if (query?.status) {
-      sql += ' AND status = ?';
-      params.push(query.status);
-    }
-    if (query?.minConfidence) {
-      sql += ' AND confidence >= ?';
-      params.push(query.minConfidence);
-    }
-    if (query?.minFrequency) {
-      sql += ' AND frequency >= ?';
-      params.push(query.minFrequency);
+  /**
+   * Drop tombstones that every known peer has acknowledged. A peer has seen a
+   * tombstone once the clock it last sent covers the clock of the export that
+   * carried the deletion. Nothing is dropped while no peer is known.
+   */
+  gcTombstones(): number {
+    if (!this.db) return 0;
+
+    const peers = this.listSyncPeers();
+    if (peers.length === 0) return 0;
+
+    let removed = 0;
+    for (const tombstone of this.listTombstones()) {
+      const origin = tombstone.deletedBy;
+      // Not exported yet, so no peer can have seen it
+      if (!origin) continue;
+
+      const acknowledged = peers.every(peer =>
+        peer.id === origin || (peer.syncVector[origin] ?? 0) >= (tombstone.syncVector[origin] ?? 0)
+      );
+      if (!acknowledged) continue;
+
+      this.db.run(
+        'DELETE FROM tombstones WHERE memory_type = ? AND record_id = ?',
+        [tombstone.memoryType, tombstone.recordId]
+      );
+      removed++;
     }
-    if (query?.query) {
-      const searchResults = this.searchManager.search(query.query, { types: ['pattern'], limit: 1000 });
+
+    if (removed > 0) this.save();
+    return removed;
+  }
+
+  private rowToTombstone(columns: string[], values: unknown[]): Tombstone {
+    const row = this.arrayToObject(columns, values);
+    return {
+      memoryType: row.memory_type as TombstoneType,
+      recordId: row.record_id as string,
+      deletedAt: row.deleted_at as number,
+      deletedBy: (row.deleted_by as string | null) || undefined,
+      syncVector: safeJsonParse(row.sync_vector as string, {}),
+    };
+  }
+
+  // Sync Peers
+  /**
+   * Remember the clock a peer sent, keeping the highest value per Tachikoma
+   * in case deltas arrive out of order
+   */
+  private recordSyncPeer(id: TachikomaId, name: string | undefined, syncVector: SyncVector): void {
+    if (!this.db) return;
+
+    const merged: SyncVector = { ...(this.listSyncPeers().find(peer => peer.id === id)?.syncVector ?? {}) };
+    for (const [tachikomaId, seq] of Object.entries(syncVector)) {
+      merged[tachikomaId] = Math.max(merged[tachikomaId] ?? 0, seq);
+    }
+
+    this.db.run(`
+      INSERT OR REPLACE INTO sync_peers (tachikoma_id, tachikoma_name, sync_vector, last_seen_at)
+      VALUES (?, ?, ?, ?)
+    `, [id, name || null, JSON.stringify(merged), Date.now()]);
+  }
+
+  listSyncPeers(): SyncPeer[] {
+    if (!this.db) return [];
+
+    const result = this.db.exec('SELECT * FROM sync_peers ORDER BY last_seen_at DESC');
+    if (result.length === 0) return [];
+
+    return result[0].values.map(row => {
+      const r = this.arrayToObject(result[0].columns, row);
+      return {
+        id: r.tachikoma_id as TachikomaId,
+        name: r.tachikoma_name as string | undefined,
+        syncVector: safeJsonParse(r.sync_vector as string, {}),
+        lastSeenAt: r.last_seen_at as number,
+      };
+    });
+  }
+
+  // Sync Adapter State
+  getSyncAdapterState(name: string): SyncAdapterState | null {
+    if (!this.db) return null;
+
+    const result = this.db.exec('SELECT * FROM sync_adapter_state WHERE name = ?', [name]);
+    if (result.length === 0 || result[0].values.length === 0) return null;
+    const r = this.arrayToObject(result[0].columns, result[0].values[0]);
+    return {
+      name: r.name as string,
+      cursor: (r.cursor as number | null) ?? undefined,
+      lastPushAt: (r.last_push_at as number | null) ?? undefined,
+    };
+  }
+
+  /**
+   * Update the progress of a sync adapter; fields left out keep their value
+   */
+  saveSyncAdapterState(state: SyncAdapterState): void {
+    if (!this.db) return;
+
+    const current = this.getSyncAdapterState(state.name);
+    this.db.run(`
+      INSERT OR REPLACE INTO sync_adapter_state (name, cursor, last_push_at, updated_at)
+      VALUES (?, ?, ?, ?)
+    `, [
+      state.name,
+      state.cursor ?? current?.cursor ?? null,
+      state.lastPushAt ?? current?.lastPushAt ?? null,
+      Date.now(),
+    ]);
+    this.save();
+  }
+
+  // ============================================================================
+  // Pattern Operations
+  // ============================================================================
+
+  createPattern(input: PatternInput, agentId?: string, agentRoles?: AgentRole[]): Pattern {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const now = Date.now();
+    const id = `pattern_${now}_${Math.random().toString(36).substr(2, 9)}`;
+
+    const pattern: Pattern = {
+      id,
+      pattern: input.pattern,
+      frequency: 1,
+      confidence: input.confidence || 0.5,
+      supportingEpisodes: [...new Set([
+        ...(input.supportingEpisodes || []),
+        ...(input.sources || []).map(source => source.episodeId),
+      ])],
+      relatedTags: input.relatedTags || [],
+      agentRoles: agentRoles || [],
+      sourceAgentId: agentId,
+      status: 'candidate',
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.db.run(`
+      INSERT INTO patterns (id, pattern, frequency, confidence, supporting_episodes, related_tags, agent_roles, source_agent_id, status, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      pattern.id,
+      pattern.pattern,
+      pattern.frequency,
+      pattern.confidence,
+      JSON.stringify(pattern.supportingEpisodes),
+      JSON.stringify(pattern.relatedTags),
+      JSON.stringify(pattern.agentRoles),
+      pattern.sourceAgentId || null,
+      pattern.status,
+      pattern.createdAt,
+      pattern.updatedAt,
+    ]);
+
+    if (input.sources) this.addProvenanceLinks('pattern', id, input.sources);
+    this.searchManager.indexPattern(pattern);
+    this.save();
+    return pattern;
+  }
+
+  getPattern(id: string): Pattern | null {
+    if (!this.db) return null;
+
+    const result = this.db.exec('SELECT * FROM patterns WHERE id = ?', [id]);
+    if (result.length === 0 || result[0].values.length === 0) return null;
+
+    return this.rowToPattern(result[0].columns, result[0].values[0]);
+  }
+
+  listPatterns(query?: PatternQuery): Pattern[] {
+    if (!this.db) return [];
+
+    let sql = 'SELECT * FROM patterns WHERE 1=1';
+    const params: (string | number | null)[] = [];
+
+    if (query?.status) {
+      sql += ' AND status = ?';
+      params.push(query.status);
+    }
+    if (query?.minConfidence) {
+      sql += ' AND confidence >= ?';
+      params.push(query.minConfidence);
+    }
+    if (query?.minFrequency) {
+      sql += ' AND frequency >= ?';
+      params.push(query.minFrequency);
+    }
+    if (query?.query) {
+      const searchResults = this.searchManager.search(query.query, { types: ['pattern'], limit: 1000 });
       if (searchResults.length > 0) {
         const ids = searchResults.map(r => r.docId);
         const placeholders = ids.map(() => '?').join(', ');
@@ -2253,6 +3401,7 @@ export class SqliteStorage {
       insight.updatedAt,
     ]);
 
+    if (input.sources) this.addProvenanceLinks('insight', id, input.sources);
     this.searchManager.indexInsight(insight);
     this.save();
     return insight;
@@ -2361,7 +3510,10 @@ export class SqliteStorage {
       description: input.description,
       derivedFromInsights: input.derivedFromInsights || [],
       derivedFromPatterns: input.derivedFromPatterns || [],
-      evidenceEpisodes: input.evidenceEpisodes || [],
+      evidenceEpisodes: [...new Set([
+        ...(input.evidenceEpisodes || []),
+        ...(input.sources || []).map(source => source.episodeId),
+      ])],
       applicableDomains: input.applicableDomains || [],
       applicableContexts: input.applicableContexts || [],
       limitations: input.limitations || [],
@@ -2407,6 +3559,7 @@ export class SqliteStorage {
       wisdom.updatedAt,
     ]);
 
+    if (input.sources) this.addProvenanceLinks('wisdom', id, input.sources);
     this.searchManager.indexWisdom(wisdom);
     this.save();
     return wisdom;
@@ -2556,9 +3709,11 @@ export class SqliteStorage {
   // ============================================================================
 
   /**
-   * Export memories as delta since a specific sync sequence or timestamp
+   * Export memories as delta since a specific sync sequence or timestamp.
+   * With a vector clock, records and deletions that clock already covers are
+   * left out (records without a clock are always included).
    */
-  exportDelta(sinceTimestamp?: number): ParallelizationExport {
+  exportDelta(sinceTimestamp?: number, sinceVectorClock?: SyncVector): ParallelizationExport {
     if (!this.db) throw new Error('Database not initialized');
 
     const profile = this.getTachikomaProfile();
@@ -2572,7 +3727,7 @@ export class SqliteStorage {
       'SELECT * FROM working_memory WHERE updated_at > ?',
       [since]
     );
-    const workingItems: WorkingMemoryItem[] = workingResult.length > 0
+    let workingItems: WorkingMemoryItem[] = workingResult.length > 0
       ? workingResult[0].values.map(row => {
           const r = this.arrayToObject(workingResult[0].columns, row);
           return {
@@ -2588,6 +3743,7 @@ export class SqliteStorage {
               priority: r.priority as WorkingMemoryItem['metadata']['priority'],
             },
             tags: safeJsonParse(r.tags as string, []),
+            vectorClock: this.rowClock(r.vector_clock),
           };
         })
       : [];
@@ -2597,7 +3753,7 @@ export class SqliteStorage {
       'SELECT * FROM episodic_memory WHERE last_accessed > ? OR created_at > ?',
       [since, since]
     );
-    const episodicItems: EpisodicMemory[] = episodicResult.length > 0
+    let episodicItems: EpisodicMemory[] = episodicResult.length > 0
       ? episodicResult[0].values.map(row => this.rowToEpisode(episodicResult[0].columns, row))
       : [];
 
@@ -2606,54 +3762,62 @@ export class SqliteStorage {
       'SELECT * FROM semantic_entities WHERE updated_at > ?',
       [since]
     );
-    const semanticEntities: SemanticEntity[] = semanticResult.length > 0
-      ? semanticResult[0].values.map(row => {
-          const r = this.arrayToObject(semanticResult[0].columns, row);
-          return {
-            id: r.id as string,
-            name: r.name as string,
-            type: r.type as SemanticEntity['type'],
-            description: r.description as string,
-            content: safeJsonParseOptional(r.content as string) ?? null,
-            procedure: safeJsonParseOptional(r.procedure as string),
-            observations: safeJsonParse(r.observations as string, []),
-            confidence: r.confidence as number,
-            source: r.source as SemanticEntity['source'],
-            createdAt: r.created_at as number,
-            updatedAt: r.updated_at as number,
-            version: r.version as number,
-            tags: safeJsonParse(r.tags as string, []),
-          };
-        })
+    let semanticEntities: SemanticEntity[] = semanticResult.length > 0
+      ? semanticResult[0].values.map(row => this.rowToEntity(semanticResult[0].columns, row))
       : [];
 
-    // Get semantic relations created since timestamp
+    // Get semantic relations created/moved since timestamp
     const relationsResult = this.db.exec(
-      'SELECT * FROM semantic_relations WHERE created_at > ?',
-      [since]
+      'SELECT * FROM semantic_relations WHERE created_at > ? OR updated_at > ?',
+      [since, since]
     );
     const semanticRelations: SemanticRelation[] = relationsResult.length > 0
-      ? relationsResult[0].values.map(row => {
-          const r = this.arrayToObject(relationsResult[0].columns, row);
-          return {
-            id: r.id as string,
-            from: r.from_entity as string,
-            to: r.to_entity as string,
-            relationType: r.relation_type as string,
-            strength: r.strength as number,
-            metadata: safeJsonParseOptional(r.metadata as string),
-            createdAt: r.created_at as number,
-          };
-        })
+      ? relationsResult[0].values.map(row => this.rowToRelation(relationsResult[0].columns, row))
+      : [];
+
+    // Get DIKW knowledge created/updated since timestamp
+    const patternsResult = this.db.exec('SELECT * FROM patterns WHERE updated_at > ?', [since]);
+    const patterns = patternsResult.length > 0
+      ? patternsResult[0].values.map(row => this.rowToPattern(patternsResult[0].columns, row))
+      : [];
+    const insightsResult = this.db.exec('SELECT * FROM insights WHERE updated_at > ?', [since]);
+    const insights = insightsResult.length > 0
+      ? insightsResult[0].values.map(row => this.rowToInsight(insightsResult[0].columns, row))
+      : [];
+    const wisdomResult = this.db.exec('SELECT * FROM wisdom WHERE updated_at > ?', [since]);
+    const wisdom = wisdomResult.length > 0
+      ? wisdomResult[0].values.map(row => this.rowToWisdom(wisdomResult[0].columns, row))
+      : [];
+    const applicationsResult = this.db.exec('SELECT * FROM wisdom_applications WHERE applied_at > ?', [since]);
+    const wisdomApplications = applicationsResult.length > 0
+      ? applicationsResult[0].values.map(row => this.rowToWisdomApplication(applicationsResult[0].columns, row))
       : [];
 
+    if (sinceVectorClock) {
+      const unseen = (clock?: SyncVector) => !this.isCoveredByClock(clock, sinceVectorClock);
+      workingItems = workingItems.filter(item => unseen(item.vectorClock));
+      episodicItems = episodicItems.filter(episode => unseen(episode.vectorClock));
+      semanticEntities = semanticEntities.filter(entity => unseen(entity.vectorClock));
+    }
+
     // Increment sync sequence
     const newSeq = profile.syncSeq + 1;
     const newSyncVector = { ...profile.syncVector, [profile.id]: newSeq };
-    this.updateTachikomaProfile({ syncSeq: newSeq, syncVector: newSyncVector });
+    this.updateTachikomaProfile({ syncSeq: newSeq, syncVector: newSyncVector, lastSyncAt: now });
+
+    // Deletions made before tachikoma_init are carried by this export
+    this.db.run(
+      'UPDATE tombstones SET deleted_by = ?, sync_vector = ? WHERE deleted_by IS NULL',
+      [profile.id, JSON.stringify(newSyncVector)]
+    );
+    const tombstones = this.listTombstones(since).filter(tombstone =>
+      !sinceVectorClock || !this.isCoveredByClock(tombstone.syncVector, sinceVectorClock)
+    );
+    const deletedIds = (memoryType: TombstoneType) =>
+      tombstones.filter(t => t.memoryType === memoryType).map(t => t.recordId);
 
     return {
-      version: '1.0.0',
+      version: PARALLELIZATION_EXPORT_VERSION,
       format: 'tachikoma-parallelize-delta',
       tachikomaId: profile.id,
       tachikomaName: profile.name,
@@ -2666,12 +3830,20 @@ export class SqliteStorage {
           entities: semanticEntities,
           relations: semanticRelations,
         },
+        patterns,
+        insights,
+        wisdom,
+        wisdomApplications,
       },
       deleted: {
-        working: [],
-        episodic: [],
-        semantic: { entities: [], relations: [] },
+        working: deletedIds('working'),
+        episodic: deletedIds('episodic'),
+        semantic: {
+          entities: deletedIds('semantic_entity'),
+          relations: deletedIds('semantic_relation'),
+        },
       },
+      tombstones,
     };
   }
 
@@ -2691,6 +3863,13 @@ export class SqliteStorage {
     const profile = this.getTachikomaProfile();
     if (!profile) throw new Error('Tachikoma not initialized. Run tachikoma_init first.');
 
+    // Deltas of the same major version can be read; fields added since are optional
+    const major = Number(data.version.split('.')[0]);
+    const supportedMajor = Number(PARALLELIZATION_EXPORT_VERSION.split('.')[0]);
+    if (!(major <= supportedMajor)) {
+      throw new Error(`Unsupported delta version ${data.version} (supported up to ${PARALLELIZATION_EXPORT_VERSION})`);
+    }
+
     return this.transaction(() => this.importDeltaInternal(data, profile, options));
   }
 
@@ -2711,124 +3890,236 @@ export class SqliteStorage {
         working: 0,
         episodic: 0,
         semantic: { entities: 0, relations: 0 },
+        patterns: 0,
+        insights: 0,
+        wisdom: 0,
+        wisdomApplications: 0,
       },
       conflicts: [],
+      deleted: 0,
       skipped: 0,
       syncVector: { ...profile.syncVector },
     };
 
-    // Import working memory
+    // Relations moved by an entity merge are re-pointed before the merged entity is deleted,
+    // since deleting it also deletes the relations still attached to it
+    const movedRelations = new Set<string>();
+    for (const relation of data.delta.semantic.relations) {
+      const existing = this.getSemanticRelationForDelta(relation.id);
+      if (existing && (relation.updatedAt ?? relation.createdAt) > (existing.updatedAt ?? existing.createdAt)) {
+        this.moveSemanticRelationForDelta(relation);
+        movedRelations.add(relation.id);
+        result.merged.semantic.relations++;
+      }
+    }
+
+    // Apply deletions first, so that the delta cannot bring back what was deleted
+    for (const tombstone of data.tombstones ?? this.tombstonesFromDeleted(data)) {
+      const applied = this.applyTombstone(tombstone, profile);
+      if (applied === 'deleted') {
+        result.deleted++;
+      } else if (applied === 'kept') {
+        result.skipped++;
+      }
+    }
+
+    // Import working memory. Only concurrent edits fall back to the strategies below;
+    // a causally newer version fast-forwards and an older or equal one is skipped.
     for (const item of data.delta.working) {
+      if (this.isDeletedForDelta('working', item.key, item.metadata.updatedAt, item.vectorClock)) {
+        result.skipped++;
+        continue;
+      }
       const existing = this.getWorkingMemory(item.key);
-      if (existing) {
-        if (item.metadata.updatedAt > existing.metadata.updatedAt) {
-          this.updateWorkingMemory(item.key, item.value, item.tags);
-          result.merged.working++;
-        } else {
-          result.skipped++;
-        }
-      } else {
+      if (!existing) {
+        this.setWorkingMemory(item);
+        result.merged.working++;
+        continue;
+      }
+
+      const order = this.compareRecordClocks(existing.vectorClock, item.vectorClock);
+      if (order === 'before') {
         this.setWorkingMemory(item);
         result.merged.working++;
+      } else if (order !== 'concurrent') {
+        result.skipped++;
+      } else if (item.metadata.updatedAt > existing.metadata.updatedAt) {
+        this.updateWorkingMemory(item.key, item.value, item.tags);
+        this.setRecordClock('working_memory', 'key', item.key, this.resolvedRecordClock(existing.vectorClock, item.vectorClock, false));
+        result.merged.working++;
+      } else {
+        this.setRecordClock('working_memory', 'key', item.key, this.resolvedRecordClock(existing.vectorClock, item.vectorClock, true));
+        result.skipped++;
       }
     }
 
     // Import episodic memory with conflict handling
     for (const episode of data.delta.episodic) {
+      if (this.isDeletedForDelta('episodic', episode.id, episode.timestamp, episode.vectorClock)) {
+        result.skipped++;
+        continue;
+      }
       const existing = this.getEpisodeById(episode.id);
-      if (existing) {
-        // Conflict detected
-        if (autoResolve && strategy === 'merge_learnings') {
-          // Merge learnings from both
-          const mergedLearnings = [...new Set([
-            ...(existing.outcome?.learnings || []),
-            ...(episode.outcome?.learnings || []),
-          ])];
-          const mergedOutcome: EpisodeOutcome = {
-            status: episode.outcome?.status || existing.outcome?.status || 'partial',
-            learnings: mergedLearnings,
-            resolution: episode.outcome?.resolution || existing.outcome?.resolution,
-          };
-          this.updateEpisode(existing.id, {
-            outcome: mergedOutcome,
-            importance: Math.max(existing.importance, episode.importance),
-          });
+      if (!existing) {
+        this.insertEpisodeForDelta(episode);
+        result.merged.episodic++;
+        continue;
+      }
+
+      const order = this.compareRecordClocks(existing.vectorClock, episode.vectorClock);
+      if (order === 'before') {
+        this.replaceEpisodeForDelta(episode);
+        result.merged.episodic++;
+        continue;
+      }
+      if (order !== 'concurrent') {
+        result.skipped++;
+        continue;
+      }
+
+      // Concurrent edits: conflict detected
+      const resolveClock = (changed: boolean) => this.setRecordClock(
+        'episodic_memory', 'id', existing.id, this.resolvedRecordClock(existing.vectorClock, episode.vectorClock, changed)
+      );
+      if (autoResolve && strategy === 'merge_learnings') {
+        // Merge learnings from both
+        const mergedLearnings = [...new Set([
+          ...(existing.outcome?.learnings || []),
+          ...(episode.outcome?.learnings || []),
+        ])];
+        const mergedOutcome: EpisodeOutcome = {
+          status: episode.outcome?.status || existing.outcome?.status || 'partial',
+          learnings: mergedLearnings,
+          resolution: episode.outcome?.resolution || existing.outcome?.resolution,
+        };
+        const importance = Math.max(existing.importance, episode.importance);
+        this.updateEpisode(existing.id, {
+          outcome: mergedOutcome,
+          importance,
+        });
+        resolveClock(
+          mergedLearnings.length !== new Set(episode.outcome?.learnings || []).size ||
+          importance !== episode.importance
+        );
+        result.merged.episodic++;
+      } else if (autoResolve && strategy === 'higher_importance') {
+        if (episode.importance > existing.importance) {
+          this.replaceEpisodeForDelta(episode);
+          resolveClock(false);
+          result.merged.episodic++;
+        } else {
+          resolveClock(true);
+          result.skipped++;
+        }
+      } else if (autoResolve && strategy === 'newer_wins') {
+        if (episode.lastAccessed > existing.lastAccessed) {
+          this.replaceEpisodeForDelta(episode);
+          resolveClock(false);
           result.merged.episodic++;
-        } else if (autoResolve && strategy === 'higher_importance') {
-          if (episode.importance > existing.importance) {
-            this.replaceEpisodeForDelta(episode);
-            result.merged.episodic++;
-          } else {
-            result.skipped++;
-          }
-        } else if (autoResolve && strategy === 'newer_wins') {
-          if (episode.lastAccessed > existing.lastAccessed) {
-            this.replaceEpisodeForDelta(episode);
-            result.merged.episodic++;
-          } else {
-            result.skipped++;
-          }
         } else {
-          // Add to conflicts for manual resolution
-          const conflict = this.addConflict({
-            memoryType: 'episodic',
-            localItem: existing,
-            remoteItem: episode,
-            strategy,
-          });
-          result.conflicts.push(conflict);
+          resolveClock(true);
+          result.skipped++;
         }
       } else {
-        this.insertEpisodeForDelta(episode);
-        result.merged.episodic++;
+        // Add to conflicts for manual resolution
+        const conflict = this.addConflict({
+          memoryType: 'episodic',
+          localItem: existing,
+          remoteItem: episode,
+          strategy,
+        });
+        result.conflicts.push(conflict);
       }
     }
 
     // Import semantic entities with conflict handling
     for (const entity of data.delta.semantic.entities) {
+      if (this.isDeletedForDelta('semantic_entity', entity.id, entity.updatedAt, entity.vectorClock)) {
+        result.skipped++;
+        continue;
+      }
       const existing = this.getSemanticEntityById(entity.id) || this.getSemanticEntityByNameForDelta(entity.name);
-      if (existing) {
-        if (autoResolve && strategy === 'merge_observations') {
-          const mergedObservations = [...new Set([
-            ...existing.observations,
-            ...entity.observations,
-          ])];
-          this.updateSemanticEntityForDelta(existing.id, {
-            observations: mergedObservations,
-            confidence: Math.max(existing.confidence, entity.confidence),
-          });
+      if (!existing) {
+        this.insertSemanticEntityForDelta(entity);
+        result.merged.semantic.entities++;
+        continue;
+      }
+
+      // An entity of the same name created elsewhere is a different record, so never causally related
+      const order = existing.id === entity.id
+        ? this.compareRecordClocks(existing.vectorClock, entity.vectorClock)
+        : 'concurrent';
+      if (order === 'before') {
+        this.replaceSemanticEntityForDelta(existing.id, entity);
+        result.merged.semantic.entities++;
+        continue;
+      }
+      if (order !== 'concurrent') {
+        result.skipped++;
+        continue;
+      }
+
+      const resolveClock = (changed: boolean) => this.setRecordClock(
+        'semantic_entities', 'id', existing.id, this.resolvedRecordClock(existing.vectorClock, entity.vectorClock, changed)
+      );
+      if (autoResolve && strategy === 'merge_observations') {
+        const mergedObservations = [...new Set([
+          ...existing.observations,
+          ...entity.observations,
+        ])];
+        const confidence = Math.max(existing.confidence, entity.confidence);
+        const mergedAliases = [...new Set([...existing.aliases ?? [], ...entity.aliases ?? []])];
+        this.updateSemanticEntityForDelta(existing.id, {
+          observations: mergedObservations,
+          confidence,
+          aliases: mergedAliases,
+        });
+        resolveClock(
+          mergedObservations.length !== new Set(entity.observations).size ||
+          confidence !== entity.confidence ||
+          mergedAliases.length !== new Set(entity.aliases ?? []).size
+        );
+        result.merged.semantic.entities++;
+      } else if (autoResolve && strategy === 'higher_confidence') {
+        if (entity.confidence > existing.confidence) {
+          this.replaceSemanticEntityForDelta(existing.id, entity);
+          resolveClock(false);
+          result.merged.semantic.entities++;
+        } else {
+          resolveClock(true);
+          result.skipped++;
+        }
+      } else if (autoResolve && strategy === 'newer_wins') {
+        if (entity.updatedAt > existing.updatedAt) {
+          this.replaceSemanticEntityForDelta(existing.id, entity);
+          resolveClock(false);
           result.merged.semantic.entities++;
-        } else if (autoResolve && strategy === 'higher_confidence') {
-          if (entity.confidence > existing.confidence) {
-            this.replaceSemanticEntityForDelta(entity);
-            result.merged.semantic.entities++;
-          } else {
-            result.skipped++;
-          }
-        } else if (autoResolve && strategy === 'newer_wins') {
-          if (entity.updatedAt > existing.updatedAt) {
-            this.replaceSemanticEntityForDelta(entity);
-            result.merged.semantic.entities++;
-          } else {
-            result.skipped++;
-          }
         } else {
-          const conflict = this.addConflict({
-            memoryType: 'semantic',
-            localItem: existing,
-            remoteItem: entity,
-            strategy,
-          });
-          result.conflicts.push(conflict);
+          resolveClock(true);
+          result.skipped++;
         }
       } else {
-        this.insertSemanticEntityForDelta(entity);
-        result.merged.semantic.entities++;
+        const conflict = this.addConflict({
+          memoryType: 'semantic',
+          localItem: existing,
+          remoteItem: entity,
+          strategy,
+        });
+        result.conflicts.push(conflict);
       }
     }
 
     // Import semantic relations
     for (const relation of data.delta.semantic.relations) {
+      if (movedRelations.has(relation.id)) continue;
+      if (
+        this.isDeletedForDelta('semantic_relation', relation.id, relation.updatedAt ?? relation.createdAt) ||
+        this.getTombstone('semantic_entity', relation.from) ||
+        this.getTombstone('semantic_entity', relation.to)
+      ) {
+        result.skipped++;
+        continue;
+      }
       const existing = this.getSemanticRelationForDelta(relation.id);
       if (!existing) {
         this.insertSemanticRelationForDelta(relation);
@@ -2838,6 +4129,9 @@ export class SqliteStorage {
       }
     }
 
+    // Import patterns, insights and wisdom (absent from 1.0.0 deltas)
+    this.importDikwForDelta(data, result);
+
     // Update sync vector
     result.syncVector = {
       ...profile.syncVector,
@@ -2845,12 +4139,19 @@ export class SqliteStorage {
     };
     this.updateTachikomaProfile({ syncVector: result.syncVector });
 
+    // Remember what the peer has seen, then drop tombstones every peer has
+    if (data.tachikomaId !== profile.id) {
+      this.recordSyncPeer(data.tachikomaId, data.tachikomaName, data.syncVector);
+    }
+    this.gcTombstones();
+
     // Record sync history
     this.addSyncHistory({
       remoteTachikomaId: data.tachikomaId,
       remoteTachikomaName: data.tachikomaName,
       syncType: 'import',
-      itemsCount: result.merged.working + result.merged.episodic + result.merged.semantic.entities + result.merged.semantic.relations,
+      itemsCount: result.merged.working + result.merged.episodic + result.merged.semantic.entities + result.merged.semantic.relations +
+        result.merged.patterns + result.merged.insights + result.merged.wisdom + result.merged.wisdomApplications,
       conflictsCount: result.conflicts.length,
       syncVector: result.syncVector,
     });
@@ -2859,33 +4160,459 @@ export class SqliteStorage {
     return result;
   }
 
-  // Helper methods for import/export
-  private getWorkingMemory(key: string): WorkingMemoryItem | null {
-    if (!this.db) return null;
-    const result = this.db.exec('SELECT * FROM working_memory WHERE key = ?', [key]);
-    if (result.length === 0 || result[0].values.length === 0) return null;
-    const r = this.arrayToObject(result[0].columns, result[0].values[0]);
-    return {
-      id: r.id as string,
-      type: r.type as WorkingMemoryItem['type'],
-      key: r.key as string,
-      value: safeJsonParse(r.value as string, {}),
-      metadata: {
-        createdAt: r.created_at as number,
-        updatedAt: r.updated_at as number,
-        expiresAt: r.expires_at as number,
-        sessionId: r.session_id as string,
-        priority: r.priority as WorkingMemoryItem['metadata']['priority'],
-      },
+  /**
+   * Merge DIKW knowledge from a delta. Records are matched by ID, then by
+   * their text (patterns, insights) or name (wisdom); the newer side wins
+   * for descriptive fields, and:
+   * - patterns: supporting episodes are unioned, and frequency is the larger
+   *   of both sides and at least the number of supporting episodes
+   * - insights: validators are unioned
+   * - wisdom: success/failure counters only grow, taking the larger of both
+   *   sides and at least what the recorded applications add up to
+   * A confirmed, validated or rejected status replaces a candidate one.
+   */
+  private importDikwForDelta(data: ParallelizationExport, result: ParallelizationResult): void {
+    const union = <T>(a: T[], b: T[]) => [...new Set([...a, ...b])];
+    const mapIds = (ids: string[], map: Map<string, string>) => ids.map(id => map.get(id) ?? id);
+
+    const patternIds = new Map<string, string>();
+    for (const pattern of data.delta.patterns ?? []) {
+      const existing = this.getPattern(pattern.id) ?? this.getPatternByTextForDelta(pattern.pattern);
+      if (!existing) {
+        this.writePatternForDelta(pattern);
+        result.merged.patterns++;
+        continue;
+      }
+
+      patternIds.set(pattern.id, existing.id);
+      const newer = pattern.updatedAt > existing.updatedAt ? pattern : existing;
+      const supportingEpisodes = union(existing.supportingEpisodes, pattern.supportingEpisodes);
+      this.writePatternForDelta({
+        ...newer,
+        id: existing.id,
+        frequency: Math.max(existing.frequency, pattern.frequency, supportingEpisodes.length),
+        confidence: Math.max(existing.confidence, pattern.confidence),
+        supportingEpisodes,
+        relatedTags: union(existing.relatedTags, pattern.relatedTags),
+        agentRoles: union(existing.agentRoles, pattern.agentRoles),
+        status: this.mergeStatusForDelta(existing, pattern, 'candidate'),
+        createdAt: Math.min(existing.createdAt, pattern.createdAt),
+      });
+      result.merged.patterns++;
+    }
+
+    const insightIds = new Map<string, string>();
+    for (const remote of data.delta.insights ?? []) {
+      const insight = { ...remote, sourcePatterns: mapIds(remote.sourcePatterns, patternIds) };
+      const existing = this.getInsight(insight.id) ?? this.getInsightByTextForDelta(insight.insight);
+      if (!existing) {
+        this.writeInsightForDelta(insight);
+        result.merged.insights++;
+        continue;
+      }
+
+      insightIds.set(insight.id, existing.id);
+      const newer = insight.updatedAt > existing.updatedAt ? insight : existing;
+      this.writeInsightForDelta({
+        ...newer,
+        id: existing.id,
+        sourcePatterns: union(existing.sourcePatterns, insight.sourcePatterns),
+        confidence: Math.max(existing.confidence, insight.confidence),
+        domains: union(existing.domains, insight.domains),
+        validatedBy: union(existing.validatedBy, insight.validatedBy),
+        status: this.mergeStatusForDelta(existing, insight, 'candidate'),
+        createdAt: Math.min(existing.createdAt, insight.createdAt),
+      });
+      result.merged.insights++;
+    }
+
+    const wisdomIds = new Map<string, string>();
+    const touchedWisdom = new Set<string>();
+    for (const remote of data.delta.wisdom ?? []) {
+      const wisdom = {
+        ...remote,
+        derivedFromInsights: mapIds(remote.derivedFromInsights, insightIds),
+        derivedFromPatterns: mapIds(remote.derivedFromPatterns, patternIds),
+      };
+      const existing = this.getWisdom(wisdom.id) ?? this.getWisdom(wisdom.name);
+      if (!existing) {
+        this.writeWisdomForDelta(wisdom);
+        result.merged.wisdom++;
+        continue;
+      }
+
+      wisdomIds.set(wisdom.id, existing.id);
+      touchedWisdom.add(existing.id);
+      const newer = wisdom.updatedAt > existing.updatedAt ? wisdom : existing;
+      this.writeWisdomForDelta({
+        ...newer,
+        id: existing.id,
+        name: existing.name,
+        derivedFromInsights: union(existing.derivedFromInsights, wisdom.derivedFromInsights),
+        derivedFromPatterns: union(existing.derivedFromPatterns, wisdom.derivedFromPatterns),
+        evidenceEpisodes: union(existing.evidenceEpisodes, wisdom.evidenceEpisodes),
+        applicableDomains: union(existing.applicableDomains, wisdom.applicableDomains),
+        applicableContexts: union(existing.applicableContexts, wisdom.applicableContexts),
+        limitations: union(existing.limitations, wisdom.limitations),
+        validationCount: Math.max(existing.validationCount, wisdom.validationCount),
+        successfulApplications: Math.max(existing.successfulApplications, wisdom.successfulApplications),
+        failedApplications: Math.max(existing.failedApplications, wisdom.failedApplications),
+        contributingAgents: union(existing.contributingAgents, wisdom.contributingAgents),
+        version: Math.max(existing.version, wisdom.version),
+        tags: union(existing.tags, wisdom.tags),
+        relatedWisdom: union(existing.relatedWisdom, wisdom.relatedWisdom),
+        contradictoryWisdom: union(existing.contradictoryWisdom, wisdom.contradictoryWisdom),
+        createdAt: Math.min(existing.createdAt, wisdom.createdAt),
+      });
+      result.merged.wisdom++;
+    }
+
+    for (const application of data.delta.wisdomApplications ?? []) {
+      const wisdomId = wisdomIds.get(application.wisdomId) ?? application.wisdomId;
+      if (!this.getWisdom(wisdomId) || this.hasWisdomApplicationForDelta(application.id)) {
+        result.skipped++;
+        continue;
+      }
+      this.insertWisdomApplicationForDelta({ ...application, wisdomId });
+      touchedWisdom.add(wisdomId);
+      result.merged.wisdomApplications++;
+    }
+
+    for (const wisdomId of touchedWisdom) {
+      this.reconcileWisdomCountersForDelta(wisdomId);
+    }
+  }
+
+  /**
+   * A decided status replaces an undecided one; between decided ones the newer wins
+   */
+  private mergeStatusForDelta<S extends string>(
+    local: { status: S; updatedAt: number },
+    remote: { status: S; updatedAt: number },
+    undecided: S
+  ): S {
+    if (local.status === undecided) return remote.status;
+    if (remote.status === undecided) return local.status;
+    return remote.updatedAt > local.updatedAt ? remote.status : local.status;
+  }
+
+  private getPatternByTextForDelta(text: string): Pattern | null {
+    if (!this.db) return null;
+    const result = this.db.exec('SELECT * FROM patterns WHERE pattern = ? LIMIT 1', [text]);
+    if (result.length === 0 || result[0].values.length === 0) return null;
+    return this.rowToPattern(result[0].columns, result[0].values[0]);
+  }
+
+  private writePatternForDelta(pattern: Pattern): void {
+    if (!this.db) return;
+    this.db.run(`
+      INSERT OR REPLACE INTO patterns (id, pattern, frequency, confidence, supporting_episodes, related_tags, agent_roles, source_agent_id, status, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      pattern.id,
+      pattern.pattern,
+      pattern.frequency,
+      pattern.confidence,
+      JSON.stringify(pattern.supportingEpisodes),
+      JSON.stringify(pattern.relatedTags),
+      JSON.stringify(pattern.agentRoles),
+      pattern.sourceAgentId || null,
+      pattern.status,
+      pattern.createdAt,
+      pattern.updatedAt,
+    ]);
+    this.searchManager.indexPattern(pattern);
+  }
+
+  private getInsightByTextForDelta(text: string): Insight | null {
+    if (!this.db) return null;
+    const result = this.db.exec('SELECT * FROM insights WHERE insight = ? LIMIT 1', [text]);
+    if (result.length === 0 || result[0].values.length === 0) return null;
+    return this.rowToInsight(result[0].columns, result[0].values[0]);
+  }
+
+  private writeInsightForDelta(insight: Insight): void {
+    if (!this.db) return;
+    this.db.run(`
+      INSERT OR REPLACE INTO insights (id, insight, reasoning, source_patterns, confidence, novelty, utility, domains, source_agent_id, validated_by, status, knowledge_level, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      insight.id,
+      insight.insight,
+      insight.reasoning,
+      JSON.stringify(insight.sourcePatterns),
+      insight.confidence,
+      insight.novelty,
+      insight.utility,
+      JSON.stringify(insight.domains),
+      insight.sourceAgentId || null,
+      JSON.stringify(insight.validatedBy),
+      insight.status,
+      insight.knowledgeLevel,
+      insight.createdAt,
+      insight.updatedAt,
+    ]);
+    this.searchManager.indexInsight(insight);
+  }
+
+  private writeWisdomForDelta(wisdom: WisdomEntity): void {
+    if (!this.db) return;
+    this.db.run(`
+      INSERT OR REPLACE INTO wisdom (id, name, principle, description, derived_from_insights, derived_from_patterns, evidence_episodes, applicable_domains, applicable_contexts, limitations, validation_count, successful_applications, failed_applications, confidence_score, created_by, contributing_agents, version, tags, related_wisdom, contradictory_wisdom, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      wisdom.id,
+      wisdom.name,
+      wisdom.principle,
+      wisdom.description,
+      JSON.stringify(wisdom.derivedFromInsights),
+      JSON.stringify(wisdom.derivedFromPatterns),
+      JSON.stringify(wisdom.evidenceEpisodes),
+      JSON.stringify(wisdom.applicableDomains),
+      JSON.stringify(wisdom.applicableContexts),
+      JSON.stringify(wisdom.limitations),
+      wisdom.validationCount,
+      wisdom.successfulApplications,
+      wisdom.failedApplications,
+      wisdom.confidenceScore,
+      wisdom.createdBy || null,
+      JSON.stringify(wisdom.contributingAgents),
+      wisdom.version,
+      JSON.stringify(wisdom.tags),
+      JSON.stringify(wisdom.relatedWisdom),
+      JSON.stringify(wisdom.contradictoryWisdom),
+      wisdom.createdAt,
+      wisdom.updatedAt,
+    ]);
+    this.searchManager.indexWisdom(wisdom);
+  }
+
+  private hasWisdomApplicationForDelta(id: string): boolean {
+    if (!this.db) return false;
+    const result = this.db.exec('SELECT 1 FROM wisdom_applications WHERE id = ?', [id]);
+    return result.length > 0 && result[0].values.length > 0;
+  }
+
+  private insertWisdomApplicationForDelta(app: WisdomApplication): void {
+    if (!this.db) return;
+    this.db.run(`
+      INSERT INTO wisdom_applications (id, wisdom_id, episode_id, context, result, feedback, applied_by, applied_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      app.id,
+      app.wisdomId,
+      app.episodeId || null,
+      app.context,
+      app.result,
+      app.feedback || null,
+      app.appliedBy || null,
+      app.appliedAt,
+    ]);
+  }
+
+  /**
+   * Raise a wisdom's counters to at least what its recorded applications add up to
+   */
+  private reconcileWisdomCountersForDelta(wisdomId: string): void {
+    if (!this.db) return;
+    const result = this.db.exec(`
+      SELECT COUNT(*), SUM(result = 'success'), SUM(result = 'failure') FROM wisdom_applications WHERE wisdom_id = ?
+    `, [wisdomId]);
+    const [total, successes, failures] = (result[0]?.values[0] ?? []).map(value => Number(value ?? 0));
+
+    this.db.run(`
+      UPDATE wisdom SET
+        validation_count = MAX(validation_count, ?),
+        successful_applications = MAX(successful_applications, ?),
+        failed_applications = MAX(failed_applications, ?)
+      WHERE id = ?
+    `, [total, successes, failures, wisdomId]);
+    this.updateWisdomConfidence(wisdomId);
+  }
+
+  private rowToWisdomApplication(columns: string[], values: unknown[]): WisdomApplication {
+    const row = this.arrayToObject(columns, values);
+    return {
+      id: row.id as string,
+      wisdomId: row.wisdom_id as string,
+      episodeId: (row.episode_id as string | null) || undefined,
+      context: row.context as string,
+      result: row.result as WisdomApplication['result'],
+      feedback: (row.feedback as string | null) || undefined,
+      appliedBy: (row.applied_by as string | null) || undefined,
+      appliedAt: row.applied_at as number,
+    };
+  }
+
+  /**
+   * Tombstones for a delta from an exporter that only lists deleted IDs
+   */
+  private tombstonesFromDeleted(data: ParallelizationExport): Tombstone[] {
+    const tombstone = (memoryType: TombstoneType) => (recordId: string): Tombstone => ({
+      memoryType,
+      recordId,
+      deletedAt: data.exportedAt,
+      deletedBy: data.tachikomaId,
+      syncVector: data.syncVector,
+    });
+    return [
+      ...data.deleted.working.map(tombstone('working')),
+      ...data.deleted.episodic.map(tombstone('episodic')),
+      ...data.deleted.semantic.entities.map(tombstone('semantic_entity')),
+      ...data.deleted.semantic.relations.map(tombstone('semantic_relation')),
+    ];
+  }
+
+  /**
+   * Apply a remote tombstone to the local record it names.
+   *
+   * The deletion wins when it causally follows the record's last change: the
+   * record's clock is covered by the clock of the export carrying the deletion.
+   * Records without a clock fall back to whether the deleting Tachikoma had
+   * imported our latest export with the record unchanged since. Otherwise the
+   * two are concurrent and the later of the deletion and the last change wins.
+   * Applied tombstones are kept, so that the deletion is passed on and the
+   * record is not resurrected by later imports.
+   */
+  private applyTombstone(tombstone: Tombstone, profile: TachikomaProfile): 'deleted' | 'kept' | 'recorded' | 'known' {
+    const known = this.getTombstone(tombstone.memoryType, tombstone.recordId);
+    if (known && known.deletedAt >= tombstone.deletedAt) return 'known';
+
+    const target = this.tombstoneTargetForDelta(tombstone);
+    if (!target) {
+      this.saveTombstone(tombstone);
+      return 'recorded';
+    }
+
+    let order: ClockComparison;
+    if (target.vectorClock) {
+      order = this.compareRecordClocks(target.vectorClock, tombstone.syncVector);
+    } else {
+      const seen = (tombstone.syncVector[profile.id] ?? 0) >= profile.syncSeq &&
+        target.modifiedAt <= (profile.lastSyncAt ?? 0);
+      order = seen ? 'before' : 'concurrent';
+    }
+    if (order === 'after' || (order === 'concurrent' && target.modifiedAt > tombstone.deletedAt)) return 'kept';
+
+    switch (tombstone.memoryType) {
+      case 'working':
+        this.deleteWorkingItem(tombstone.recordId);
+        break;
+      case 'episodic':
+        this.deleteEpisode(tombstone.recordId);
+        break;
+      case 'semantic_entity':
+        this.deleteEntity(tombstone.recordId);
+        break;
+      case 'semantic_relation':
+        this.deleteRelation(tombstone.recordId);
+        break;
+    }
+    // Replaces the local tombstone written by the delete
+    this.saveTombstone(tombstone);
+    return 'deleted';
+  }
+
+  /**
+   * When the local record named by a tombstone last changed and its clock,
+   * or null if there is no such record
+   */
+  private tombstoneTargetForDelta(tombstone: Tombstone): { modifiedAt: number; vectorClock?: SyncVector } | null {
+    switch (tombstone.memoryType) {
+      case 'working': {
+        const item = this.getWorkingMemory(tombstone.recordId);
+        return item ? { modifiedAt: item.metadata.updatedAt, vectorClock: item.vectorClock } : null;
+      }
+      case 'episodic': {
+        const episode = this.getEpisodeById(tombstone.recordId);
+        return episode ? { modifiedAt: episode.timestamp, vectorClock: episode.vectorClock } : null;
+      }
+      case 'semantic_entity': {
+        const entity = this.getSemanticEntityById(tombstone.recordId);
+        return entity ? { modifiedAt: entity.updatedAt, vectorClock: entity.vectorClock } : null;
+      }
+      case 'semantic_relation': {
+        const relation = this.getSemanticRelationForDelta(tombstone.recordId);
+        return relation ? { modifiedAt: relation.createdAt } : null;
+      }
+    }
+  }
+
+  /**
+   * Causal order of a local record relative to an incoming version of it.
+   * Records without a clock (written before tachikoma_init or sent by an
+   * older exporter) cannot be ordered and count as concurrent.
+   */
+  private compareRecordClocks(local?: SyncVector, remote?: SyncVector): ClockComparison {
+    if (!local || !remote) return 'concurrent';
+    return new VectorClock(local).compare(new VectorClock(remote));
+  }
+
+  /**
+   * Whether a change with the given clock has already been seen by a
+   * Tachikoma at the other clock. Changes without a clock never are.
+   */
+  private isCoveredByClock(clock: SyncVector | undefined, seen: SyncVector): boolean {
+    if (!clock || Object.keys(clock).length === 0) return false;
+    const order = this.compareRecordClocks(clock, seen);
+    return order === 'before' || order === 'equal';
+  }
+
+  /**
+   * Clock of a record after resolving concurrent versions. It covers both, so
+   * the other side fast-forwards to the result; if the result differs from
+   * the incoming version it is also a local write.
+   */
+  private resolvedRecordClock(local: SyncVector | undefined, remote: SyncVector | undefined, changed: boolean): SyncVector | undefined {
+    const merged = new VectorClock(local).merge(new VectorClock(remote)).toObject();
+    if (changed) return this.nextRecordClock(merged);
+    return Object.keys(merged).length > 0 ? merged : undefined;
+  }
+
+  /**
+   * Whether an incoming record was deleted here after it last changed. The
+   * record's clock is compared with the clock of the deletion, as in
+   * applyTombstone; timestamps only decide between concurrent changes.
+   */
+  private isDeletedForDelta(memoryType: TombstoneType, recordId: string, modifiedAt: number, vectorClock?: SyncVector): boolean {
+    const tombstone = this.getTombstone(memoryType, recordId);
+    if (!tombstone) return false;
+
+    const deletionClock = Object.keys(tombstone.syncVector).length > 0 ? tombstone.syncVector : undefined;
+    const order = this.compareRecordClocks(vectorClock, deletionClock);
+    if (order === 'after') return false;
+    if (order !== 'concurrent') return true;
+    return tombstone.deletedAt >= modifiedAt;
+  }
+
+  // Helper methods for import/export
+  private getWorkingMemory(key: string): WorkingMemoryItem | null {
+    if (!this.db) return null;
+    const result = this.db.exec('SELECT * FROM working_memory WHERE key = ?', [key]);
+    if (result.length === 0 || result[0].values.length === 0) return null;
+    const r = this.arrayToObject(result[0].columns, result[0].values[0]);
+    return {
+      id: r.id as string,
+      type: r.type as WorkingMemoryItem['type'],
+      key: r.key as string,
+      value: safeJsonParse(r.value as string, {}),
+      metadata: {
+        createdAt: r.created_at as number,
+        updatedAt: r.updated_at as number,
+        expiresAt: r.expires_at as number,
+        sessionId: r.session_id as string,
+        priority: r.priority as WorkingMemoryItem['metadata']['priority'],
+      },
       tags: safeJsonParse(r.tags as string, []),
+      vectorClock: this.rowClock(r.vector_clock),
     };
   }
 
   private setWorkingMemory(item: WorkingMemoryItem): void {
     if (!this.db) return;
     this.db.run(`
-      INSERT OR REPLACE INTO working_memory (id, type, key, value, session_id, priority, tags, created_at, updated_at, expires_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT OR REPLACE INTO working_memory (id, type, key, value, session_id, priority, tags, created_at, updated_at, expires_at, vector_clock)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `, [
       item.id,
       item.type,
@@ -2897,6 +4624,7 @@ export class SqliteStorage {
       item.metadata.createdAt,
       item.metadata.updatedAt,
       item.metadata.expiresAt,
+      JSON.stringify(item.vectorClock ?? {}),
     ]);
   }
 
@@ -2920,8 +4648,8 @@ export class SqliteStorage {
   private insertEpisodeForDelta(episode: EpisodicMemory): void {
     if (!this.db) return;
     this.db.run(`
-      INSERT INTO episodic_memory (id, timestamp, type, summary, details, context, outcome, related_episodes, related_entities, importance, access_count, last_accessed, tags, created_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO episodic_memory (id, timestamp, type, summary, details, context, outcome, related_episodes, related_entities, importance, access_count, last_accessed, tags, created_at, vector_clock)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `, [
       episode.id,
       episode.timestamp,
@@ -2937,6 +4665,7 @@ export class SqliteStorage {
       episode.lastAccessed,
       JSON.stringify(episode.tags),
       episode.timestamp,
+      JSON.stringify(episode.vectorClock ?? {}),
     ]);
   }
 
@@ -2966,6 +4695,8 @@ export class SqliteStorage {
       updatedAt: r.updated_at as number,
       version: r.version as number,
       tags: safeJsonParse(r.tags as string, []),
+      aliases: safeJsonParse(r.aliases as string, []),
+      vectorClock: this.rowClock(r.vector_clock),
     };
   }
 
@@ -2988,14 +4719,17 @@ export class SqliteStorage {
       updatedAt: r.updated_at as number,
       version: r.version as number,
       tags: safeJsonParse(r.tags as string, []),
+      aliases: safeJsonParse(r.aliases as string, []),
+      vectorClock: this.rowClock(r.vector_clock),
     };
   }
 
   private insertSemanticEntityForDelta(entity: SemanticEntity): void {
     if (!this.db) return;
     this.db.run(`
-      INSERT INTO semantic_entities (id, name, type, description, content, procedure, observations, confidence, source, created_at, updated_at, version, tags)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO semantic_entities (id, name, type, description, content, procedure, observations, confidence, source,
+        created_at, updated_at, version, tags, aliases, valid_from, valid_to, observation_history, vector_clock)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `, [
       entity.id,
       entity.name,
@@ -3010,18 +4744,57 @@ export class SqliteStorage {
       entity.updatedAt,
       entity.version,
       JSON.stringify(entity.tags),
+      JSON.stringify(entity.aliases ?? []),
+      // Deltas from older peers carry no validity; the row then reads as valid from creation
+      entity.validFrom ?? entity.createdAt,
+      entity.validTo ?? null,
+      entity.observationHistory ? JSON.stringify(entity.observationHistory) : null,
+      JSON.stringify(entity.vectorClock ?? {}),
     ]);
   }
 
-  private replaceSemanticEntityForDelta(entity: SemanticEntity): void {
+  /**
+   * Overwrite a local entity with an incoming version. The row is updated in
+   * place, so its relations stay attached and no column is left behind.
+   * The local version is archived first and the version number never goes back.
+   */
+  private replaceSemanticEntityForDelta(id: string, entity: SemanticEntity): void {
     if (!this.db) return;
-    this.db.run('DELETE FROM semantic_entities WHERE id = ?', [entity.id]);
-    this.insertSemanticEntityForDelta(entity);
+    this.archiveEntityVersion(id);
+    this.db.run(`
+      UPDATE semantic_entities SET name = ?, type = ?, description = ?, content = ?, procedure = ?, observations = ?,
+        confidence = ?, source = ?, created_at = ?, updated_at = ?, version = MAX(?, version + 1), tags = ?, aliases = ?,
+        valid_from = ?, valid_to = ?, observation_history = ?, vector_clock = ?
+      WHERE id = ?
+    `, [
+      entity.name,
+      entity.type,
+      entity.description,
+      entity.content ? JSON.stringify(entity.content) : null,
+      entity.procedure ? JSON.stringify(entity.procedure) : null,
+      JSON.stringify(entity.observations),
+      entity.confidence,
+      entity.source,
+      entity.createdAt,
+      entity.updatedAt,
+      entity.version,
+      JSON.stringify(entity.tags),
+      JSON.stringify(entity.aliases ?? []),
+      entity.validFrom ?? entity.createdAt,
+      entity.validTo ?? null,
+      entity.observationHistory ? JSON.stringify(entity.observationHistory) : null,
+      JSON.stringify(entity.vectorClock ?? {}),
+      id,
+    ]);
   }
 
-  private updateSemanticEntityForDelta(id: string, updates: { observations?: string[]; confidence?: number }): void {
+  private updateSemanticEntityForDelta(
+    id: string,
+    updates: { observations?: string[]; confidence?: number; aliases?: string[] }
+  ): void {
     if (!this.db) return;
-    const setClauses: string[] = ['updated_at = ?'];
+    this.archiveEntityVersion(id);
+    const setClauses: string[] = ['updated_at = ?', 'version = version + 1'];
     const params: (string | number | null)[] = [Date.now()];
 
     if (updates.observations) {
@@ -3032,6 +4805,10 @@ export class SqliteStorage {
       setClauses.push('confidence = ?');
       params.push(updates.confidence);
     }
+    if (updates.aliases) {
+      setClauses.push('aliases = ?');
+      params.push(JSON.stringify(updates.aliases));
+    }
 
     params.push(id);
     this.db.run(`UPDATE semantic_entities SET ${setClauses.join(', ')} WHERE id = ?`, params);
@@ -3041,23 +4818,14 @@ export class SqliteStorage {
     if (!this.db) return null;
     const result = this.db.exec('SELECT * FROM semantic_relations WHERE id = ?', [id]);
     if (result.length === 0 || result[0].values.length === 0) return null;
-    const r = this.arrayToObject(result[0].columns, result[0].values[0]);
-    return {
-      id: r.id as string,
-      from: r.from_entity as string,
-      to: r.to_entity as string,
-      relationType: r.relation_type as string,
-      strength: r.strength as number,
-      metadata: safeJsonParseOptional(r.metadata as string),
-      createdAt: r.created_at as number,
-    };
+    return this.rowToRelation(result[0].columns, result[0].values[0]);
   }
 
   private insertSemanticRelationForDelta(relation: SemanticRelation): void {
     if (!this.db) return;
     this.db.run(`
-      INSERT INTO semantic_relations (id, from_entity, to_entity, relation_type, strength, metadata, created_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO semantic_relations (id, from_entity, to_entity, relation_type, strength, metadata, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
     `, [
       relation.id,
       relation.from,
@@ -3066,9 +4834,18 @@ export class SqliteStorage {
       relation.strength,
       relation.metadata ? JSON.stringify(relation.metadata) : null,
       relation.createdAt,
+      relation.updatedAt ?? null,
     ]);
   }
 
+  private moveSemanticRelationForDelta(relation: SemanticRelation): void {
+    if (!this.db) return;
+    this.db.run(
+      'UPDATE semantic_relations SET from_entity = ?, to_entity = ?, updated_at = ? WHERE id = ?',
+      [relation.from, relation.to, relation.updatedAt ?? null, relation.id]
+    );
+  }
+
   // ============================================================================
   // Shared Memory Operations
   // ============================================================================
@@ -3205,14 +4982,40 @@ export class SqliteStorage {
   }> {
     if (!this.db) return [];
 
-    const searchPattern = `%${query}%`;
-    const result = this.db.exec(`
-      SELECT * FROM shared_memory
-      WHERE namespace = ?
-        AND (key LIKE ? OR value LIKE ? OR tags LIKE ?)
-      ORDER BY updated_at DESC
-      LIMIT ?
-    `, [namespace, searchPattern, searchPattern, searchPattern, limit]);
+    // Shared memory is not indexed: every term and phrase must appear in key, value or tags
+    const parsed = parseQuery(query);
+    let sql = 'SELECT * FROM shared_memory WHERE namespace = ?';
+    const params: (string | number)[] = [namespace];
+
+    for (const text of [...parsed.terms, ...parsed.phrases]) {
+      sql += ' AND (key LIKE ? OR value LIKE ? OR tags LIKE ?)';
+      params.push(`%${text}%`, `%${text}%`, `%${text}%`);
+    }
+    for (const text of [...parsed.excludedTerms, ...parsed.excludedPhrases]) {
+      sql += ' AND NOT (key LIKE ? OR value LIKE ? OR tags LIKE ?)';
+      params.push(`%${text}%`, `%${text}%`, `%${text}%`);
+    }
+    for (const tag of parsed.tags) {
+      sql += ' AND EXISTS (SELECT 1 FROM json_each(tags) WHERE json_each.value = ?)';
+      params.push(tag);
+    }
+    for (const tag of parsed.excludedTags) {
+      sql += ' AND NOT EXISTS (SELECT 1 FROM json_each(tags) WHERE json_each.value = ?)';
+      params.push(tag);
+    }
+    if (parsed.after !== undefined) {
+      sql += ' AND updated_at >= ?';
+      params.push(parsed.after);
+    }
+    if (parsed.before !== undefined) {
+      sql += ' AND updated_at <= ?';
+      params.push(parsed.before);
+    }
+
+    sql += ' ORDER BY updated_at DESC LIMIT ?';
+    params.push(limit);
+
+    const result = this.db.exec(sql, params);
 
     if (result.length === 0) return [];
 
@@ -3429,4 +5232,208 @@ export class SqliteStorage {
 
     return count;
   }
+
+  // ============================================================================
+  // Maintenance Run Operations
+  // ============================================================================
+
+  startMaintenanceRun(job: MaintenanceJobName, trigger: MaintenanceRun['trigger']): MaintenanceRun {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const now = Date.now();
+    const run: MaintenanceRun = {
+      id: `maint_${now}_${Math.random().toString(36).substr(2, 9)}`,
+      job,
+      trigger,
+      status: 'running',
+      startedAt: now,
+    };
+
+    this.db.run(`
+      INSERT INTO maintenance_runs (id, job, triggered_by, status, started_at)
+      VALUES (?, ?, ?, ?, ?)
+    `, [run.id, run.job, run.trigger, run.status, run.startedAt]);
+
+    this.save();
+    return run;
+  }
+
+  /**
+   * Start a scheduled run of a job unless one was already started at or after
+   * scheduledAt. Every process sharing the data path runs its own scheduler;
+   * the check and the insert happen under the process lock and are written
+   * through immediately, so exactly one of them claims each scheduled run.
+   */
+  claimMaintenanceRun(job: MaintenanceJobName, scheduledAt: number): MaintenanceRun | null {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return this.lock.withLock(() => {
+      this.applyExternalChanges();
+      const lastRun = this.listMaintenanceRuns({ job, limit: 1 })[0];
+      if (lastRun && lastRun.startedAt >= scheduledAt) return null;
+
+      const run = this.startMaintenanceRun(job, 'schedule');
+      this.flush();
+      return run;
+    });
+  }
+
+  finishMaintenanceRun(
+    id: string,
+    outcome: { status: 'success'; result: Record<string, unknown> } | { status: 'error'; error: string }
+  ): MaintenanceRun | null {
+    if (!this.db) throw new Error('Database not initialized');
+
+    this.db.run(`
+      UPDATE maintenance_runs SET status = ?, finished_at = ?, result = ?, error = ?
+      WHERE id = ?
+    `, [
+      outcome.status,
+      Date.now(),
+      outcome.status === 'success' ? JSON.stringify(outcome.result) : null,
+      outcome.status === 'error' ? outcome.error : null,
+      id,
+    ]);
+
+    const run = this.getMaintenanceRun(id);
+    if (run) {
+      // Keep only the most recent runs of each job
+      this.db.run(`
+        DELETE FROM maintenance_runs WHERE job = ? AND id NOT IN (
+          SELECT id FROM maintenance_runs WHERE job = ? ORDER BY started_at DESC LIMIT ?
+        )
+      `, [run.job, run.job, SqliteStorage.MAINTENANCE_RUNS_KEPT]);
+    }
+
+    this.save();
+    return run;
+  }
+
+  getMaintenanceRun(id: string): MaintenanceRun | null {
+    if (!this.db) return null;
+
+    const result = this.db.exec('SELECT * FROM maintenance_runs WHERE id = ?', [id]);
+    if (result.length === 0 || result[0].values.length === 0) return null;
+    return this.rowToMaintenanceRun(result[0].columns, result[0].values[0]);
+  }
+
+  /**
+   * List maintenance runs, most recent first
+   */
+  listMaintenanceRuns(filter?: { job?: MaintenanceJobName; limit?: number }): MaintenanceRun[] {
+    if (!this.db) return [];
+
+    const { job, limit = 20 } = filter ?? {};
+    const result = job
+      ? this.db.exec('SELECT * FROM maintenance_runs WHERE job = ? ORDER BY started_at DESC, id DESC LIMIT ?', [job, limit])
+      : this.db.exec('SELECT * FROM maintenance_runs ORDER BY started_at DESC, id DESC LIMIT ?', [limit]);
+    if (result.length === 0) return [];
+
+    return result[0].values.map(row => this.rowToMaintenanceRun(result[0].columns, row));
+  }
+
+  private rowToMaintenanceRun(columns: string[], row: unknown[]): MaintenanceRun {
+    const r = this.arrayToObject(columns, row);
+    return {
+      id: r.id as string,
+      job: r.job as MaintenanceJobName,
+      trigger: r.triggered_by as MaintenanceRun['trigger'],
+      status: r.status as MaintenanceRun['status'],
+      startedAt: r.started_at as number,
+      finishedAt: (r.finished_at as number | null) ?? undefined,
+      result: safeJsonParseOptional(r.result as string | null),
+      error: (r.error as string | null) ?? undefined,
+    };
+  }
+
+  // ============================================================================
+  // Provenance Operations
+  // ============================================================================
+
+  /**
+   * Record the episodes (and transcript messages) a record came from.
+   * Links that already exist are not duplicated.
+   *
+   * @param observation Entity observation the sources support (omit for the whole record)
+   */
+  addProvenanceLinks(
+    targetType: ProvenanceTargetType,
+    targetId: string,
+    sources: ProvenanceSource[],
+    observation?: string
+  ): ProvenanceLink[] {
+    if (!this.db) return [];
+
+    const existing = this.getProvenanceLinks(targetType, targetId);
+    const links: ProvenanceLink[] = [];
+    const now = Date.now();
+
+    for (const source of sources) {
+      const duplicate = [...existing, ...links].some(link =>
+        link.episodeId === source.episodeId &&
+        link.observation === observation &&
+        link.messageRange?.start === source.messageRange?.start &&
+        link.messageRange?.end === source.messageRange?.end
+      );
+      if (duplicate) continue;
+
+      const link: ProvenanceLink = {
+        id: `prov_${now}_${Math.random().toString(36).substr(2, 9)}`,
+        targetType,
+        targetId,
+        observation,
+        episodeId: source.episodeId,
+        messageRange: source.messageRange,
+        createdAt: now,
+      };
+      this.db.run(`
+        INSERT INTO provenance_links
+        (id, target_type, target_id, observation, episode_id, message_start, message_end, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        link.id,
+        link.targetType,
+        link.targetId,
+        link.observation ?? null,
+        link.episodeId,
+        link.messageRange?.start ?? null,
+        link.messageRange?.end ?? null,
+        link.createdAt,
+      ]);
+      links.push(link);
+    }
+
+    if (links.length > 0) this.save();
+    return links;
+  }
+
+  /**
+   * Get the recorded sources of a record, oldest first
+   */
+  getProvenanceLinks(targetType: ProvenanceTargetType, targetId: string): ProvenanceLink[] {
+    if (!this.db) return [];
+
+    const result = this.db.exec(
+      'SELECT * FROM provenance_links WHERE target_type = ? AND target_id = ? ORDER BY created_at, id',
+      [targetType, targetId]
+    );
+    if (result.length === 0) return [];
+
+    return result[0].values.map(row => this.rowToProvenanceLink(result[0].columns, row));
+  }
+
+  private rowToProvenanceLink(columns: string[], row: unknown[]): ProvenanceLink {
+    const r = this.arrayToObject(columns, row);
+    const start = r.message_start as number | null;
+    const end = r.message_end as number | null;
+    return {
+      id: r.id as string,
+      targetType: r.target_type as ProvenanceTargetType,
+      targetId: r.target_id as string,
+      observation: (r.observation as string | null) ?? undefined,
+      episodeId: r.episode_id as string,
+      messageRange: start !== null && end !== null ? { start, end } : undefined,
+      createdAt: r.created_at as number,
+    };
+  }
 }
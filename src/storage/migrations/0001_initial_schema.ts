@@ -14,7 +14,7 @@ export const migration0001: Migration = {
   up: (_db) => {
     // Baseline migration - tables already exist from createTables()
     // This migration just marks the schema version
-    console.log('[Migration 0001] Marking initial schema baseline');
+    console.error('[Migration 0001] Marking initial schema baseline');
   },
   down: (_db) => {
     // Cannot rollback initial schema
@@ -17,7 +17,7 @@ export const migration0002: Migration = {
     if (result.length > 0) {
       const columns = result[0].values.map(row => row[1] as string);
       if (columns.includes('stability')) {
-        console.log('[Migration 0002] stability column already exists, skipping');
+        console.error('[Migration 0002] stability column already exists, skipping');
         return;
       }
     }
@@ -27,12 +27,12 @@ export const migration0002: Migration = {
       ADD COLUMN stability REAL DEFAULT 1.0
     `);
 
-    console.log('[Migration 0002] Added stability column to episodic_memory');
+    console.error('[Migration 0002] Added stability column to episodic_memory');
   },
   down: (db) => {
     // SQLite doesn't support DROP COLUMN directly
     // For a real rollback, we'd need to recreate the table
     // For now, we just leave the column (it won't hurt anything)
-    console.log('[Migration 0002] Rollback: stability column left in place (SQLite limitation)');
+    console.error('[Migration 0002] Rollback: stability column left in place (SQLite limitation)');
   },
 };
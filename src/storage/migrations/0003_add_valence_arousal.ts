@@ -20,12 +20,12 @@ export const migration0003: Migration = {
 
     if (!columns.includes('valence')) {
       db.run('ALTER TABLE episodic_memory ADD COLUMN valence REAL DEFAULT 0');
-      console.log('[Migration 0003] Added valence column to episodic_memory');
+      console.error('[Migration 0003] Added valence column to episodic_memory');
     }
 
     if (!columns.includes('arousal')) {
       db.run('ALTER TABLE episodic_memory ADD COLUMN arousal REAL DEFAULT 0.5');
-      console.log('[Migration 0003] Added arousal column to episodic_memory');
+      console.error('[Migration 0003] Added arousal column to episodic_memory');
     }
 
     // Update existing episodes based on their type
@@ -50,6 +50,6 @@ export const migration0003: Migration = {
       END
       WHERE valence = 0 AND arousal = 0.5
     `);
-    console.log('[Migration 0003] Updated existing episodes with emotional valence/arousal');
+    console.error('[Migration 0003] Updated existing episodes with emotional valence/arousal');
   },
 };
@@ -0,0 +1,29 @@
+/**
+ * Migration 0004: Per-field search index rows for BM25 ranking
+ *
+ * The search index now stores one row per (term, document, field) so that
+ * fields can be weighted and length-normalized separately. The old table has
+ * no field column and a different primary key, so it is dropped here; the
+ * index is derived data and is rebuilt automatically on startup when empty.
+ */
+
+import type { Migration } from './types.js';
+
+export const migration0004: Migration = {
+  version: '0004',
+  name: 'field_search_index',
+
+  up: (db) => {
+    const result = db.exec("PRAGMA table_info(search_index)");
+    if (result.length === 0) return;
+
+    const columns = result[0].values.map(row => row[1] as string);
+    if (columns.includes('field')) {
+      console.error('[Migration 0004] search_index already has field column, skipping');
+      return;
+    }
+
+    db.run('DROP TABLE search_index');
+    console.error('[Migration 0004] Dropped legacy search_index (will be rebuilt)');
+  },
+};
@@ -0,0 +1,53 @@
+/**
+ * Migration 0005: Add validity intervals to semantic entities
+ *
+ * valid_from/valid_to record when a fact held (as opposed to when it was
+ * recorded), and observation_history keeps every observation with its own
+ * interval. Existing entities become valid from their creation time; their
+ * observation history is filled in on read. Archived versions get the same
+ * columns so that reverting to a version restores when the fact held.
+ */
+
+import type { Migration } from './types.js';
+
+export const migration0005: Migration = {
+  version: '0005',
+  name: 'add_validity_intervals',
+
+  up: (db) => {
+    const result = db.exec("PRAGMA table_info(semantic_entities)");
+    if (result.length === 0) return;
+
+    const columns = result[0].values.map(row => row[1] as string);
+
+    if (!columns.includes('valid_from')) {
+      db.run('ALTER TABLE semantic_entities ADD COLUMN valid_from INTEGER');
+      db.run('UPDATE semantic_entities SET valid_from = created_at');
+      console.error('[Migration 0005] Added valid_from column to semantic_entities');
+    }
+
+    if (!columns.includes('valid_to')) {
+      db.run('ALTER TABLE semantic_entities ADD COLUMN valid_to INTEGER');
+      console.error('[Migration 0005] Added valid_to column to semantic_entities');
+    }
+
+    if (!columns.includes('observation_history')) {
+      db.run('ALTER TABLE semantic_entities ADD COLUMN observation_history TEXT');
+      console.error('[Migration 0005] Added observation_history column to semantic_entities');
+    }
+
+    db.run('CREATE INDEX IF NOT EXISTS idx_semantic_validity ON semantic_entities(valid_from, valid_to)');
+
+    const versions = db.exec("PRAGMA table_info(semantic_entity_versions)");
+    if (versions.length === 0) return;
+
+    const versionColumns = versions[0].values.map(row => row[1] as string);
+
+    for (const [column, type] of [['valid_from', 'INTEGER'], ['valid_to', 'INTEGER'], ['observation_history', 'TEXT']]) {
+      if (!versionColumns.includes(column)) {
+        db.run(`ALTER TABLE semantic_entity_versions ADD COLUMN ${column} ${type}`);
+        console.error(`[Migration 0005] Added ${column} column to semantic_entity_versions`);
+      }
+    }
+  },
+};
@@ -0,0 +1,45 @@
+/**
+ * Migration 0006: Add aliases to semantic entities
+ *
+ * aliases lists other names an entity can be looked up by, including the
+ * names of entities merged into it. Archived versions keep their aliases so
+ * that reverting to a version restores the names the entity was known by.
+ * Merging an entity also moves its relations to the surviving entity;
+ * updated_at on semantic_relations records the move so that the next sync
+ * delta carries the new endpoints.
+ */
+
+import type { Migration } from './types.js';
+
+export const migration0006: Migration = {
+  version: '0006',
+  name: 'add_entity_aliases',
+
+  up: (db) => {
+    const result = db.exec("PRAGMA table_info(semantic_entities)");
+    if (result.length === 0) return;
+
+    const columns = result[0].values.map(row => row[1] as string);
+
+    if (!columns.includes('aliases')) {
+      db.run("ALTER TABLE semantic_entities ADD COLUMN aliases TEXT DEFAULT '[]'");
+      console.error('[Migration 0006] Added aliases column to semantic_entities');
+    }
+
+    const versions = db.exec("PRAGMA table_info(semantic_entity_versions)");
+    const versionColumns = versions.length > 0 ? versions[0].values.map(row => row[1] as string) : [];
+
+    if (versions.length > 0 && !versionColumns.includes('aliases')) {
+      db.run('ALTER TABLE semantic_entity_versions ADD COLUMN aliases TEXT');
+      console.error('[Migration 0006] Added aliases column to semantic_entity_versions');
+    }
+
+    const relations = db.exec("PRAGMA table_info(semantic_relations)");
+    const relationColumns = relations.length > 0 ? relations[0].values.map(row => row[1] as string) : [];
+
+    if (relations.length > 0 && !relationColumns.includes('updated_at')) {
+      db.run('ALTER TABLE semantic_relations ADD COLUMN updated_at INTEGER');
+      console.error('[Migration 0006] Added updated_at column to semantic_relations');
+    }
+  },
+};
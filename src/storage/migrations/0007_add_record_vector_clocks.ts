@@ -0,0 +1,29 @@
+/**
+ * Migration 0007: Add per-record vector clocks
+ *
+ * vector_clock holds the clock of a record's last change, so that Tachikoma
+ * imports can tell causally newer edits from concurrent ones.
+ */
+
+import type { Migration } from './types.js';
+
+const TABLES = ['working_memory', 'episodic_memory', 'semantic_entities'];
+
+export const migration0007: Migration = {
+  version: '0007',
+  name: 'add_record_vector_clocks',
+
+  up: (db) => {
+    for (const table of TABLES) {
+      const result = db.exec(`PRAGMA table_info(${table})`);
+      if (result.length === 0) continue;
+
+      const columns = result[0].values.map(row => row[1] as string);
+
+      if (!columns.includes('vector_clock')) {
+        db.run(`ALTER TABLE ${table} ADD COLUMN vector_clock TEXT DEFAULT '{}'`);
+        console.error(`[Migration 0007] Added vector_clock column to ${table}`);
+      }
+    }
+  },
+};
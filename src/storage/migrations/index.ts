@@ -9,6 +9,10 @@ export { MigrationRunner } from './MigrationRunner.js';
 import { migration0001 } from './0001_initial_schema.js';
 import { migration0002 } from './0002_add_stability_field.js';
 import { migration0003 } from './0003_add_valence_arousal.js';
+import { migration0004 } from './0004_field_search_index.js';
+import { migration0005 } from './0005_add_validity_intervals.js';
+import { migration0006 } from './0006_add_entity_aliases.js';
+import { migration0007 } from './0007_add_record_vector_clocks.js';
 
 /**
  * All registered migrations in order
@@ -17,4 +21,8 @@ export const allMigrations = [
   migration0001,
   migration0002,
   migration0003,
+  migration0004,
+  migration0005,
+  migration0006,
+  migration0007,
 ];
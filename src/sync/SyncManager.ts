@@ -43,6 +43,12 @@ export class SyncManager {
     await adapter.initialize();
     this.adapters.set(name, adapter);
 
+    // Resume pulling where the previous process stopped
+    const cursor = this.storage.getSyncAdapterState(name)?.cursor;
+    if (cursor !== undefined && adapter.setCursor) {
+      adapter.setCursor(cursor);
+    }
+
     // Set up sync callback if adapter supports real-time sync
     if (adapter.onSync) {
       adapter.onSync((delta) => this.handleIncomingDelta(name, delta));
@@ -75,15 +81,18 @@ export class SyncManager {
   }
 
   /**
-   * Push to all adapters
+   * Push to all adapters. Without a timestamp, each adapter gets what changed
+   * since its last successful push.
    */
   async pushToAll(sinceTimestamp?: number): Promise<Map<string, SyncResult>> {
-    const delta = this.storage.exportDelta(sinceTimestamp);
+    const shared = sinceTimestamp !== undefined ? this.storage.exportDelta(sinceTimestamp) : undefined;
     const results = new Map<string, SyncResult>();
 
     for (const [name, adapter] of this.adapters) {
       try {
+        const delta = shared ?? this.storage.exportDelta(this.storage.getSyncAdapterState(name)?.lastPushAt);
         const result = await adapter.push(delta);
+        this.recordPush(name, delta, result);
         results.set(name, result);
         this.emitEvent({
           type: 'push',
@@ -113,7 +122,7 @@ export class SyncManager {
   }
 
   /**
-   * Push to a specific adapter
+   * Push to a specific adapter (by default, what changed since its last successful push)
    */
   async pushTo(adapterName: string, sinceTimestamp?: number): Promise<SyncResult> {
     const adapter = this.adapters.get(adapterName);
@@ -121,8 +130,10 @@ export class SyncManager {
       throw new Error(`Adapter "${adapterName}" not found`);
     }
 
-    const delta = this.storage.exportDelta(sinceTimestamp);
-    return adapter.push(delta);
+    const delta = this.storage.exportDelta(sinceTimestamp ?? this.storage.getSyncAdapterState(adapterName)?.lastPushAt);
+    const result = await adapter.push(delta);
+    this.recordPush(adapterName, delta, result);
+    return result;
   }
 
   /**
@@ -148,6 +159,7 @@ export class SyncManager {
                              importResult.merged.semantic.relations;
           allConflicts = allConflicts.concat(importResult.conflicts);
         }
+        this.recordCursor(name, adapter);
 
         const result: SyncResult = {
           success: true,
@@ -216,6 +228,7 @@ export class SyncManager {
                          importResult.merged.semantic.relations;
       allConflicts.push(...importResult.conflicts);
     }
+    this.recordCursor(adapterName, adapter);
 
     return {
       success: true,
@@ -361,6 +374,24 @@ export class SyncManager {
     }
   }
 
+  /**
+   * Remember a successful push, so the next one only carries later changes
+   */
+  private recordPush(name: string, delta: ParallelizationExport, result: SyncResult): void {
+    if (!result.success) return;
+    // Records written later in the same millisecond are still pushed next time
+    this.storage.saveSyncAdapterState({ name, lastPushAt: delta.exportedAt - 1 });
+  }
+
+  /**
+   * Keep the cursor of an adapter that pulls by cursor
+   */
+  private recordCursor(name: string, adapter: SyncAdapter): void {
+    if (adapter.getCursor) {
+      this.storage.saveSyncAdapterState({ name, cursor: adapter.getCursor() });
+    }
+  }
+
   /**
    * Emit an event to all handlers
    */
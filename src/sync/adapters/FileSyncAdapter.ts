@@ -220,6 +220,9 @@ export class FileSyncAdapter implements SyncAdapter {
     return delta.delta.working.length +
            delta.delta.episodic.length +
            delta.delta.semantic.entities.length +
-           delta.delta.semantic.relations.length;
+           delta.delta.semantic.relations.length +
+           (delta.delta.patterns?.length ?? 0) +
+           (delta.delta.insights?.length ?? 0) +
+           (delta.delta.wisdom?.length ?? 0);
   }
 }
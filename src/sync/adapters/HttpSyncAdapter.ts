@@ -0,0 +1,189 @@
+/**
+ * HttpSyncAdapter - HTTP sync adapter for cc-memory
+ * Pushes and pulls deltas through the /api/sync routes of the HTTP server
+ */
+
+import type { ParallelizationExport, TachikomaId } from '../../memory/types.js';
+import type {
+  SyncAdapter,
+  SyncAdapterType,
+  SyncResult,
+  SyncStatus,
+  HttpSyncAdapterConfig,
+} from '../types.js';
+
+/** Request timeout in ms */
+const REQUEST_TIMEOUT = 30000;
+
+interface PullResponse {
+  deltas: ParallelizationExport[];
+  cursor: number;
+  hasMore: boolean;
+}
+
+/** Error response of the sync server */
+class SyncServerError extends Error {
+  constructor(message: string, readonly status: number, readonly body?: { message?: string; oldestCursor?: number }) {
+    super(message);
+    this.name = 'SyncServerError';
+  }
+}
+
+export class HttpSyncAdapter implements SyncAdapter {
+  readonly type: SyncAdapterType = 'http';
+  readonly name: string;
+
+  private baseUrl: string;
+  private apiKey: string;
+  private namespace: string;
+  private cursor = 0;
+  private currentTachikomaId?: TachikomaId;
+  private lastSyncAt?: number;
+
+  constructor(config: HttpSyncAdapterConfig) {
+    this.name = config.name || 'http';
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.apiKey = config.apiKey;
+    this.namespace = config.namespace || 'default';
+  }
+
+  /**
+   * Set the current Tachikoma ID to filter out self-exports
+   */
+  setTachikomaId(id: TachikomaId): void {
+    this.currentTachikomaId = id;
+  }
+
+  /**
+   * Cursor of the last pulled delta (persist it to resume pulling after a restart)
+   */
+  getCursor(): number {
+    return this.cursor;
+  }
+
+  setCursor(cursor: number): void {
+    this.cursor = cursor;
+  }
+
+  async initialize(): Promise<void> {
+    // The server may be unreachable for now; only the configuration is checked
+    new URL(this.baseUrl);
+    if (!this.apiKey) {
+      throw new Error('API key is required for HTTP sync');
+    }
+  }
+
+  async close(): Promise<void> {
+    // No persistent connection to close
+  }
+
+  async push(delta: ParallelizationExport): Promise<SyncResult> {
+    try {
+      await this.request('POST', 'deltas', delta);
+      this.lastSyncAt = Date.now();
+
+      return {
+        success: true,
+        syncedItems: this.countItems(delta),
+        conflicts: [],
+      };
+    } catch (error) {
+      return {
+        success: false,
+        syncedItems: 0,
+        conflicts: [],
+        error: (error as Error).message,
+      };
+    }
+  }
+
+  async pull(): Promise<ParallelizationExport[]> {
+    const deltas: ParallelizationExport[] = [];
+
+    // The cursor only moves once every page is pulled, so a failed pull is retried in full
+    let cursor = this.cursor;
+    let hasMore = true;
+    while (hasMore) {
+      const params = new URLSearchParams({ after: String(cursor) });
+      if (this.currentTachikomaId) {
+        params.set('exclude', this.currentTachikomaId);
+      }
+
+      let page: PullResponse;
+      try {
+        page = await this.request<PullResponse>('GET', `deltas?${params}`);
+      } catch (error) {
+        // The server dropped deltas we had not pulled yet; resync from the oldest one it keeps
+        const oldestCursor = error instanceof SyncServerError && error.status === 410 ? error.body?.oldestCursor : undefined;
+        if (oldestCursor === undefined || oldestCursor - 1 <= cursor) throw error;
+        console.error(`[HttpSyncAdapter] Deltas after cursor ${cursor} were dropped by the server; resyncing from ${oldestCursor - 1}`);
+        cursor = oldestCursor - 1;
+        continue;
+      }
+      deltas.push(...page.deltas);
+      hasMore = page.hasMore && page.cursor > cursor;
+      cursor = page.cursor;
+    }
+    this.cursor = cursor;
+
+    if (deltas.length > 0) {
+      this.lastSyncAt = Date.now();
+    }
+
+    return deltas;
+  }
+
+  async getStatus(): Promise<SyncStatus> {
+    try {
+      const status = await this.request<{ cursor: number }>('GET', 'status');
+      return {
+        connected: true,
+        lastSyncAt: this.lastSyncAt,
+        // Includes our own deltas, which are skipped on pull
+        pendingChanges: Math.max(0, status.cursor - this.cursor),
+      };
+    } catch (error) {
+      return {
+        connected: false,
+        lastSyncAt: this.lastSyncAt,
+        pendingChanges: 0,
+        error: (error as Error).message,
+      };
+    }
+  }
+
+  /**
+   * Call a route of the namespace and return the JSON response
+   */
+  private async request<T>(method: 'GET' | 'POST', path: string, body?: unknown): Promise<T> {
+    const url = `${this.baseUrl}/api/sync/${encodeURIComponent(this.namespace)}/${path}`;
+    const response = await fetch(url, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+    });
+
+    const data = await response.json().catch(() => undefined) as SyncServerError['body'];
+    if (!response.ok) {
+      throw new SyncServerError(`Sync server responded ${response.status}: ${data?.message ?? response.statusText}`, response.status, data);
+    }
+    return data as T;
+  }
+
+  /**
+   * Count items in a delta
+   */
+  private countItems(delta: ParallelizationExport): number {
+    return delta.delta.working.length +
+           delta.delta.episodic.length +
+           delta.delta.semantic.entities.length +
+           delta.delta.semantic.relations.length +
+           (delta.delta.patterns?.length ?? 0) +
+           (delta.delta.insights?.length ?? 0) +
+           (delta.delta.wisdom?.length ?? 0);
+  }
+}
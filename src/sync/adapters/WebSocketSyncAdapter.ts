@@ -0,0 +1,450 @@
+/**
+ * WebSocketSyncAdapter - Real-time sync adapter for cc-memory
+ * Streams deltas through WebSocketSyncServer (the /sync endpoint of the HTTP server)
+ *
+ * Each pushed delta is sent as a sync_event to the team room, which the server
+ * joins on authentication. Deltas received from the room are handed to the
+ * onSync callback, or kept for the next pull() when none is set. While the
+ * connection is down, pushed deltas are queued and sent after reconnecting;
+ * such a push is reported as not synced, with the queue length.
+ */
+
+import { randomBytes } from 'crypto';
+import WebSocket from 'ws';
+import type { ParallelizationExport, SyncVector, TachikomaId } from '../../memory/types.js';
+import type {
+  SyncAdapter,
+  SyncAdapterType,
+  SyncResult,
+  SyncStatus,
+  WebSocketSyncAdapterConfig,
+} from '../types.js';
+import type { SyncEvent } from '../EventDrivenSyncManager.js';
+import { serializeSyncBatch, serializeSyncEvent } from '../EventDrivenSyncManager.js';
+import { VectorClock } from '../VectorClock.js';
+
+/** Key of the memory change that carries a delta */
+const DELTA_EVENT_KEY = 'tachikoma_delta';
+/** Longest wait between reconnect attempts in ms */
+const MAX_RECONNECT_INTERVAL = 60000;
+/** Deltas kept while offline (oldest are dropped first) */
+const MAX_QUEUED_DELTAS = 100;
+
+/** Builds the delta sent in answer to a sync_request */
+export type DeltaProvider = (sinceVectorClock?: SyncVector) => ParallelizationExport;
+
+interface IncomingMessage {
+  type: string;
+  id: string;
+  success?: boolean;
+  team?: string;
+  error?: string;
+  code?: string;
+  message?: string;
+  originalMessageId?: string;
+  event?: { data?: { key?: string; value?: unknown } };
+  batch?: { events?: Array<{ data?: { key?: string; value?: unknown } }> };
+  requestId?: string;
+  sinceVectorClock?: SyncVector;
+}
+
+export class WebSocketSyncAdapter implements SyncAdapter {
+  readonly type: SyncAdapterType = 'websocket';
+  readonly name: string;
+
+  private serverUrl: string;
+  private apiKey: string;
+  private reconnectInterval: number;
+  private socket?: WebSocket;
+  private authenticated = false;
+  private closed = false;
+  private reconnectAttempts = 0;
+  private reconnectTimer?: NodeJS.Timeout;
+  private team?: string;
+  private currentTachikomaId?: TachikomaId;
+  private deltaProvider?: DeltaProvider;
+  private outbox: ParallelizationExport[] = [];
+  private inbox: ParallelizationExport[] = [];
+  private lastSyncAt?: number;
+  private lastError?: string;
+  private onSyncCallback?: (delta: ParallelizationExport) => void;
+  private pendingRequests: Map<string, {
+    resolve: (deltas: ParallelizationExport[]) => void;
+    reject: (error: Error) => void;
+    timeout: NodeJS.Timeout;
+  }> = new Map();
+
+  constructor(config: WebSocketSyncAdapterConfig) {
+    this.name = config.name || 'websocket';
+    this.serverUrl = config.serverUrl;
+    this.apiKey = config.apiKey;
+    this.reconnectInterval = config.reconnectInterval ?? 5000;
+  }
+
+  /**
+   * Set the current Tachikoma ID to filter out self-exports
+   */
+  setTachikomaId(id: TachikomaId): void {
+    this.currentTachikomaId = id;
+  }
+
+  /**
+   * Set how to build the delta that answers sync requests from other clients
+   */
+  setDeltaProvider(provider: DeltaProvider): void {
+    this.deltaProvider = provider;
+  }
+
+  /**
+   * Connect and authenticate. Resolves once authenticated, or once the first
+   * attempt fails (reconnecting in the background). Rejects if the API key is refused.
+   */
+  async initialize(): Promise<void> {
+    this.closed = false;
+    await this.connect();
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+    for (const [id, pending] of this.pendingRequests) {
+      clearTimeout(pending.timeout);
+      pending.reject(new Error('Adapter closed'));
+      this.pendingRequests.delete(id);
+    }
+    this.socket?.close(1000, 'Adapter closed');
+    this.socket = undefined;
+    this.authenticated = false;
+  }
+
+  async push(delta: ParallelizationExport): Promise<SyncResult> {
+    if (!this.authenticated || !this.sendDelta(delta)) {
+      const dropped = this.queue(delta);
+      return {
+        success: false,
+        syncedItems: 0,
+        conflicts: [],
+        error: 'Not connected to sync server; the delta is queued until reconnecting',
+        queued: this.outbox.length,
+        dropped,
+      };
+    }
+
+    this.lastSyncAt = Date.now();
+    return { success: true, syncedItems: this.countItems(delta), conflicts: [] };
+  }
+
+  async pull(): Promise<ParallelizationExport[]> {
+    const deltas = this.inbox;
+    this.inbox = [];
+    return deltas;
+  }
+
+  async getStatus(): Promise<SyncStatus> {
+    return {
+      connected: this.authenticated,
+      lastSyncAt: this.lastSyncAt,
+      // Deltas waiting to be sent plus deltas waiting to be pulled
+      pendingChanges: this.outbox.length + this.inbox.length,
+      error: this.authenticated ? undefined : this.lastError,
+    };
+  }
+
+  onSync(callback: (delta: ParallelizationExport) => void): void {
+    this.onSyncCallback = callback;
+  }
+
+  /**
+   * Ask another client of the team for its changes
+   */
+  requestSync(targetClientId: string, sinceVectorClock?: SyncVector, timeoutMs: number = 30000): Promise<ParallelizationExport[]> {
+    if (!this.authenticated) {
+      return Promise.reject(new Error('Not connected to sync server'));
+    }
+
+    const id = this.generateId();
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.pendingRequests.delete(id);
+        reject(new Error('Sync request timed out'));
+      }, timeoutMs);
+
+      this.pendingRequests.set(id, { resolve, reject, timeout });
+      if (!this.send({ type: 'sync_request', id, targetClientId, sinceVectorClock })) {
+        clearTimeout(timeout);
+        this.pendingRequests.delete(id);
+        reject(new Error('Not connected to sync server'));
+      }
+    });
+  }
+
+  /**
+   * Open a connection and authenticate
+   */
+  private connect(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      const settle = (error?: Error) => {
+        if (settled) return;
+        settled = true;
+        if (error) reject(error);
+        else resolve();
+      };
+
+      const socket = new WebSocket(this.serverUrl);
+      this.socket = socket;
+
+      socket.on('open', () => {
+        this.send({ type: 'auth', id: this.generateId(), token: this.apiKey });
+      });
+
+      socket.on('message', (data) => {
+        let message: IncomingMessage;
+        try {
+          message = JSON.parse(data.toString()) as IncomingMessage;
+        } catch {
+          return;
+        }
+
+        if (message.type === 'auth_response') {
+          if (message.success) {
+            this.handleAuthenticated(message.team);
+            settle();
+          } else {
+            // A refused key will not be accepted on retry either
+            this.lastError = message.error ?? 'Authentication failed';
+            this.closed = true;
+            socket.close(1000, 'Authentication failed');
+            settle(new Error(`WebSocket sync authentication failed: ${this.lastError}`));
+          }
+          return;
+        }
+
+        this.handleMessage(message);
+      });
+
+      socket.on('error', (error) => {
+        this.lastError = error.message;
+      });
+
+      socket.on('close', () => {
+        if (this.socket === socket) {
+          this.socket = undefined;
+          this.authenticated = false;
+        }
+        this.scheduleReconnect();
+        settle();
+      });
+    });
+  }
+
+  private handleAuthenticated(team?: string): void {
+    this.authenticated = true;
+    this.team = team;
+    this.reconnectAttempts = 0;
+    this.lastError = undefined;
+
+    // Send what was pushed while offline
+    const queued = this.outbox;
+    this.outbox = [];
+    for (const delta of queued) {
+      if (!this.sendDelta(delta)) {
+        this.queue(delta);
+      }
+    }
+    if (this.outbox.length < queued.length) {
+      this.lastSyncAt = Date.now();
+    }
+  }
+
+  /**
+   * Queue a delta for sending after reconnecting and return how many of the
+   * oldest queued deltas were dropped to make room
+   */
+  private queue(delta: ParallelizationExport): number {
+    this.outbox.push(delta);
+    const dropped = Math.max(0, this.outbox.length - MAX_QUEUED_DELTAS);
+    if (dropped > 0) {
+      this.outbox.splice(0, dropped);
+      console.error(`[${this.name}] Offline queue is full; dropped the oldest ${dropped} delta(s)`);
+    }
+    return dropped;
+  }
+
+  private handleMessage(message: IncomingMessage): void {
+    switch (message.type) {
+      case 'sync_event':
+        this.receiveDeltas([message.event?.data]);
+        break;
+
+      case 'sync_batch':
+        this.receiveDeltas((message.batch?.events ?? []).map(event => event.data));
+        break;
+
+      case 'sync_request':
+        this.answerSyncRequest(message);
+        break;
+
+      case 'sync_response': {
+        const deltas = this.extractDeltas((message.batch?.events ?? []).map(event => event.data));
+        const pending = message.requestId ? this.pendingRequests.get(message.requestId) : undefined;
+        if (pending) {
+          clearTimeout(pending.timeout);
+          this.pendingRequests.delete(message.requestId!);
+          pending.resolve(deltas);
+        }
+        break;
+      }
+
+      case 'ping':
+        this.send({ type: 'pong', id: this.generateId() });
+        break;
+
+      case 'error': {
+        const pending = message.originalMessageId ? this.pendingRequests.get(message.originalMessageId) : undefined;
+        if (pending) {
+          clearTimeout(pending.timeout);
+          this.pendingRequests.delete(message.originalMessageId!);
+          pending.reject(new Error(message.message ?? message.code ?? 'Sync request failed'));
+        } else {
+          this.lastError = message.message;
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Answer a sync request with the delta from the provider
+   */
+  private answerSyncRequest(message: IncomingMessage): void {
+    if (!this.deltaProvider) {
+      return;
+    }
+
+    let delta: ParallelizationExport;
+    try {
+      delta = this.deltaProvider(message.sinceVectorClock);
+    } catch (error) {
+      this.lastError = (error as Error).message;
+      return;
+    }
+
+    const event = this.createDeltaEvent(delta);
+    this.send({
+      type: 'sync_response',
+      id: this.generateId(),
+      requestId: message.id,
+      batch: serializeSyncBatch({
+        id: `batch_${Date.now()}_${randomBytes(4).toString('hex')}`,
+        events: [event],
+        source: delta.tachikomaId,
+        vectorClock: event.vectorClock,
+        timestamp: Date.now(),
+      }),
+    });
+  }
+
+  private receiveDeltas(changes: Array<{ key?: string; value?: unknown } | undefined>): void {
+    const deltas = this.extractDeltas(changes);
+    if (deltas.length === 0) {
+      return;
+    }
+
+    this.lastSyncAt = Date.now();
+    for (const delta of deltas) {
+      if (this.onSyncCallback) {
+        this.onSyncCallback(delta);
+      } else {
+        this.inbox.push(delta);
+      }
+    }
+  }
+
+  /**
+   * Deltas carried by memory changes, except our own
+   */
+  private extractDeltas(changes: Array<{ key?: string; value?: unknown } | undefined>): ParallelizationExport[] {
+    return changes
+      .filter(change => change?.key === DELTA_EVENT_KEY)
+      .map(change => change!.value as ParallelizationExport)
+      .filter(delta =>
+        delta?.format === 'tachikoma-parallelize-delta' &&
+        (!this.currentTachikomaId || delta.tachikomaId !== this.currentTachikomaId)
+      );
+  }
+
+  private sendDelta(delta: ParallelizationExport): boolean {
+    const event = this.createDeltaEvent(delta);
+    return this.send({
+      type: 'sync_event',
+      id: this.generateId(),
+      event: serializeSyncEvent(event),
+      // Without a team the event goes to the rooms joined on the server, if any
+      room: this.team ? `team:${this.team}` : undefined,
+    });
+  }
+
+  private createDeltaEvent(delta: ParallelizationExport): SyncEvent {
+    return {
+      id: `evt_${Date.now()}_${randomBytes(4).toString('hex')}`,
+      type: 'batch',
+      source: delta.tachikomaId,
+      target: 'broadcast',
+      data: { memoryType: 'shared', key: DELTA_EVENT_KEY, value: delta },
+      vectorClock: VectorClock.fromObject(delta.syncVector),
+      timestamp: Date.now(),
+      priority: 'normal',
+      retryCount: 0,
+    };
+  }
+
+  /**
+   * Send a message if the socket is open
+   */
+  private send(message: Record<string, unknown>): boolean {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
+      return false;
+    }
+    this.socket.send(JSON.stringify({ ...message, timestamp: Date.now() }));
+    return true;
+  }
+
+  /**
+   * Reconnect with exponential backoff
+   */
+  private scheduleReconnect(): void {
+    if (this.closed || this.reconnectTimer) {
+      return;
+    }
+
+    const delay = Math.min(this.reconnectInterval * 2 ** this.reconnectAttempts, MAX_RECONNECT_INTERVAL);
+    this.reconnectAttempts++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.connect().catch(error => {
+        console.error(`[${this.name}] ${(error as Error).message}`);
+      });
+    }, delay);
+  }
+
+  private generateId(): string {
+    return `msg_${Date.now()}_${randomBytes(4).toString('hex')}`;
+  }
+
+  /**
+   * Count items in a delta
+   */
+  private countItems(delta: ParallelizationExport): number {
+    return delta.delta.working.length +
+           delta.delta.episodic.length +
+           delta.delta.semantic.entities.length +
+           delta.delta.semantic.relations.length +
+           (delta.delta.patterns?.length ?? 0) +
+           (delta.delta.insights?.length ?? 0) +
+           (delta.delta.wisdom?.length ?? 0);
+  }
+}
@@ -7,6 +7,8 @@ export { SyncManager } from './SyncManager.js';
 export { FileSyncAdapter } from './adapters/FileSyncAdapter.js';
 export { CloudSyncAdapter } from './adapters/CloudSyncAdapter.js';
 export { GitHubSyncAdapter } from './adapters/GitHubSyncAdapter.js';
+export { HttpSyncAdapter } from './adapters/HttpSyncAdapter.js';
+export { WebSocketSyncAdapter, type DeltaProvider } from './adapters/WebSocketSyncAdapter.js';
 export { EncryptedSyncAdapter } from './adapters/EncryptedSyncAdapter.js';
 
 // Encryption utilities
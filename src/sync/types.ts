@@ -23,6 +23,10 @@ export interface SyncResult {
   syncedItems: number;
   conflicts: ConflictRecord[];
   error?: string;
+  /** Deltas waiting to be sent, when a push could only be queued */
+  queued?: number;
+  /** Queued deltas dropped to make room (the next push carries their changes again) */
+  dropped?: number;
 }
 
 /** Sync adapter status */
@@ -53,6 +57,7 @@ export interface CloudSyncAdapterConfig extends SyncAdapterConfig {
 export interface HttpSyncAdapterConfig extends SyncAdapterConfig {
   baseUrl: string;
   apiKey: string;
+  /** Namespace on the server (default: 'default'). "team:<id>" is shared by the team, others are private to the API key */
   namespace?: string;
 }
 
@@ -158,6 +163,13 @@ export interface SyncAdapter {
    * Used by adapters that support real-time sync (e.g., file watcher, websocket)
    */
   onSync?(callback: (delta: ParallelizationExport) => void): void;
+
+  /**
+   * Optional: Position of the last pulled delta, for adapters that pull by cursor.
+   * The SyncManager keeps it in storage so pulling resumes after a restart.
+   */
+  getCursor?(): number;
+  setCursor?(cursor: number): void;
 }
 
 // ============================================================================
@@ -1,13 +1,15 @@
 #!/bin/bash
 # CC-Memory OODA Session Start Hook
 # Injects OODA context and instructions at session start
-# Memory recall is done within Claude's session using MCP tools directly
+# Memory recall is done within Claude's session using MCP tools directly;
+# if cc-memory-cli is installed, a token-budgeted recall is injected as well
 
 set -e
 
 # Configuration
 LOG_FILE="${CC_MEMORY_LOG:-/tmp/cc-memory-hook.log}"
 ENABLE_OODA="${CC_MEMORY_ENABLE_OODA:-true}"
+CONTEXT_TOKENS="${CC_MEMORY_CONTEXT_TOKENS:-1500}"
 
 # Skip if OODA is disabled
 if [ "$ENABLE_OODA" = "false" ]; then
@@ -78,6 +80,26 @@ Use these commands for structured problem-solving:
 - \`/memory-status\` - Check memory statistics
 "
 
+# Inject packed memories (output is deterministic and stays within the token budget)
+if [ "$CONTEXT_TOKENS" != "0" ] && command -v cc-memory-cli >/dev/null 2>&1; then
+  # timeout is not installed on macOS by default (coreutils provides gtimeout)
+  TIMEOUT_CMD=""
+  if command -v timeout >/dev/null 2>&1; then
+    TIMEOUT_CMD="timeout 10"
+  elif command -v gtimeout >/dev/null 2>&1; then
+    TIMEOUT_CMD="gtimeout 10"
+  fi
+  RECALLED=$($TIMEOUT_CMD cc-memory-cli context --query "$PROJECT_NAME" --max-tokens "$CONTEXT_TOKENS" 2>>"$LOG_FILE" || true)
+  if [ -n "$RECALLED" ]; then
+    CONTEXT="${CONTEXT}
+### Recalled Memories
+
+${RECALLED}
+"
+    log "Injected recalled memories (budget: $CONTEXT_TOKENS tokens)"
+  fi
+fi
+
 log "Injecting OODA context for project: $PROJECT_NAME"
 
 # Output JSON with context for Claude
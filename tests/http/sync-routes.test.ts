@@ -0,0 +1,237 @@
+/**
+ * Sync HTTP Routes Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import express, { type Express } from 'express';
+import request from 'supertest';
+import { createServer } from 'http';
+import { addApiKey, createApiKeyAuth, createObserverKey, createWorkerKey } from '../../src/server/http/auth/apiKey.js';
+import type { ApiKeyConfig } from '../../src/server/http/auth/types.js';
+import { createSyncRouter } from '../../src/server/http/routes/sync.js';
+import { SyncDeltaStore } from '../../src/server/http/sync/deltaStore.js';
+import type { ParallelizationExport } from '../../src/memory/types.js';
+
+function createDelta(tachikomaId: string, exportedAt: number): ParallelizationExport {
+  return {
+    version: '1.1.0',
+    format: 'tachikoma-parallelize-delta',
+    tachikomaId,
+    exportedAt,
+    syncVector: { [tachikomaId]: exportedAt },
+    delta: {
+      working: [],
+      episodic: [],
+      semantic: { entities: [], relations: [] },
+    },
+    deleted: {
+      working: [],
+      episodic: [],
+      semantic: { entities: [], relations: [] },
+    },
+  };
+}
+
+async function supportsListen(): Promise<boolean> {
+  const testServer = createServer((_req, res) => res.end('ok'));
+  try {
+    await new Promise<void>((resolve, reject) => {
+      testServer.once('error', reject);
+      testServer.listen(0, '127.0.0.1', () => resolve());
+    });
+    return true;
+  } catch {
+    return false;
+  } finally {
+    try {
+      testServer.close();
+    } catch {
+      // ignore
+    }
+  }
+}
+
+const canListen = await supportsListen();
+const describeIf = canListen ? describe : describe.skip;
+
+describeIf('Sync HTTP Routes', () => {
+  let app: Express;
+  let dataDir: string;
+  let workerKey: string;
+  let otherWorkerKey: string;
+  let observerKey: string;
+
+  const createApp = () => {
+    const config: ApiKeyConfig = { keys: new Map(), teams: new Map() };
+    const worker = createWorkerKey('worker-1', 'alpha', 'manager-1');
+    const otherWorker = createWorkerKey('worker-2', 'alpha', 'manager-1');
+    const observer = createObserverKey('observer-1', 'alpha', 'manager-1');
+    addApiKey(config, worker.rawKey, worker.keyInfo);
+    addApiKey(config, otherWorker.rawKey, otherWorker.keyInfo);
+    addApiKey(config, observer.rawKey, observer.keyInfo);
+    workerKey = worker.rawKey;
+    otherWorkerKey = otherWorker.rawKey;
+    observerKey = observer.rawKey;
+
+    const server = express();
+    server.use(express.json());
+    server.use('/api/sync', createApiKeyAuth(config), createSyncRouter({
+      store: new SyncDeltaStore({ dataDir, maxDeltasPerNamespace: 3 }),
+      maxPullLimit: 2,
+    }));
+    return server;
+  };
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(join(tmpdir(), 'cc-memory-sync-routes-'));
+    app = createApp();
+  });
+
+  afterEach(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should push deltas and pull them by cursor', async () => {
+    for (const [tachikomaId, exportedAt] of [['tachi-a', 1], ['tachi-b', 2], ['tachi-a', 3]] as const) {
+      await request(app)
+        .post('/api/sync/team:alpha/deltas')
+        .set('Authorization', `Bearer ${workerKey}`)
+        .send(createDelta(tachikomaId, exportedAt))
+        .expect(201);
+    }
+
+    // Pushing the same delta again keeps its cursor
+    const retry = await request(app)
+      .post('/api/sync/team:alpha/deltas')
+      .set('Authorization', `Bearer ${workerKey}`)
+      .send(createDelta('tachi-b', 2))
+      .expect(201);
+    expect(retry.body.cursor).toBe(2);
+
+    const first = await request(app)
+      .get('/api/sync/team:alpha/deltas?after=0&exclude=tachi-b')
+      .set('Authorization', `Bearer ${observerKey}`)
+      .expect(200);
+    expect(first.body.deltas.map((d: ParallelizationExport) => d.exportedAt)).toEqual([1]);
+    expect(first.body).toMatchObject({ cursor: 2, hasMore: true });
+
+    const second = await request(app)
+      .get(`/api/sync/team:alpha/deltas?after=${first.body.cursor}&exclude=tachi-b`)
+      .set('Authorization', `Bearer ${observerKey}`)
+      .expect(200);
+    expect(second.body.deltas.map((d: ParallelizationExport) => d.exportedAt)).toEqual([3]);
+    expect(second.body).toMatchObject({ cursor: 3, hasMore: false });
+
+    const status = await request(app)
+      .get('/api/sync/team:alpha/status')
+      .set('Authorization', `Bearer ${observerKey}`)
+      .expect(200);
+    expect(status.body).toEqual({ namespace: 'team:alpha', cursor: 3, count: 3, oldestCursor: 1 });
+
+    // Namespaces are separate
+    const other = await request(app)
+      .get('/api/sync/other/deltas')
+      .set('Authorization', `Bearer ${workerKey}`)
+      .expect(200);
+    expect(other.body).toMatchObject({ deltas: [], cursor: 0, hasMore: false });
+  });
+
+  it('should keep the newest deltas across a restart', async () => {
+    for (let exportedAt = 1; exportedAt <= 5; exportedAt++) {
+      await request(app)
+        .post('/api/sync/project/deltas')
+        .set('Authorization', `Bearer ${workerKey}`)
+        .send(createDelta('tachi-a', exportedAt))
+        .expect(201);
+    }
+
+    app = createApp();
+    const status = await request(app)
+      .get('/api/sync/project/status')
+      .set('Authorization', `Bearer ${workerKey}`)
+      .expect(200);
+    expect(status.body).toMatchObject({ cursor: 5, count: 3, oldestCursor: 3 });
+
+    const pushed = await request(app)
+      .post('/api/sync/project/deltas')
+      .set('Authorization', `Bearer ${workerKey}`)
+      .send(createDelta('tachi-a', 6))
+      .expect(201);
+    expect(pushed.body.cursor).toBe(6);
+  });
+
+  it('should keep other namespaces private to the API key', async () => {
+    await request(app)
+      .post('/api/sync/project/deltas')
+      .set('Authorization', `Bearer ${workerKey}`)
+      .send(createDelta('tachi-a', 1))
+      .expect(201);
+
+    const other = await request(app)
+      .get('/api/sync/project/deltas')
+      .set('Authorization', `Bearer ${otherWorkerKey}`)
+      .expect(200);
+    expect(other.body).toMatchObject({ deltas: [], cursor: 0, hasMore: false });
+
+    const own = await request(app)
+      .get('/api/sync/project/deltas')
+      .set('Authorization', `Bearer ${workerKey}`)
+      .expect(200);
+    expect(own.body.deltas.map((d: ParallelizationExport) => d.exportedAt)).toEqual([1]);
+  });
+
+  it('should answer 410 when deltas after the cursor were dropped', async () => {
+    for (let exportedAt = 1; exportedAt <= 5; exportedAt++) {
+      await request(app)
+        .post('/api/sync/project/deltas')
+        .set('Authorization', `Bearer ${workerKey}`)
+        .send(createDelta('tachi-a', exportedAt))
+        .expect(201);
+    }
+
+    const gone = await request(app)
+      .get('/api/sync/project/deltas?after=1')
+      .set('Authorization', `Bearer ${workerKey}`)
+      .expect(410);
+    expect(gone.body).toMatchObject({ error: 'gone', oldestCursor: 3 });
+
+    const resumed = await request(app)
+      .get('/api/sync/project/deltas?after=2')
+      .set('Authorization', `Bearer ${workerKey}`)
+      .expect(200);
+    expect(resumed.body.deltas.map((d: ParallelizationExport) => d.exportedAt)).toEqual([3, 4]);
+  });
+
+  it('should enforce API keys, scopes and team namespaces', async () => {
+    await request(app).get('/api/sync/project/deltas').expect(401);
+
+    const readOnly = await request(app)
+      .post('/api/sync/project/deltas')
+      .set('Authorization', `Bearer ${observerKey}`)
+      .send(createDelta('tachi-a', 1))
+      .expect(403);
+    expect(readOnly.body.message).toContain('memory:write');
+
+    await request(app)
+      .post('/api/sync/project/deltas')
+      .set('Authorization', `Bearer ${workerKey}`)
+      .send({ format: 'something-else' })
+      .expect(400);
+
+    await request(app)
+      .get('/api/sync/team:alpha/status')
+      .set('Authorization', `Bearer ${workerKey}`)
+      .expect(200);
+    await request(app)
+      .get('/api/sync/team:beta/status')
+      .set('Authorization', `Bearer ${workerKey}`)
+      .expect(403);
+    await request(app)
+      .get('/api/sync/..%2Fetc/status')
+      .set('Authorization', `Bearer ${workerKey}`)
+      .expect(400);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Validity interval (bi-temporal fact) tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { MemoryManager } from '../../src/memory/MemoryManager.js';
+import { reconcileObservationHistory } from '../../src/memory/validity.js';
+import { createToolHandlers } from '../../src/server/tools.js';
+import { rmSync, existsSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('reconcileObservationHistory', () => {
+  it('should open added observations and close removed ones', () => {
+    const history = [
+      { text: 'Uses Node 18', validFrom: 100 },
+      { text: 'Deploys on Fridays', validFrom: 100 },
+      { text: 'Uses npm', validFrom: 50, validTo: 80 },
+    ];
+
+    expect(reconcileObservationHistory(history, ['Deploys on Fridays', 'Uses Node 22'], 200)).toEqual([
+      { text: 'Uses Node 18', validFrom: 100, validTo: 200 },
+      { text: 'Deploys on Fridays', validFrom: 100 },
+      { text: 'Uses npm', validFrom: 50, validTo: 80 },
+      { text: 'Uses Node 22', validFrom: 200 },
+    ]);
+    expect(history[0].validTo).toBeUndefined();
+  });
+});
+
+describe('Validity intervals', () => {
+  let manager: MemoryManager;
+  const testDataPath = join(tmpdir(), 'cc-memory-test-bitemporal-' + Date.now());
+  const day = 24 * 60 * 60 * 1000;
+
+  beforeEach(async () => {
+    manager = new MemoryManager({ dataPath: testDataPath, sessionId: 'test-session-001' });
+    await manager.ready();
+  });
+
+  afterEach(() => {
+    manager.close();
+    if (existsSync(testDataPath)) {
+      rmSync(testDataPath, { recursive: true, force: true });
+    }
+  });
+
+  it('should keep superseded entities for point-in-time queries', () => {
+    const switchedAt = Date.now() - 10 * day;
+    manager.semantic.create({
+      name: 'node-18',
+      type: 'fact',
+      description: 'The project runs on Node 18',
+      validFrom: switchedAt - 300 * day,
+    });
+    const node22 = manager.semantic.supersede('node-18', {
+      name: 'node-22',
+      type: 'fact',
+      description: 'The project runs on Node 22',
+      validFrom: switchedAt,
+    });
+
+    expect(node22).not.toBeNull();
+    expect(manager.semantic.get('node-18')!.validTo).toBe(switchedAt);
+    expect(manager.semantic.getRelations('node-22').map(r => r.relationType)).toEqual(['supersedes']);
+
+    const names = (query: Parameters<typeof manager.semantic.search>[0]) =>
+      manager.semantic.search(query).map(e => e.name).sort();
+    expect(names({ query: 'node' })).toEqual(['node-22']);
+    expect(names({ query: 'node', asOf: switchedAt - day })).toEqual(['node-18']);
+    expect(names({ query: 'node', includeHistory: true })).toEqual(['node-18', 'node-22']);
+    expect(names({ query: 'node', asOf: switchedAt - 400 * day })).toEqual([]);
+  });
+
+  it('should close superseded observations instead of overwriting them', () => {
+    const entity = manager.semantic.create({
+      name: 'runtime',
+      type: 'config',
+      description: 'Runtime setup',
+      observations: ['Uses Node 18', 'Uses pnpm'],
+      validFrom: Date.now() - 30 * day,
+    });
+    const switchedAt = Date.now() - 5 * day;
+    manager.semantic.addObservation('runtime', 'Uses Node 22', { validFrom: switchedAt, supersedes: 'Uses Node 18' });
+
+    const current = manager.semantic.get(entity.id)!;
+    expect(current.observations).toEqual(['Uses pnpm', 'Uses Node 22']);
+    expect(current.observationHistory).toEqual([
+      { text: 'Uses Node 18', validFrom: entity.validFrom, validTo: switchedAt },
+      { text: 'Uses pnpm', validFrom: entity.validFrom },
+      { text: 'Uses Node 22', validFrom: switchedAt },
+    ]);
+
+    const [before] = manager.semantic.search({ type: 'config', asOf: switchedAt - day });
+    expect(before.observations).toEqual(['Uses Node 18', 'Uses pnpm']);
+
+    // Removing an observation through a plain update closes it too
+    manager.semantic.update('runtime', { observations: ['Uses Node 22'] });
+    const history = manager.semantic.get('runtime')!.observationHistory!;
+    expect(history.find(r => r.text === 'Uses pnpm')!.validTo).toBeGreaterThanOrEqual(switchedAt);
+    expect(manager.semantic.search({ type: 'config', asOf: switchedAt })[0].observations).toEqual(['Uses pnpm', 'Uses Node 22']);
+  });
+
+  it('should restore validity when reverting to an archived version', () => {
+    const entity = manager.semantic.create({ name: 'node-version', type: 'fact', description: 'Node 18', validFrom: 1000 });
+    manager.semantic.update(entity.id, { description: 'Node 20', validTo: 9000 });
+
+    const archived = manager.getStorage().getEntityVersions(entity.id)[0].entity;
+    expect(archived.validFrom).toBe(1000);
+    expect(archived.validTo).toBeUndefined();
+
+    const reverted = manager.semantic.revert(entity.id, 1)!;
+    expect(reverted.description).toBe('Node 18');
+    expect(reverted.validFrom).toBe(1000);
+    expect(reverted.validTo).toBeUndefined();
+  });
+
+  it('should recall only currently valid facts unless history is requested', () => {
+    const handlers = createToolHandlers(manager, manager.getStorage());
+    handlers.semantic_create({ name: 'ci-provider', type: 'fact', description: 'CI runs on Jenkins' });
+    const created = handlers.semantic_create({
+      name: 'ci-provider-actions',
+      type: 'fact',
+      description: 'CI runs on GitHub Actions',
+      supersedes: 'ci-provider',
+    });
+    expect(created.success).toBe(true);
+
+    const recall = (include_history: boolean) => handlers.memory_recall({
+      query: 'CI',
+      include_working: false,
+      include_episodic: false,
+      include_semantic: true,
+      limit: 10,
+      include_history,
+    }).semantic.map(e => e.name).sort();
+    expect(recall(false)).toEqual(['ci-provider-actions']);
+    expect(recall(true)).toEqual(['ci-provider', 'ci-provider-actions']);
+
+    expect(handlers.semantic_create({ name: 'ci-provider-actions', type: 'fact', description: 'CI', supersedes: 'ci-provider' }))
+      .toMatchObject({ success: false, error: expect.stringContaining('needs a new name') });
+    expect(handlers.semantic_create({ name: 'x', type: 'fact', description: 'x', supersedes: 'missing' }))
+      .toEqual({ success: false, error: 'Entity to supersede not found' });
+    expect(handlers.semantic_add_observation({ identifier: 'ci-provider-actions', observation: 'y', supersedes: 'missing' }))
+      .toEqual({ success: false, error: 'Observation to supersede not found' });
+  });
+});
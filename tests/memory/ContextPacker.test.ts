@@ -0,0 +1,158 @@
+/**
+ * Context packer tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MemoryManager } from '../../src/memory/MemoryManager.js';
+import { ContextPacker, estimateTokens, type ContextCandidate } from '../../src/memory/ContextPacker.js';
+import { rmSync, existsSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+function candidate(id: string, relevance: number, text: string, layer: ContextCandidate['layer'] = 'episodic'): ContextCandidate {
+  return {
+    id,
+    layer,
+    relevance,
+    title: `- ${id}`,
+    summary: `- ${id}: ${text}`,
+    full: `- ${id}: ${text}\n  - Details: ${'detail '.repeat(40)}`,
+  };
+}
+
+describe('estimateTokens', () => {
+  it('should count about four characters per token and one per CJK character', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcdefgh')).toBe(2);
+    expect(estimateTokens('接続エラー')).toBe(5);
+  });
+});
+
+describe('ContextPacker', () => {
+  it('should keep everything at full detail when it fits', () => {
+    const packed = new ContextPacker({ tokenBudget: 5000 }).pack([
+      candidate('a', 1, 'database migration failed'),
+      candidate('b', 0.5, 'cache eviction storm'),
+    ]);
+
+    expect(packed.items.map(i => i.level)).toEqual(['full', 'full']);
+    expect(packed.text).toContain('## Relevant Past Events (Episodic Memory)');
+    expect(packed.omitted).toEqual([]);
+  });
+
+  it('should degrade lower-ranked memories before higher-ranked ones', () => {
+    const candidates = ['a', 'b', 'c', 'd'].map((id, i) => candidate(id, 1 - i * 0.1, `topic ${id} ${'x'.repeat(i * 7)}`));
+    const packed = new ContextPacker({ tokenBudget: 160 }).pack(candidates);
+
+    expect(packed.tokens).toBeLessThanOrEqual(160);
+    expect(packed.items[0].id).toBe('a');
+    expect(packed.items[0].level).toBe('full');
+    expect(packed.items[packed.items.length - 1].level).not.toBe('full');
+  });
+
+  it('should fall back to titles and then omit memories under a tight budget', () => {
+    const words = ['alpha', 'bravo', 'charlie', 'delta', 'echo', 'foxtrot', 'golf', 'hotel', 'india', 'juliet'];
+    const candidates = words.map((word, i) => candidate(`m${i}`, 10 - i, `${word} ${word.toUpperCase()} ${word}-service outage`));
+    const packed = new ContextPacker({ tokenBudget: 15 }).pack(candidates);
+
+    expect(packed.tokens).toBeLessThanOrEqual(15);
+    expect(packed.items.some(i => i.level === 'title')).toBe(true);
+    expect(packed.omitted.length).toBeGreaterThan(0);
+    expect(packed.items.length + packed.omitted.length + packed.duplicates.length).toBe(10);
+  });
+
+  it('should drop near-duplicates', () => {
+    const packed = new ContextPacker().pack([
+      candidate('a', 1, 'Postgres connection pool exhausted under load'),
+      candidate('b', 0.9, 'Postgres connection pool exhausted under load'),
+      candidate('c', 0.8, 'Frontend bundle size regression'),
+    ]);
+
+    expect(packed.duplicates).toEqual(['b']);
+    expect(packed.items.map(i => i.id)).toEqual(['a', 'c']);
+  });
+
+  it('should produce identical output regardless of input order', () => {
+    const candidates = [
+      candidate('a', 1, 'alpha release notes'),
+      candidate('b', 1, 'beta rollout plan', 'semantic'),
+      candidate('c', 0.4, 'gamma incident review'),
+    ];
+    const packer = new ContextPacker({ tokenBudget: 120 });
+
+    expect(packer.pack([...candidates].reverse())).toEqual(packer.pack(candidates));
+  });
+});
+
+describe('MemoryManager.packContext', () => {
+  let manager: MemoryManager;
+  const testDataPath = join(tmpdir(), 'cc-memory-test-packer-' + Date.now());
+
+  beforeEach(async () => {
+    manager = new MemoryManager({
+      dataPath: testDataPath,
+      sessionId: 'test-session-001',
+    });
+    await manager.getStorage().ready();
+  });
+
+  afterEach(() => {
+    manager.close();
+    if (existsSync(testDataPath)) {
+      rmSync(testDataPath, { recursive: true, force: true });
+    }
+  });
+
+  it('should pack memories across layers within the budget', () => {
+    for (let i = 0; i < 8; i++) {
+      manager.episodic.record({
+        type: 'error',
+        summary: `Deploy failure ${i}`,
+        details: `Deploy ${i} failed because of ${'a long explanation '.repeat(20)}`,
+      });
+    }
+    manager.semantic.create({
+      name: 'deploy-pipeline',
+      type: 'concept',
+      description: 'How deploy jobs are run',
+      observations: ['Deploys run nightly'],
+    });
+    manager.getStorage().createPattern({ pattern: 'Deploy failures cluster on Fridays' });
+
+    const packed = manager.packContext('deploy', { tokenBudget: 300 });
+
+    expect(packed.tokens).toBeLessThanOrEqual(300);
+    expect(new Set(packed.items.map(i => i.layer))).toEqual(new Set(['episodic', 'semantic', 'pattern']));
+    expect(manager.packContext('deploy', { tokenBudget: 300 }).text).toBe(packed.text);
+  });
+
+  it('should show highlighted snippets instead of raw details', () => {
+    const details = `${'unrelated setup notes '.repeat(40)}then the rollback script fixed the deploy`;
+    manager.episodic.record({ type: 'success', summary: 'Release incident', details });
+
+    const packed = manager.packContext('rollback');
+
+    expect(packed.text).toContain('**rollback**');
+    expect(packed.text).not.toContain(details);
+  });
+
+  it('should keep stdout clean and leave access counts unchanged for hook output', async () => {
+    const episode = manager.episodic.record({ type: 'success', summary: 'Deploy fixed', details: 'Pinned the node version' });
+    manager.packContext('deploy');
+    manager.packContext('deploy');
+    expect(manager.getStorage().peekEpisodes([episode.id])[0].accessCount).toBe(0);
+
+    // Opening a new data path runs migrations; their logs must not reach stdout
+    const logSpy = vi.spyOn(console, 'log');
+    const freshPath = testDataPath + '-fresh';
+    const fresh = new MemoryManager({ dataPath: freshPath });
+    try {
+      await fresh.ready();
+      expect(logSpy).not.toHaveBeenCalled();
+    } finally {
+      logSpy.mockRestore();
+      fresh.close();
+      rmSync(freshPath, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Contradiction detection tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { MemoryManager } from '../../src/memory/MemoryManager.js';
+import { ContradictionDetector } from '../../src/memory/ContradictionDetector.js';
+import { createToolHandlers } from '../../src/server/tools.js';
+import type { SemanticEntity } from '../../src/memory/types.js';
+import { rmSync, existsSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+function entity(id: string, input: Partial<SemanticEntity>): SemanticEntity {
+  return {
+    id,
+    name: id,
+    type: 'preference',
+    description: '',
+    content: undefined,
+    observations: [],
+    confidence: 1,
+    source: 'user',
+    createdAt: 0,
+    updatedAt: 0,
+    version: 1,
+    tags: [],
+    ...input,
+  };
+}
+
+describe('ContradictionDetector', () => {
+  const detector = new ContradictionDetector();
+
+  it('should flag negated statements', () => {
+    const style = entity('code-style', {
+      description: 'Coding style preferences',
+      observations: ['Use tabs for indentation', 'Prefer single quotes'],
+    });
+
+    const found = detector.detect(style, [], ['Never use tabs for indentation']);
+    expect(found).toEqual([expect.objectContaining({
+      kind: 'negation',
+      statement: 'Never use tabs for indentation',
+      conflictingStatement: 'Use tabs for indentation',
+      conflictingEntityId: 'code-style',
+    })]);
+    expect(detector.detect(style, [], ['Do not use tabs for indentation'])).toHaveLength(1);
+    expect(detector.detect(style, [], ['Enable strict mode'])).toEqual([]);
+  });
+
+  it('should flag antonyms across entities', () => {
+    const cache = entity('build-cache', { type: 'config', description: 'Enable the build cache in CI' });
+    const ci = entity('ci-setup', { type: 'fact', description: 'CI setup notes', observations: ['Disable the build cache in CI'] });
+
+    expect(detector.detect(cache, [ci])).toEqual([expect.objectContaining({
+      kind: 'negation',
+      conflictingEntityId: 'ci-setup',
+      conflictingStatement: 'Disable the build cache in CI',
+    })]);
+  });
+
+  it('should flag opposing values for the same subject only', () => {
+    const indentation = entity('indentation', { content: { indent: 'spaces', width: 2 } });
+    const indentStyle = entity('indentation-style', { content: { indent: 'tabs' } });
+    const makefile = entity('makefile', { content: { indent: 'tabs' } });
+
+    const found = detector.detect(indentation, [indentStyle, makefile]);
+    expect(found).toHaveLength(1);
+    expect(found[0]).toMatchObject({
+      kind: 'opposing_value',
+      statement: 'indent: spaces',
+      conflictingEntityId: 'indentation-style',
+      conflictingStatement: 'indent: tabs',
+    });
+
+    const settings = entity('settings', { observations: ['theme: dark'] });
+    expect(detector.detect(settings, [], ['theme: light'])[0]).toMatchObject({ kind: 'opposing_value', confidence: 0.9 });
+    expect(detector.detect(settings, [], ['Note: the theme was changed after the last release review'])).toEqual([]);
+  });
+});
+
+describe('Contradiction recording', () => {
+  let manager: MemoryManager;
+  const testDataPath = join(tmpdir(), 'cc-memory-test-contradictions-' + Date.now());
+
+  beforeEach(async () => {
+    manager = new MemoryManager({ dataPath: testDataPath, sessionId: 'test-session-001' });
+    await manager.ready();
+  });
+
+  afterEach(() => {
+    manager.close();
+    if (existsSync(testDataPath)) {
+      rmSync(testDataPath, { recursive: true, force: true });
+    }
+  });
+
+  it('should record contradictions found on create and add_observation', () => {
+    const handlers = createToolHandlers(manager, manager.getStorage());
+    handlers.semantic_create({ name: 'commit-policy', type: 'preference', description: 'Commit directly to main' });
+
+    const created = handlers.semantic_create({
+      name: 'branch-policy',
+      type: 'preference',
+      description: 'Never commit directly to main',
+    });
+    expect(created.contradictions).toHaveLength(1);
+
+    const observed = handlers.semantic_add_observation({ identifier: 'commit-policy', observation: 'Squash when merging' });
+    expect(observed).toEqual({ success: true, contradictions: [] });
+
+    const conflicts = handlers.memory_conflicts({ include_resolved: false, limit: 20 });
+    expect(conflicts.total).toBe(1);
+    expect(conflicts.conflicts[0]).toMatchObject({
+      kind: 'negation',
+      entity: { name: 'branch-policy' },
+      statement: 'Never commit directly to main',
+      conflictingEntity: { name: 'commit-policy' },
+      conflictingStatement: 'Commit directly to main',
+      resolved: false,
+    });
+    expect(manager.semantic.getRelations('commit-policy').map(r => r.relationType)).toEqual(['contradicts']);
+  });
+
+  it('should not record the same contradiction twice', () => {
+    const policy = manager.semantic.create({ name: 'policy', type: 'fact', description: 'Deploys run on Fridays' });
+    manager.semantic.addObservation(policy.id, 'Deploys never run on Fridays');
+
+    expect(manager.semantic.detectContradictions(policy.id)).toHaveLength(1);
+    expect(manager.semantic.detectContradictions(policy.id)).toHaveLength(1);
+    expect(manager.semantic.listContradictions({ identifier: 'policy' })).toHaveLength(1);
+  });
+
+  it('should treat contradictions as resolved once a statement changes', () => {
+    const policy = manager.semantic.create({ name: 'policy', type: 'fact', description: 'Deploys run on Fridays' });
+    manager.semantic.addObservation(policy.id, 'Deploys never run on Fridays');
+    manager.semantic.detectContradictions(policy.id, ['Deploys never run on Fridays']);
+
+    manager.semantic.update(policy.id, { description: 'Deploys run Monday to Thursday' });
+    expect(manager.semantic.listContradictions()).toEqual([]);
+    expect(manager.semantic.listContradictions({ includeResolved: true })).toEqual([
+      expect.objectContaining({ resolved: true }),
+    ]);
+  });
+});
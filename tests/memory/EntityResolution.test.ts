@@ -0,0 +1,130 @@
+/**
+ * Entity resolution and merge tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { MemoryManager } from '../../src/memory/MemoryManager.js';
+import { nameSimilarity, normalizeEntityName } from '../../src/memory/EntityResolver.js';
+import { createToolHandlers } from '../../src/server/tools.js';
+import { rmSync, existsSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('EntityResolver', () => {
+  it('should match name variants but keep versions and short names apart', () => {
+    expect(normalizeEntityName('  Postgres-DB ')).toBe('postgres db');
+    expect(nameSimilarity('ＰｏｓｔｇｒｅＳＱＬ', 'postgresql')).toEqual({ similarity: 1, reason: 'same_name' });
+    expect(nameSimilarity('PostgreSQL', 'postgres')!.similarity).toBeGreaterThan(0.9);
+    expect(nameSimilarity('postgres', 'Postgres DB')!.similarity).toBeGreaterThanOrEqual(0.9);
+
+    expect(nameSimilarity('node-18', 'node-22')).toBeNull();
+    expect(nameSimilarity('api', 'app')).toBeNull();
+    expect(nameSimilarity('postgres', 'redis')!.similarity).toBeLessThan(0.85);
+  });
+});
+
+describe('Entity merging', () => {
+  let manager: MemoryManager;
+  const testDataPath = join(tmpdir(), 'cc-memory-test-entity-resolution-' + Date.now());
+
+  beforeEach(async () => {
+    manager = new MemoryManager({ dataPath: testDataPath, sessionId: 'test-session-001' });
+    await manager.ready();
+  });
+
+  afterEach(() => {
+    manager.close();
+    if (existsSync(testDataPath)) {
+      rmSync(testDataPath, { recursive: true, force: true });
+    }
+  });
+
+  it('should find duplicates among currently valid entities of the same type', () => {
+    manager.semantic.create({ name: 'PostgreSQL', type: 'config', description: 'Main database', observations: ['Runs v16', 'Hosted on RDS'] });
+    manager.semantic.create({ name: 'postgres', type: 'config', description: 'The database' });
+    manager.semantic.create({ name: 'Postgres DB', type: 'config', description: 'DB' });
+    manager.semantic.create({ name: 'postgres-db', type: 'preference', description: 'Prefer postgres' });
+    manager.semantic.create({ name: 'redis', type: 'config', description: 'Cache' });
+
+    const candidates = manager.semantic.findDuplicates();
+    expect(candidates.map(c => [c.target.name, c.duplicate.name]).sort()).toEqual([
+      ['PostgreSQL', 'Postgres DB'],
+      ['PostgreSQL', 'postgres'],
+      ['postgres', 'Postgres DB'],
+    ].sort());
+    expect(candidates.every(c => c.target.type === 'config')).toBe(true);
+
+    const forOne = manager.semantic.findDuplicates({ identifier: 'redis' });
+    expect(forOne).toEqual([]);
+  });
+
+  it('should combine knowledge, re-point relations and redirect the merged entity', () => {
+    const target = manager.semantic.create({
+      name: 'PostgreSQL',
+      type: 'config',
+      description: 'Main database',
+      observations: ['Runs v16'],
+      tags: ['db'],
+    });
+    const duplicate = manager.semantic.create({
+      name: 'postgres',
+      type: 'config',
+      description: 'The database',
+      observations: ['Runs v16', 'Hosted on RDS'],
+      tags: ['infra'],
+      aliases: ['pg'],
+      confidence: 0.7,
+    });
+    manager.semantic.create({ name: 'api', type: 'config', description: 'Backend API' });
+    manager.semantic.relate('api', 'postgres', 'depends_on');
+    manager.semantic.relate('api', 'PostgreSQL', 'depends_on');
+    manager.semantic.relate('postgres', 'PostgreSQL', 'related_to');
+
+    const merged = manager.semantic.merge('PostgreSQL', 'postgres')!;
+    expect(merged.id).toBe(target.id);
+    expect(merged.observations).toEqual(['Runs v16', 'Hosted on RDS']);
+    expect(merged.tags).toEqual(['db', 'infra']);
+    expect(merged.aliases).toEqual(['postgres', 'pg']);
+    expect(merged.confidence).toBe(1);
+
+    // The duplicate's name, aliases and ID resolve to the merged entity
+    expect(manager.semantic.get('postgres')!.id).toBe(target.id);
+    expect(manager.semantic.get('pg')!.id).toBe(target.id);
+    expect(manager.semantic.get(duplicate.id)!.id).toBe(target.id);
+
+    const relations = manager.semantic.getRelations(target.id);
+    expect(relations.map(r => r.relationType)).toEqual(['depends_on']);
+    expect(manager.semantic.search({ query: 'pg' }).map(e => e.name)).toContain('PostgreSQL');
+  });
+
+  it('should restore aliases when reverting to an archived version', () => {
+    const entity = manager.semantic.create({ name: 'PostgreSQL', type: 'config', description: 'Main database', aliases: ['pg'] });
+    manager.semantic.create({ name: 'postgres', type: 'config', description: 'The database' });
+    manager.semantic.merge('PostgreSQL', 'postgres');
+
+    expect(manager.getStorage().getEntityVersions(entity.id)[0].entity.aliases).toEqual(['pg']);
+    const reverted = manager.semantic.revert(entity.id, 1)!;
+    expect(reverted.aliases).toEqual(['pg']);
+  });
+
+  it('should offer duplicates on create and merge them through tools', () => {
+    const handlers = createToolHandlers(manager, manager.getStorage());
+    handlers.semantic_create({ name: 'PostgreSQL', type: 'config', description: 'Main database', observations: ['Runs v16'] });
+
+    const created = handlers.semantic_create({ name: 'postgres', type: 'config', description: 'The database' });
+    expect(created.possibleDuplicates).toEqual([
+      expect.objectContaining({ target: expect.objectContaining({ name: 'PostgreSQL' }), reason: 'similar_name' }),
+    ]);
+    expect(handlers.semantic_create({ name: 'redis', type: 'config', description: 'Cache' })).not.toHaveProperty('possibleDuplicates');
+
+    const result = handlers.semantic_merge({ target: 'PostgreSQL', duplicate: 'postgres' });
+    expect(result.success).toBe(true);
+    expect(handlers.semantic_merge({ target: 'PostgreSQL', duplicate: 'postgres' }))
+      .toEqual({ success: false, error: 'Cannot merge an entity into itself' });
+
+    handlers.semantic_create({ name: 'Redis ', type: 'config', description: 'Cache server' });
+    const auto = handlers.semantic_merge_candidates({ min_similarity: 0.85, limit: 20, auto_merge_above: 0.95 });
+    expect(auto).toMatchObject({ success: true, total: 1 });
+    expect(manager.semantic.get('Redis ')!.name).toBe('redis');
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Semantic entity version history tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { MemoryManager } from '../../src/memory/MemoryManager.js';
+import { createToolHandlers } from '../../src/server/tools.js';
+import { rmSync, existsSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('Semantic entity versioning', () => {
+  let manager: MemoryManager;
+  const testDataPath = join(tmpdir(), 'cc-memory-test-versions-' + Date.now());
+
+  beforeEach(async () => {
+    manager = new MemoryManager({
+      dataPath: testDataPath,
+      sessionId: 'test-session-001',
+      retentionPolicy: { semantic: { versionHistory: 3 } },
+    });
+    await manager.getStorage().ready();
+  });
+
+  afterEach(() => {
+    manager.close();
+    if (existsSync(testDataPath)) {
+      rmSync(testDataPath, { recursive: true, force: true });
+    }
+  });
+
+  function createEntity() {
+    return manager.semantic.create({
+      name: 'db-host',
+      type: 'config',
+      description: 'Primary database host is db1',
+      observations: ['Runs Postgres 14'],
+      tags: ['database'],
+    });
+  }
+
+  it('should archive the previous version on every update', () => {
+    const entity = createEntity();
+    manager.semantic.update(entity.id, { description: 'Primary database host is db2' });
+    manager.semantic.addObservation(entity.id, 'Migrated to Postgres 16');
+
+    const history = manager.semantic.getHistory('db-host')!;
+    expect(history.current.version).toBe(3);
+    expect(history.versions.map(v => v.entity.version)).toEqual([2, 1]);
+    expect(history.versions[1].entity.description).toBe('Primary database host is db1');
+    expect(history.versions[1].entity.id).toBe(entity.id);
+  });
+
+  it('should prune history beyond the retention policy', () => {
+    const entity = createEntity();
+    for (let i = 2; i <= 6; i++) {
+      manager.semantic.update(entity.id, { description: `Primary database host is db${i}` });
+    }
+
+    const versions = manager.semantic.getHistory(entity.id)!.versions;
+    expect(versions.map(v => v.entity.version)).toEqual([5, 4, 3]);
+  });
+
+  it('should diff two versions', () => {
+    const entity = createEntity();
+    manager.semantic.update(entity.id, {
+      description: 'Primary database host is db2',
+      observations: ['Runs Postgres 16'],
+      tags: ['database', 'infra'],
+    });
+
+    const diff = manager.semantic.diff(entity.id, 1)!;
+    expect(diff.fromVersion).toBe(1);
+    expect(diff.toVersion).toBe(2);
+    expect(diff.changes).toEqual([
+      { field: 'description', from: 'Primary database host is db1', to: 'Primary database host is db2' },
+    ]);
+    expect(diff.observations).toEqual({ added: ['Runs Postgres 16'], removed: ['Runs Postgres 14'] });
+    expect(diff.tags).toEqual({ added: ['infra'], removed: [] });
+  });
+
+  it('should revert to an archived version as a new version', () => {
+    const entity = createEntity();
+    manager.semantic.update(entity.id, { description: 'Wrong host', confidence: 0.2 });
+
+    const reverted = manager.semantic.revert(entity.id, 1)!;
+    expect(reverted.description).toBe('Primary database host is db1');
+    expect(reverted.confidence).toBe(1);
+    expect(reverted.version).toBe(3);
+    expect(manager.semantic.search({ query: 'wrong' })).toHaveLength(0);
+    expect(manager.semantic.getHistory(entity.id)!.versions.map(v => v.entity.version)).toEqual([2, 1]);
+  });
+
+  it('should remove history with the entity', () => {
+    const entity = createEntity();
+    manager.semantic.update(entity.id, { description: 'Changed' });
+    manager.getStorage().deleteEntity(entity.id);
+
+    expect(manager.getStorage().getEntityVersions(entity.id)).toEqual([]);
+  });
+
+  it('should expose history, diff and revert as tools', () => {
+    const handlers = createToolHandlers(manager, manager.getStorage());
+    const entity = createEntity();
+    handlers.semantic_update({ identifier: 'db-host', description: 'Primary database host is db9' });
+
+    const history = handlers.semantic_history({ identifier: 'db-host', limit: 10 });
+    expect(history.success).toBe(true);
+    expect(history.currentVersion).toBe(2);
+    expect(history.versions?.map(v => v.version)).toEqual([1]);
+
+    const diff = handlers.semantic_diff({ identifier: 'db-host', from_version: 1 });
+    expect(diff.diff?.changes[0].field).toBe('description');
+
+    expect(handlers.semantic_revert({ identifier: entity.id, version: 7 }).success).toBe(false);
+    const reverted = handlers.semantic_revert({ identifier: entity.id, version: 1 });
+    expect(reverted.entity?.description).toBe('Primary database host is db1');
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Content-similarity episode clustering tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { EpisodeClusterer } from '../../src/memory/EpisodeClusterer.js';
+import { MemoryManager } from '../../src/memory/MemoryManager.js';
+import { DIKWPipeline } from '../../src/dikw/DIKWPipeline.js';
+import type { EpisodicMemory } from '../../src/memory/types.js';
+import { rmSync, existsSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+let nextId = 0;
+
+function episode(
+  summary: string,
+  details: string,
+  options: { type?: EpisodicMemory['type']; tags?: string[]; learnings?: string[] } = {}
+): EpisodicMemory {
+  nextId++;
+  return {
+    id: `ep-${String(nextId).padStart(3, '0')}`,
+    timestamp: 1_700_000_000_000 + nextId,
+    type: options.type ?? 'incident',
+    summary,
+    details,
+    context: { sessionId: 'test' },
+    outcome: options.learnings ? { status: 'success', learnings: options.learnings } : undefined,
+    relatedEpisodes: [],
+    relatedEntities: [],
+    importance: 5,
+    accessCount: 0,
+    lastAccessed: 0,
+    tags: options.tags ?? [],
+  } as EpisodicMemory;
+}
+
+describe('EpisodeClusterer', () => {
+  const poolExhaustion = () => [
+    episode('Checkout timeouts: connection pool exhausted', 'Postgres connection pool exhausted under load', { type: 'incident', tags: ['postgres', 'checkout'] }),
+    episode('Login failures from exhausted connection pool', 'Connection pool exhausted on the Postgres primary', { type: 'error' }),
+    episode('Nightly batch stalled on connection pool', 'Postgres connection pool exhausted by the batch job', { type: 'error', tags: ['postgres'], learnings: ['Size the connection pool per worker'] }),
+  ];
+  const unrelated = () => [
+    episode('Released v2.3', 'Shipped the new dashboard theme', { type: 'milestone' }),
+    episode('Onboarded new teammate', 'Walked through the repository layout', { type: 'interaction' }),
+  ];
+
+  it('should cluster same-root-cause episodes regardless of tags and type', () => {
+    const result = new EpisodeClusterer({ minClusterSize: 3 }).cluster([...poolExhaustion(), ...unrelated()]);
+
+    expect(result.clusters).toHaveLength(1);
+    expect(result.clusters[0].episodes.map(e => e.summary)).toEqual([
+      'Checkout timeouts: connection pool exhausted',
+      'Login failures from exhausted connection pool',
+      'Nightly batch stalled on connection pool',
+    ]);
+    expect(result.clusters[0].topTerms).toEqual(expect.arrayContaining(['pool', 'exhaust']));
+    expect(result.noise.map(e => e.summary)).toEqual(['Released v2.3', 'Onboarded new teammate']);
+  });
+
+  it('should report cluster quality', () => {
+    const tight = new EpisodeClusterer().cluster([...poolExhaustion(), ...unrelated()]);
+    const cluster = tight.clusters[0];
+
+    expect(cluster.quality).toBeGreaterThan(0);
+    expect(cluster.quality).toBeLessThanOrEqual(1);
+    expect(cluster.cohesion).toBeGreaterThan(0.3);
+    expect(tight.quality).toBeCloseTo(cluster.quality);
+
+    const loose = new EpisodeClusterer({ minSimilarity: 0 }).cluster([...poolExhaustion(), ...unrelated()]);
+    expect(loose.clusters).toHaveLength(1);
+    expect(loose.quality).toBeLessThan(tight.quality);
+  });
+
+  it('should describe tags and type of a cluster', () => {
+    const cluster = new EpisodeClusterer().cluster([
+      episode('Cache stampede', 'Redis cache stampede after deploy', { type: 'incident', tags: ['redis', 'cache'] }),
+      episode('Cache stampede again', 'Redis cache stampede on cold start', { type: 'incident', tags: ['redis', 'cache'] }),
+      episode('Cache stampede fixed', 'Added jitter against the Redis cache stampede', { type: 'success', tags: ['redis'] }),
+    ]).clusters[0];
+
+    expect(cluster.commonTags).toEqual(['redis']);
+    expect(cluster.centroidTags).toEqual(['redis', 'cache']);
+    expect(cluster.commonType).toBe('incident');
+  });
+
+  it('should not depend on input order', () => {
+    const episodes = [...poolExhaustion(), ...unrelated()];
+    const clusterer = new EpisodeClusterer();
+    expect(clusterer.cluster([...episodes].reverse())).toEqual(clusterer.cluster(episodes));
+  });
+});
+
+describe('Content clustering in memory compression and DIKW', () => {
+  let manager: MemoryManager;
+  const testDataPath = join(tmpdir(), 'cc-memory-test-clusterer-' + Date.now());
+
+  beforeEach(async () => {
+    manager = new MemoryManager({ dataPath: testDataPath, sessionId: 'test-session-001' });
+    await manager.ready();
+
+    const details = ['Disk full on the build agent', 'Build agent ran out of disk space', 'No disk space left on build agent'];
+    details.forEach((text, i) => {
+      manager.episodic.record({ type: i === 0 ? 'error' : 'incident', summary: `CI failure ${i}`, details: text });
+    });
+  });
+
+  afterEach(() => {
+    manager.close();
+    if (existsSync(testDataPath)) {
+      rmSync(testDataPath, { recursive: true, force: true });
+    }
+  });
+
+  it('should cluster untagged episodes of different types for compression', () => {
+    const clusters = manager.clusterSimilarEpisodes({ minClusterSize: 3 });
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].episodes).toHaveLength(3);
+    expect(clusters[0].quality).toBeGreaterThan(0);
+  });
+
+  it('should detect a pattern from untagged episodes once', () => {
+    const pipeline = new DIKWPipeline(manager.getStorage());
+    const candidates = pipeline.detectPatternCandidates();
+
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0].episodeCount).toBe(3);
+    expect(candidates[0].suggestedPattern).toContain('disk');
+    expect(candidates[0].clusterQuality).toBeGreaterThan(0);
+
+    pipeline.createPatternFromCandidate(candidates[0]);
+    expect(pipeline.detectPatternCandidates()).toEqual([]);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Knowledge graph analytics tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { MemoryManager } from '../../src/memory/MemoryManager.js';
+import { degreeCentrality, detectCommunities, findBridges, pageRank } from '../../src/memory/GraphAnalytics.js';
+import type { KnowledgeGraph, SemanticEntity, SemanticRelation } from '../../src/memory/types.js';
+import { rmSync, existsSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+/**
+ * Minimal graph: entities by ID, relations as [from, to, strength]
+ */
+function graphOf(ids: string[], edges: Array<[string, string, number?]>): KnowledgeGraph {
+  return {
+    entities: ids.map(id => ({ id, name: id, type: 'fact', tags: [] }) as unknown as SemanticEntity),
+    relations: edges.map(([from, to, strength = 1], index) => ({
+      id: `r${index}`,
+      from,
+      to,
+      relationType: 'related_to',
+      strength,
+      createdAt: 0,
+    }) as SemanticRelation),
+  };
+}
+
+describe('GraphAnalytics', () => {
+  // Two triangles joined by a weaker c-d relation, and an unrelated entity
+  const twoClusters = graphOf(['a', 'b', 'c', 'd', 'e', 'f', 'g'], [
+    ['a', 'b'], ['b', 'c'], ['c', 'a'],
+    ['c', 'd', 0.5],
+    ['d', 'e'], ['e', 'f'], ['f', 'd'],
+  ]);
+
+  it('should rank entities that others point to highest', () => {
+    const star = graphOf(['hub', 'x', 'y', 'z'], [['x', 'hub'], ['y', 'hub'], ['z', 'hub']]);
+    const ranks = pageRank(star);
+
+    expect([...ranks.values()].reduce((sum, rank) => sum + rank, 0)).toBeCloseTo(1, 6);
+    expect(ranks.get('hub')!).toBeGreaterThan(ranks.get('x')! * 2);
+    expect(degreeCentrality(star).get('hub')).toBe(1);
+    expect(degreeCentrality(star).get('x')).toBeCloseTo(1 / 3);
+  });
+
+  it('should find communities, bridges and articulation points', () => {
+    expect(detectCommunities(twoClusters).map(members => members.sort())).toEqual([
+      ['a', 'b', 'c'],
+      ['d', 'e', 'f'],
+    ]);
+
+    const { bridges, articulationPoints } = findBridges(twoClusters);
+    expect(bridges.map(r => `${r.from}-${r.to}`)).toEqual(['c-d']);
+    expect(articulationPoints.sort()).toEqual(['c', 'd']);
+
+    // A parallel relation means the pair no longer hangs on one relation
+    const doubled = graphOf(['a', 'b', 'c'], [['a', 'b'], ['a', 'b'], ['b', 'c']]);
+    expect(findBridges(doubled).bridges.map(r => r.id)).toEqual(['r2']);
+    expect(findBridges(doubled).articulationPoints).toEqual(['b']);
+  });
+});
+
+describe('Graph analytics in MemoryManager', () => {
+  let manager: MemoryManager;
+  const testDataPath = join(tmpdir(), 'cc-memory-test-graph-analytics-' + Date.now());
+
+  beforeEach(async () => {
+    manager = new MemoryManager({ dataPath: testDataPath, sessionId: 'test-session-001' });
+    await manager.ready();
+
+    for (const name of ['kafka', 'platform', 'leaf', 'billing', 'search', 'auth']) {
+      manager.semantic.create({ name, type: 'fact', description: `Notes about ${name === 'kafka' ? 'the Kafka broker' : 'a service'}` });
+    }
+    manager.semantic.relate('kafka', 'platform', 'part_of', 0.8);
+    manager.semantic.relate('kafka', 'leaf', 'related_to', 0.8);
+    for (const name of ['billing', 'search', 'auth']) {
+      manager.semantic.relate(name, 'platform', 'depends_on');
+    }
+  });
+
+  afterEach(() => {
+    manager.close();
+    if (existsSync(testDataPath)) {
+      rmSync(testDataPath, { recursive: true, force: true });
+    }
+  });
+
+  it('should report central entities and weak points on the dashboard', () => {
+    const { graphStats } = manager.getDashboard();
+
+    expect(graphStats.centralEntities[0].name).toBe('platform');
+    expect(graphStats.bridges).toHaveLength(5);
+    expect(graphStats.articulationPoints.map(e => e.name).sort()).toEqual(['kafka', 'platform']);
+    expect(graphStats.communities.reduce((sum, c) => sum + c.size, 0)).toBe(6);
+  });
+
+  it('should leave superseded entities and contradicts/supersedes relations out of the analytics', () => {
+    manager.semantic.supersede('auth', { name: 'auth-v2', type: 'fact', description: 'Notes about a service' });
+    manager.semantic.relate('auth-v2', 'platform', 'depends_on');
+    manager.semantic.relate('billing', 'search', 'contradicts', 0.9);
+
+    const { graphStats } = manager.getDashboard();
+    const analyzed = graphStats.communities.flatMap(c => c.members.map(m => m.name));
+    expect(analyzed).toContain('auth-v2');
+    expect(analyzed).not.toContain('auth');
+    expect(graphStats.communities.reduce((sum, c) => sum + c.size, 0)).toBe(6);
+    // billing-search would otherwise close a cycle through platform
+    expect(graphStats.bridges).toHaveLength(5);
+  });
+
+  it('should boost central entities in spreading activation when the prior is enabled', () => {
+    const scores = (centralityPrior: number) => {
+      const { semantic } = manager.smartRecall('kafka broker', {
+        includeWorking: false,
+        includeEpisodic: false,
+        centralityPrior,
+      });
+      return Object.fromEntries(semantic.map(e => [e.name, e.relevanceScore]));
+    };
+
+    const plain = scores(0);
+    expect(plain.platform).toBeCloseTo(plain.leaf);
+
+    const boosted = scores(1);
+    expect(boosted.platform).toBeGreaterThan(boosted.leaf);
+    expect(boosted.platform).toBeGreaterThan(plain.platform);
+    expect(boosted.kafka).toBeCloseTo(plain.kafka);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Knowledge graph export tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { MemoryManager } from '../../src/memory/MemoryManager.js';
+import { exportGraph, filterGraph, graphExportFilterFromParams } from '../../src/memory/GraphExporter.js';
+import { rmSync, existsSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('GraphExporter', () => {
+  let manager: MemoryManager;
+  const testDataPath = join(tmpdir(), 'cc-memory-test-graph-export-' + Date.now());
+
+  beforeEach(async () => {
+    manager = new MemoryManager({ dataPath: testDataPath, sessionId: 'test-session-001' });
+    await manager.ready();
+
+    manager.semantic.create({ name: 'api', type: 'config', description: 'The "public" API', tags: ['backend'] });
+    manager.semantic.create({ name: 'db', type: 'config', description: 'Postgres <primary>', tags: ['backend'] });
+    manager.semantic.create({ name: 'tabs', type: 'preference', description: 'Indent with tabs', tags: ['style'] });
+    manager.semantic.relate('api', 'db', 'depends_on', 0.9);
+    manager.semantic.relate('api', 'tabs', 'related_to', 0.3);
+  });
+
+  afterEach(() => {
+    manager.close();
+    if (existsSync(testDataPath)) {
+      rmSync(testDataPath, { recursive: true, force: true });
+    }
+  });
+
+  it('should filter entities by type and tag and relations by strength', () => {
+    const graph = manager.semantic.getGraph();
+    const names = (filter: Parameters<typeof filterGraph>[1]) => {
+      const filtered = filterGraph(graph, filter);
+      return [filtered.entities.map(e => e.name).sort(), filtered.relations.map(r => r.relationType).sort()];
+    };
+
+    expect(names({})).toEqual([['api', 'db', 'tabs'], ['depends_on', 'related_to']]);
+    expect(names({ types: ['config'] })).toEqual([['api', 'db'], ['depends_on']]);
+    expect(names({ tags: ['style', 'other'] })).toEqual([['tabs'], []]);
+    expect(names({ minStrength: 0.5 })).toEqual([['api', 'db', 'tabs'], ['depends_on']]);
+
+    expect(graphExportFilterFromParams(new URLSearchParams('type=fact,config&tag=a&tag=b&min_strength=0.4')))
+      .toEqual({ types: ['fact', 'config'], tags: ['a', 'b'], minStrength: 0.4 });
+  });
+
+  it('should render GraphML, DOT and Mermaid with escaped labels', () => {
+    const graph = manager.semantic.getGraph();
+    const api = manager.semantic.get('api')!;
+    const db = manager.semantic.get('db')!;
+
+    const graphml = exportGraph(graph, 'graphml', { types: ['config'] });
+    expect(graphml).toContain('<graph id="knowledge" edgedefault="directed">');
+    expect(graphml).toContain('<data key="description">Postgres &lt;primary&gt;</data>');
+    expect(graphml).toContain(`source="${api.id}" target="${db.id}"><data key="relationType">depends_on</data><data key="strength">0.9</data>`);
+    expect(graphml).not.toContain('tabs');
+
+    const dot = exportGraph(graph, 'dot', { minStrength: 0.5 });
+    expect(dot).toContain(`"${api.id}" [label="api\\n(config)", tooltip="The \\"public\\" API"];`);
+    expect(dot).toContain(`"${api.id}" -> "${db.id}" [label="depends_on", weight=9, penwidth=2.8];`);
+    expect(dot).not.toContain('related_to');
+    expect(exportGraph(graph, 'dot')).toContain('[label="related_to", weight=3, penwidth=1.6];');
+
+    const mermaid = exportGraph(graph, 'mermaid', { tags: ['backend'] }).split('\n');
+    expect(mermaid[0]).toBe('flowchart LR');
+    expect(mermaid.filter(line => /^  n\d -->\|"depends_on"\| n\d$/.test(line))).toHaveLength(1);
+    expect(mermaid.filter(line => line.includes('["'))).toHaveLength(2);
+  });
+});
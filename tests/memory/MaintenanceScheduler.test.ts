@@ -0,0 +1,204 @@
+/**
+ * Scheduled maintenance tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  CronSchedule,
+  MaintenanceScheduler,
+  getDefaultMaintenanceConfig,
+  type MaintenanceJob,
+} from '../../src/memory/MaintenanceScheduler.js';
+import { MemoryManager } from '../../src/memory/MemoryManager.js';
+import { SqliteStorage } from '../../src/storage/SqliteStorage.js';
+import type { MaintenanceJobName } from '../../src/memory/types.js';
+import { rmSync, existsSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('CronSchedule', () => {
+  const at = (text: string) => new Date(text);
+
+  it('should find the next matching minute', () => {
+    expect(new CronSchedule('*/15 * * * *').next(at('2026-03-10T10:07:30'))).toEqual(at('2026-03-10T10:15:00'));
+    expect(new CronSchedule('0 3 * * *').next(at('2026-03-10T03:00:00'))).toEqual(at('2026-03-11T03:00:00'));
+    expect(new CronSchedule('30 9 1-7 1,7 *').next(at('2026-03-10T00:00:00'))).toEqual(at('2026-07-01T09:30:00'));
+    expect(new CronSchedule('@weekly').next(at('2026-03-10T12:00:00'))).toEqual(at('2026-03-15T00:00:00'));
+    expect(new CronSchedule('0 0 29 2 *').next(at('2026-03-01T00:00:00'))).toEqual(at('2028-02-29T00:00:00'));
+  });
+
+  it('should match either day field when both are restricted', () => {
+    const schedule = new CronSchedule('0 12 13 * 5');
+    expect(schedule.matches(at('2026-03-13T12:00:00'))).toBe(true); // Friday the 13th
+    expect(schedule.matches(at('2026-03-06T12:00:00'))).toBe(true); // Friday
+    expect(schedule.matches(at('2026-04-13T12:00:00'))).toBe(true); // Monday the 13th
+    expect(schedule.matches(at('2026-04-14T12:00:00'))).toBe(false);
+  });
+
+  it('should reject invalid expressions', () => {
+    expect(() => new CronSchedule('* * * *')).toThrow('expected 5 fields');
+    expect(() => new CronSchedule('60 * * * *')).toThrow('"60" is not in 0-59');
+    expect(() => new CronSchedule('*/0 * * * *')).toThrow();
+    expect(() => new CronSchedule('5-1 * * * *')).toThrow();
+  });
+});
+
+describe('MaintenanceScheduler', () => {
+  let storage: SqliteStorage;
+  let calls: MaintenanceJobName[];
+  let jobs: Record<MaintenanceJobName, MaintenanceJob>;
+  const testDataPath = join(tmpdir(), 'cc-memory-test-maintenance-' + Date.now());
+  const start = new Date('2026-03-10T12:00:00').getTime();
+  const day = 24 * 60 * 60 * 1000;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(start);
+    storage = new SqliteStorage({ dataPath: testDataPath, externalChangeCheckInterval: 0 });
+    await storage.ready();
+
+    calls = [];
+    const job = (name: MaintenanceJobName): MaintenanceJob => async () => {
+      calls.push(name);
+      return { updated: 1 };
+    };
+    jobs = {
+      working_cleanup: job('working_cleanup'),
+      decay: job('decay'),
+      boost: job('boost'),
+      compress: job('compress'),
+      dikw_promote: job('dikw_promote'),
+    };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    storage.close();
+    if (existsSync(testDataPath)) {
+      rmSync(testDataPath, { recursive: true, force: true });
+    }
+  });
+
+  it('should run due jobs once and persist their results', async () => {
+    const scheduler = new MaintenanceScheduler(storage, jobs, { schedules: { boost: null } });
+
+    vi.setSystemTime(start + 2 * 60 * 1000);
+    expect(await scheduler.runDue()).toEqual([]);
+
+    vi.setSystemTime(start + day);
+    const runs = await scheduler.runDue();
+    expect(calls).toEqual(['working_cleanup', 'decay', 'compress', 'dikw_promote']);
+    expect(runs.every(run => run.status === 'success' && run.trigger === 'schedule')).toBe(true);
+    expect(runs[1].result).toEqual({ updated: 1 });
+
+    expect(await scheduler.runDue()).toEqual([]);
+
+    const status = scheduler.getStatus();
+    const decay = status.jobs.find(j => j.job === 'decay')!;
+    expect(decay.schedule).toBe('0 3 * * *');
+    expect(decay.lastRun?.id).toBe(runs[1].id);
+    expect(decay.nextRunAt).toBe(new Date('2026-03-12T03:00:00').getTime());
+    expect(status.jobs.find(j => j.job === 'boost')!.nextRunAt).toBeNull();
+    expect(status.recentRuns).toHaveLength(4);
+  });
+
+  it('should catch up on missed runs after a restart without repeating them', async () => {
+    await new MaintenanceScheduler(storage, jobs).run(['decay']);
+
+    // Down for three days
+    vi.setSystemTime(start + 3 * day);
+    calls = [];
+    const restarted = new MaintenanceScheduler(storage, jobs);
+    await restarted.runDue();
+    expect(calls).toContain('decay');
+    expect(calls.filter(job => job === 'decay')).toHaveLength(1);
+
+    calls = [];
+    await restarted.runDue();
+    expect(calls).toEqual([]);
+  });
+
+  it('should let only one process sharing the data path run a scheduled job', async () => {
+    const other = new SqliteStorage({ dataPath: testDataPath, externalChangeCheckInterval: 0 });
+    await other.ready();
+    try {
+      storage.flush();
+      const otherCalls: MaintenanceJobName[] = [];
+      const otherJobs = Object.fromEntries(Object.keys(jobs).map(name => [name, async () => {
+        otherCalls.push(name as MaintenanceJobName);
+        return {};
+      }])) as Record<MaintenanceJobName, MaintenanceJob>;
+
+      const scheduler = new MaintenanceScheduler(storage, jobs);
+      const otherScheduler = new MaintenanceScheduler(other, otherJobs);
+
+      vi.setSystemTime(start + day);
+      const runs = await scheduler.runDue();
+      expect(runs).toHaveLength(5);
+      // The claim sees the run even before the other process refreshes
+      expect(other.claimMaintenanceRun('decay', runs[1].startedAt)).toBeNull();
+      expect(await otherScheduler.runDue()).toEqual([]);
+      expect(otherCalls).toEqual([]);
+      expect(other.listMaintenanceRuns({ job: 'decay' }).map(run => run.id)).toEqual([runs[1].id]);
+    } finally {
+      other.close();
+    }
+  });
+
+  it('should record failed jobs', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    jobs.compress = async () => { throw new Error('summarizer unavailable'); };
+    const scheduler = new MaintenanceScheduler(storage, jobs);
+
+    const runs = await scheduler.run(['compress', 'decay']);
+    expect(runs.map(run => run.status)).toEqual(['error', 'success']);
+    expect(runs[0].error).toBe('summarizer unavailable');
+    expect(storage.listMaintenanceRuns({ job: 'compress' })[0].status).toBe('error');
+    errorSpy.mockRestore();
+  });
+
+  it('should read schedules from the environment', () => {
+    vi.stubEnv('CC_MEMORY_MAINTENANCE', '');
+    expect(getDefaultMaintenanceConfig().enabled).toBe(false);
+
+    vi.stubEnv('CC_MEMORY_MAINTENANCE', 'on');
+    vi.stubEnv('CC_MEMORY_MAINTENANCE_SCHEDULE', 'decay=0 2 * * *; compress=off');
+    expect(getDefaultMaintenanceConfig()).toEqual({
+      enabled: true,
+      schedules: { decay: '0 2 * * *', compress: null },
+    });
+    vi.unstubAllEnvs();
+  });
+});
+
+describe('MemoryManager maintenance', () => {
+  let manager: MemoryManager;
+  const testDataPath = join(tmpdir(), 'cc-memory-test-maintenance-manager-' + Date.now());
+
+  beforeEach(async () => {
+    manager = new MemoryManager({ dataPath: testDataPath, sessionId: 'test-session-001' });
+    await manager.ready();
+  });
+
+  afterEach(() => {
+    manager.close();
+    if (existsSync(testDataPath)) {
+      rmSync(testDataPath, { recursive: true, force: true });
+    }
+  });
+
+  it('should run maintenance jobs on demand', async () => {
+    const { id } = manager.episodic.record({ type: 'interaction', summary: 'Old note', details: 'Stale', importance: 8 });
+    manager.getStorage().updateEpisode(id, { lastAccessed: Date.now() - 10 * 24 * 60 * 60 * 1000 });
+
+    const runs = await manager.runMaintenance(['decay', 'working_cleanup']);
+    expect(runs.map(run => [run.job, run.status])).toEqual([['decay', 'success'], ['working_cleanup', 'success']]);
+    expect(runs[0].result).toEqual({ updated: 1 });
+    expect(manager.episodic.get(id)!.importance).toBeLessThan(8);
+
+    const status = manager.getMaintenanceStatus();
+    expect(status.enabled).toBe(false);
+    expect(status.jobs.map(j => j.job)).toEqual(['working_cleanup', 'decay', 'boost', 'compress', 'dikw_promote']);
+    expect(status.jobs.find(j => j.job === 'decay')!.lastRun?.result).toEqual({ updated: 1 });
+  });
+});
@@ -2,8 +2,9 @@
  * Memory Summarization and Compression tests (P3)
  */
 
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { MemoryManager } from '../../src/memory/MemoryManager.js';
+import { ClusterEpisodesSchema, CompressMemoriesSchema, createToolHandlers } from '../../src/server/tools.js';
 import { rmSync, existsSync } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
@@ -167,10 +168,24 @@ describe('Memory Summarization and Compression (P3)', () => {
       expect(errorClusters[0].commonType).toBe('error');
       expect(errorClusters[0].episodes.every(ep => ep.type === 'error')).toBe(true);
     });
+
+    it('should accept min_tag_overlap as a deprecated alias of min_similarity', async () => {
+      const handlers = createToolHandlers(manager, manager.getStorage());
+      const cluster = vi.spyOn(manager, 'clusterSimilarEpisodes');
+      const compress = vi.spyOn(manager, 'compressMemories');
+
+      handlers.cluster_episodes(ClusterEpisodesSchema.parse({ min_tag_overlap: 0.6 }));
+      expect(cluster).toHaveBeenLastCalledWith(expect.objectContaining({ minSimilarity: 0.6 }));
+      handlers.cluster_episodes(ClusterEpisodesSchema.parse({ min_similarity: 0.2, min_tag_overlap: 0.6 }));
+      expect(cluster).toHaveBeenLastCalledWith(expect.objectContaining({ minSimilarity: 0.2 }));
+
+      await handlers.compress_memories(CompressMemoriesSchema.parse({ min_tag_overlap: 0.7 }));
+      expect(compress).toHaveBeenLastCalledWith(expect.objectContaining({ minSimilarity: 0.7 }));
+    });
   });
 
   describe('summarizeCluster', () => {
-    it('should create a summary episode from a cluster', () => {
+    it('should create a summary episode from a cluster', async () => {
       // Create cluster episodes
       const episodes = [];
       for (let i = 0; i < 4; i++) {
@@ -189,7 +204,7 @@ describe('Memory Summarization and Compression (P3)', () => {
 
       expect(clusters.length).toBe(1);
 
-      const summary = manager.summarizeCluster(clusters[0]);
+      const summary = await manager.summarizeCluster(clusters[0]);
 
       expect(summary.tags).toContain('summary');
       expect(summary.tags).toContain('compressed');
@@ -197,7 +212,7 @@ describe('Memory Summarization and Compression (P3)', () => {
       expect(summary.details).toContain('Summarized from');
     });
 
-    it('should combine learnings from all episodes', () => {
+    it('should combine learnings from all episodes', async () => {
       manager.episodic.record({
         type: 'error',
         summary: 'Error 1',
@@ -235,7 +250,7 @@ describe('Memory Summarization and Compression (P3)', () => {
         minClusterSize: 3,
       });
 
-      const summary = manager.summarizeCluster(clusters[0]);
+      const summary = await manager.summarizeCluster(clusters[0]);
 
       expect(summary.outcome?.learnings).toContain('Learning A');
       expect(summary.outcome?.learnings).toContain('Learning B');
@@ -244,7 +259,7 @@ describe('Memory Summarization and Compression (P3)', () => {
       expect(summary.outcome?.learnings?.filter(l => l === 'Learning A').length).toBe(1);
     });
 
-    it('should reduce importance of original episodes', () => {
+    it('should reduce importance of original episodes', async () => {
       const originalImportance = 8;
       const episodes = [];
 
@@ -262,7 +277,7 @@ describe('Memory Summarization and Compression (P3)', () => {
         minClusterSize: 3,
       });
 
-      manager.summarizeCluster(clusters[0], {
+      await manager.summarizeCluster(clusters[0], {
         originalImportanceReduction: 0.5,
       });
 
@@ -273,7 +288,7 @@ describe('Memory Summarization and Compression (P3)', () => {
       }
     });
 
-    it('should link all original episodes to the summary', () => {
+    it('should link all original episodes to the summary', async () => {
       const episodes = [];
 
       for (let i = 0; i < 3; i++) {
@@ -289,7 +304,7 @@ describe('Memory Summarization and Compression (P3)', () => {
         minClusterSize: 3,
       });
 
-      const summary = manager.summarizeCluster(clusters[0]);
+      const summary = await manager.summarizeCluster(clusters[0]);
 
       // Check that all original episodes are related to the summary
       for (const ep of episodes) {
@@ -300,7 +315,7 @@ describe('Memory Summarization and Compression (P3)', () => {
   });
 
   describe('compressMemories', () => {
-    it('should find and compress multiple clusters', () => {
+    it('should find and compress multiple clusters', async () => {
       // Create first cluster
       for (let i = 0; i < 4; i++) {
         manager.episodic.record({
@@ -321,7 +336,7 @@ describe('Memory Summarization and Compression (P3)', () => {
         });
       }
 
-      const result = manager.compressMemories({
+      const result = await manager.compressMemories({
         minClusterSize: 3,
       });
 
@@ -330,7 +345,7 @@ describe('Memory Summarization and Compression (P3)', () => {
       expect(result.summariesCreated.length).toBe(2);
     });
 
-    it('should return summary information', () => {
+    it('should return summary information', async () => {
       for (let i = 0; i < 5; i++) {
         manager.episodic.record({
           type: 'error',
@@ -340,7 +355,7 @@ describe('Memory Summarization and Compression (P3)', () => {
         });
       }
 
-      const result = manager.compressMemories({
+      const result = await manager.compressMemories({
         minClusterSize: 3,
       });
 
@@ -350,7 +365,7 @@ describe('Memory Summarization and Compression (P3)', () => {
       expect(result.summariesCreated[0].episodeCount).toBe(5);
     });
 
-    it('should not create summaries when no clusters found', () => {
+    it('should not create summaries when no clusters found', async () => {
       // Create unrelated episodes
       manager.episodic.record({
         type: 'error',
@@ -366,7 +381,7 @@ describe('Memory Summarization and Compression (P3)', () => {
         tags: ['unique2'],
       });
 
-      const result = manager.compressMemories({
+      const result = await manager.compressMemories({
         minClusterSize: 3,
       });
 
@@ -375,7 +390,7 @@ describe('Memory Summarization and Compression (P3)', () => {
       expect(result.summariesCreated.length).toBe(0);
     });
 
-    it('should respect type filter', () => {
+    it('should respect type filter', async () => {
       // Create error cluster
       for (let i = 0; i < 4; i++) {
         manager.episodic.record({
@@ -397,7 +412,7 @@ describe('Memory Summarization and Compression (P3)', () => {
       }
 
       // Only compress errors
-      const result = manager.compressMemories({
+      const result = await manager.compressMemories({
         type: 'error',
         minClusterSize: 3,
       });
@@ -0,0 +1,137 @@
+/**
+ * Provenance tracking tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { MemoryManager } from '../../src/memory/MemoryManager.js';
+import { createToolHandlers } from '../../src/server/tools.js';
+import { rmSync, existsSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('Provenance', () => {
+  let manager: MemoryManager;
+  const testDataPath = join(tmpdir(), 'cc-memory-test-provenance-' + Date.now());
+
+  beforeEach(async () => {
+    manager = new MemoryManager({ dataPath: testDataPath, sessionId: 'test-session-001' });
+    await manager.ready();
+  });
+
+  afterEach(() => {
+    manager.close();
+    if (existsSync(testDataPath)) {
+      rmSync(testDataPath, { recursive: true, force: true });
+    }
+  });
+
+  const recordConversation = () => manager.episodic.record({
+    type: 'interaction',
+    summary: 'Discussed code style',
+    details: 'The user asked for tabs',
+    transcript: [
+      { role: 'user', content: 'Can you fix the lint errors?' },
+      { role: 'assistant', content: 'Done.' },
+      { role: 'user', content: 'Please always indent with tabs.' },
+      { role: 'assistant', content: 'Noted, tabs from now on.' },
+    ],
+  });
+
+  it('should link entity observations to transcript messages', () => {
+    const conversation = recordConversation();
+    const review = manager.episodic.record({ type: 'interaction', summary: 'Code review', details: 'Reviewer preferred tabs' });
+
+    const entity = manager.semantic.create({
+      name: 'indentation',
+      type: 'preference',
+      description: 'Indentation preference',
+      sources: [{ episodeId: review.id }],
+    });
+    manager.semantic.addObservation('indentation', 'Indent with tabs', {
+      sources: [{ episodeId: conversation.id, messageRange: { start: 2, end: 3 } }],
+    });
+
+    expect(manager.provenance.explain('indentation')).toEqual({
+      type: 'entity',
+      id: entity.id,
+      label: 'indentation',
+      sources: [
+        { type: 'episode', id: review.id, label: 'Code review', sources: [] },
+        {
+          type: 'episode',
+          id: conversation.id,
+          label: 'Discussed code style',
+          observations: ['Indent with tabs'],
+          messages: [
+            { index: 2, role: 'user', content: 'Please always indent with tabs.' },
+            { index: 3, role: 'assistant', content: 'Noted, tabs from now on.' },
+          ],
+          sources: [],
+        },
+      ],
+    });
+  });
+
+  it('should walk from wisdom back to raw conversation without repeating records', () => {
+    const storage = manager.getStorage();
+    const conversation = recordConversation();
+    const other = manager.episodic.record({ type: 'success', summary: 'Tabs accepted', details: 'No lint errors' });
+
+    const pattern = storage.createPattern({
+      pattern: 'The user prefers tabs',
+      supportingEpisodes: [other.id],
+      sources: [{ episodeId: conversation.id, messageRange: { start: 2, end: 2 } }],
+    });
+    expect(pattern.supportingEpisodes).toEqual([other.id, conversation.id]);
+
+    const insight = storage.createInsight({ insight: 'Formatting preferences are stable', sourcePatterns: [pattern.id] });
+    const wisdom = storage.createWisdom({
+      name: 'respect-formatting',
+      principle: 'Follow the user formatting preferences',
+      description: 'Formatting preferences rarely change',
+      derivedFromInsights: [insight.id],
+      derivedFromPatterns: [pattern.id],
+      evidenceEpisodes: [conversation.id],
+    });
+
+    const explanation = manager.provenance.explain('respect-formatting', undefined, { maxMessages: 5 })!;
+    expect(explanation).toMatchObject({ type: 'wisdom', id: wisdom.id });
+    expect(explanation.sources).toHaveLength(1);
+
+    const [insightNode] = explanation.sources;
+    expect(insightNode).toMatchObject({ type: 'insight', id: insight.id });
+    const [patternNode] = insightNode.sources;
+    expect(patternNode).toMatchObject({ type: 'pattern', id: pattern.id });
+    expect(patternNode.sources.map(node => node.id)).toEqual([other.id, conversation.id]);
+    expect(patternNode.sources[1].messages).toEqual([
+      { index: 2, role: 'user', content: 'Please always indent with tabs.' },
+    ]);
+  });
+
+  it('should record sources given to tools and explain them', () => {
+    const handlers = createToolHandlers(manager, manager.getStorage());
+    const conversation = recordConversation();
+
+    handlers.working_set({ key: 'style-note', value: 'tabs', type: 'context', priority: 'medium', tags: [] });
+    const consolidated = handlers.memory_consolidate({
+      working_key: 'style-note',
+      target_type: 'semantic',
+      metadata: {
+        name: 'style',
+        entity_type: 'preference',
+        description: 'Indentation style',
+        sources: [{ episode_id: conversation.id, message_start: 2 }],
+      },
+    });
+    expect(consolidated.success).toBe(true);
+
+    const result = handlers.memory_explain({ identifier: 'style', max_messages: 20 });
+    expect(result.success).toBe(true);
+    expect(result.explanation!.sources[0].messages).toEqual([
+      { index: 2, role: 'user', content: 'Please always indent with tabs.' },
+    ]);
+
+    expect(handlers.memory_explain({ identifier: 'missing', max_messages: 20 }))
+      .toEqual({ success: false, error: 'Record not found' });
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Relation type registry and graph traversal tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { MemoryManager } from '../../src/memory/MemoryManager.js';
+import { RelationConstraintError } from '../../src/memory/RelationRegistry.js';
+import { describePath } from '../../src/memory/GraphTraversal.js';
+import { createToolHandlers } from '../../src/server/tools.js';
+import { rmSync, existsSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('Relation graph', () => {
+  let manager: MemoryManager;
+  const testDataPath = join(tmpdir(), 'cc-memory-test-relation-graph-' + Date.now());
+
+  beforeEach(async () => {
+    manager = new MemoryManager({ dataPath: testDataPath, sessionId: 'test-session-001' });
+    await manager.ready();
+  });
+
+  afterEach(() => {
+    manager.close();
+    if (existsSync(testDataPath)) {
+      rmSync(testDataPath, { recursive: true, force: true });
+    }
+  });
+
+  const createEntities = (...names: string[]) => {
+    for (const name of names) {
+      manager.semantic.create({ name, type: 'fact', description: `The ${name} package` });
+    }
+  };
+
+  it('should store inverse relations as their canonical type', () => {
+    createEntities('app', 'db');
+
+    const relation = manager.semantic.relate('db', 'app', 'required_by')!;
+    expect(relation.relationType).toBe('depends_on');
+    expect(relation.from).toBe(manager.semantic.get('app')!.id);
+    expect(relation.to).toBe(manager.semantic.get('db')!.id);
+
+    expect(manager.semantic.relationTypes.label(relation, relation.to)).toBe('required_by');
+    expect(manager.semantic.relationTypes.label({ ...relation, relationType: 'owns' }, relation.to)).toBe('~owns');
+  });
+
+  it('should enforce entity types and cardinality of registered types', () => {
+    createEntities('app', 'web', 'api');
+    manager.semantic.create({ name: 'deploy', type: 'procedure', description: 'Deploy steps' });
+    manager.semantic.relationTypes.define({
+      name: 'runbook_for',
+      inverse: 'has_runbook',
+      cardinality: 'one_to_one',
+      fromTypes: ['procedure'],
+    });
+
+    expect(() => manager.semantic.relate('app', 'web', 'runbook_for')).toThrow(RelationConstraintError);
+    expect(manager.semantic.relate('deploy', 'app', 'runbook_for')).not.toBeNull();
+    expect(() => manager.semantic.relate('api', 'deploy', 'has_runbook')).toThrow('already has a "runbook_for" relation');
+
+    manager.semantic.relate('web', 'app', 'part_of');
+    expect(() => manager.semantic.relate('web', 'api', 'part_of')).toThrow(RelationConstraintError);
+
+    expect(() => manager.semantic.relationTypes.define({ name: 'needs', inverse: 'required_by', cardinality: 'many_to_many' }))
+      .toThrow('already used by built-in type "depends_on"');
+    expect(manager.semantic.relationTypes.resolve('has_runbook')).toMatchObject({ name: 'runbook_for', inverted: true });
+  });
+
+  it('should find multi-hop paths, shortest paths and subgraphs', () => {
+    createEntities('app', 'orm', 'driver', 'logger', 'docs');
+    manager.semantic.relate('app', 'orm', 'depends_on');
+    manager.semantic.relate('orm', 'driver', 'depends_on');
+    manager.semantic.relate('app', 'logger', 'depends_on');
+    manager.semantic.relate('logger', 'driver', 'uses');
+    manager.semantic.relate('docs', 'app', 'related_to');
+
+    const transitive = manager.graph.paths('app', { path: ['depends_on', 'depends_on'] });
+    expect(transitive.map(describePath)).toEqual(['app -[depends_on]-> orm -[depends_on]-> driver']);
+
+    const dependents = manager.graph.paths('driver', { relationTypes: ['required_by'], maxDepth: 3 });
+    expect(dependents.map(describePath)).toEqual([
+      'driver -[required_by]-> orm',
+      'driver -[required_by]-> orm -[required_by]-> app',
+    ]);
+
+    const shortest = manager.graph.shortestPath('docs', 'driver')!;
+    expect(shortest.steps).toHaveLength(3);
+    expect(describePath(shortest)).toMatch(/^docs -\[related_to\]-> app -\[depends_on\]-> /);
+    expect(manager.graph.shortestPath('docs', 'driver', { direction: 'in' })).toBeNull();
+
+    const subgraph = manager.graph.subgraph('app', { maxDepth: 1 })!;
+    expect(subgraph.entities.map(({ entity, depth }) => `${entity.name}:${depth}`).sort())
+      .toEqual(['app:0', 'docs:1', 'logger:1', 'orm:1']);
+    expect(subgraph.relations).toHaveLength(3);
+    expect(subgraph.truncated).toBe(false);
+
+    expect(manager.graph.subgraph('app', { maxDepth: 2, limit: 3 })!.truncated).toBe(true);
+  });
+
+  it('should expose traversal and relation types through tools', () => {
+    const handlers = createToolHandlers(manager, manager.getStorage());
+    createEntities('app', 'orm', 'driver');
+    handlers.semantic_relate({ from: 'app', to: 'orm', relation_type: 'depends_on', strength: 1 });
+    handlers.semantic_relate({ from: 'driver', to: 'orm', relation_type: 'required_by', strength: 1 });
+
+    const result = handlers.semantic_traverse({ mode: 'shortest_path', from: 'driver', to: 'app', direction: 'both' });
+    expect(result).toMatchObject({
+      success: true,
+      path: { description: 'driver -[required_by]-> orm -[required_by]-> app', length: 2 },
+    });
+    expect(handlers.semantic_traverse({ mode: 'shortest_path', from: 'app', direction: 'both' }))
+      .toEqual({ success: false, error: 'to is required for shortest_path' });
+
+    handlers.relation_type_define({ name: 'owned_by', inverse: 'owns', symmetric: false, cardinality: 'many_to_one', to_types: ['preference'] });
+    expect(handlers.relation_type_list().relationTypes.map(t => t.name)).toContain('owned_by');
+    expect(handlers.semantic_relate({ from: 'app', to: 'orm', relation_type: 'owned_by', strength: 1 }))
+      .toEqual({ success: false, error: '"owned_by" relations must end at preference entities, not fact ("orm")' });
+  });
+});
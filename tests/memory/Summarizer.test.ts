@@ -0,0 +1,154 @@
+/**
+ * Cluster summarizer tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type Anthropic from '@anthropic-ai/sdk';
+import { MemoryManager } from '../../src/memory/MemoryManager.js';
+import {
+  AnthropicSummarizer,
+  ExtractiveSummarizer,
+  type ClusterSummaryInput,
+  type MessagesClient,
+} from '../../src/memory/Summarizer.js';
+import type { EpisodicMemory } from '../../src/memory/types.js';
+import { rmSync, existsSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+function episode(id: string, details: string, learnings: string[] = [], importance = 5): EpisodicMemory {
+  return {
+    id,
+    timestamp: Date.UTC(2026, 0, Number(id.replace(/\D/g, '')) || 1),
+    type: 'error',
+    summary: `Deploy failed (${id})`,
+    details,
+    context: { sessionId: 'test' },
+    outcome: learnings.length > 0 ? { status: 'success', learnings } : undefined,
+    relatedEpisodes: [],
+    relatedEntities: [],
+    importance,
+    accessCount: 0,
+    lastAccessed: 0,
+    tags: ['deploy'],
+  } as EpisodicMemory;
+}
+
+const cluster: ClusterSummaryInput = {
+  commonType: 'error',
+  centroidTags: ['deploy'],
+  episodes: [
+    episode('e1', 'The migration lock timed out during deploy. Weather was sunny.', ['Run migrations before the deploy']),
+    episode('e2', 'Deploy blocked because the migration lock timed out. Coffee machine broke.', ['run migrations before the deploy.']),
+    episode('e3', 'Migration lock timed out again on deploy. Restarting fixed it.', ['Keep migrations small']),
+  ],
+};
+
+function stubClient(reply: string | Error): MessagesClient & { calls: Anthropic.MessageCreateParamsNonStreaming[] } {
+  const calls: Anthropic.MessageCreateParamsNonStreaming[] = [];
+  return {
+    calls,
+    messages: {
+      create: async (params) => {
+        calls.push(params);
+        if (reply instanceof Error) throw reply;
+        return { content: [{ type: 'text', text: reply }] } as unknown as Anthropic.Message;
+      },
+    },
+  };
+}
+
+describe('ExtractiveSummarizer', () => {
+  it('should pick the sentences the cluster has in common', async () => {
+    const result = await new ExtractiveSummarizer({ maxSentences: 2 }).summarize(cluster);
+
+    expect(result.summary).toMatch(/^Summary: 3 errors related to deploy - /);
+    expect(result.summary).toContain('migration lock timed out');
+    expect(result.details).toContain('Summarized from 3 episodes (2026-01-01 to 2026-01-03)');
+    expect(result.details).not.toContain('Weather');
+    expect(result.details).not.toContain('Coffee');
+  });
+
+  it('should describe untagged clusters by their top terms', async () => {
+    const untagged = { ...cluster, centroidTags: [], topTerms: ['migration', 'lock'] };
+    expect((await new ExtractiveSummarizer().summarize(untagged)).summary).toMatch(/^Summary: 3 errors related to migration, lock - /);
+
+    const bare = { ...cluster, centroidTags: [] };
+    expect((await new ExtractiveSummarizer().summarize(bare)).summary).toMatch(/^Summary: 3 errors - /);
+  });
+
+  it('should merge near-duplicate learnings', async () => {
+    const result = await new ExtractiveSummarizer().summarize(cluster);
+    expect(result.learnings).toEqual(['run migrations before the deploy.', 'Keep migrations small']);
+  });
+
+  it('should be deterministic', async () => {
+    const summarizer = new ExtractiveSummarizer();
+    const reversed = { ...cluster, episodes: [...cluster.episodes].reverse() };
+    expect(await summarizer.summarize(cluster)).toEqual(await summarizer.summarize(cluster));
+    expect((await summarizer.summarize(reversed)).summary).toBe((await summarizer.summarize(cluster)).summary);
+  });
+});
+
+describe('AnthropicSummarizer', () => {
+  it('should summarize with the model', async () => {
+    const client = stubClient('```json\n{"summary": "Deploys keep failing on the migration lock", "details": "Three deploys timed out.", "learnings": ["Run migrations first"]}\n```');
+    const result = await new AnthropicSummarizer({ client, model: 'test-model' }).summarize(cluster);
+
+    expect(result).toEqual({
+      summary: 'Deploys keep failing on the migration lock',
+      details: 'Summarized from 3 episodes\n\nThree deploys timed out.',
+      learnings: ['Run migrations first'],
+    });
+    expect(client.calls[0].model).toBe('test-model');
+    expect(JSON.stringify(client.calls[0].messages)).toContain('Deploy failed (e2)');
+  });
+
+  it('should fall back to extractive summarization when the model fails', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    for (const client of [stubClient(new Error('overloaded')), stubClient('not json')]) {
+      const result = await new AnthropicSummarizer({ client }).summarize(cluster);
+      expect(result).toEqual(await new ExtractiveSummarizer().summarize(cluster));
+    }
+    errorSpy.mockRestore();
+  });
+});
+
+describe('MemoryManager summarizer selection', () => {
+  let manager: MemoryManager;
+  const testDataPath = join(tmpdir(), 'cc-memory-test-summarizer-' + Date.now());
+  const client = stubClient('{"summary": "Model summary", "details": "", "learnings": []}');
+
+  beforeEach(async () => {
+    manager = new MemoryManager({
+      dataPath: testDataPath,
+      sessionId: 'test-session-001',
+      summarizer: new AnthropicSummarizer({ client }),
+    });
+    await manager.ready();
+    for (let i = 0; i < 3; i++) {
+      manager.episodic.record({ type: 'error', summary: `Deploy failure ${i}`, details: 'Lock timeout', tags: ['deploy'] });
+    }
+  });
+
+  afterEach(() => {
+    manager.close();
+    if (existsSync(testDataPath)) {
+      rmSync(testDataPath, { recursive: true, force: true });
+    }
+  });
+
+  it('should compress memories with the configured summarizer', async () => {
+    const result = await manager.compressMemories({ minClusterSize: 3 });
+    expect(result.summariesCreated.map(s => s.summary)).toEqual(['Model summary']);
+  });
+
+  it('should compress recent episodes only when asked to', async () => {
+    manager.runSessionEndDIKW();
+    expect(manager.episodic.search({ tags: ['compressed'] })).toEqual([]);
+
+    const result = await manager.compressRecentEpisodes();
+    expect(result.episodesCompressed).toBe(3);
+    expect(manager.episodic.search({ tags: ['compressed'] }).map(e => e.summary)).toEqual(['Model summary']);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Analyzer tests (Japanese segmentation, stemming, identifier splitting)
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  MorphologicalAnalyzer,
+  StandardAnalyzer,
+  JapaneseSegmenter,
+  porterStem,
+  splitIdentifier,
+} from '../../src/search/index.js';
+import { SqliteStorage } from '../../src/storage/SqliteStorage.js';
+import { rmSync, existsSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('porterStem', () => {
+  it('should stem words like the reference implementation', () => {
+    const cases: Record<string, string> = {
+      caresses: 'caress',
+      ponies: 'poni',
+      cats: 'cat',
+      feed: 'feed',
+      agreed: 'agre',
+      plastered: 'plaster',
+      motoring: 'motor',
+      sing: 'sing',
+      conflated: 'conflat',
+      hopping: 'hop',
+      filing: 'file',
+      happy: 'happi',
+      relational: 'relat',
+      generalization: 'gener',
+      adjustment: 'adjust',
+      connections: 'connect',
+    };
+    for (const [word, stem] of Object.entries(cases)) {
+      expect(porterStem(word)).toBe(stem);
+    }
+  });
+
+  it('should leave short and non-alphabetic words unchanged', () => {
+    expect(porterStem('is')).toBe('is');
+    expect(porterStem('v2')).toBe('v2');
+  });
+});
+
+describe('JapaneseSegmenter', () => {
+  const segmenter = new JapaneseSegmenter();
+
+  it('should segment by dictionary and drop particles', () => {
+    expect(segmenter.segment('データベース接続エラーが発生しました'))
+      .toEqual(['データベース', '接続', 'エラー', '発生']);
+  });
+
+  it('should honour a user dictionary', () => {
+    const custom = new JapaneseSegmenter({ userDictionary: ['攻殻機動隊'] });
+    expect(custom.segment('攻殻機動隊の設定')).toEqual(['攻殻機動隊', '設定']);
+    expect(segmenter.segment('攻殻機動隊の設定')).toEqual(['攻殻', '機動', '隊', '設定']);
+  });
+});
+
+describe('MorphologicalAnalyzer', () => {
+  const analyzer = new MorphologicalAnalyzer();
+
+  it('should split identifiers and paths and keep the whole token', () => {
+    expect(splitIdentifier('getUserById')).toEqual(['get', 'User', 'By', 'Id']);
+    expect(splitIdentifier('HTTPServer')).toEqual(['HTTP', 'Server']);
+
+    const terms = analyzer.analyze('max_connections in src/search/tokenizer.ts');
+    expect(terms).toContain('max');
+    expect(terms).toContain('connect');
+    expect(terms).toContain('max_connections');
+    expect(terms).toContain('src/search/tokenizer.ts');
+  });
+
+  it('should stem English and segment mixed Japanese text', () => {
+    expect(analyzer.analyze('Running 認証テスト')).toEqual(['run', '認証', 'テスト']);
+  });
+
+  it('should produce fewer Japanese terms than character bigrams', () => {
+    const text = 'データベース接続エラーが発生しました';
+    expect(new Set(analyzer.analyze(text)).size)
+      .toBeLessThan(new Set(new StandardAnalyzer().analyze(text)).size);
+  });
+});
+
+describe('Analyzer selection', () => {
+  const testDataPath = join(tmpdir(), 'cc-memory-test-analyzer-' + Date.now());
+
+  afterEach(() => {
+    if (existsSync(testDataPath)) {
+      rmSync(testDataPath, { recursive: true, force: true });
+    }
+  });
+
+  it('should rebuild the index when the analyzer changes', async () => {
+    let storage = new SqliteStorage({ dataPath: testDataPath, analyzer: 'standard' });
+    await storage.ready();
+    storage.addEpisode({ type: 'error', summary: 'Connections refused', details: 'pool exhausted' });
+    expect(storage.searchEpisodes({ query: 'connection' })).toHaveLength(0);
+    storage.close();
+
+    storage = new SqliteStorage({ dataPath: testDataPath, analyzer: 'morphological' });
+    await storage.ready();
+    expect(storage.getSearchManager().getAnalyzer().id).toBe('morphological-v1');
+    expect(storage.searchEpisodes({ query: 'connection' })).toHaveLength(1);
+    storage.close();
+  });
+});
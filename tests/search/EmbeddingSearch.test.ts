@@ -0,0 +1,202 @@
+/**
+ * Embedding provider and vector search tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { MemoryManager } from '../../src/memory/MemoryManager.js';
+import { SqliteStorage } from '../../src/storage/SqliteStorage.js';
+import {
+  HashedNgramEmbeddingProvider,
+  cosineSimilarity,
+  type EmbeddingProvider,
+} from '../../src/search/index.js';
+import { rmSync, existsSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('HashedNgramEmbeddingProvider', () => {
+  const provider = new HashedNgramEmbeddingProvider();
+
+  it('should produce deterministic unit vectors', () => {
+    const a = provider.embed('database connection pool');
+    const b = provider.embed('database connection pool');
+
+    expect(a).toHaveLength(provider.dimensions);
+    expect(a).toEqual(b);
+    expect(cosineSimilarity(a, a)).toBeCloseTo(1, 5);
+  });
+
+  it('should rate inflected variants above unrelated text', () => {
+    const query = provider.embed('DB connection pool exhausted');
+    const related = provider.embed('database connections were exhausted');
+    const unrelated = provider.embed('refactored the CSS layout');
+
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+  });
+
+  it('should return a zero vector for empty text', () => {
+    const vector = provider.embed('');
+    expect(vector.every(v => v === 0)).toBe(true);
+    expect(cosineSimilarity(vector, provider.embed('anything'))).toBe(0);
+  });
+});
+
+describe('Vector search', () => {
+  const testDataPath = join(tmpdir(), 'cc-memory-test-embedding-' + Date.now());
+
+  afterEach(() => {
+    if (existsSync(testDataPath)) {
+      rmSync(testDataPath, { recursive: true, force: true });
+    }
+  });
+
+  /** Maps every text mentioning a known concept to the same axis */
+  class ConceptEmbeddingProvider implements EmbeddingProvider {
+    readonly id = 'test-concepts';
+    readonly dimensions = 3;
+    embed(text: string): number[] {
+      const lower = text.toLowerCase();
+      if (/postgres|pool|db connection/.test(lower)) return [1, 0, 0];
+      if (/css|layout/.test(lower)) return [0, 1, 0];
+      return [0, 0, 1];
+    }
+  }
+
+  describe('SqliteStorage', () => {
+    let storage: SqliteStorage;
+
+    beforeEach(async () => {
+      storage = new SqliteStorage({ dataPath: testDataPath });
+      await storage.ready();
+    });
+
+    afterEach(() => {
+      storage.close();
+    });
+
+    it('should store vectors for new episodes and remove them on delete', () => {
+      const episodeId = storage.addEpisode({
+        type: 'error',
+        summary: 'Database connections exhausted',
+        details: 'The connection pool ran out of clients',
+        tags: ['database'],
+      });
+
+      const search = storage.getSearchManager();
+      const results = search.semanticSearch('connection pool exhausted', { types: ['episodic'] });
+      expect(results[0].docId).toBe(episodeId);
+      expect(results[0].score).toBeGreaterThan(0.3);
+
+      storage.deleteEpisode(episodeId);
+      expect(search.semanticSearch('connection pool exhausted', { types: ['episodic'] })).toHaveLength(0);
+    });
+
+    it('should rebuild vectors when the embedding provider changes', async () => {
+      storage.addEpisode({
+        type: 'error',
+        summary: 'Too many postgres clients',
+        details: 'max_connections reached',
+      });
+      storage.close();
+
+      storage = new SqliteStorage({ dataPath: testDataPath, embeddingProvider: new ConceptEmbeddingProvider() });
+      await storage.ready();
+
+      const search = storage.getSearchManager();
+      expect(search.getEmbeddingProvider().id).toBe('test-concepts');
+      expect(search.getVectorCount()).toBe(1);
+    });
+  });
+
+  describe('MemoryManager.smartRecall with the default provider', () => {
+    let manager: MemoryManager;
+
+    beforeEach(async () => {
+      manager = new MemoryManager({ dataPath: testDataPath, sessionId: 'test-session-001' });
+      await manager.getStorage().ready();
+    });
+
+    afterEach(() => {
+      manager.close();
+    });
+
+    it('should recall sub-word overlaps but not paraphrases without shared word parts', () => {
+      const variant = manager.episodic.record({ type: 'error', summary: 'Postgres timed out', details: 'Postgres timed out' });
+      const paraphrase = manager.episodic.record({ type: 'error', summary: 'Too many postgres clients', details: 'The server refused new sessions' });
+
+      expect(manager.smartRecall('postgresql timeouts', { semanticWeight: 0 }).episodic).toHaveLength(0);
+      expect(manager.smartRecall('postgresql timeouts').episodic.map(ep => ep.id)).toContain(variant.id);
+
+      expect(manager.smartRecall('DB connection pool exhausted').episodic.map(ep => ep.id)).not.toContain(paraphrase.id);
+    });
+  });
+
+  describe('MemoryManager.smartRecall', () => {
+    let manager: MemoryManager;
+
+    beforeEach(async () => {
+      manager = new MemoryManager({
+        dataPath: testDataPath,
+        sessionId: 'test-session-001',
+        embeddingProvider: new ConceptEmbeddingProvider(),
+      });
+      await manager.getStorage().ready();
+    });
+
+    afterEach(() => {
+      manager.close();
+    });
+
+    it('should recall paraphrased episodes that share no keywords', () => {
+      const episode = manager.episodic.record({
+        type: 'error',
+        summary: 'Too many postgres clients',
+        details: 'The server refused new sessions',
+      });
+      manager.episodic.record({
+        type: 'success',
+        summary: 'Fixed CSS layout',
+        details: 'Sidebar alignment',
+      });
+
+      const keywordOnly = manager.smartRecall('DB connection pool exhausted', { semanticWeight: 0 });
+      expect(keywordOnly.episodic).toHaveLength(0);
+
+      const hybrid = manager.smartRecall('DB connection pool exhausted');
+      expect(hybrid.episodic.map(ep => ep.id)).toEqual([episode.id]);
+
+      // Recalling a vector-only candidate does not count as an access
+      manager.smartRecall('DB connection pool exhausted');
+      expect(manager.getStorage().peekEpisodes([episode.id])[0].accessCount).toBe(0);
+    });
+
+    it('should recall paraphrased semantic entities', () => {
+      manager.semantic.create({
+        name: 'postgres-limits',
+        type: 'fact',
+        description: 'Postgres allows 100 clients by default',
+      });
+
+      const result = manager.smartRecall('DB connection pool exhausted', { includeEpisodic: false });
+      expect(result.semantic.map(e => e.name)).toContain('postgres-limits');
+    });
+
+    it('should rank keyword and embedding matches above embedding-only matches', () => {
+      const both = manager.episodic.record({
+        type: 'error',
+        summary: 'Postgres pool exhausted',
+        details: 'exhausted connection pool',
+      });
+      const vectorOnly = manager.episodic.record({
+        type: 'error',
+        summary: 'Too many postgres clients',
+        details: 'refused sessions',
+      });
+
+      const result = manager.smartRecall('pool exhausted');
+      const ids = result.episodic.map(ep => ep.id);
+      expect(ids).toContain(vectorOnly.id);
+      expect(ids[0]).toBe(both.id);
+    });
+  });
+});
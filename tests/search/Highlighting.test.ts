@@ -0,0 +1,138 @@
+/**
+ * Search result highlighting and snippet tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { MemoryManager } from '../../src/memory/MemoryManager.js';
+import { MorphologicalAnalyzer, createHighlightedSnippet, findMatchSpans } from '../../src/search/index.js';
+import { rmSync, existsSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('Highlighting', () => {
+  const analyzer = new MorphologicalAnalyzer();
+
+  it('should highlight inflected words through the analyzer', () => {
+    const text = 'Too many connections were opened by the worker';
+    const spans = findMatchSpans(text, analyzer.analyze('connection'), analyzer);
+
+    expect(spans).toEqual([{ start: 9, end: 20 }]);
+  });
+
+  it('should highlight Japanese terms and phrases as substrings', () => {
+    expect(findMatchSpans('本番データベースの接続エラー', ['接続'])).toEqual([{ start: 9, end: 11 }]);
+    expect(findMatchSpans('a lock timeout fixed it', ['lock timeout'])).toEqual([{ start: 2, end: 14 }]);
+  });
+
+  it('should window the snippet around the first match and highlight inside it', () => {
+    const text = 'x'.repeat(300) + ' the postgres deadlock was resolved ' + 'y'.repeat(300);
+    const snippet = createHighlightedSnippet(text, ['deadlock', 'postgres'], { maxLength: 80 });
+
+    expect(snippet.offset).toBe(305);
+    expect(snippet.text).toContain('**postgres** **deadlock**');
+    expect(snippet.text.startsWith('…')).toBe(true);
+    expect(snippet.text.endsWith('…')).toBe(true);
+  });
+});
+
+describe('Search snippets', () => {
+  let manager: MemoryManager;
+  const testDataPath = join(tmpdir(), 'cc-memory-test-highlight-' + Date.now());
+
+  beforeEach(async () => {
+    manager = new MemoryManager({
+      dataPath: testDataPath,
+      sessionId: 'test-session-001',
+    });
+    await manager.getStorage().ready();
+  });
+
+  afterEach(() => {
+    manager.close();
+    if (existsSync(testDataPath)) {
+      rmSync(testDataPath, { recursive: true, force: true });
+    }
+  });
+
+  it('should return snippets from the best matching field', () => {
+    const episode = manager.episodic.record({
+      type: 'error',
+      summary: 'Checkout service outage',
+      details: 'Filler. '.repeat(40) + 'Root cause was connection pool exhaustion under load. ' + 'More filler. '.repeat(40),
+    });
+
+    const results = manager.getStorage().getSearchManager().searchWithMetadata('exhaustion', {
+      includeMetadata: true,
+      includeSnippets: true,
+      snippetLength: 100,
+    });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].docId).toBe(episode.id);
+    expect(results[0].metadata?.summary).toBe('Checkout service outage');
+    expect(results[0].snippet?.field).toBe('details');
+    expect(results[0].snippet?.text).toContain('**exhaustion**');
+    expect(results[0].snippet!.text.length).toBeLessThanOrEqual(106);
+  });
+
+  it('should cover entities, patterns, insights and wisdom', () => {
+    const storage = manager.getStorage();
+    manager.semantic.create({
+      name: 'redis-cache',
+      type: 'concept',
+      description: 'Shared cache in front of the database',
+      observations: ['Eviction storms happen after deploys'],
+    });
+    storage.createPattern({ pattern: 'Eviction storms follow every deploy' });
+    storage.createInsight({ insight: 'Warm caches before deploys to avoid eviction storms' });
+    storage.createWisdom({
+      name: 'cache-warming',
+      principle: 'Prevent eviction storms by warming caches',
+      description: 'Applies to any deploy that restarts cache nodes',
+    });
+
+    const results = storage.getSearchManager().searchWithMetadata('eviction', { includeSnippets: true });
+
+    expect(new Set(results.map(r => r.docType))).toEqual(new Set(['semantic', 'pattern', 'insight', 'wisdom']));
+    for (const result of results) {
+      expect(result.snippet?.text.toLowerCase()).toContain('**eviction**');
+    }
+  });
+
+  it('should stop adding snippets once the character budget is used', () => {
+    for (let i = 0; i < 5; i++) {
+      manager.episodic.record({
+        type: 'error',
+        summary: `Incident ${i}`,
+        details: `Request timeout in service ${i}. ` + 'Details follow. '.repeat(20),
+      });
+    }
+
+    const results = manager.getStorage().getSearchManager().searchWithMetadata('timeout', {
+      includeSnippets: true,
+      snippetLength: 100,
+      maxChars: 150,
+    });
+
+    const total = results.reduce((sum, r) => sum + (r.snippet?.text.length ?? 0), 0);
+    expect(results).toHaveLength(5);
+    expect(total).toBeLessThanOrEqual(150);
+    expect(results.filter(r => r.snippet).length).toBeLessThan(5);
+  });
+
+  it('should keep formatted context within the budget and highlight matches', async () => {
+    for (let i = 0; i < 20; i++) {
+      manager.episodic.record({
+        type: 'error',
+        summary: `Deadlock in migration ${i}`,
+        details: 'Long investigation notes. '.repeat(30) + 'The deadlock came from concurrent index builds.',
+      });
+    }
+
+    const context = await manager.getFormattedContext('deadlock', { maxChars: 1000 });
+
+    expect(context.length).toBeLessThanOrEqual(1000);
+    expect(context).toContain('**Deadlock**');
+    expect(context).toMatch(/more memories omitted/);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * InvertedIndex BM25 ranking tests
+ */
+
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import initSqlJs, { type Database as SqlJsDatabase } from 'sql.js';
+import { InvertedIndex } from '../../src/search/index.js';
+
+describe('InvertedIndex', () => {
+  let SQL: Awaited<ReturnType<typeof initSqlJs>>;
+  let db: SqlJsDatabase;
+  let index: InvertedIndex;
+
+  beforeAll(async () => {
+    SQL = await initSqlJs();
+  });
+
+  beforeEach(() => {
+    db = new SQL.Database();
+    index = new InvertedIndex(db);
+    index.createTable();
+  });
+
+  it('should store one row per field', () => {
+    index.indexDocumentFields('episodic', 'ep1', {
+      summary: 'database timeout',
+      details: 'database query timeout after retry',
+    });
+
+    const rows = db.exec("SELECT field, frequency FROM search_index WHERE term = 'timeout' ORDER BY field");
+    expect(rows[0].values).toEqual([['details', 1], ['summary', 1]]);
+  });
+
+  it('should rank summary matches above details matches', () => {
+    index.indexDocumentFields('episodic', 'in-details', {
+      summary: 'nightly job report',
+      details: 'the cache layer was flushed',
+    });
+    index.indexDocumentFields('episodic', 'in-summary', {
+      summary: 'cache layer flushed',
+      details: 'nightly job report',
+    });
+
+    const results = index.search('cache');
+    expect(results.map(r => r.docId)).toEqual(['in-summary', 'in-details']);
+  });
+
+  it('should not let long details fields dominate', () => {
+    const filler = Array.from({ length: 200 }, (_, i) => `word${i}`).join(' ');
+    index.indexDocumentFields('episodic', 'long', {
+      summary: 'unrelated summary',
+      details: `${filler} deadlock deadlock deadlock ${filler}`,
+    });
+    index.indexDocumentFields('episodic', 'short', {
+      summary: 'unrelated summary',
+      details: 'deadlock in worker',
+    });
+
+    const results = index.search('deadlock');
+    expect(results[0].docId).toBe('short');
+  });
+
+  it('should favor rare terms over common ones', () => {
+    for (let i = 0; i < 5; i++) {
+      index.indexDocumentFields('episodic', `common${i}`, { summary: 'build failed' });
+    }
+    index.indexDocumentFields('episodic', 'rare', { summary: 'segfault during build' });
+    index.indexDocumentFields('episodic', 'failed', { summary: 'segfault failed' });
+
+    const results = index.search('segfault build');
+    expect(results[0].docId).toBe('rare');
+    expect(results.find(r => r.docId === 'failed')!.score)
+      .toBeGreaterThan(results.find(r => r.docId === 'common0')!.score);
+  });
+
+  it('should apply custom field weights', () => {
+    const tagHeavy = new InvertedIndex(db, { fieldWeights: { tags: 10 } });
+    tagHeavy.indexDocumentFields('episodic', 'tagged', { summary: 'weekly sync', tags: 'oauth' });
+    tagHeavy.indexDocumentFields('episodic', 'titled', { summary: 'oauth', tags: 'weekly' });
+
+    expect(tagHeavy.search('oauth')[0].docId).toBe('tagged');
+    expect(index.search('oauth')[0].docId).toBe('titled');
+  });
+
+  it('should remove all field rows for a document', () => {
+    index.indexDocumentFields('semantic', 'ent1', { name: 'redis', description: 'cache server' });
+    expect(index.removeDocument('semantic', 'ent1')).toBe(true);
+
+    expect(index.search('redis')).toHaveLength(0);
+    expect(db.exec('SELECT COUNT(*) FROM search_documents')[0].values[0][0]).toBe(0);
+  });
+
+  it('should filter by document type', () => {
+    index.indexDocumentFields('episodic', 'ep1', { summary: 'kubernetes rollout' });
+    index.indexDocumentFields('semantic', 'ent1', { name: 'kubernetes' });
+
+    const results = index.search('kubernetes', { docTypes: ['semantic'] });
+    expect(results.map(r => r.docId)).toEqual(['ent1']);
+  });
+});
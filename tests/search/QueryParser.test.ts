@@ -0,0 +1,157 @@
+/**
+ * Structured query syntax tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { parseQuery, getSearchText, matchesParsedQuery } from '../../src/search/index.js';
+import { MemoryManager } from '../../src/memory/MemoryManager.js';
+import { rmSync, existsSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('parseQuery', () => {
+  it('should parse filters, phrases and exclusions', () => {
+    const parsed = parseQuery('type:error tag:postgres importance>=7 after:2026-09-01 "connection refused" -flaky');
+
+    expect(parsed.types).toEqual(['error']);
+    expect(parsed.tags).toEqual(['postgres']);
+    expect(parsed.importance).toEqual({ min: 7 });
+    expect(parsed.after).toBe(Date.parse('2026-09-01'));
+    expect(parsed.phrases).toEqual(['connection refused']);
+    expect(parsed.excludedTerms).toEqual(['flaky']);
+    expect(parsed.terms).toEqual([]);
+  });
+
+  it('should treat plain queries as terms', () => {
+    const parsed = parseQuery('auth token no-spread-parent');
+    expect(parsed.terms).toEqual(['auth', 'token', 'no-spread-parent']);
+    expect(getSearchText(parsed)).toBe('auth token no-spread-parent');
+  });
+
+  it('should handle strict comparisons and ranges', () => {
+    const parsed = parseQuery('importance>3 importance<9 confidence>=0.5');
+    expect(parsed.importance).toEqual({ min: 4, max: 8 });
+    expect(parsed.confidence).toEqual({ min: 0.5 });
+  });
+
+  it('should include the whole day named by before:', () => {
+    expect(parseQuery('before:2026-10-01').before).toBe(Date.parse('2026-10-02') - 1);
+    expect(parseQuery('before:2026-10-01T12:00:00Z').before).toBe(Date.parse('2026-10-01T12:00:00Z'));
+  });
+
+  it('should keep unknown keys and invalid dates as text', () => {
+    const parsed = parseQuery('error:timeout after:someday');
+    expect(parsed.terms).toEqual(['error:timeout', 'after:someday']);
+    expect(parsed.after).toBeUndefined();
+  });
+
+  it('should parse excluded tags and phrases', () => {
+    const parsed = parseQuery('-tag:wip -"known issue" deploy');
+    expect(parsed.excludedTags).toEqual(['wip']);
+    expect(parsed.excludedPhrases).toEqual(['known issue']);
+    expect(parsed.terms).toEqual(['deploy']);
+  });
+
+  it('should match parsed queries in memory', () => {
+    const parsed = parseQuery('deploy tag:prod -rollback');
+    expect(matchesParsedQuery(parsed, 'Deploy finished', ['prod'])).toBe(true);
+    expect(matchesParsedQuery(parsed, 'Deploy finished', ['staging'])).toBe(false);
+    expect(matchesParsedQuery(parsed, 'Deploy rollback', ['prod'])).toBe(false);
+  });
+});
+
+describe('Structured queries in memory search', () => {
+  let manager: MemoryManager;
+  const testDataPath = join(tmpdir(), 'cc-memory-test-query-' + Date.now());
+
+  beforeEach(async () => {
+    manager = new MemoryManager({
+      dataPath: testDataPath,
+      sessionId: 'test-session-001',
+    });
+    await manager.getStorage().ready();
+
+    manager.episodic.record({
+      type: 'error',
+      summary: 'Postgres connection refused',
+      details: 'connection refused on port 5432',
+      importance: 8,
+      tags: ['postgres'],
+    });
+    manager.episodic.record({
+      type: 'error',
+      summary: 'Flaky postgres connection test',
+      details: 'connection refused intermittently',
+      importance: 9,
+      tags: ['postgres', 'ci'],
+    });
+    manager.episodic.record({
+      type: 'success',
+      summary: 'Postgres connection pool tuned',
+      details: 'raised max connections',
+      importance: 7,
+      tags: ['postgres'],
+    });
+    manager.episodic.record({
+      type: 'error',
+      summary: 'Minor postgres connection refused',
+      details: 'connection refused once',
+      importance: 3,
+      tags: ['postgres'],
+    });
+  });
+
+  afterEach(() => {
+    manager.close();
+    if (existsSync(testDataPath)) {
+      rmSync(testDataPath, { recursive: true, force: true });
+    }
+  });
+
+  it('should apply every part of a structured episode query', () => {
+    const episodes = manager.episodic.search({
+      query: 'type:error tag:postgres importance>=7 "connection refused" -flaky',
+    });
+
+    expect(episodes.map(ep => ep.summary)).toEqual(['Postgres connection refused']);
+  });
+
+  it('should support filter-only queries', () => {
+    const episodes = manager.episodic.search({ query: 'type:success' });
+    expect(episodes.map(ep => ep.summary)).toEqual(['Postgres connection pool tuned']);
+  });
+
+  it('should include episodes from the day named by before:', () => {
+    const today = new Date().toISOString().slice(0, 10);
+    expect(manager.episodic.search({ query: `type:success before:${today}` })).toHaveLength(1);
+    expect(manager.episodic.search({ query: 'type:success before:2000-01-01' })).toHaveLength(0);
+  });
+
+  it('should apply filters and exclusions to semantic search', () => {
+    manager.semantic.create({ name: 'pg-pool', type: 'config', description: 'Postgres pool size', confidence: 0.9 });
+    manager.semantic.create({ name: 'pg-guess', type: 'fact', description: 'Postgres may leak', confidence: 0.4 });
+    manager.semantic.create({ name: 'pg-legacy', type: 'config', description: 'Postgres legacy setting', confidence: 0.9 });
+
+    const entities = manager.semantic.search({ query: 'postgres confidence>=0.8 -legacy' });
+    expect(entities.map(e => e.name)).toEqual(['pg-pool']);
+  });
+
+  it('should use the syntax in memory_recall for every layer', () => {
+    manager.working.set({ key: 'pg-debug', value: 'postgres retry loop', tags: ['postgres'] });
+    manager.working.set({ key: 'pg-wip', value: 'postgres scratch', tags: ['postgres', 'wip'] });
+
+    const result = manager.recall('postgres -tag:wip type:success');
+    expect(result.working.map(w => w.key)).toEqual(['pg-debug']);
+    expect(result.episodic.map(ep => ep.type)).toEqual(['success']);
+  });
+
+  it('should apply the syntax to shared memory search', () => {
+    const storage = manager.getStorage();
+    const base = { namespace: 'team', visibility: ['*'], owner: 'a', vectorClock: {}, createdAt: 1, updatedAt: 1, syncSeq: 0 };
+    storage.setSharedMemoryItem({ ...base, id: 's1', key: 'db-url', value: 'postgres://primary', tags: ['db'] });
+    storage.setSharedMemoryItem({ ...base, id: 's2', key: 'db-replica', value: 'postgres://replica', tags: ['db', 'replica'] });
+
+    const items = storage.searchSharedMemory('team', 'postgres -tag:replica');
+    expect(items.map(i => i.key)).toEqual(['db-url']);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Transcript full-text indexing tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { MemoryManager } from '../../src/memory/MemoryManager.js';
+import { createToolHandlers } from '../../src/server/tools.js';
+import { createSnippet } from '../../src/search/index.js';
+import type { Transcript } from '../../src/memory/types.js';
+import { rmSync, existsSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+const transcript: Transcript = [
+  { role: 'user', content: 'The build is failing on CI again' },
+  { role: 'assistant', content: 'Looking at the logs now.' },
+  { role: 'user', content: 'Also check the flaky integration tests' },
+  { role: 'assistant', content: 'The failure is caused by a postgres deadlock in the migration step. Retrying with a lock timeout fixes it.' },
+  { role: 'user', content: 'Great, thanks' },
+];
+
+describe('createSnippet', () => {
+  it('should center the snippet on the first match', () => {
+    const text = 'a'.repeat(300) + ' deadlock ' + 'b'.repeat(300);
+    const snippet = createSnippet(text, ['deadlock'], 100);
+
+    expect(snippet.offset).toBe(301);
+    expect(snippet.text).toContain('deadlock');
+    expect(snippet.text.startsWith('…')).toBe(true);
+    expect(snippet.text.endsWith('…')).toBe(true);
+  });
+
+  it('should return -1 when nothing matches', () => {
+    expect(createSnippet('hello world', ['missing']).offset).toBe(-1);
+  });
+});
+
+describe('Transcript search', () => {
+  let manager: MemoryManager;
+  const testDataPath = join(tmpdir(), 'cc-memory-test-transcript-' + Date.now());
+
+  beforeEach(async () => {
+    manager = new MemoryManager({
+      dataPath: testDataPath,
+      sessionId: 'test-session-001',
+    });
+    await manager.getStorage().ready();
+  });
+
+  afterEach(() => {
+    manager.close();
+    if (existsSync(testDataPath)) {
+      rmSync(testDataPath, { recursive: true, force: true });
+    }
+  });
+
+  it('should find episodes through indexed transcript messages', () => {
+    const episode = manager.episodic.record({
+      type: 'error',
+      summary: 'CI build broken',
+      details: 'Fixed after investigation',
+      transcript,
+    });
+    manager.episodic.record({ type: 'success', summary: 'Unrelated', details: 'Nothing here' });
+
+    expect(manager.episodic.search({ query: 'deadlock' })).toHaveLength(0);
+
+    const episodes = manager.episodic.search({ query: 'deadlock', searchTranscript: true });
+    expect(episodes.map(ep => ep.id)).toEqual([episode.id]);
+  });
+
+  it('should match phrases and exclusions against transcript messages', () => {
+    const episode = manager.episodic.record({
+      type: 'error',
+      summary: 'CI build broken',
+      details: 'Fixed after investigation',
+      transcript,
+    });
+    const other = manager.episodic.record({ type: 'error', summary: 'CI build slow', details: 'Cache was cold' });
+
+    const search = (query: string) => manager.episodic.search({ query, searchTranscript: true }).map(ep => ep.id);
+
+    expect(search('"postgres deadlock"')).toEqual([episode.id]);
+    // Both words occur in the transcript, but not as this phrase
+    expect(search('"deadlock postgres"')).toEqual([]);
+    expect(search('build -"lock timeout"')).toEqual([other.id]);
+    expect(search('build -flaky')).toEqual([other.id]);
+  });
+
+  it('should return matching messages with snippets and offsets', () => {
+    const episode = manager.episodic.record({
+      type: 'error',
+      summary: 'CI build broken',
+      details: 'Fixed after investigation',
+      transcript,
+    });
+
+    const matches = manager.episodic.searchTranscripts('postgres deadlock');
+    expect(matches).toHaveLength(1);
+    expect(matches[0].episodeId).toBe(episode.id);
+    expect(matches[0].messageIndex).toBe(3);
+    expect(matches[0].role).toBe('assistant');
+    expect(matches[0].offset).toBe(transcript[3].content.indexOf('postgres'));
+    expect(matches[0].snippet).toContain('postgres deadlock');
+  });
+
+  it('should keep the index in sync when transcripts change or episodes are deleted', () => {
+    const episode = manager.episodic.record({
+      type: 'error',
+      summary: 'CI build broken',
+      details: 'Fixed after investigation',
+      transcript,
+    });
+
+    manager.episodic.addToTranscript(episode.id, [{ role: 'user', content: 'Document the kerberos workaround' }]);
+    expect(manager.episodic.searchTranscripts('kerberos')[0].messageIndex).toBe(transcript.length);
+    expect(manager.episodic.searchTranscripts('deadlock')).toHaveLength(1);
+
+    manager.getStorage().deleteEpisode(episode.id);
+    expect(manager.episodic.searchTranscripts('deadlock')).toHaveLength(0);
+  });
+
+  it('should let episode_get_transcript jump to the matching part', () => {
+    const episode = manager.episodic.record({
+      type: 'error',
+      summary: 'CI build broken',
+      details: 'Fixed after investigation',
+      transcript,
+    });
+    const handlers = createToolHandlers(manager, manager.getStorage());
+
+    const result = handlers.episode_get_transcript({ id: episode.id, query: 'deadlock', context: 1 });
+    expect(result.success).toBe(true);
+    expect(result.targetIndex).toBe(3);
+    expect(result.startIndex).toBe(2);
+    expect(result.transcript).toEqual(transcript.slice(2, 5));
+
+    const search = handlers.episode_search({ query: 'deadlock', search_transcript: true, limit: 10 });
+    expect(search.transcriptMatches?.[0].messageIndex).toBe(3);
+  });
+});
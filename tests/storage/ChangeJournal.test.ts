@@ -0,0 +1,149 @@
+/**
+ * Change journal persistence tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SqliteStorage } from '../../src/storage/SqliteStorage.js';
+import { existsSync, readFileSync, rmSync, statSync, truncateSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('ChangeJournal', () => {
+  let testDataPath: string;
+  let dbPath: string;
+  let journalPath: string;
+  const open: SqliteStorage[] = [];
+
+  async function openStorage(config: { journalCompactionThreshold?: number } = {}): Promise<SqliteStorage> {
+    const storage = new SqliteStorage({ dataPath: testDataPath, externalChangeCheckInterval: 0, ...config });
+    await storage.ready();
+    open.push(storage);
+    return storage;
+  }
+
+  function addEpisode(storage: SqliteStorage, summary: string): string {
+    return storage.addEpisode({
+      type: 'interaction',
+      summary,
+      details: `Details for ${summary}`,
+      importance: 5,
+      tags: [],
+    });
+  }
+
+  beforeEach(() => {
+    testDataPath = join(tmpdir(), 'cc-memory-test-journal-' + Date.now() + '-' + Math.random().toString(36).slice(2));
+    dbPath = join(testDataPath, 'memory.db');
+    journalPath = `${dbPath}.journal`;
+  });
+
+  afterEach(() => {
+    for (const storage of open) storage.close();
+    open.length = 0;
+    if (existsSync(testDataPath)) {
+      rmSync(testDataPath, { recursive: true, force: true });
+    }
+  });
+
+  it('should append changes to the journal instead of rewriting the database', async () => {
+    const storage = await openStorage();
+    addEpisode(storage, 'first change');
+    storage.flush();
+
+    expect(statSync(journalPath).size).toBeGreaterThan(0);
+    expect(existsSync(dbPath)).toBe(false);
+
+    // Reopen without closing (as after a crash): the journal is replayed
+    const recovered = await openStorage();
+    expect(recovered.searchEpisodes({ query: 'first' }).map(e => e.summary)).toEqual(['first change']);
+    expect(existsSync(dbPath)).toBe(true);
+    expect(statSync(journalPath).size).toBe(0);
+  });
+
+  it('should recover everything before a write torn by a kill mid-append', async () => {
+    const storage = await openStorage();
+    addEpisode(storage, 'durable episode');
+    storage.flush();
+    const durableSize = statSync(journalPath).size;
+
+    addEpisode(storage, 'torn episode');
+    storage.flush();
+    const fullSize = statSync(journalPath).size;
+    const journal = readFileSync(journalPath);
+
+    // Cut the last write at several points, as if the process died while appending it
+    for (const cut of [durableSize + 1, Math.floor((durableSize + fullSize) / 2), fullSize - 1]) {
+      writeFileSync(journalPath, journal.subarray(0, cut));
+      rmSync(dbPath, { force: true });
+
+      const recovered = await openStorage();
+      const summaries = recovered.searchEpisodes({}).map(e => e.summary);
+      expect(summaries).toContain('durable episode');
+      expect(summaries).not.toContain('torn episode');
+    }
+  });
+
+  it('should discard a transaction that never committed', async () => {
+    const storage = await openStorage();
+    addEpisode(storage, 'committed');
+    storage.beginTransaction();
+    addEpisode(storage, 'uncommitted');
+    storage.flush();
+
+    const recovered = await openStorage();
+    expect(recovered.searchEpisodes({}).map(e => e.summary)).toEqual(['committed']);
+  });
+
+  it('should not apply entries twice if a crash follows the snapshot rename', async () => {
+    const storage = await openStorage();
+    addEpisode(storage, 'only once');
+    storage.flush();
+    const journal = readFileSync(journalPath);
+
+    storage.compact();
+    // The journal truncation after the rename never happened
+    writeFileSync(journalPath, journal);
+
+    const recovered = await openStorage();
+    expect(recovered.searchEpisodes({}).map(e => e.summary)).toEqual(['only once']);
+  });
+
+  it('should ignore a partially written snapshot', async () => {
+    const storage = await openStorage();
+    addEpisode(storage, 'snapshotted');
+    storage.close();
+
+    // A compaction died before its rename: only the temp file is damaged
+    writeFileSync(`${dbPath}.tmp`, 'garbage');
+    const reopened = await openStorage();
+    expect(reopened.searchEpisodes({}).map(e => e.summary)).toEqual(['snapshotted']);
+  });
+
+  it('should rebuild the search index on replay instead of journaling it', async () => {
+    const storage = await openStorage();
+    addEpisode(storage, 'snapshotted');
+    storage.compact();
+    const id = addEpisode(storage, 'journaled quokka');
+    storage.flush();
+
+    const journal = readFileSync(journalPath, 'utf-8');
+    expect(journal).toContain('episodic_memory');
+    expect(journal).not.toMatch(/search_(index|documents|vectors)/);
+
+    const recovered = await openStorage();
+    expect(recovered.getSearchManager().search('quokka').map(r => r.docId)).toEqual([id]);
+  });
+
+  it('should compact into a snapshot once the journal passes the threshold', async () => {
+    const storage = await openStorage({ journalCompactionThreshold: 1 });
+    addEpisode(storage, 'compacted');
+    storage.flush();
+
+    expect(existsSync(dbPath)).toBe(true);
+    expect(statSync(journalPath).size).toBe(0);
+
+    truncateSync(journalPath, 0);
+    const reopened = await openStorage();
+    expect(reopened.searchEpisodes({}).map(e => e.summary)).toEqual(['compacted']);
+  });
+});
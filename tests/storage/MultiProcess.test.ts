@@ -0,0 +1,193 @@
+/**
+ * Multi-process safety tests
+ *
+ * Each SqliteStorage stands in for a separate server process sharing one data path.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SqliteStorage } from '../../src/storage/SqliteStorage.js';
+import { ProcessLock, LockTimeoutError } from '../../src/storage/ProcessLock.js';
+import { existsSync, rmSync, mkdirSync, writeFileSync, statSync, utimesSync } from 'fs';
+import { spawnSync } from 'child_process';
+import { hostname, tmpdir } from 'os';
+import { join } from 'path';
+
+describe('Multi-process storage', () => {
+  let testDataPath: string;
+  const open: SqliteStorage[] = [];
+
+  async function openStorage(): Promise<SqliteStorage> {
+    const storage = new SqliteStorage({ dataPath: testDataPath, externalChangeCheckInterval: 0 });
+    await storage.ready();
+    open.push(storage);
+    return storage;
+  }
+
+  function addEpisode(storage: SqliteStorage, summary: string): string {
+    return storage.addEpisode({
+      type: 'interaction',
+      summary,
+      details: `Details for ${summary}`,
+      importance: 5,
+      tags: [],
+    });
+  }
+
+  function summaries(storage: SqliteStorage): string[] {
+    return storage.searchEpisodes({}).map(e => e.summary).sort();
+  }
+
+  beforeEach(() => {
+    testDataPath = join(tmpdir(), 'cc-memory-test-multiprocess-' + Date.now() + '-' + Math.random().toString(36).slice(2));
+  });
+
+  afterEach(() => {
+    for (const storage of open) storage.close();
+    open.length = 0;
+    if (existsSync(testDataPath)) {
+      rmSync(testDataPath, { recursive: true, force: true });
+    }
+  });
+
+  it('should keep memories written concurrently by every process', async () => {
+    const a = await openStorage();
+    const b = await openStorage();
+
+    addEpisode(a, 'from window A');
+    addEpisode(b, 'from window B');
+    a.flush();
+    b.flush();
+    a.close();
+    b.close();
+
+    const reopened = await openStorage();
+    expect(summaries(reopened)).toEqual(['from window A', 'from window B']);
+  });
+
+  it('should pick up changes appended by another process on refresh', async () => {
+    const a = await openStorage();
+    const b = await openStorage();
+
+    addEpisode(a, 'written by A');
+    a.flush();
+
+    expect(summaries(b)).toEqual([]);
+    expect(b.refresh()).toBe(true);
+    expect(summaries(b)).toEqual(['written by A']);
+    expect(b.refresh()).toBe(false);
+  });
+
+  it('should re-index only the records another process changed', async () => {
+    const a = await openStorage();
+    const b = await openStorage();
+    const rebuild = vi.spyOn(b, 'rebuildSearchIndex');
+    const found = (query: string) => b.getSearchManager().search(query, { docTypes: ['episodic'] }).map(r => r.docId);
+
+    const id = addEpisode(a, 'zebra crossing');
+    a.flush();
+    b.refresh();
+    expect(found('zebra')).toEqual([id]);
+
+    a.deleteEpisode(id);
+    a.flush();
+    b.refresh();
+    expect(found('zebra')).toEqual([]);
+    expect(rebuild).not.toHaveBeenCalled();
+  });
+
+  it('should reload after another process compacts, keeping unwritten local changes', async () => {
+    const a = await openStorage();
+    const b = await openStorage();
+
+    addEpisode(b, 'pending in B');
+    addEpisode(a, 'compacted by A');
+    a.compact();
+
+    b.flush();
+    expect(summaries(b)).toEqual(['compacted by A', 'pending in B']);
+
+    a.refresh();
+    expect(summaries(a)).toEqual(['compacted by A', 'pending in B']);
+  });
+
+  it('should hold other processes\' changes back until a transaction ends', async () => {
+    const a = await openStorage();
+    const b = await openStorage();
+
+    addEpisode(b, 'before the transaction');
+    b.beginTransaction();
+    addEpisode(b, 'rolled back');
+    addEpisode(a, 'from A during the transaction');
+    a.flush();
+    b.flush();
+    expect(summaries(b)).toEqual(['before the transaction', 'rolled back']);
+    b.rollback();
+
+    expect(b.refresh()).toBe(true);
+    expect(summaries(b)).toEqual(['before the transaction', 'from A during the transaction']);
+    // A caught up with what B wrote before its transaction when it flushed
+    expect(summaries(a)).toEqual(['before the transaction', 'from A during the transaction']);
+  });
+});
+
+describe('ProcessLock', () => {
+  let dir: string;
+  let lockPath: string;
+
+  beforeEach(() => {
+    dir = join(tmpdir(), 'cc-memory-test-lock-' + Date.now() + '-' + Math.random().toString(36).slice(2));
+    mkdirSync(dir, { recursive: true });
+    lockPath = join(dir, 'memory.db.lock');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should be re-entrant and remove the lock file on release', () => {
+    const lock = new ProcessLock(lockPath);
+    lock.acquire();
+    lock.acquire();
+    lock.release();
+    expect(existsSync(lockPath)).toBe(true);
+    lock.release();
+    expect(existsSync(lockPath)).toBe(false);
+  });
+
+  it('should time out while another live process holds the lock', () => {
+    const holder = new ProcessLock(lockPath);
+    holder.acquire();
+
+    const waiter = new ProcessLock(lockPath, { timeoutMs: 50 });
+    expect(() => waiter.acquire()).toThrow(LockTimeoutError);
+    holder.release();
+    expect(() => waiter.withLock(() => undefined)).not.toThrow();
+  });
+
+  it('should keep a long-held lock fresh and leave a lock taken over by another holder', () => {
+    const holder = new ProcessLock(lockPath, { staleMs: 0 });
+    holder.acquire();
+    const old = new Date(Date.now() - 60_000);
+    utimesSync(lockPath, old, old);
+    holder.keepAlive();
+    expect(Date.now() - statSync(lockPath).mtimeMs).toBeLessThan(30_000);
+
+    // Broken as stale while still held, then taken by another holder
+    utimesSync(lockPath, old, old);
+    const other = new ProcessLock(lockPath, { timeoutMs: 50 });
+    other.acquire();
+    holder.release();
+    expect(existsSync(lockPath)).toBe(true);
+    other.release();
+    expect(existsSync(lockPath)).toBe(false);
+  });
+
+  it('should break a lock left by a process that exited', () => {
+    const deadPid = spawnSync(process.execPath, ['-e', '']).pid!;
+    writeFileSync(lockPath, JSON.stringify({ pid: deadPid, hostname: hostname(), acquiredAt: Date.now() }));
+
+    const lock = new ProcessLock(lockPath, { timeoutMs: 50 });
+    expect(() => lock.acquire()).not.toThrow();
+    expect(lock.isHeld()).toBe(true);
+  });
+});
@@ -90,7 +90,7 @@ describe('Tachikoma Parallelization', () => {
       storage.initTachikoma('exporter', 'Exporter');
       const exported = storage.exportDelta();
 
-      expect(exported.version).toBe('1.0.0');
+      expect(exported.version).toBe('1.1.0');
       expect(exported.format).toBe('tachikoma-parallelize-delta');
       expect(exported.tachikomaId).toBe('exporter');
       expect(exported.tachikomaName).toBe('Exporter');
@@ -195,6 +195,70 @@ describe('Tachikoma Parallelization', () => {
       rmSync(storageB_Path, { recursive: true });
     });
 
+    it('should carry validity intervals and observation history', async () => {
+      storage.initTachikoma('tachi-a', 'Tachikoma A');
+      const entity = storage.createSemanticEntity({ name: 'runtime', type: 'fact', description: 'Node version', observations: ['Uses Node 18'] });
+      storage.updateEntity(entity.id, {
+        validFrom: 1000,
+        validTo: 5000,
+        observationHistory: [{ text: 'Uses Node 18', validFrom: 1000, validTo: 3000 }, { text: 'Uses Node 22', validFrom: 3000 }],
+      });
+
+      const exported = storage.exportDelta();
+      expect(exported.delta.semantic.entities[0]).toMatchObject({ validFrom: 1000, validTo: 5000 });
+
+      const storageB_Path = join(process.cwd(), '.test-tachikoma-validity-b');
+      if (existsSync(storageB_Path)) {
+        rmSync(storageB_Path, { recursive: true });
+      }
+      mkdirSync(storageB_Path, { recursive: true });
+      const storageB = new SqliteStorage({ dataPath: storageB_Path });
+      await storageB.initialize();
+      storageB.initTachikoma('tachi-b', 'Tachikoma B');
+      storageB.importDelta(exported);
+
+      const imported = storageB.getEntity('runtime')!;
+      expect(imported.validFrom).toBe(1000);
+      expect(imported.validTo).toBe(5000);
+      expect(imported.observationHistory).toEqual(storage.getEntity('runtime')!.observationHistory);
+
+      storageB.close();
+      rmSync(storageB_Path, { recursive: true });
+    });
+
+    it('should carry merges: aliases, moved relations and the removed duplicate', async () => {
+      storage.initTachikoma('tachi-a', 'Tachikoma A');
+      const target = storage.createSemanticEntity({ name: 'PostgreSQL', type: 'fact', description: 'Database' });
+      const duplicate = storage.createSemanticEntity({ name: 'postgres', type: 'fact', description: 'Database' });
+      const api = storage.createSemanticEntity({ name: 'api', type: 'fact', description: 'Service' });
+      storage.createRelation({ id: 'rel-1', from: api.id, to: duplicate.id, relationType: 'depends_on', strength: 1, createdAt: Date.now() });
+
+      const storageB_Path = join(process.cwd(), '.test-tachikoma-merge-b');
+      if (existsSync(storageB_Path)) {
+        rmSync(storageB_Path, { recursive: true });
+      }
+      mkdirSync(storageB_Path, { recursive: true });
+      const storageB = new SqliteStorage({ dataPath: storageB_Path });
+      await storageB.initialize();
+      storageB.initTachikoma('tachi-b', 'Tachikoma B');
+      storageB.importDelta(storage.exportDelta());
+      await new Promise(resolve => setTimeout(resolve, 5));
+
+      storage.updateEntity(target.id, { aliases: ['postgres'] });
+      storage.mergeEntityInto(duplicate.id, target.id);
+      const merge = storage.exportDelta();
+      expect(merge.delta.semantic.relations.map(r => [r.id, r.to])).toEqual([['rel-1', target.id]]);
+
+      const result = storageB.importDelta(merge, { strategy: 'merge_observations' });
+      expect(result.merged.semantic.relations).toBe(1);
+      expect(storageB.getEntity('PostgreSQL')!.aliases).toEqual(['postgres']);
+      expect(storageB.getRelations(api.id).map(r => r.to)).toEqual([target.id]);
+      expect(storageB.getEntity(duplicate.id)).toBeNull();
+
+      storageB.close();
+      rmSync(storageB_Path, { recursive: true });
+    });
+
     it('should handle conflicts with merge_learnings strategy', async () => {
       // This tests episodic memory conflict resolution
       storage.initTachikoma('tachi-a', 'Tachikoma A');
@@ -237,6 +301,364 @@ describe('Tachikoma Parallelization', () => {
     });
   });
 
+  describe('tombstones', () => {
+    let storageB: SqliteStorage;
+    const storageB_Path = join(process.cwd(), '.test-tachikoma-tombstones-b');
+
+    beforeEach(async () => {
+      if (existsSync(storageB_Path)) {
+        rmSync(storageB_Path, { recursive: true });
+      }
+      mkdirSync(storageB_Path, { recursive: true });
+      storageB = new SqliteStorage({ dataPath: storageB_Path });
+      await storageB.initialize();
+
+      storage.initTachikoma('tachi-a', 'Tachikoma A');
+      storageB.initTachikoma('tachi-b', 'Tachikoma B');
+    });
+
+    afterEach(() => {
+      storageB.close();
+      if (existsSync(storageB_Path)) {
+        rmSync(storageB_Path, { recursive: true });
+      }
+    });
+
+    it('should propagate deletions and not resurrect deleted records', () => {
+      const entity = storage.createSemanticEntity({ name: 'doomed', type: 'fact', description: 'To be forgotten' });
+      const episodeId = storage.addEpisode({
+        type: 'success',
+        summary: 'Doomed episode',
+        details: 'Details',
+        context: { sessionId: 'test' },
+        importance: 5,
+        tags: [],
+      });
+      storageB.importDelta(storage.exportDelta());
+      expect(storageB.getEntity('doomed')).not.toBeNull();
+
+      storage.deleteEntity(entity.id);
+      storage.deleteEpisode(episodeId);
+      const deletion = storage.exportDelta();
+      expect(deletion.deleted.semantic.entities).toEqual([entity.id]);
+      expect(deletion.deleted.episodic).toEqual([episodeId]);
+      expect(deletion.tombstones![0].syncVector['tachi-a']).toBe(deletion.syncVector['tachi-a']);
+
+      // B still sends the records it had before the deletion arrived
+      const stale = storageB.exportDelta();
+      const result = storage.importDelta(stale);
+      expect(result.merged.semantic.entities).toBe(0);
+      expect(storage.getEntity('doomed')).toBeNull();
+      expect(storage.getEpisode(episodeId)).toBeNull();
+
+      const applied = storageB.importDelta(deletion);
+      expect(applied.deleted).toBe(2);
+      expect(storageB.getEntity('doomed')).toBeNull();
+      expect(storageB.getEpisode(episodeId)).toBeNull();
+    });
+
+    it('should keep a record updated concurrently after the deletion', async () => {
+      const entity = storage.createSemanticEntity({ name: 'contested', type: 'fact', description: 'Original' });
+      storageB.importDelta(storage.exportDelta());
+
+      storage.deleteEntity(entity.id);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      storageB.updateEntity(entity.id, { description: 'Still relevant' });
+
+      const result = storageB.importDelta(storage.exportDelta());
+      expect(result.deleted).toBe(0);
+      expect(result.skipped).toBe(1);
+      expect(storageB.getEntity('contested')!.description).toBe('Still relevant');
+    });
+
+    it('should fast-forward a superseded and aliased entity without losing its relations', () => {
+      const entity = storage.createSemanticEntity({ name: 'mysql', type: 'fact', description: 'Database' });
+      const api = storage.createSemanticEntity({ name: 'api', type: 'fact', description: 'Service' });
+      storage.createRelation({ id: 'rel-db', from: api.id, to: entity.id, relationType: 'depends_on', strength: 1, createdAt: Date.now() });
+      storageB.importDelta(storage.exportDelta());
+
+      const validTo = Date.now();
+      storage.updateEntity(entity.id, { aliases: ['MySQL'], validTo });
+      const result = storageB.importDelta(storage.exportDelta());
+      expect(result.merged.semantic.entities).toBe(1);
+
+      const forwarded = storageB.getEntity(entity.id)!;
+      expect(forwarded.aliases).toEqual(['MySQL']);
+      expect(forwarded.validTo).toBe(validTo);
+      expect(forwarded.vectorClock).toEqual(storage.getEntity(entity.id)!.vectorClock);
+      expect(storageB.getRelations(api.id).map(r => r.id)).toEqual(['rel-db']);
+
+      // An entity of the same name created elsewhere overwrites the local row under its local ID
+      const local = storageB.createSemanticEntity({ name: 'redis', type: 'fact', description: 'Old cache' });
+      const remote = storage.createSemanticEntity({ name: 'redis', type: 'fact', description: 'Cache' });
+      storage.updateEntity(remote.id, { aliases: ['Redis'] });
+      const newer = storageB.importDelta(storage.exportDelta(), { strategy: 'newer_wins' });
+      expect(newer.merged.semantic.entities).toBe(1);
+      expect(storageB.getEntity(local.id)).toMatchObject({ description: 'Cache', aliases: ['Redis'] });
+    });
+
+    it('should propagate cleared working memory and order deletions by clock', () => {
+      const now = Date.now();
+      for (const key of ['expired', 'scratch']) {
+        storage.setWorkingItem({
+          id: `wm-${key}`,
+          type: 'context',
+          key,
+          value: 'temp',
+          metadata: { createdAt: now, updatedAt: now, expiresAt: key === 'expired' ? now - 1 : now + 60_000, sessionId: 'test', priority: 'medium' },
+          tags: [],
+        });
+      }
+      storageB.importDelta(storage.exportDelta());
+
+      expect(storage.clearExpiredWorking()).toBe(1);
+      expect(storage.clearAllWorking()).toBe(1);
+      const cleared = storage.exportDelta();
+      expect(cleared.deleted.working.sort()).toEqual(['expired', 'scratch']);
+
+      // B's stale copy carries a skewed timestamp, but its clock predates the deletion
+      const stale = storageB.exportDelta();
+      for (const item of stale.delta.working) {
+        item.metadata.updatedAt = now + 3_600_000;
+      }
+      const result = storage.importDelta(stale);
+      expect(result.merged.working).toBe(0);
+      expect(storage.listWorkingItems({ includeExpired: true })).toEqual([]);
+
+      expect(storageB.importDelta(cleared).deleted).toBe(2);
+      expect(storageB.listWorkingItems({ includeExpired: true })).toEqual([]);
+    });
+
+    it('should leave out what a vector clock has already seen', () => {
+      storage.createSemanticEntity({ name: 'seen', type: 'fact', description: 'Already synced' });
+      const gone = storage.createSemanticEntity({ name: 'gone', type: 'fact', description: 'Deleted after the sync' });
+      storageB.importDelta(storage.exportDelta());
+      const clockB = storageB.getTachikomaProfile()!.syncVector;
+
+      storage.createSemanticEntity({ name: 'unseen', type: 'fact', description: 'Created after the sync' });
+      storage.deleteEntity(gone.id);
+      const delta = storage.exportDelta(undefined, clockB);
+      expect(delta.delta.semantic.entities.map(e => e.name)).toEqual(['unseen']);
+      expect(delta.deleted.semantic.entities).toEqual([gone.id]);
+    });
+
+    it('should collect tombstones once every peer has acknowledged them', () => {
+      const now = Date.now();
+      storage.setWorkingItem({
+        id: 'wm-scratch',
+        type: 'context',
+        key: 'scratch',
+        value: 'temp',
+        metadata: { createdAt: now, updatedAt: now, expiresAt: now + 60_000, sessionId: 'test', priority: 'medium' },
+        tags: [],
+      });
+      storageB.importDelta(storage.exportDelta());
+      storage.importDelta(storageB.exportDelta());
+
+      storage.deleteWorkingItem('scratch');
+      expect(storage.listTombstones()).toHaveLength(1);
+
+      // B has not imported the deletion yet
+      storage.importDelta(storageB.exportDelta());
+      expect(storage.listTombstones()).toHaveLength(1);
+
+      storageB.importDelta(storage.exportDelta());
+      expect(storageB.getWorkingItem('scratch')).toBeNull();
+
+      storage.importDelta(storageB.exportDelta());
+      expect(storage.listTombstones()).toEqual([]);
+    });
+  });
+
+  describe('DIKW sync', () => {
+    let storageB: SqliteStorage;
+    const storageB_Path = join(process.cwd(), '.test-tachikoma-dikw-b');
+
+    beforeEach(async () => {
+      if (existsSync(storageB_Path)) {
+        rmSync(storageB_Path, { recursive: true });
+      }
+      mkdirSync(storageB_Path, { recursive: true });
+      storageB = new SqliteStorage({ dataPath: storageB_Path });
+      await storageB.initialize();
+
+      storage.initTachikoma('tachi-a', 'Tachikoma A');
+      storageB.initTachikoma('tachi-b', 'Tachikoma B');
+    });
+
+    afterEach(() => {
+      storageB.close();
+      if (existsSync(storageB_Path)) {
+        rmSync(storageB_Path, { recursive: true });
+      }
+    });
+
+    it('should carry patterns, insights and wisdom to another Tachikoma', () => {
+      const pattern = storage.createPattern({ pattern: 'Retry flaky network calls', supportingEpisodes: ['ep-1'] });
+      storage.createInsight({ insight: 'Network errors are transient', sourcePatterns: [pattern.id] });
+      const wisdom = storage.createWisdom({ name: 'retry-with-backoff', principle: 'Retry with backoff', description: 'Back off exponentially' });
+      storage.recordWisdomApplication({ wisdomId: wisdom.id, context: 'API client', result: 'success' });
+
+      const exported = storage.exportDelta();
+      expect(exported.delta.patterns).toHaveLength(1);
+      expect(exported.delta.wisdomApplications).toHaveLength(1);
+
+      const result = storageB.importDelta(exported);
+      expect(result.merged).toMatchObject({ patterns: 1, insights: 1, wisdom: 1, wisdomApplications: 1 });
+      expect(storageB.getPattern(pattern.id)!.supportingEpisodes).toEqual(['ep-1']);
+      expect(storageB.getWisdom('retry-with-backoff')!.successfulApplications).toBe(1);
+      expect(storageB.listPatterns({ query: 'flaky' })).toHaveLength(1);
+    });
+
+    it('should merge knowledge learned on both sides', () => {
+      const patternA = storage.createPattern({ pattern: 'Retry flaky network calls', supportingEpisodes: ['ep-1'] });
+      storage.incrementPatternFrequency(patternA.id, 'ep-2');
+      const patternB = storageB.createPattern({ pattern: 'Retry flaky network calls', supportingEpisodes: ['ep-3'] });
+
+      const insightA = storage.createInsight({ insight: 'Network errors are transient' });
+      storage.updateInsightStatus(insightA.id, 'validated', 'agent-a');
+      const insightB = storageB.createInsight({ insight: 'Network errors are transient' });
+      storageB.updateInsightStatus(insightB.id, 'candidate', 'agent-b');
+
+      const wisdomA = storage.createWisdom({ name: 'retry-with-backoff', principle: 'Retry', description: 'A' });
+      storage.recordWisdomApplication({ wisdomId: wisdomA.id, context: 'API client', result: 'success' });
+      const wisdomB = storageB.createWisdom({ name: 'retry-with-backoff', principle: 'Retry', description: 'B' });
+      storageB.recordWisdomApplication({ wisdomId: wisdomB.id, context: 'Queue consumer', result: 'failure' });
+      storageB.recordWisdomApplication({ wisdomId: wisdomB.id, context: 'Webhook', result: 'success' });
+
+      storageB.importDelta(storage.exportDelta());
+      // Importing the same delta again does not count anything twice
+      storageB.importDelta(storage.exportDelta(0));
+
+      const pattern = storageB.getPattern(patternB.id)!;
+      expect(pattern.supportingEpisodes.sort()).toEqual(['ep-1', 'ep-2', 'ep-3']);
+      expect(pattern.frequency).toBe(3);
+
+      const insight = storageB.getInsight(insightB.id)!;
+      expect(insight.validatedBy.sort()).toEqual(['agent-a', 'agent-b']);
+      expect(insight.status).toBe('validated');
+
+      const wisdom = storageB.getWisdom('retry-with-backoff')!;
+      expect(wisdom.id).toBe(wisdomB.id);
+      expect(wisdom.successfulApplications).toBe(2);
+      expect(wisdom.failedApplications).toBe(1);
+      expect(wisdom.validationCount).toBe(3);
+    });
+
+    it('should still read 1.0.0 deltas without DIKW knowledge', () => {
+      const legacy = storage.exportDelta();
+      legacy.version = '1.0.0';
+      delete legacy.delta.patterns;
+      delete legacy.delta.insights;
+      delete legacy.delta.wisdom;
+      delete legacy.delta.wisdomApplications;
+      delete legacy.tombstones;
+
+      expect(storageB.importDelta(legacy).success).toBe(true);
+      expect(() => storageB.importDelta({ ...legacy, version: '2.0.0' })).toThrow('Unsupported delta version');
+    });
+  });
+
+  describe('record vector clocks', () => {
+    let storageB: SqliteStorage;
+    const storageB_Path = join(process.cwd(), '.test-tachikoma-clocks-b');
+
+    beforeEach(async () => {
+      if (existsSync(storageB_Path)) {
+        rmSync(storageB_Path, { recursive: true });
+      }
+      mkdirSync(storageB_Path, { recursive: true });
+      storageB = new SqliteStorage({ dataPath: storageB_Path });
+      await storageB.initialize();
+
+      storage.initTachikoma('tachi-a', 'Tachikoma A');
+      storageB.initTachikoma('tachi-b', 'Tachikoma B');
+    });
+
+    afterEach(() => {
+      storageB.close();
+      if (existsSync(storageB_Path)) {
+        rmSync(storageB_Path, { recursive: true });
+      }
+    });
+
+    it('should stamp local changes with the next export sequence', () => {
+      const entity = storage.createSemanticEntity({ name: 'clocked', type: 'fact', description: 'v1' });
+      expect(storage.getEntity('clocked')!.vectorClock).toEqual({ 'tachi-a': 1 });
+
+      storage.exportDelta();
+      storage.updateEntity(entity.id, { description: 'v2' });
+      expect(storage.getEntity('clocked')!.vectorClock).toEqual({ 'tachi-a': 2 });
+
+      const episodeId = storage.addEpisode({
+        type: 'success',
+        summary: 'Clocked episode',
+        details: 'Details',
+        context: { sessionId: 'test' },
+        importance: 5,
+        tags: [],
+      });
+      storage.updateEpisode(episodeId, { accessCount: 3, lastAccessed: Date.now() });
+      expect(storage.getEpisode(episodeId)!.vectorClock).toEqual({ 'tachi-a': 2 });
+    });
+
+    it('should fast-forward causally newer edits without a conflict', () => {
+      const entity = storage.createSemanticEntity({ name: 'shared', type: 'fact', description: 'From A', observations: ['a'] });
+      storageB.importDelta(storage.exportDelta());
+
+      storageB.updateEntity(entity.id, { description: 'Edited on B', observations: ['b'] });
+      const result = storage.importDelta(storageB.exportDelta(), { strategy: 'manual', autoResolve: false });
+
+      expect(result.conflicts).toEqual([]);
+      expect(result.merged.semantic.entities).toBe(1);
+      const updated = storage.getEntity('shared')!;
+      expect(updated.description).toBe('Edited on B');
+      expect(updated.observations).toEqual(['b']);
+      expect(updated.vectorClock).toEqual({ 'tachi-a': 1, 'tachi-b': 1 });
+
+      // Sending A's older version back changes nothing
+      const stale = storageB.importDelta(storage.exportDelta(0), { strategy: 'manual', autoResolve: false });
+      expect(stale.conflicts).toEqual([]);
+      expect(storageB.getEntity('shared')!.description).toBe('Edited on B');
+    });
+
+    it('should archive the local version before an import overwrites it', () => {
+      const entity = storage.createSemanticEntity({ name: 'shared', type: 'fact', description: 'From A', observations: ['a'] });
+      storageB.importDelta(storage.exportDelta());
+
+      storageB.updateEntity(entity.id, { description: 'Edited on B' });
+      storage.importDelta(storageB.exportDelta(), { strategy: 'manual', autoResolve: false });
+      expect(storage.getEntityVersions(entity.id).map(v => v.entity.description)).toEqual(['From A']);
+
+      storage.updateEntity(entity.id, { observations: ['a', 'from a'] });
+      storageB.updateEntity(entity.id, { observations: ['a', 'from b'] });
+      storage.importDelta(storageB.exportDelta(0), { strategy: 'merge_observations' });
+
+      const versions = storage.getEntityVersions(entity.id);
+      expect(versions[0].entity.observations).toEqual(['a', 'from a']);
+      expect(storage.getEntity(entity.id)!.version).toBeGreaterThan(versions[0].entity.version);
+    });
+
+    it('should only report concurrent edits as conflicts and converge after merging', () => {
+      const entity = storage.createSemanticEntity({ name: 'contested', type: 'fact', description: 'Original', observations: ['base'] });
+      storageB.importDelta(storage.exportDelta());
+
+      storage.updateEntity(entity.id, { observations: ['base', 'from a'] });
+      storageB.updateEntity(entity.id, { observations: ['base', 'from b'] });
+
+      const manual = storage.importDelta(storageB.exportDelta(0), { strategy: 'manual', autoResolve: false });
+      expect(manual.conflicts).toHaveLength(1);
+
+      storage.importDelta(storageB.exportDelta(0), { strategy: 'merge_observations' });
+      expect(storage.getEntity('contested')!.observations.sort()).toEqual(['base', 'from a', 'from b']);
+
+      // The merged version covers both edits, so B takes it without a conflict
+      const back = storageB.importDelta(storage.exportDelta(0), { strategy: 'manual', autoResolve: false });
+      expect(back.conflicts).toEqual([]);
+      expect(storageB.getEntity('contested')!.observations.sort()).toEqual(['base', 'from a', 'from b']);
+    });
+  });
+
   describe('sync history', () => {
     it('should record sync history on import', async () => {
       storage.initTachikoma('tachi-a', 'Tachikoma A');
@@ -0,0 +1,152 @@
+/**
+ * HttpSyncAdapter tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import express from 'express';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { HttpSyncAdapter } from '../../src/sync/adapters/HttpSyncAdapter.js';
+import { SqliteStorage } from '../../src/storage/SqliteStorage.js';
+import { SyncManager } from '../../src/sync/SyncManager.js';
+import { addApiKey, createApiKeyAuth, createWorkerKey } from '../../src/server/http/auth/apiKey.js';
+import { createSyncRouter } from '../../src/server/http/routes/sync.js';
+import { SyncDeltaStore } from '../../src/server/http/sync/deltaStore.js';
+
+async function supportsListen(): Promise<boolean> {
+  const testServer = createServer((_req, res) => res.end('ok'));
+  try {
+    await new Promise<void>((resolve, reject) => {
+      testServer.once('error', reject);
+      testServer.listen(0, '127.0.0.1', () => resolve());
+    });
+    return true;
+  } catch {
+    return false;
+  } finally {
+    try {
+      testServer.close();
+    } catch {
+      // ignore
+    }
+  }
+}
+
+const canListen = await supportsListen();
+const describeIf = canListen ? describe : describe.skip;
+
+describeIf('HttpSyncAdapter', () => {
+  let server: Server;
+  let baseUrl: string;
+  let apiKey: string;
+  let dir: string;
+  let storageA: SqliteStorage;
+  let storageB: SqliteStorage;
+
+  beforeEach(async () => {
+    const config = { keys: new Map(), teams: new Map() };
+    const worker = createWorkerKey('worker-1', 'alpha', 'manager-1');
+    addApiKey(config, worker.rawKey, worker.keyInfo);
+    apiKey = worker.rawKey;
+
+    const app = express();
+    app.use(express.json());
+    app.use('/api/sync', createApiKeyAuth(config), createSyncRouter({ store: new SyncDeltaStore({ maxDeltasPerNamespace: 3 }), maxPullLimit: 1 }));
+    server = createServer(app);
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(0, '127.0.0.1', () => resolve());
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+
+    dir = mkdtempSync(join(tmpdir(), 'cc-memory-http-sync-'));
+    storageA = new SqliteStorage({ dataPath: join(dir, 'a') });
+    storageB = new SqliteStorage({ dataPath: join(dir, 'b') });
+    await storageA.initialize();
+    await storageB.initialize();
+    storageA.initTachikoma('tachi-a', 'Tachikoma A');
+    storageB.initTachikoma('tachi-b', 'Tachikoma B');
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    storageA.close();
+    storageB.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('syncs deltas between Tachikomas through the server', async () => {
+    const adapterA = new HttpSyncAdapter({ baseUrl, apiKey, namespace: 'team:alpha' });
+    const adapterB = new HttpSyncAdapter({ baseUrl, apiKey, namespace: 'team:alpha' });
+    adapterA.setTachikomaId('tachi-a');
+    adapterB.setTachikomaId('tachi-b');
+    await adapterA.initialize();
+    await adapterB.initialize();
+
+    storageA.createSemanticEntity({ name: 'postgres', type: 'fact', description: 'Main database' });
+    const pushA = await adapterA.push(storageA.exportDelta());
+    expect(pushA).toEqual({ success: true, syncedItems: 1, conflicts: [] });
+    storageB.createSemanticEntity({ name: 'redis', type: 'fact', description: 'Cache' });
+    expect((await adapterB.push(storageB.exportDelta())).success).toBe(true);
+
+    // Own deltas are skipped, and pulling continues over pages
+    const pulled = await adapterB.pull();
+    expect(pulled.map(delta => delta.tachikomaId)).toEqual(['tachi-a']);
+    storageB.importDelta(pulled[0]);
+    expect(storageB.getEntity('postgres')).not.toBeNull();
+    expect(adapterB.getCursor()).toBe(2);
+    expect(await adapterB.pull()).toEqual([]);
+
+    const status = await adapterA.getStatus();
+    expect(status).toMatchObject({ connected: true, pendingChanges: 2 });
+  });
+
+  it('keeps the cursor in storage, resyncs after dropped deltas and pushes only new changes', async () => {
+    const adapterA = new HttpSyncAdapter({ baseUrl, apiKey });
+    adapterA.setTachikomaId('tachi-a');
+    await adapterA.initialize();
+    for (const name of ['one', 'two', 'three', 'four']) {
+      storageA.createSemanticEntity({ name, type: 'fact', description: name });
+      await adapterA.push(storageA.exportDelta());
+    }
+
+    // The server only keeps cursors 2-4, so B starts from the oldest one
+    const managerB = new SyncManager(storageB);
+    const adapterB = new HttpSyncAdapter({ baseUrl, apiKey });
+    adapterB.setTachikomaId('tachi-b');
+    await managerB.addAdapter('http', adapterB);
+    const pulled = await managerB.pullFromAll();
+    expect(pulled.get('http')!.success).toBe(true);
+    expect(storageB.getEntity('two')).not.toBeNull();
+    expect(storageB.getSyncAdapterState('http')).toMatchObject({ cursor: 4 });
+
+    storageB.createSemanticEntity({ name: 'redis', type: 'fact', description: 'Cache' });
+    expect((await managerB.pushToAll()).get('http')!.syncedItems).toBeGreaterThanOrEqual(1);
+    expect((await managerB.pushToAll()).get('http')!.syncedItems).toBe(0);
+    await managerB.close();
+
+    // A restarted process resumes from the stored cursor
+    const restarted = new SyncManager(storageB);
+    const adapterB2 = new HttpSyncAdapter({ baseUrl, apiKey });
+    await restarted.addAdapter('http', adapterB2);
+    expect(adapterB2.getCursor()).toBe(4);
+    await restarted.close();
+  });
+
+  it('reports server errors without losing the cursor', async () => {
+    const adapter = new HttpSyncAdapter({ baseUrl, apiKey: 'wrong-key' });
+    await adapter.initialize();
+
+    const result = await adapter.push(storageA.exportDelta());
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('401');
+    await expect(adapter.pull()).rejects.toThrow('Invalid API key');
+    expect(adapter.getCursor()).toBe(0);
+    expect(await adapter.getStatus()).toMatchObject({ connected: false, pendingChanges: 0 });
+
+    await expect(new HttpSyncAdapter({ baseUrl, apiKey: '' }).initialize()).rejects.toThrow('API key is required');
+  });
+});
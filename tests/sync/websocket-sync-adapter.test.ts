@@ -0,0 +1,174 @@
+/**
+ * WebSocketSyncAdapter tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { WebSocketServer } from 'ws';
+import { WebSocketSyncAdapter } from '../../src/sync/adapters/WebSocketSyncAdapter.js';
+import { WebSocketSyncServer } from '../../src/server/websocket/SyncServer.js';
+import { createWorkerKey, hashApiKey } from '../../src/server/http/auth/apiKey.js';
+import type { ApiKeyInfoV2 } from '../../src/server/http/auth/types.js';
+import type { ParallelizationExport } from '../../src/memory/types.js';
+
+function createDelta(tachikomaId: string, exportedAt: number): ParallelizationExport {
+  return {
+    version: '1.1.0',
+    format: 'tachikoma-parallelize-delta',
+    tachikomaId,
+    exportedAt,
+    syncVector: { [tachikomaId]: exportedAt },
+    delta: {
+      working: [],
+      episodic: [],
+      semantic: { entities: [], relations: [] },
+    },
+    deleted: {
+      working: [],
+      episodic: [],
+      semantic: { entities: [], relations: [] },
+    },
+  };
+}
+
+async function waitFor<T>(check: () => T | Promise<T>, timeoutMs: number = 3000): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const value = await check();
+    if (value) return value;
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+async function supportsListen(): Promise<boolean> {
+  const testServer = createServer((_req, res) => res.end('ok'));
+  try {
+    await new Promise<void>((resolve, reject) => {
+      testServer.once('error', reject);
+      testServer.listen(0, '127.0.0.1', () => resolve());
+    });
+    return true;
+  } catch {
+    return false;
+  } finally {
+    try {
+      testServer.close();
+    } catch {
+      // ignore
+    }
+  }
+}
+
+const canListen = await supportsListen();
+const describeIf = canListen ? describe : describe.skip;
+
+describeIf('WebSocketSyncAdapter', () => {
+  const apiKeys = new Map<string, ApiKeyInfoV2>();
+  const keyA = createWorkerKey('worker-a', 'alpha', 'manager-1');
+  const keyB = createWorkerKey('worker-b', 'alpha', 'manager-1');
+  apiKeys.set(hashApiKey(keyA.rawKey), keyA.keyInfo);
+  apiKeys.set(hashApiKey(keyB.rawKey), keyB.keyInfo);
+
+  let server: Server;
+  let wss: WebSocketServer;
+  let syncServer: WebSocketSyncServer;
+  let serverUrl: string;
+  let adapters: WebSocketSyncAdapter[];
+
+  const startServer = async (port: number = 0) => {
+    server = createServer();
+    wss = new WebSocketServer({ server, path: '/sync' });
+    syncServer = new WebSocketSyncServer({ apiKeys, teams: new Map() });
+    wss.on('connection', (ws) => syncServer.handleConnection(ws));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', () => resolve());
+    });
+    serverUrl = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/sync`;
+  };
+
+  const stopServer = async () => {
+    syncServer.stop();
+    wss.close();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  };
+
+  const createAdapter = (apiKey: string, tachikomaId: string) => {
+    const adapter = new WebSocketSyncAdapter({ serverUrl, apiKey, reconnectInterval: 20 });
+    adapter.setTachikomaId(tachikomaId);
+    adapters.push(adapter);
+    return adapter;
+  };
+
+  beforeEach(async () => {
+    adapters = [];
+    await startServer();
+  });
+
+  afterEach(async () => {
+    for (const adapter of adapters) {
+      await adapter.close();
+    }
+    await stopServer();
+  });
+
+  it('streams pushed deltas to the team room and answers sync requests', async () => {
+    const adapterA = createAdapter(keyA.rawKey, 'tachi-a');
+    const adapterB = createAdapter(keyB.rawKey, 'tachi-b');
+    await adapterA.initialize();
+    await adapterB.initialize();
+    expect(syncServer.getRoomMembers('team:alpha')).toHaveLength(2);
+
+    const received: ParallelizationExport[] = [];
+    adapterA.onSync(delta => received.push(delta));
+
+    // B has no callback, so its deltas wait for pull()
+    expect(await adapterA.push(createDelta('tachi-a', 1))).toMatchObject({ success: true });
+    const pulled = await waitFor(async () => {
+      const deltas = await adapterB.pull();
+      return deltas.length > 0 ? deltas : undefined;
+    });
+    expect(pulled.map(d => d.exportedAt)).toEqual([1]);
+
+    await adapterB.push(createDelta('tachi-b', 2));
+    await waitFor(() => received.length === 1);
+    expect(received[0].tachikomaId).toBe('tachi-b');
+
+    adapterA.setDeltaProvider(() => createDelta('tachi-a', 3));
+    const answered = await adapterB.requestSync('worker-a');
+    expect(answered.map(d => d.exportedAt)).toEqual([3]);
+
+    const batch = await syncServer.requestSync('worker-a', 'worker-b', undefined, 1000);
+    expect(batch.events[0].data.value).toMatchObject({ tachikomaId: 'tachi-a', exportedAt: 3 });
+  });
+
+  it('queues deltas while offline and sends them after reconnecting', async () => {
+    const port = (server.address() as AddressInfo).port;
+    await stopServer();
+
+    const adapterA = createAdapter(keyA.rawKey, 'tachi-a');
+    await adapterA.initialize();
+    expect(await adapterA.push(createDelta('tachi-a', 1))).toMatchObject({ success: false, syncedItems: 0, queued: 1, dropped: 0 });
+    expect(await adapterA.getStatus()).toMatchObject({ connected: false, pendingChanges: 1 });
+
+    await startServer(port);
+    const adapterB = createAdapter(keyB.rawKey, 'tachi-b');
+    await adapterB.initialize();
+
+    await waitFor(async () => (await adapterA.getStatus()).connected);
+    const pulled = await waitFor(async () => {
+      const deltas = await adapterB.pull();
+      return deltas.length > 0 ? deltas : undefined;
+    });
+    expect(pulled.map(d => d.exportedAt)).toEqual([1]);
+    expect(await adapterA.getStatus()).toMatchObject({ connected: true, pendingChanges: 0 });
+  });
+
+  it('rejects an unknown API key without retrying', async () => {
+    const adapter = createAdapter('wrong-key', 'tachi-x');
+    await expect(adapter.initialize()).rejects.toThrow('Invalid API key');
+    expect(await adapter.getStatus()).toMatchObject({ connected: false, error: 'Invalid API key' });
+  });
+});